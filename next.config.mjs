@@ -2,7 +2,9 @@
 const nextConfig = {
   experimental: {
     typedRoutes: true
-  }
+  },
+  // pdf.js loads its worker module from its own package at runtime.
+  serverExternalPackages: ["pdfjs-dist"]
 };
 
 export default nextConfig;
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getFigureStore, isFigureKey } from "@/lib/figureStore";
+
+export const runtime = "nodejs";
+
+/**
+ * Serves an extracted figure from the figure store. Figure keys include the book hash
+ * and page, so a key's content never changes and can be cached for good.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ key: string[] }> }) {
+  const key = (await params).key.join("/");
+
+  if (!isFigureKey(key) || !/\.(?:png|jpg)$/.test(key)) {
+    return NextResponse.json({ error: "Figure not found." }, { status: 404 });
+  }
+
+  try {
+    const file = await getFigureStore().get(key);
+
+    if (!file) {
+      return NextResponse.json({ error: "Figure not found." }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.bytes), {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load the figure.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore } from "../jobStore";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get("jobId");
+  const topic = request.nextUrl.searchParams.get("topic");
+  const questionId = request.nextUrl.searchParams.get("questionId");
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing jobId parameter." }, { status: 400 });
+  }
+
+  const jobStore = getJobStore();
+  const record = await jobStore.get(jobId);
+
+  if (!record) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  const trails = (record.questionAudit ?? []).filter(
+    (trail) =>
+      (!topic || trail.topic === topic) && (!questionId || trail.questionId === questionId),
+  );
+
+  return NextResponse.json({
+    jobId: record.id,
+    validationRuns: record.validationRuns ?? 0,
+    trails,
+  });
+}
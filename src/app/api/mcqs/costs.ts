@@ -0,0 +1,357 @@
+import { ensureSchema, getDbPool } from "@/lib/db";
+import { isMockLlmMode } from "@/lib/llm";
+import { computeCost, computeUsdCost, fromUsd, getCostCurrency, getModelPrice } from "@/lib/llm/pricing";
+import type { LlmStage, LlmUsage } from "@/lib/llm/types";
+import type { JobRecord } from "./jobStore";
+
+export type CostStage = LlmStage | "embedding";
+
+export interface JobCostTotals {
+  currency: string;
+  total: number;
+  byStage: Partial<Record<CostStage, { cost: number; calls: number }>>;
+  /** Cost per `provider:model`. */
+  byModel: Record<string, number>;
+}
+
+export const COST_GROUP_FIELDS = ["class", "subject", "syllabus", "chapter", "day", "model", "stage"] as const;
+export type CostGroupField = (typeof COST_GROUP_FIELDS)[number];
+
+export interface CostReportRow {
+  group: Partial<Record<CostGroupField, string | number | null>>;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  calls: number;
+  jobs: number;
+}
+
+// One row per model call, so spend survives the in-memory job store and can be
+// regrouped later. Chapter and subject details are copied from the job payload.
+// `cost` is in the row's `currency`; totals sum `cost_usd` and convert the result,
+// so changing the reporting currency never adds amounts in different currencies.
+// Rows from before `cost_usd` were priced in USD.
+const COST_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_cost_entries (
+    id BIGSERIAL PRIMARY KEY,
+    job_id TEXT,
+    stage TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cost NUMERIC(14, 6) NOT NULL,
+    currency TEXT NOT NULL,
+    cost_usd NUMERIC(14, 6),
+    class_level INTEGER,
+    subject_name TEXT,
+    syllabus_name TEXT,
+    chapter_number INTEGER,
+    chapter_title TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  "ALTER TABLE mcq_cost_entries ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(14, 6)",
+  "CREATE INDEX IF NOT EXISTS mcq_cost_entries_created_idx ON mcq_cost_entries (created_at)",
+  "CREATE INDEX IF NOT EXISTS mcq_cost_entries_job_idx ON mcq_cost_entries (job_id)",
+];
+
+const GROUP_COLUMNS: Record<CostGroupField, string> = {
+  class: "class_level",
+  subject: "subject_name",
+  syllabus: "syllabus_name",
+  chapter: "chapter_number || ' – ' || chapter_title",
+  day: "to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD')",
+  model: "model",
+  stage: "stage",
+};
+
+function ensureCostSchema(): Promise<void> {
+  return ensureSchema("cost_entries", COST_SCHEMA);
+}
+
+const pendingWrites = new Set<Promise<void>>();
+
+/** Budgets in the reporting currency; unset or non-positive means unlimited. */
+export function getBudgetLimits(): { job: number | null; daily: number | null } {
+  const read = (name: string) => {
+    const value = Number.parseFloat(process.env[name] ?? "");
+    return Number.isFinite(value) && value > 0 ? value : null;
+  };
+  return { job: read("MCQ_JOB_BUDGET"), daily: read("MCQ_DAILY_BUDGET") };
+}
+
+export function formatCost(amount: number, currency = getCostCurrency()): string {
+  return `${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)} ${currency}`;
+}
+
+function writeCostEntry(values: unknown[]) {
+  const write = (async () => {
+    await ensureCostSchema();
+    await getDbPool().query(
+      `INSERT INTO mcq_cost_entries
+        (job_id, stage, model, input_tokens, output_tokens, cost, currency,
+         class_level, subject_name, syllabus_name, chapter_number, chapter_title, cost_usd)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      values,
+    );
+  })().catch((error) => {
+    console.error("[costs] Failed to record a cost entry", error);
+  });
+
+  pendingWrites.add(write);
+  void write.finally(() => pendingWrites.delete(write));
+}
+
+/**
+ * Prices one model call, adds it to the job's totals and appends it to the cost
+ * ledger. Without DATABASE_URL, or with the offline mock, the cost is only kept on
+ * the job. Returns the cost.
+ */
+export function recordJobCost(
+  record: JobRecord,
+  stage: CostStage,
+  model: string,
+  usage: LlmUsage,
+): number {
+  const costUsd = computeUsdCost(model, usage);
+  const cost = fromUsd(costUsd);
+  const currency = getCostCurrency();
+  const totals = (record.cost ??= { currency, total: 0, byStage: {}, byModel: {} });
+  const stageTotals = (totals.byStage[stage] ??= { cost: 0, calls: 0 });
+
+  totals.total += cost;
+  stageTotals.cost += cost;
+  stageTotals.calls += 1;
+  totals.byModel[model] = (totals.byModel[model] ?? 0) + cost;
+
+  if (process.env.DATABASE_URL && !isMockLlmMode()) {
+    const { classLevel, subject, syllabus, chapterNumber, chapterTitle } = record.payload;
+    writeCostEntry([
+      record.id,
+      stage,
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      cost,
+      currency,
+      classLevel,
+      subject?.name ?? null,
+      syllabus?.name ?? null,
+      chapterNumber,
+      chapterTitle,
+      costUsd,
+    ]);
+  }
+
+  return cost;
+}
+
+/** Ledger entry for a call made outside a job, such as topic extraction. */
+export function recordUnattributedCost(
+  stage: CostStage,
+  model: string,
+  usage: LlmUsage,
+  chapter: { chapterNumber?: number | null; chapterTitle?: string | null } = {},
+): number {
+  const costUsd = computeUsdCost(model, usage);
+  const cost = fromUsd(costUsd);
+
+  if (process.env.DATABASE_URL && !isMockLlmMode()) {
+    writeCostEntry([
+      null,
+      stage,
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      cost,
+      getCostCurrency(),
+      null,
+      null,
+      null,
+      chapter.chapterNumber ?? null,
+      chapter.chapterTitle ?? null,
+      costUsd,
+    ]);
+  }
+
+  return cost;
+}
+
+/** Spend recorded since midnight UTC, or null when there is no database to ask. */
+export async function getTodaySpend(): Promise<number | null> {
+  if (!process.env.DATABASE_URL) {
+    return null;
+  }
+
+  await Promise.allSettled([...pendingWrites]);
+  await ensureCostSchema();
+  const { rows } = await getDbPool().query<{ total: string | null }>(
+    `SELECT SUM(COALESCE(cost_usd, cost)) AS total
+       FROM mcq_cost_entries
+      WHERE created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`,
+  );
+  return fromUsd(Number(rows[0]?.total ?? 0));
+}
+
+function budgetError(message: string): Error {
+  const error = new Error(message);
+  Object.assign(error, { status: 402 });
+  return error;
+}
+
+// Estimated cost of calls that have started but not yet been recorded, so
+// parallel calls cannot all pass the budget check on the same spend.
+const reservations = new Map<number, { jobId: string | null; amount: number }>();
+let nextReservationId = 0;
+
+// Used for a stage the job has not called yet: a generous guess for one call.
+const FIRST_CALL_ESTIMATE: LlmUsage = { inputTokens: 20_000, outputTokens: 4_000, totalTokens: 24_000 };
+
+export interface BudgetReservation {
+  /** Drops the estimate; call it once the call's cost has been recorded or the call failed. */
+  release(): void;
+}
+
+/** Reserved amount for one job, or across all calls when `jobId` is omitted. */
+function reservedAmount(jobId?: string): number {
+  let total = 0;
+  for (const reservation of reservations.values()) {
+    if (jobId === undefined || reservation.jobId === jobId) {
+      total += reservation.amount;
+    }
+  }
+  return total;
+}
+
+/**
+ * Estimates the next call of `stage` on `model` and reserves it against the job and
+ * daily budgets, counting calls already in flight. Throws (status 402) when the
+ * call would go past a budget, or when a budget is set and `model` has no price.
+ * The estimate is the job's average for the stage, or a first-call guess.
+ */
+export async function reserveBudget(
+  record: JobRecord | null,
+  stage: CostStage,
+  model: string,
+): Promise<BudgetReservation> {
+  const limits = getBudgetLimits();
+  if (limits.job === null && limits.daily === null) {
+    return { release: () => {} };
+  }
+
+  if (!getModelPrice(model)) {
+    throw budgetError(
+      `${model} has no price, so its ${stage} calls cannot be held to MCQ_JOB_BUDGET or MCQ_DAILY_BUDGET. Add it to MCQ_MODEL_PRICES.`,
+    );
+  }
+
+  const stageTotals = record?.cost?.byStage[stage];
+  const estimate = stageTotals && stageTotals.calls > 0
+    ? stageTotals.cost / stageTotals.calls
+    : computeCost(model, FIRST_CALL_ESTIMATE);
+
+  if (record && limits.job !== null) {
+    const spent = record.cost?.total ?? 0;
+    const inFlight = reservedAmount(record.id);
+    if (spent + inFlight + estimate > limits.job) {
+      throw budgetError(
+        `Job budget of ${formatCost(limits.job)} reached: ${formatCost(spent)} spent, ${formatCost(inFlight)} in flight and the next ${stage} call is estimated at ${formatCost(estimate)}. Raise MCQ_JOB_BUDGET and resume the job to continue.`,
+      );
+    }
+  }
+
+  if (limits.daily !== null) {
+    const spentToday = await getTodaySpend().catch((error) => {
+      console.error("[costs] Unable to read today's spend; the daily budget is not enforced", error);
+      return null;
+    });
+    // Read after the await so calls reserved meanwhile are counted.
+    const inFlight = reservedAmount();
+    if (spentToday !== null && spentToday + inFlight + estimate > limits.daily) {
+      throw budgetError(
+        `Daily budget of ${formatCost(limits.daily)} reached: ${formatCost(spentToday)} spent today (UTC) and ${formatCost(inFlight)} in flight. Raise MCQ_DAILY_BUDGET or wait until tomorrow.`,
+      );
+    }
+  }
+
+  const id = nextReservationId++;
+  reservations.set(id, { jobId: record?.id ?? null, amount: estimate });
+  return { release: () => void reservations.delete(id) };
+}
+
+/** Checks the budgets for one more call of `stage` without reserving it. */
+export async function assertWithinBudget(record: JobRecord | null, stage: CostStage, model: string): Promise<void> {
+  (await reserveBudget(record, stage, model)).release();
+}
+
+/**
+ * Runs `call` under a budget reservation. `call` should record the call's cost
+ * before it returns so the spend is never counted twice or not at all.
+ */
+export async function withinBudget<T>(
+  record: JobRecord | null,
+  stage: CostStage,
+  model: string,
+  call: () => Promise<T>,
+): Promise<T> {
+  const reservation = await reserveBudget(record, stage, model);
+  try {
+    return await call();
+  } finally {
+    reservation.release();
+  }
+}
+
+/**
+ * Aggregates the cost ledger by the given fields. `from` and `to` are inclusive
+ * UTC dates (`YYYY-MM-DD`).
+ */
+export async function summarizeCosts(options: {
+  groupBy: CostGroupField[];
+  from?: string | null;
+  to?: string | null;
+  subject?: string | null;
+  classLevel?: number | null;
+}): Promise<CostReportRow[]> {
+  await ensureCostSchema();
+
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  const addCondition = (sql: string, value: unknown) => {
+    values.push(value);
+    conditions.push(sql.replace("?", `$${values.length}`));
+  };
+
+  if (options.from) {
+    addCondition("created_at >= (?::date)::timestamp AT TIME ZONE 'UTC'", options.from);
+  }
+  if (options.to) {
+    addCondition("created_at < (?::date + 1)::timestamp AT TIME ZONE 'UTC'", options.to);
+  }
+  if (options.subject) {
+    addCondition("subject_name = ?", options.subject);
+  }
+  if (typeof options.classLevel === "number") {
+    addCondition("class_level = ?", options.classLevel);
+  }
+
+  const groupColumns = options.groupBy.map((field, index) => `${GROUP_COLUMNS[field]} AS g${index}`);
+  const groupRefs = options.groupBy.map((_, index) => `g${index}`);
+
+  const { rows } = await getDbPool().query<Record<string, string | number | null>>(
+    `SELECT ${[...groupColumns, "SUM(COALESCE(cost_usd, cost)) AS cost", "SUM(input_tokens) AS input_tokens",
+      "SUM(output_tokens) AS output_tokens", "COUNT(*) AS calls", "COUNT(DISTINCT job_id) AS jobs"].join(", ")}
+       FROM mcq_cost_entries
+       ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+       ${groupRefs.length > 0 ? `GROUP BY ${groupRefs.join(", ")} ORDER BY ${groupRefs.join(", ")}` : ""}`,
+    values,
+  );
+
+  return rows.map((row) => ({
+    group: Object.fromEntries(options.groupBy.map((field, index) => [field, row[`g${index}`] ?? null])),
+    cost: fromUsd(Number(row.cost ?? 0)),
+    inputTokens: Number(row.input_tokens ?? 0),
+    outputTokens: Number(row.output_tokens ?? 0),
+    calls: Number(row.calls ?? 0),
+    jobs: Number(row.jobs ?? 0),
+  }));
+}
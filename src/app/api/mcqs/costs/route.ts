@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCostCurrency } from "@/lib/llm/pricing";
+import {
+  COST_GROUP_FIELDS,
+  getBudgetLimits,
+  getTodaySpend,
+  summarizeCosts,
+  type CostGroupField,
+} from "../costs";
+
+export const runtime = "nodejs";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const groupBy = [...new Set(
+    (params.get("groupBy") ?? "day")
+      .split(",")
+      .map((field) => field.trim().toLowerCase())
+      .filter(Boolean),
+  )];
+  const unknown = groupBy.filter((field) => !COST_GROUP_FIELDS.includes(field as CostGroupField));
+
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown groupBy field(s): ${unknown.join(", ")}. Use ${COST_GROUP_FIELDS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  const from = params.get("from");
+  const to = params.get("to");
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json({ error: "from and to must be dates (YYYY-MM-DD)." }, { status: 400 });
+  }
+
+  const rawClass = params.get("classLevel");
+  const classLevel = rawClass ? Number.parseInt(rawClass, 10) : null;
+  if (rawClass && !Number.isInteger(classLevel)) {
+    return NextResponse.json({ error: "classLevel must be a number." }, { status: 400 });
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "Cost reports need DATABASE_URL; costs are only kept on in-memory jobs." },
+      { status: 503 },
+    );
+  }
+
+  try {
+    const rows = await summarizeCosts({
+      groupBy: groupBy as CostGroupField[],
+      from,
+      to,
+      subject: params.get("subject"),
+      classLevel,
+    });
+
+    return NextResponse.json({
+      currency: getCostCurrency(),
+      groupBy,
+      rows,
+      total: rows.reduce((sum, row) => sum + row.cost, 0),
+      budgets: { ...getBudgetLimits(), spentToday: await getTodaySpend() },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load the cost report.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
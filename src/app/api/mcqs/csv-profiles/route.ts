@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CSV_FIELDS,
+  deleteCsvProfile,
+  isBuiltInCsvProfile,
+  listCsvProfiles,
+  normalizeProfileName,
+  parseCsvProfile,
+  saveCsvProfile,
+} from "../csvProfiles";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const profiles = await listCsvProfiles();
+    return NextResponse.json({ profiles, fields: CSV_FIELDS });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to list CSV profiles.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { profile, error } = parseCsvProfile(body);
+
+    if (!profile) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (isBuiltInCsvProfile(profile.name)) {
+      return NextResponse.json(
+        { error: `The ${profile.name} profile is built in and cannot be changed.` },
+        { status: 400 },
+      );
+    }
+
+    await saveCsvProfile(profile);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save the CSV profile.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const name = normalizeProfileName(request.nextUrl.searchParams.get("name") ?? "");
+
+  if (!name) {
+    return NextResponse.json({ error: "Missing name parameter." }, { status: 400 });
+  }
+
+  if (isBuiltInCsvProfile(name)) {
+    return NextResponse.json(
+      { error: `The ${name} profile is built in and cannot be deleted.` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const deleted = await deleteCsvProfile(name);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "CSV profile not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: name });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to delete the CSV profile.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
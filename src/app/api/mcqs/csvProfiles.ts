@@ -0,0 +1,221 @@
+import { ensureSchema, getDbPool } from "@/lib/db";
+
+export const CSV_FIELDS = [
+  "topic",
+  "stem",
+  "option_a",
+  "option_b",
+  "option_c",
+  "option_d",
+  "correct_letter",
+  "correct_index",
+  "correct_text",
+  "explanation",
+  "bloom",
+  "difficulty",
+  "type",
+  "format",
+  "image_url",
+  "source_spans",
+  "source_pages",
+  "question_id",
+  "chapter_number",
+  "chapter_title",
+  "class",
+  "subject",
+  "syllabus",
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/**
+ * How `source_spans` is flattened into one cell: `pages` keeps the page numbers,
+ * `snippets` the quoted text and `page_snippets` both, e.g. `p. 12: "Light travels…"`.
+ */
+export type CsvSpanFormat = "pages" | "snippets" | "page_snippets";
+
+export interface CsvColumn {
+  field: CsvField;
+  header: string;
+}
+
+export interface CsvExportProfile {
+  name: string;
+  description?: string;
+  columns: CsvColumn[];
+  delimiter: CsvDelimiter;
+  includeBom: boolean;
+  spanFormat: CsvSpanFormat;
+  /** Joins the entries of a flattened `source_spans` cell. */
+  spanSeparator: string;
+}
+
+/** The layout the app has always produced; it cannot be overwritten or deleted. */
+export const DEFAULT_CSV_PROFILE: CsvExportProfile = {
+  name: "default",
+  description: "Topic, question, four options, correct letter and explanation.",
+  columns: [
+    { field: "topic", header: "Topic" },
+    { field: "stem", header: "Question_text" },
+    { field: "option_a", header: "Option A" },
+    { field: "option_b", header: "Option B" },
+    { field: "option_c", header: "Option C" },
+    { field: "option_d", header: "Option D" },
+    { field: "correct_letter", header: "Correct_Answer" },
+    { field: "explanation", header: "Explanation" },
+  ],
+  delimiter: ",",
+  includeBom: true,
+  spanFormat: "pages",
+  spanSeparator: "; ",
+};
+
+/** The default layout plus the URL of each question's figure, for jobs with diagram questions. */
+export const FIGURES_CSV_PROFILE: CsvExportProfile = {
+  ...DEFAULT_CSV_PROFILE,
+  name: "figures",
+  description: "The default columns plus the figure's image URL.",
+  columns: [...DEFAULT_CSV_PROFILE.columns, { field: "image_url", header: "Image_URL" }],
+};
+
+const BUILT_IN_CSV_PROFILES = [DEFAULT_CSV_PROFILE, FIGURES_CSV_PROFILE];
+
+/** Built-in profiles are always available and cannot be overwritten or deleted. */
+export function isBuiltInCsvProfile(name: string): boolean {
+  const normalized = normalizeProfileName(name);
+  return BUILT_IN_CSV_PROFILES.some((profile) => profile.name === normalized);
+}
+
+const CSV_PROFILE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_csv_profiles (
+     name TEXT PRIMARY KEY,
+     profile JSONB NOT NULL,
+     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+   )`,
+];
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+function ensureCsvProfileSchema(): Promise<void> {
+  return ensureSchema("csv_profiles", CSV_PROFILE_SCHEMA);
+}
+
+export function normalizeProfileName(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+/**
+ * Validates a profile submitted by a client. Returns the cleaned profile, or an error
+ * message describing the first problem found.
+ */
+export function parseCsvProfile(
+  raw: unknown,
+): { profile: CsvExportProfile; error?: undefined } | { profile?: undefined; error: string } {
+  if (!raw || typeof raw !== "object") {
+    return { error: "Profile must be an object." };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const name = typeof input.name === "string" ? normalizeProfileName(input.name) : "";
+
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    return {
+      error: "Profile name must be 1–64 characters of lowercase letters, digits, '-' or '_'.",
+    };
+  }
+
+  if (!Array.isArray(input.columns) || input.columns.length === 0) {
+    return { error: "Profile needs at least one column." };
+  }
+
+  const columns: CsvColumn[] = [];
+  for (const [index, entry] of input.columns.entries()) {
+    const column = (entry ?? {}) as Record<string, unknown>;
+    const field = column.field;
+
+    if (typeof field !== "string" || !(CSV_FIELDS as readonly string[]).includes(field)) {
+      return {
+        error: `Column ${index + 1} has an unknown field. Supported fields: ${CSV_FIELDS.join(", ")}.`,
+      };
+    }
+
+    const header = typeof column.header === "string" && column.header.trim()
+      ? column.header.trim()
+      : field;
+    columns.push({ field: field as CsvField, header });
+  }
+
+  const delimiter = input.delimiter ?? DEFAULT_CSV_PROFILE.delimiter;
+  if (!(CSV_DELIMITERS as readonly unknown[]).includes(delimiter)) {
+    return { error: "Delimiter must be one of ',', ';', '|' or a tab." };
+  }
+
+  const spanFormat = input.spanFormat ?? DEFAULT_CSV_PROFILE.spanFormat;
+  if (spanFormat !== "pages" && spanFormat !== "snippets" && spanFormat !== "page_snippets") {
+    return { error: "spanFormat must be pages, snippets or page_snippets." };
+  }
+
+  return {
+    profile: {
+      name,
+      description: typeof input.description === "string" && input.description.trim()
+        ? input.description.trim()
+        : undefined,
+      columns,
+      delimiter: delimiter as CsvDelimiter,
+      includeBom: input.includeBom === undefined ? true : input.includeBom === true,
+      spanFormat,
+      spanSeparator: typeof input.spanSeparator === "string" && input.spanSeparator.length > 0
+        ? input.spanSeparator
+        : DEFAULT_CSV_PROFILE.spanSeparator,
+    },
+  };
+}
+
+export async function listCsvProfiles(): Promise<CsvExportProfile[]> {
+  await ensureCsvProfileSchema();
+  const result = await getDbPool().query<{ profile: CsvExportProfile }>(
+    `SELECT profile FROM mcq_csv_profiles ORDER BY name`,
+  );
+  return [...BUILT_IN_CSV_PROFILES, ...result.rows.map((row) => row.profile)];
+}
+
+/** Looks a profile up by name; the built-in profiles are always available, even without a database. */
+export async function getCsvProfile(name: string): Promise<CsvExportProfile | null> {
+  const normalized = normalizeProfileName(name);
+  const builtIn = BUILT_IN_CSV_PROFILES.find((profile) => profile.name === normalized);
+
+  if (builtIn) {
+    return builtIn;
+  }
+
+  await ensureCsvProfileSchema();
+  const result = await getDbPool().query<{ profile: CsvExportProfile }>(
+    `SELECT profile FROM mcq_csv_profiles WHERE name = $1`,
+    [normalized],
+  );
+  return result.rows[0]?.profile ?? null;
+}
+
+export async function saveCsvProfile(profile: CsvExportProfile): Promise<void> {
+  await ensureCsvProfileSchema();
+  await getDbPool().query(
+    `INSERT INTO mcq_csv_profiles (name, profile)
+     VALUES ($1, $2)
+     ON CONFLICT (name) DO UPDATE SET profile = EXCLUDED.profile, updated_at = NOW()`,
+    [profile.name, JSON.stringify(profile)],
+  );
+}
+
+export async function deleteCsvProfile(name: string): Promise<boolean> {
+  await ensureCsvProfileSchema();
+  const result = await getDbPool().query(`DELETE FROM mcq_csv_profiles WHERE name = $1`, [
+    normalizeProfileName(name),
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,148 @@
+import type OpenAI from "openai";
+import { getDbPool } from "@/lib/db";
+import {
+  createEmbeddingSimilarity,
+  lexicalSimilarity,
+  type SimilarityScorer,
+} from "@/lib/similarity";
+import type { StoredMcqItem } from "./jobStore";
+import { choiceTexts } from "./questionFormats";
+import { getPersistenceMode } from "./questionVersions";
+
+export interface DedupReference {
+  topic: string;
+  stem: string;
+  options: string[];
+  /** Stored questions only count against new questions of the same topic. */
+  source: "chapter" | "stored";
+}
+
+export interface DuplicateMatch {
+  topic: string;
+  index: number;
+  item: StoredMcqItem;
+  score: number;
+  duplicateOf: DedupReference;
+}
+
+export interface DedupSettings {
+  scorer: SimilarityScorer;
+  threshold: number;
+}
+
+/**
+ * Reads the de-duplication settings: `MCQ_DEDUP_SIMILARITY` picks `lexical` (default),
+ * `embedding` or `off`, and `MCQ_DEDUP_THRESHOLD` overrides the scorer's threshold.
+ * Returns null when de-duplication is disabled.
+ */
+export function getDedupSettings(
+  openai: OpenAI | null,
+  onEmbeddingUsage?: (tokens: number, model: string) => void,
+): DedupSettings | null {
+  const mode = process.env.MCQ_DEDUP_SIMILARITY?.trim().toLowerCase() || "lexical";
+
+  if (mode === "off") {
+    return null;
+  }
+
+  const scorer = mode === "embedding" && openai
+    ? createEmbeddingSimilarity(openai, {
+        model: process.env.MCQ_DEDUP_EMBEDDING_MODEL?.trim() || undefined,
+        onUsage: onEmbeddingUsage,
+      })
+    : lexicalSimilarity;
+
+  const rawThreshold = Number.parseFloat(process.env.MCQ_DEDUP_THRESHOLD ?? "");
+  const threshold = rawThreshold > 0 && rawThreshold <= 1 ? rawThreshold : scorer.defaultThreshold;
+
+  return { scorer, threshold };
+}
+
+/**
+ * Loads the live questions already stored for the chapter's topics so new questions
+ * can be compared against them.
+ */
+export async function loadStoredQuestions(options: {
+  subjectId: number;
+  classLevel: number;
+  topics: string[];
+}): Promise<DedupReference[]> {
+  const versioned = getPersistenceMode() === "versioned";
+  const result = await getDbPool().query<{
+    topic: string;
+    question_text: string;
+    option_a: string | null;
+    option_b: string | null;
+    option_c: string | null;
+    option_d: string | null;
+  }>(
+    `SELECT t.name AS topic, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d
+     FROM questions q
+     JOIN topics t ON t.id = q.topic_id
+     WHERE t.subject_id = $1 AND t.class = $2 AND t.name = ANY($3::text[])
+     ${versioned ? "AND q.retired_at IS NULL" : ""}`,
+    [options.subjectId, `Class ${options.classLevel}`, options.topics],
+  );
+
+  return result.rows.map((row) => ({
+    topic: row.topic,
+    stem: row.question_text,
+    options: [row.option_a, row.option_b, row.option_c, row.option_d].map((option) => option ?? ""),
+    source: "stored",
+  }));
+}
+
+/**
+ * Flags every entry that is a near-duplicate of a reference or of an earlier entry
+ * that was kept. Entries are checked in order, so the first of a duplicate pair wins.
+ */
+export async function findDuplicateQuestions(
+  entries: Array<{ topic: string; index: number; item: StoredMcqItem }>,
+  references: DedupReference[],
+  settings: DedupSettings,
+): Promise<DuplicateMatch[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const candidates = entries.map((entry) => ({ stem: entry.item.stem, options: choiceTexts(entry.item) }));
+  const scores = await settings.scorer.score(candidates, [...candidates, ...references]);
+  const matches: DuplicateMatch[] = [];
+  const dropped = new Set<number>();
+
+  entries.forEach((entry, position) => {
+    const row = scores[position];
+    let bestScore = 0;
+    let bestReference: DedupReference | null = null;
+    const consider = (score: number, reference: DedupReference) => {
+      if (score >= settings.threshold && score > bestScore) {
+        bestScore = score;
+        bestReference = reference;
+      }
+    };
+
+    references.forEach((reference, referenceIndex) => {
+      if (reference.source === "chapter" || reference.topic === entry.topic) {
+        consider(row[entries.length + referenceIndex], reference);
+      }
+    });
+
+    for (let earlier = 0; earlier < position; earlier += 1) {
+      if (!dropped.has(earlier)) {
+        consider(row[earlier], {
+          topic: entries[earlier].topic,
+          stem: entries[earlier].item.stem,
+          options: choiceTexts(entries[earlier].item),
+          source: "chapter",
+        });
+      }
+    }
+
+    if (bestReference) {
+      dropped.add(position);
+      matches.push({ ...entry, score: bestScore, duplicateOf: bestReference });
+    }
+  });
+
+  return matches;
+}
@@ -0,0 +1,280 @@
+import type { StoredMcqItem } from "./jobStore";
+import {
+  BLOOM_LEVELS,
+  DEFAULT_RUBRIC_PROFILE,
+  DIFFICULTY_LEVELS,
+  QUESTION_TYPES,
+  type RubricProfile,
+} from "./rubricProfiles";
+
+export type DistributionDimension = "bloom" | "difficulty" | "type";
+
+export interface CategoryTarget {
+  label: string;
+  values: string[];
+  /** Expected share of the topic's questions; checked against the tolerance. */
+  share?: number;
+  /** Minimum number of questions, for categories the rubric only asks to be present. */
+  minCount?: number;
+}
+
+export interface CategoryReport {
+  label: string;
+  count: number;
+  share: number;
+  target: number | null;
+  minCount: number | null;
+  /** Questions to add (positive) or remove (negative) to meet the target. */
+  deficit: number;
+  ok: boolean;
+}
+
+export interface DimensionReport {
+  dimension: DistributionDimension;
+  categories: CategoryReport[];
+  ok: boolean;
+}
+
+export interface TopicDistributionReport {
+  topic: string;
+  total: number;
+  dimensions: DimensionReport[];
+  skewed: boolean;
+  regenerated: boolean;
+}
+
+export type DistributionTargets = Record<DistributionDimension, CategoryTarget[]>;
+
+const bloomValues = (level: string) => (level === "Evaluate/Create" ? ["Evaluate", "Create"] : [level]);
+
+// Every category a question can fall into, whatever the job's rubric asks for.
+const ALL_CATEGORIES: DistributionTargets = {
+  bloom: BLOOM_LEVELS.map((level) => ({ label: level, values: bloomValues(level) })),
+  difficulty: DIFFICULTY_LEVELS.map((level) => ({ label: level, values: [level] })),
+  type: QUESTION_TYPES.map((type) => ({ label: type, values: [type] })),
+};
+
+/**
+ * The mix a rubric profile asks for: the Bloom split (and the difficulty split, when the
+ * profile has one) as shares, otherwise at least one question per difficulty, plus at
+ * least one question of each allowed type. Diagram questions stay optional.
+ */
+export function getDistributionTargets(profile: RubricProfile = DEFAULT_RUBRIC_PROFILE): DistributionTargets {
+  const difficultyMix = profile.difficultyMix;
+
+  return {
+    bloom: BLOOM_LEVELS.map((level) => ({
+      label: level,
+      values: bloomValues(level),
+      share: profile.bloomMix[level] / 100,
+    })),
+    difficulty: DIFFICULTY_LEVELS.map((level) =>
+      difficultyMix
+        ? { label: level, values: [level], share: difficultyMix[level] / 100 }
+        : { label: level, values: [level], minCount: 1 },
+    ),
+    type: profile.questionTypes
+      .filter((type) => type !== "diagram")
+      .map((type) => ({ label: type, values: [type], minCount: 1 })),
+  };
+}
+
+/** Questions a topic of `total` needs in `target` before the category is satisfied. */
+function requiredCount(target: CategoryTarget, total: number): number {
+  if (target.share !== undefined) {
+    return Math.round(target.share * total) >= 1 ? 1 : 0;
+  }
+  return target.minCount ?? 0;
+}
+
+/**
+ * Whether a topic of `total` questions can cover every required category of each
+ * dimension at once. Smaller topics cannot be rebalanced, so they are only reported.
+ */
+export function canMeetTargets(total: number, targets: DistributionTargets = getDistributionTargets()): boolean {
+  return (Object.values(targets) as CategoryTarget[][]).every(
+    (categories) => categories.reduce((sum, target) => sum + requiredCount(target, total), 0) <= total,
+  );
+}
+
+const DEFAULT_TOLERANCE = 0.15;
+
+/**
+ * `MCQ_DISTRIBUTION_TOLERANCE` (0–1, default 0.15) is the allowed deviation of a
+ * category's share from its target. `MCQ_DISTRIBUTION_CHECK=off` keeps the report but
+ * skips the targeted regeneration.
+ */
+export function getDistributionSettings(): { tolerance: number; enforce: boolean } {
+  const parsed = Number.parseFloat(process.env.MCQ_DISTRIBUTION_TOLERANCE ?? "");
+
+  return {
+    tolerance: parsed >= 0 && parsed <= 1 ? parsed : DEFAULT_TOLERANCE,
+    enforce: process.env.MCQ_DISTRIBUTION_CHECK?.trim().toLowerCase() !== "off",
+  };
+}
+
+function matches(target: CategoryTarget, item: StoredMcqItem, dimension: DistributionDimension) {
+  const value = item[dimension].trim().toLowerCase();
+  return target.values.some((candidate) => candidate.toLowerCase() === value);
+}
+
+export function categoryOf(
+  item: StoredMcqItem,
+  dimension: DistributionDimension,
+): string | null {
+  return ALL_CATEGORIES[dimension].find((target) => matches(target, item, dimension))?.label ?? null;
+}
+
+export function checkTopicDistribution(
+  topic: string,
+  items: StoredMcqItem[],
+  tolerance: number,
+  targets: DistributionTargets = getDistributionTargets(),
+): TopicDistributionReport {
+  const total = items.length;
+
+  const dimensions = (Object.keys(targets) as DistributionDimension[]).map(
+    (dimension) => {
+      const categories = targets[dimension].map((target) => {
+        const count = items.filter((item) => matches(target, item, dimension)).length;
+        const share = total > 0 ? count / total : 0;
+        let deficit = 0;
+        let ok = true;
+
+        if (target.share !== undefined) {
+          // A share that rounds to no question is not required of a small topic,
+          // and hitting the rounded count is enough when the tolerance is finer
+          // than one question.
+          const expected = Math.round(target.share * total);
+          ok = expected < 1 || count === expected || Math.abs(share - target.share) <= tolerance;
+          deficit = ok ? 0 : expected - count;
+        } else if (target.minCount !== undefined) {
+          ok = count >= target.minCount;
+          deficit = ok ? 0 : target.minCount - count;
+        }
+
+        return {
+          label: target.label,
+          count,
+          share: Number(share.toFixed(3)),
+          target: target.share ?? null,
+          minCount: target.minCount ?? null,
+          deficit,
+          ok,
+        };
+      });
+
+      return { dimension, categories, ok: categories.every((category) => category.ok) };
+    },
+  );
+
+  return {
+    topic,
+    total,
+    dimensions,
+    skewed: dimensions.some((dimension) => !dimension.ok),
+    regenerated: false,
+  };
+}
+
+export function describeDistribution(report: TopicDistributionReport): string {
+  return report.dimensions
+    .map(
+      (dimension) =>
+        `${dimension.dimension}: ${dimension.categories
+          .map((category) => `${category.label} ${category.count}`)
+          .join(", ")}`,
+    )
+    .join("; ");
+}
+
+/** Categories that need more questions, e.g. `[{ dimension: "bloom", label: "Analyze", needed: 2 }]`. */
+export function getMissingCategories(
+  report: TopicDistributionReport,
+): Array<{ dimension: DistributionDimension; label: string; needed: number }> {
+  return report.dimensions.flatMap((dimension) =>
+    dimension.categories
+      .filter((category) => category.deficit > 0)
+      .map((category) => ({
+        dimension: dimension.dimension,
+        label: category.label,
+        needed: category.deficit,
+      })),
+  );
+}
+
+/**
+ * Adds `candidates` that fill missing categories to `items`. Each added question
+ * replaces one from the most over-represented category of the same dimension, or is
+ * appended while the topic is below `maxItems`.
+ */
+export function fillMissingCategories(
+  items: StoredMcqItem[],
+  candidates: StoredMcqItem[],
+  report: TopicDistributionReport,
+  maxItems: number,
+): { items: StoredMcqItem[]; added: number } {
+  const result = [...items];
+  const available = [...candidates];
+  const addedItems = new Set<StoredMcqItem>();
+  let added = 0;
+
+  // Working copy of the counts so the caller's report is left untouched.
+  const remaining = new Map(
+    report.dimensions.flatMap((dimension) =>
+      dimension.categories.map((category) => [
+        `${dimension.dimension}:${category.label}`,
+        category.count,
+      ]),
+    ),
+  );
+  const surplusOf = (dimension: DistributionDimension, category: CategoryReport) => {
+    const expected = category.minCount ?? Math.round((category.target ?? 0) * report.total);
+    return (remaining.get(`${dimension}:${category.label}`) ?? 0) - expected;
+  };
+
+  for (const missing of getMissingCategories(report)) {
+    const dimension = report.dimensions.find((entry) => entry.dimension === missing.dimension);
+
+    for (let filled = 0; filled < missing.needed; filled += 1) {
+      const candidateIndex = available.findIndex(
+        (candidate) => categoryOf(candidate, missing.dimension) === missing.label,
+      );
+      if (candidateIndex === -1) {
+        break;
+      }
+      const [candidate] = available.splice(candidateIndex, 1);
+
+      const isReplaceable = (item: StoredMcqItem, label: string) =>
+        !addedItems.has(item) && categoryOf(item, missing.dimension) === label;
+      const surplus = dimension?.categories
+        .filter((category) => surplusOf(missing.dimension, category) > 0)
+        .sort(
+          (left, right) => surplusOf(missing.dimension, right) - surplusOf(missing.dimension, left),
+        )
+        .find((category) => result.some((item) => isReplaceable(item, category.label)));
+      let replaceIndex = -1;
+      if (surplus) {
+        for (let index = result.length - 1; index >= 0 && replaceIndex === -1; index -= 1) {
+          if (isReplaceable(result[index], surplus.label)) {
+            replaceIndex = index;
+          }
+        }
+      }
+
+      if (replaceIndex !== -1 && surplus) {
+        result[replaceIndex] = candidate;
+        const key = `${missing.dimension}:${surplus.label}`;
+        remaining.set(key, (remaining.get(key) ?? 0) - 1);
+      } else if (result.length < maxItems) {
+        result.push(candidate);
+      } else {
+        break;
+      }
+      addedItems.add(candidate);
+      added += 1;
+    }
+  }
+
+  return { items: result, added };
+}
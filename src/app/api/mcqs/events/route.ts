@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore } from "../jobStore";
+import {
+  isTerminalStatus,
+  subscribeToJobEvents,
+  toStatusSnapshot,
+  type JobEvent,
+} from "../jobEvents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get("jobId");
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing jobId parameter." }, { status: 400 });
+  }
+
+  const jobStore = getJobStore();
+  const record = await jobStore.get(jobId);
+
+  if (!record) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // The client already cancelled the stream.
+        }
+      };
+
+      send(
+        formatEvent("snapshot", {
+          jobId: record.id,
+          logs: record.logs,
+          ...toStatusSnapshot(record),
+        }),
+      );
+
+      if (isTerminalStatus(record.status)) {
+        close();
+        return;
+      }
+
+      const unsubscribe = subscribeToJobEvents(jobId, (event: JobEvent) => {
+        const { type, ...data } = event;
+        send(formatEvent(type, data));
+        if (event.type === "status" && isTerminalStatus(event.status)) {
+          close();
+        }
+      });
+      const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      closed = true;
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
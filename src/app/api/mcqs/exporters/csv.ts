@@ -0,0 +1,121 @@
+import {
+  DEFAULT_CSV_PROFILE,
+  type CsvExportProfile,
+  type CsvField,
+} from "../csvProfiles";
+import type { JobPayload, StoredMcqItem } from "../jobStore";
+import { answerKey, answerText, correctIndices, formatOf, hasOptions } from "../questionFormats";
+import type { McqExporter } from "./types";
+
+interface CsvRow {
+  topic: string;
+  item: StoredMcqItem;
+  payload: JobPayload;
+}
+
+function flattenSpans(item: StoredMcqItem, profile: CsvExportProfile): string {
+  const spans = item.source_spans ?? [];
+
+  return spans
+    .map((span) => {
+      const page = span.page === null ? "" : `p. ${span.page}`;
+      const snippet = span.text_snippet.trim() ? `"${span.text_snippet.trim()}"` : "";
+
+      switch (profile.spanFormat) {
+        case "pages":
+          return page;
+        case "snippets":
+          return snippet;
+        default:
+          return page && snippet ? `${page}: ${snippet}` : page || snippet;
+      }
+    })
+    .filter(Boolean)
+    .join(profile.spanSeparator);
+}
+
+function readField(field: CsvField, row: CsvRow, profile: CsvExportProfile): string {
+  const { item, payload } = row;
+  const options = hasOptions(item) ? item.options : item.format === "true_false" ? ["True", "False"] : [];
+
+  switch (field) {
+    case "topic":
+      return row.topic;
+    case "stem":
+      return item.stem;
+    case "option_a":
+      return options[0] ?? "";
+    case "option_b":
+      return options[1] ?? "";
+    case "option_c":
+      return options[2] ?? "";
+    case "option_d":
+      return options[3] ?? "";
+    case "correct_letter":
+      return answerKey(item);
+    case "correct_index":
+      return correctIndices(item).join(";");
+    case "correct_text":
+      return answerText(item);
+    case "format":
+      return formatOf(item);
+    case "image_url":
+      return item.image_url ?? "";
+    case "explanation":
+      return item.explanation;
+    case "bloom":
+      return item.bloom;
+    case "difficulty":
+      return item.difficulty;
+    case "type":
+      return item.type;
+    case "source_spans":
+      return flattenSpans(item, profile);
+    case "source_pages": {
+      const pages = (item.source_spans ?? []).map((span) => span.page).filter((page) => page !== null);
+      return [...new Set(pages)].join(profile.spanSeparator);
+    }
+    case "question_id":
+      return item.id ?? "";
+    case "chapter_number":
+      return String(payload.chapterNumber);
+    case "chapter_title":
+      return payload.chapterTitle;
+    case "class":
+      return `Class ${payload.classLevel}`;
+    case "subject":
+      return payload.subject.name;
+    case "syllabus":
+      return payload.syllabus.name;
+  }
+}
+
+function toCsv(table: CsvRow[], profile: CsvExportProfile): string {
+  const rows: string[][] = [
+    profile.columns.map((column) => column.header),
+    ...table.map((row) => profile.columns.map((column) => readField(column.field, row, profile))),
+  ];
+
+  return rows
+    .map((row) =>
+      row.map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(profile.delimiter),
+    )
+    .join("\n");
+}
+
+export const csvExporter: McqExporter = {
+  format: "csv",
+  label: "CSV",
+  export({ payload, topics, basename, csvProfile = DEFAULT_CSV_PROFILE }) {
+    const rows = topics.flatMap((topic) =>
+      topic.items.map((item) => ({ topic: topic.topic, item, payload })),
+    );
+    const csv = toCsv(rows, csvProfile);
+    const suffix = csvProfile.name === DEFAULT_CSV_PROFILE.name ? "" : `_${csvProfile.name}`;
+    return {
+      body: csvProfile.includeBom ? `\ufeff${csv}` : csv,
+      contentType: "text/csv; charset=utf-8",
+      filename: `${basename}${suffix}.csv`,
+    };
+  },
+};
@@ -0,0 +1,80 @@
+import type { StoredMcqItem } from "../jobStore";
+import type { McqExporter } from "./types";
+import { escapeXml } from "./xml";
+
+// GIFT treats these characters as markup; a backslash makes them literal.
+function escapeGift(value: string): string {
+  return value.replace(/([~=#{}:\\])/g, "\\$1").replace(/\r?\n/g, "\\n");
+}
+
+// Partial credit for multiple-select answers, as GIFT percentages.
+function weight(value: number): string {
+  return String(Number(value.toFixed(5)));
+}
+
+/** The lines between the braces, in the GIFT syntax for the item's format. */
+function answerLines(item: StoredMcqItem): string[] {
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return item.options.map(
+        (option, index) => `  ${index === item.correct_index ? "=" : "~"}${escapeGift(option)}`,
+      );
+    case "multiple": {
+      const share = weight(100 / item.correct_indices.length);
+      return item.options.map(
+        (option, index) =>
+          `  ~%${item.correct_indices.includes(index) ? share : "-100"}%${escapeGift(option)}`,
+      );
+    }
+    case "true_false":
+      return [`  ${item.answer ? "TRUE" : "FALSE"}`];
+    case "match":
+      return item.pairs.map((pair) => `  =${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`);
+    case "numeric":
+      return [`  #${item.answer}:${item.tolerance}`];
+    case "short_answer":
+      return [item.answer, ...item.accepted_answers].map((answer) => `  =${escapeGift(answer)}`);
+  }
+}
+
+export const giftExporter: McqExporter = {
+  format: "gift",
+  label: "Moodle GIFT",
+  export({ payload, topics, basename }) {
+    const chapter = `Chapter ${payload.chapterNumber} - ${payload.chapterTitle}`;
+    const blocks: string[] = [];
+    let questionNumber = 0;
+
+    for (const topic of topics) {
+      blocks.push(`$CATEGORY: $course$/${escapeGift(chapter)}/${escapeGift(topic.topic)}`);
+
+      for (const item of topic.items) {
+        questionNumber += 1;
+        const tags = `// bloom: ${item.bloom}; difficulty: ${item.difficulty}; type: ${item.type}`;
+        // GIFT numerical answers have no unit, so it goes into the question text.
+        const stem = item.format === "numeric" && item.unit ? `${item.stem} (in ${item.unit})` : item.stem;
+        // A figure needs the HTML text format; GIFT files cannot carry the image itself.
+        const questionText = item.image_url
+          ? `[html]${escapeGift(`<p>${escapeXml(stem)}</p><p><img src="${escapeXml(item.image_url)}" alt="Figure"></p>`)}`
+          : escapeGift(stem);
+
+        blocks.push(
+          [
+            tags,
+            `::Q${questionNumber}::${questionText} {`,
+            ...answerLines(item),
+            `  ####${escapeGift(item.explanation)}`,
+            "}",
+          ].join("\n"),
+        );
+      }
+    }
+
+    return {
+      body: `${blocks.join("\n\n")}\n`,
+      contentType: "text/plain; charset=utf-8",
+      filename: `${basename}.gift.txt`,
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import type { JobPayload, JobRecord, StoredTopicMcqs } from "../jobStore";
+import { csvExporter } from "./csv";
+import { giftExporter } from "./gift";
+import { jsonExporter } from "./json";
+import { moodleXmlExporter } from "./moodleXml";
+import { qtiExporter } from "./qti";
+import type { McqExporter } from "./types";
+
+export type { ExportContext, ExportResult, McqExporter } from "./types";
+export { csvExporter } from "./csv";
+
+const exporters = new Map<string, McqExporter>();
+
+export function registerExporter(exporter: McqExporter) {
+  exporters.set(exporter.format, exporter);
+}
+
+export function getExporter(format: string): McqExporter | null {
+  return exporters.get(format.trim().toLowerCase()) ?? null;
+}
+
+export function listExporters(): Array<{ format: string; label: string }> {
+  return [...exporters.values()].map(({ format, label }) => ({ format, label }));
+}
+
+[csvExporter, jsonExporter, qtiExporter, giftExporter, moodleXmlExporter].forEach(registerExporter);
+
+function makeFilenamePart(raw: string, fallback: string): string {
+  const sanitized = raw
+    .trim()
+    .replace(/\s+/g, "_")
+    .replace(/[^A-Za-z0-9_\-]/g, "");
+  return sanitized.length > 0 ? sanitized : fallback;
+}
+
+export function buildExportBasename(payload: JobPayload): string {
+  const classPart = makeFilenamePart(`Class ${payload.classLevel}`, "Class");
+  const subjectPart = makeFilenamePart(payload.subject.name ?? "Subject", "Subject");
+  const chapterPart = makeFilenamePart(payload.chapterTitle, "Chapter");
+  const syllabusPart = makeFilenamePart(payload.syllabus.name ?? "Syllabus", "Syllabus");
+  return `${classPart}_${subjectPart}_${chapterPart}_${syllabusPart}`;
+}
+
+/**
+ * Topics that go into exports and the database: everything generated except the
+ * topics the validator left for manual review.
+ */
+export function getExportableTopics(record: JobRecord): StoredTopicMcqs[] {
+  const failed = new Set(record.failedTopics ?? []);
+  return (record.generatedTopics ?? []).filter((topic) => !failed.has(topic.topic));
+}
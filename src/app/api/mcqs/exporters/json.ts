@@ -0,0 +1,23 @@
+import type { McqExporter } from "./types";
+
+export const jsonExporter: McqExporter = {
+  format: "json",
+  label: "JSON",
+  export({ jobId, payload, topics, basename }) {
+    const document = {
+      jobId,
+      classLevel: payload.classLevel,
+      subject: payload.subject,
+      syllabus: payload.syllabus,
+      chapterNumber: payload.chapterNumber,
+      chapterTitle: payload.chapterTitle,
+      topics,
+    };
+
+    return {
+      body: JSON.stringify(document, null, 2),
+      contentType: "application/json; charset=utf-8",
+      filename: `${basename}.json`,
+    };
+  },
+};
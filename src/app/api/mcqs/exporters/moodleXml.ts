@@ -0,0 +1,149 @@
+import type { FigureFile } from "@/lib/figureStore";
+import type { StoredMcqItem } from "../jobStore";
+import type { McqExporter } from "./types";
+import { escapeXml } from "./xml";
+
+function text(value: string): string {
+  return `<text>${escapeXml(value)}</text>`;
+}
+
+function answerXml(fraction: number, value: string, extra: string[] = []): string {
+  return [
+    `    <answer fraction="${fraction}" format="html">`,
+    `      ${text(value)}`,
+    ...extra.map((line) => `      ${line}`),
+    `      <feedback format="html"><text></text></feedback>`,
+    `    </answer>`,
+  ].join("\n");
+}
+
+/** The question type and its format-specific elements. */
+function formatXml(item: StoredMcqItem): { type: string; elements: string[] } {
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return {
+        type: "multichoice",
+        elements: [
+          `    <single>true</single>`,
+          `    <shuffleanswers>true</shuffleanswers>`,
+          `    <answernumbering>ABCD</answernumbering>`,
+          ...item.options.map((option, index) => answerXml(index === item.correct_index ? 100 : 0, option)),
+        ],
+      };
+    case "multiple": {
+      const share = Number((100 / item.correct_indices.length).toFixed(5));
+      return {
+        type: "multichoice",
+        elements: [
+          `    <single>false</single>`,
+          `    <shuffleanswers>true</shuffleanswers>`,
+          `    <answernumbering>ABCD</answernumbering>`,
+          ...item.options.map((option, index) =>
+            answerXml(item.correct_indices.includes(index) ? share : -100, option),
+          ),
+        ],
+      };
+    }
+    case "true_false":
+      return {
+        type: "truefalse",
+        elements: [answerXml(item.answer ? 100 : 0, "true"), answerXml(item.answer ? 0 : 100, "false")],
+      };
+    case "match":
+      return {
+        type: "matching",
+        elements: [
+          `    <shuffleanswers>true</shuffleanswers>`,
+          ...item.pairs.map(
+            (pair) =>
+              `    <subquestion format="html">\n      ${text(pair.left)}\n      <answer>${text(pair.right)}</answer>\n    </subquestion>`,
+          ),
+        ],
+      };
+    case "numeric":
+      return {
+        type: "numerical",
+        elements: [
+          answerXml(100, String(item.answer), [`<tolerance>${item.tolerance}</tolerance>`]),
+          ...(item.unit
+            ? [
+                `    <units>\n      <unit>\n        <multiplier>1</multiplier>\n        <unit_name>${escapeXml(item.unit)}</unit_name>\n      </unit>\n    </units>`,
+              ]
+            : []),
+        ],
+      };
+    case "short_answer":
+      return {
+        type: "shortanswer",
+        elements: [
+          `    <usecase>0</usecase>`,
+          ...[item.answer, ...item.accepted_answers].map((answer) => answerXml(100, answer)),
+        ],
+      };
+  }
+}
+
+/**
+ * The question text. A stored figure is embedded as a file of the question; other
+ * image URLs are linked.
+ */
+function questionTextXml(item: StoredMcqItem, figure: FigureFile | undefined, fileName: string): string {
+  if (!item.image_url) {
+    return `<questiontext format="html">${text(item.stem)}</questiontext>`;
+  }
+  const src = figure ? `@@PLUGINFILE@@/${fileName}` : item.image_url;
+  const html = `<p>${escapeXml(item.stem)}</p><p><img src="${escapeXml(src)}" alt="Figure"></p>`;
+  const file = figure
+    ? `<file name="${fileName}" path="/" encoding="base64">${Buffer.from(figure.bytes).toString("base64")}</file>`
+    : "";
+  return `<questiontext format="html">${text(html)}${file}</questiontext>`;
+}
+
+function questionXml(item: StoredMcqItem, name: string, figure?: FigureFile): string {
+  const { type, elements } = formatXml(item);
+  const fileName = `figure.${figure?.contentType === "image/jpeg" ? "jpg" : "png"}`;
+  const tags = [`bloom:${item.bloom}`, `difficulty:${item.difficulty}`, `type:${item.type}`]
+    .map((tag) => `      <tag>${text(tag)}</tag>`)
+    .join("\n");
+
+  return [
+    `  <question type="${type}">`,
+    `    <name>${text(name)}</name>`,
+    `    ${questionTextXml(item, figure, fileName)}`,
+    `    <generalfeedback format="html">${text(item.explanation)}</generalfeedback>`,
+    `    <defaultgrade>1</defaultgrade>`,
+    `    <penalty>0.3333333</penalty>`,
+    `    <hidden>0</hidden>`,
+    ...elements,
+    `    <tags>\n${tags}\n    </tags>`,
+    `  </question>`,
+  ].join("\n");
+}
+
+export const moodleXmlExporter: McqExporter = {
+  format: "moodle-xml",
+  label: "Moodle XML",
+  export({ payload, topics, basename, figures }) {
+    const chapter = `Chapter ${payload.chapterNumber} - ${payload.chapterTitle}`;
+    const questions: string[] = [];
+    let questionNumber = 0;
+
+    for (const topic of topics) {
+      questions.push(
+        `  <question type="category">\n    <category>${text(`$course$/${chapter}/${topic.topic}`)}</category>\n  </question>`,
+      );
+      for (const item of topic.items) {
+        questionNumber += 1;
+        const figure = item.image_url ? figures?.get(item.image_url) : undefined;
+        questions.push(questionXml(item, `Q${questionNumber} ${topic.topic}`, figure));
+      }
+    }
+
+    return {
+      body: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${questions.join("\n")}\n</quiz>\n`,
+      contentType: "application/xml; charset=utf-8",
+      filename: `${basename}.moodle.xml`,
+    };
+  },
+};
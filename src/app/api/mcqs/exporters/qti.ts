@@ -0,0 +1,263 @@
+import { createZip, type ZipEntry } from "@/lib/zip";
+import type { StoredMcqItem } from "../jobStore";
+import { OPTION_LETTERS } from "../questionFormats";
+import type { McqExporter } from "./types";
+import { escapeXml } from "./xml";
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const XSI_NAMESPACE = "http://www.w3.org/2001/XMLSchema-instance";
+
+function choiceXml(identifier: string, value: string): string {
+  return `      <simpleChoice identifier="${identifier}">${escapeXml(value)}</simpleChoice>`;
+}
+
+function choiceInteraction(stem: string, choices: string[], maxChoices: number): string {
+  return `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${maxChoices}">
+      <prompt>${escapeXml(stem)}</prompt>
+${choices.join("\n")}
+    </choiceInteraction>`;
+}
+
+function textEntry(stem: string, suffix = ""): string {
+  return `    <p>${escapeXml(stem)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/>${suffix ? ` ${escapeXml(suffix)}` : ""}</p>`;
+}
+
+const MATCH_RESPONSE = `<match>
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </match>`;
+
+/**
+ * The response declaration, item body and scoring condition for the item's format.
+ * Every format scores 1 when the whole response is correct.
+ */
+function formatParts(item: StoredMcqItem): {
+  cardinality: "single" | "multiple";
+  baseType: string;
+  correct: string[];
+  body: string;
+  condition: string;
+} {
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return {
+        cardinality: "single",
+        baseType: "identifier",
+        correct: [`choice${OPTION_LETTERS[item.correct_index] ?? "A"}`],
+        body: choiceInteraction(
+          item.stem,
+          item.options.map((option, index) => choiceXml(`choice${OPTION_LETTERS[index]}`, option)),
+          1,
+        ),
+        condition: MATCH_RESPONSE,
+      };
+    case "multiple":
+      return {
+        cardinality: "multiple",
+        baseType: "identifier",
+        correct: item.correct_indices.map((index) => `choice${OPTION_LETTERS[index]}`),
+        body: choiceInteraction(
+          item.stem,
+          item.options.map((option, index) => choiceXml(`choice${OPTION_LETTERS[index]}`, option)),
+          0,
+        ),
+        condition: MATCH_RESPONSE,
+      };
+    case "true_false":
+      return {
+        cardinality: "single",
+        baseType: "identifier",
+        correct: [item.answer ? "choiceTrue" : "choiceFalse"],
+        body: choiceInteraction(item.stem, [choiceXml("choiceTrue", "True"), choiceXml("choiceFalse", "False")], 1),
+        condition: MATCH_RESPONSE,
+      };
+    case "match":
+      return {
+        cardinality: "multiple",
+        baseType: "directedPair",
+        correct: item.pairs.map((_, index) => `left${index + 1} right${index + 1}`),
+        body: `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${item.pairs.length}">
+      <prompt>${escapeXml(item.stem)}</prompt>
+      <simpleMatchSet>
+${item.pairs.map((pair, index) => `        <simpleAssociableChoice identifier="left${index + 1}" matchMax="1">${escapeXml(pair.left)}</simpleAssociableChoice>`).join("\n")}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${item.pairs.map((pair, index) => `        <simpleAssociableChoice identifier="right${index + 1}" matchMax="1">${escapeXml(pair.right)}</simpleAssociableChoice>`).join("\n")}
+      </simpleMatchSet>
+    </matchInteraction>`,
+        condition: MATCH_RESPONSE,
+      };
+    case "numeric":
+      return {
+        cardinality: "single",
+        baseType: "float",
+        correct: [String(item.answer)],
+        body: textEntry(item.stem, item.unit),
+        condition: `<equal toleranceMode="absolute" tolerance="${item.tolerance} ${item.tolerance}">
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </equal>`,
+      };
+    case "short_answer":
+      return {
+        cardinality: "single",
+        baseType: "string",
+        correct: [item.answer],
+        body: textEntry(item.stem),
+        condition: `<or>
+${[item.answer, ...item.accepted_answers]
+  .map(
+    (answer) =>
+      `          <stringMatch caseSensitive="false">\n            <variable identifier="RESPONSE"/>\n            <baseValue baseType="string">${escapeXml(answer)}</baseValue>\n          </stringMatch>`,
+  )
+  .join("\n")}
+        </or>`,
+      };
+  }
+}
+
+/** Package path for a bundled figure, e.g. `images/figure2.png`. */
+function figurePath(index: number, contentType: string): string {
+  return `images/figure${index}.${contentType === "image/jpeg" ? "jpg" : "png"}`;
+}
+
+function itemXml(item: StoredMcqItem, identifier: string, title: string, imageSrc: string | null): string {
+  const { cardinality, baseType, correct, body, condition } = formatParts(item);
+  const image = imageSrc ? `    <p><img src="${escapeXml(imageSrc)}" alt="Figure"/></p>\n` : "";
+  const values = correct.map((value) => `      <value>${escapeXml(value)}</value>`).join("\n");
+
+  // The explanation is shown as modal feedback whatever the candidate answered.
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">
+    <correctResponse>
+${values}
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>0</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+${image}${body}
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${condition}
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">1</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK">
+      <baseValue baseType="identifier">EXPLANATION</baseValue>
+    </setOutcomeValue>
+  </responseProcessing>
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(item.explanation)}</modalFeedback>
+</assessmentItem>
+`;
+}
+
+function itemMetadata(item: StoredMcqItem): string {
+  const keywords = [`bloom:${item.bloom}`, `difficulty:${item.difficulty}`, `type:${item.type}`]
+    .map((keyword) => `<imsmd:keyword><imsmd:string>${escapeXml(keyword)}</imsmd:string></imsmd:keyword>`)
+    .join("");
+  return `<metadata><imsmd:lom><imsmd:general>${keywords}</imsmd:general></imsmd:lom></metadata>`;
+}
+
+export const qtiExporter: McqExporter = {
+  format: "qti",
+  label: "IMS QTI 2.1 (zip)",
+  export({ jobId, payload, topics, basename, figures }) {
+    const title = `Class ${payload.classLevel} ${payload.subject.name} – Chapter ${payload.chapterNumber}: ${payload.chapterTitle}`;
+    const files: ZipEntry[] = [];
+    // Stored figures go into the package; other image URLs are linked as they are.
+    const figurePaths = new Map<string, string>();
+    const itemResources: string[] = [];
+    const sections: string[] = [];
+    let itemNumber = 0;
+
+    topics.forEach((topic, topicIndex) => {
+      const refs: string[] = [];
+
+      for (const item of topic.items) {
+        itemNumber += 1;
+        const identifier = `item${itemNumber}`;
+        const href = `items/${identifier}.xml`;
+        const figure = item.image_url ? figures?.get(item.image_url) : undefined;
+        if (item.image_url && figure && !figurePaths.has(item.image_url)) {
+          const path = figurePath(figurePaths.size + 1, figure.contentType);
+          figurePaths.set(item.image_url, path);
+          files.push({ path, data: figure.bytes });
+        }
+        const figureHref = item.image_url ? figurePaths.get(item.image_url) : undefined;
+        const imageSrc = figureHref ? `../${figureHref}` : item.image_url ?? null;
+        files.push({ path: href, data: itemXml(item, identifier, `${topic.topic} Q${itemNumber}`, imageSrc) });
+        refs.push(`        <assessmentItemRef identifier="${identifier}" href="${href}"/>`);
+        itemResources.push(
+          `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}">\n` +
+            `      ${itemMetadata(item)}\n` +
+            `      <file href="${href}"/>\n` +
+            (figureHref ? `      <file href="${figureHref}"/>\n` : "") +
+            `    </resource>`,
+        );
+      }
+
+      sections.push(
+        `      <assessmentSection identifier="section${topicIndex + 1}" title="${escapeXml(topic.topic)}" visible="true">\n` +
+          `${refs.join("\n")}\n` +
+          `      </assessmentSection>`,
+      );
+    });
+
+    const testXml = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="test-${jobId}" title="${escapeXml(title)}">
+  <testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections.join("\n")}
+  </testPart>
+</assessmentTest>
+`;
+
+    const dependencies = Array.from(
+      { length: itemNumber },
+      (_, index) => `      <dependency identifierref="item${index + 1}"/>`,
+    ).join("\n");
+
+    const manifestXml = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM"
+  xmlns:xsi="${XSI_NAMESPACE}" identifier="manifest-${jobId}"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${dependencies}
+    </resource>
+${itemResources.join("\n")}
+  </resources>
+</manifest>
+`;
+
+    return {
+      body: createZip([
+        { path: "imsmanifest.xml", data: manifestXml },
+        { path: "assessment.xml", data: testXml },
+        ...files,
+      ]),
+      contentType: "application/zip",
+      filename: `${basename}.qti.zip`,
+    };
+  },
+};
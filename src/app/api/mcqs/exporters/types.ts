@@ -0,0 +1,27 @@
+import type { FigureFile } from "@/lib/figureStore";
+import type { CsvExportProfile } from "../csvProfiles";
+import type { JobPayload, StoredTopicMcqs } from "../jobStore";
+
+export interface ExportContext {
+  jobId: string;
+  payload: JobPayload;
+  topics: StoredTopicMcqs[];
+  /** File name without extension, e.g. `Class_8_Science_Light_CBSE`. */
+  basename: string;
+  /** Column layout for the CSV exporter; other exporters ignore it. */
+  csvProfile?: CsvExportProfile;
+  /** Stored figures behind the questions' `image_url`s, for formats that bundle images. */
+  figures?: Map<string, FigureFile>;
+}
+
+export interface ExportResult {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+export interface McqExporter {
+  format: string;
+  label: string;
+  export(context: ExportContext): ExportResult;
+}
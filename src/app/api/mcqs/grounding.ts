@@ -0,0 +1,144 @@
+import type OpenAI from "openai";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { loadBookText } from "@/lib/bookText";
+import {
+  createLocalTextSource,
+  createVectorStoreTextSource,
+  type BookTextSource,
+} from "@/lib/grounding";
+import type { JobPayload, StoredMcqItem, StoredTopicMcqs } from "./jobStore";
+import { answerText } from "./questionFormats";
+
+export interface QuestionGrounding {
+  /** Book text retrieved for the question, or null when nothing relevant was found. */
+  passage: string | null;
+  /** Cited snippets that could not be found in the book. */
+  unsupportedSpans: Array<{ page: number | null; text_snippet: string }>;
+}
+
+export interface CitationIssue {
+  topic: string;
+  questionId: string | null;
+  stem: string;
+  page: number | null;
+  snippet: string;
+}
+
+const PASSAGES_PER_QUESTION = 2;
+const MAX_PASSAGE_CHARS = 1500;
+const GROUNDING_CONCURRENCY = 4;
+
+/**
+ * Picks the book text used to ground validation: the job's vector store, or the page
+ * text extracted when the book was uploaded if there is no vector store or OpenAI
+ * client. `MCQ_GROUNDING=local` always uses the extracted text and `off` disables
+ * grounding; jobs without an uploaded book (imports) are not grounded.
+ */
+export async function getGroundingSource(
+  openai: OpenAI | null,
+  payload: JobPayload,
+  log: (...args: unknown[]) => void,
+): Promise<BookTextSource | null> {
+  const mode = process.env.MCQ_GROUNDING?.trim().toLowerCase() || "on";
+  if (mode === "off") {
+    return null;
+  }
+
+  if (mode !== "local" && openai && payload.vectorStoreId) {
+    return createVectorStoreTextSource(openai, payload.vectorStoreId);
+  }
+
+  if (!payload.bookText) {
+    return null;
+  }
+
+  try {
+    const pages = await loadBookText(payload.bookText);
+    return pages && pages.length > 0 ? createLocalTextSource(pages, "extracted page text") : null;
+  } catch (error) {
+    log("Unable to load the book's extracted text; validating without grounding:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/** Questions with the same stem, answer and citations share one lookup. */
+export function groundingKey(item: StoredMcqItem): string {
+  return JSON.stringify([
+    item.stem,
+    answerText(item),
+    (item.source_spans ?? []).map((span) => span.text_snippet),
+  ]);
+}
+
+/**
+ * Retrieves a passage for every question not yet in `cache` and checks its cited
+ * snippets. A failed lookup leaves the question ungrounded instead of failing the job.
+ */
+export async function groundTopics(options: {
+  source: BookTextSource;
+  topics: StoredTopicMcqs[];
+  cache: Map<string, QuestionGrounding>;
+  log: (...args: unknown[]) => void;
+}): Promise<void> {
+  const { source, topics, cache, log } = options;
+  const pending = new Map<string, StoredMcqItem>();
+
+  for (const topic of topics) {
+    for (const item of topic.items) {
+      const key = groundingKey(item);
+      if (!cache.has(key)) {
+        pending.set(key, item);
+      }
+    }
+  }
+
+  let failures = 0;
+  await mapWithConcurrency([...pending], GROUNDING_CONCURRENCY, async ([key, item]) => {
+    try {
+      const answer = answerText(item);
+      const passages = await source.findPassages(`${item.stem}\n${answer}`, PASSAGES_PER_QUESTION);
+      const passage = passages
+        .map((entry) => (entry.page === null ? entry.text : `[p. ${entry.page}] ${entry.text}`))
+        .join("\n…\n")
+        .slice(0, MAX_PASSAGE_CHARS);
+
+      const unsupportedSpans: QuestionGrounding["unsupportedSpans"] = [];
+      for (const span of item.source_spans ?? []) {
+        if (span.text_snippet.trim() && (await source.containsSnippet(span.text_snippet)) === false) {
+          unsupportedSpans.push(span);
+        }
+      }
+
+      cache.set(key, { passage: passage || null, unsupportedSpans });
+    } catch (error) {
+      failures += 1;
+      if (failures === 1) {
+        log(
+          `Book lookup via ${source.name} failed; affected questions are validated without a passage:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  });
+
+  if (pending.size > 0) {
+    log(`Retrieved book passages for ${pending.size - failures}/${pending.size} question(s).`);
+  }
+}
+
+export function collectCitationIssues(
+  topics: StoredTopicMcqs[],
+  cache: Map<string, QuestionGrounding>,
+): CitationIssue[] {
+  return topics.flatMap((topic) =>
+    topic.items.flatMap((item) =>
+      (cache.get(groundingKey(item))?.unsupportedSpans ?? []).map((span) => ({
+        topic: topic.topic,
+        questionId: item.id ?? null,
+        stem: item.stem,
+        page: span.page,
+        snippet: span.text_snippet,
+      })),
+    ),
+  );
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { getErrorStatus } from "@/lib/retry";
+import { getCsvProfile } from "../csvProfiles";
+import type { JobPayload, JobRecord, StoredTopicMcqs } from "../jobStore";
+import {
+  detectQuestionBankFormat,
+  parseQuestionBank,
+  type QuestionBankFormat,
+} from "../questionImport";
+
+export const runtime = "nodejs";
+
+function getImportQuestionBank(): (payload: JobPayload, topics: StoredTopicMcqs[]) => Promise<JobRecord> {
+  const handler = globalThis.__mcqImportQuestionBank;
+  if (!handler) {
+    throw new Error("Question bank import handler is unavailable.");
+  }
+  return handler;
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      content?: unknown;
+      format?: unknown;
+      filename?: unknown;
+      chapterNumber?: unknown;
+      chapterTitle?: unknown;
+      classLevel?: unknown;
+      subject?: { id?: unknown; name?: unknown } | null;
+      syllabus?: { id?: unknown; name?: unknown } | null;
+      csvProfile?: unknown;
+    } | null;
+
+    if (!body || typeof body.content !== "string" || body.content.trim().length === 0) {
+      return NextResponse.json({ error: "content (the CSV or JSON file text) is required." }, { status: 400 });
+    }
+
+    const { chapterNumber, chapterTitle, classLevel, subject, syllabus } = body;
+
+    if (typeof chapterNumber !== "number" || Number.isNaN(chapterNumber)) {
+      return NextResponse.json({ error: "Chapter number must be a number." }, { status: 400 });
+    }
+
+    if (typeof chapterTitle !== "string" || chapterTitle.trim().length === 0) {
+      return NextResponse.json({ error: "Chapter title is required." }, { status: 400 });
+    }
+
+    if (typeof classLevel !== "number" || Number.isNaN(classLevel)) {
+      return NextResponse.json({ error: "Class level is required." }, { status: 400 });
+    }
+
+    if (
+      !subject ||
+      typeof subject.name !== "string" ||
+      subject.name.trim().length === 0 ||
+      typeof subject.id !== "number"
+    ) {
+      return NextResponse.json({ error: "Subject is required." }, { status: 400 });
+    }
+
+    if (
+      !syllabus ||
+      typeof syllabus.name !== "string" ||
+      syllabus.name.trim().length === 0 ||
+      typeof syllabus.id !== "number"
+    ) {
+      return NextResponse.json({ error: "Syllabus is required." }, { status: 400 });
+    }
+
+    if (body.format !== undefined && body.format !== "csv" && body.format !== "json") {
+      return NextResponse.json({ error: "format must be csv or json." }, { status: 400 });
+    }
+
+    const csvProfileName = typeof body.csvProfile === "string" ? body.csvProfile.trim() : "";
+    const csvProfile = csvProfileName ? await getCsvProfile(csvProfileName) : null;
+
+    if (csvProfileName && !csvProfile) {
+      return NextResponse.json(
+        { error: `CSV profile "${csvProfileName}" does not exist.` },
+        { status: 400 },
+      );
+    }
+
+    const format: QuestionBankFormat = (body.format as QuestionBankFormat | undefined)
+      ?? detectQuestionBankFormat(body.content, typeof body.filename === "string" ? body.filename : null);
+    const { topics, rowCount, errors } = parseQuestionBank(body.content, format);
+    const importedCount = topics.reduce((sum, topic) => sum + topic.items.length, 0);
+
+    if (importedCount === 0) {
+      return NextResponse.json(
+        { error: "No importable questions were found.", format, rowCount, errors },
+        { status: 400 },
+      );
+    }
+
+    const payload: JobPayload = {
+      chapterNumber,
+      chapterTitle: chapterTitle.trim(),
+      topics: topics.map((topic) => ({
+        topic: topic.topic,
+        description: `Imported question bank (${topic.items.length} question(s)).`,
+      })),
+      vectorStoreId: "",
+      bookFingerprint: null,
+      classLevel,
+      subject: { id: subject.id, name: subject.name.trim() },
+      syllabus: { id: syllabus.id, name: syllabus.name.trim() },
+      ...(csvProfile ? { csvProfile } : {}),
+    };
+
+    await import("../route");
+
+    const importQuestionBank = getImportQuestionBank();
+    const record = await importQuestionBank(payload, topics);
+
+    return NextResponse.json({
+      jobId: record.id,
+      format,
+      rowCount,
+      importedCount,
+      topics: topics.map((topic) => ({ topic: topic.topic, count: topic.items.length })),
+      errors,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to import the question bank.";
+    return NextResponse.json({ error: message }, { status: getErrorStatus(error) === 400 ? 400 : 500 });
+  }
+}
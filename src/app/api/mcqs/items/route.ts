@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore, type JobRecord } from "../jobStore";
+import { parseStoredTopics } from "../mcqItems";
+
+export const runtime = "nodejs";
+
+function getApplyReviewEdits(): (
+  jobId: string,
+  record: JobRecord,
+  editedTopics: string[],
+) => Promise<void> {
+  const handler = globalThis.__mcqApplyReviewEdits;
+  if (!handler) {
+    throw new Error("Review edit handler is unavailable.");
+  }
+  return handler;
+}
+
+function isEditable(record: JobRecord): boolean {
+  return record.status === "succeeded" || record.status === "failed";
+}
+
+function toItemsResponse(record: JobRecord) {
+  const failed = new Set(record.failedTopics ?? []);
+
+  return {
+    jobId: record.id,
+    status: record.status,
+    editable: isEditable(record),
+    chapterNumber: record.payload.chapterNumber,
+    chapterTitle: record.payload.chapterTitle,
+    classLevel: record.payload.classLevel,
+    subject: record.payload.subject,
+    syllabus: record.payload.syllabus,
+    topics: (record.generatedTopics ?? []).map((topic) => ({
+      topic: topic.topic,
+      needsReview: failed.has(topic.topic),
+      items: topic.items,
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get("jobId");
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing jobId parameter." }, { status: 400 });
+  }
+
+  const jobStore = getJobStore();
+  const record = await jobStore.get(jobId);
+
+  if (!record) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (!record.generatedTopics || record.generatedTopics.length === 0) {
+    return NextResponse.json({ error: "No generated MCQs available for review." }, { status: 409 });
+  }
+
+  return NextResponse.json(toItemsResponse(record));
+}
+
+export async function PUT(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { jobId?: string; topics?: unknown }
+      | null;
+
+    if (!payload || typeof payload.jobId !== "string" || payload.jobId.trim().length === 0) {
+      return NextResponse.json({ error: "jobId is required." }, { status: 400 });
+    }
+
+    const edited = parseStoredTopics(payload.topics);
+    if (typeof edited === "string") {
+      return NextResponse.json({ error: edited }, { status: 400 });
+    }
+
+    const jobId = payload.jobId.trim();
+    const jobStore = getJobStore();
+    const record = await jobStore.get(jobId);
+
+    if (!record) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 });
+    }
+
+    if (!isEditable(record) || !record.generatedTopics) {
+      return NextResponse.json({ error: "Job is still running; edits are not allowed yet." }, { status: 409 });
+    }
+
+    const unknownTopic = edited.find(
+      (topic) => !record.generatedTopics?.some((existing) => existing.topic === topic.topic),
+    );
+    if (unknownTopic) {
+      return NextResponse.json(
+        { error: `Topic "${unknownTopic.topic}" does not belong to this job.` },
+        { status: 400 },
+      );
+    }
+
+    record.generatedTopics = record.generatedTopics.map(
+      (topic) => edited.find((candidate) => candidate.topic === topic.topic) ?? topic,
+    );
+    record.updatedAt = Date.now();
+
+    await import("../route");
+
+    const applyReviewEdits = getApplyReviewEdits();
+    await applyReviewEdits(
+      jobId,
+      record,
+      edited.map((topic) => topic.topic),
+    );
+
+    return NextResponse.json(toItemsResponse(record));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save MCQ edits.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
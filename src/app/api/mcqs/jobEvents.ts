@@ -0,0 +1,117 @@
+import { EventEmitter } from "node:events";
+import type { JobCostTotals } from "./costs";
+import type { JobRecord, JobStatus, TokenUsageTotals } from "./jobStore";
+
+export interface JobStatusSnapshot {
+  status: JobStatus;
+  error: string | null;
+  allowValidationRetry: boolean;
+  allowPersistenceRetry: boolean;
+  resumable: boolean;
+  failedTopics: string[];
+  outputFilename: string | null;
+  openAiUsage: TokenUsageTotals;
+  anthropicUsage: TokenUsageTotals;
+  cost: JobCostTotals | null;
+}
+
+export type JobEvent =
+  | { type: "log"; message: string }
+  | ({ type: "status" } & JobStatusSnapshot)
+  | {
+      type: "progress";
+      stage: "generation" | "validation";
+      topic: string;
+      completed: number;
+      total: number;
+    }
+  | {
+      type: "usage";
+      provider: "openai" | "anthropic";
+      delta: TokenUsageTotals;
+      totals: TokenUsageTotals;
+    }
+  | { type: "cost"; model: string; delta: number; totals: JobCostTotals };
+
+declare global {
+  var __mcqJobEvents: EventEmitter | undefined;
+  var __mcqJobLastStatus: Map<string, string> | undefined;
+}
+
+function getEmitter(): EventEmitter {
+  if (!globalThis.__mcqJobEvents) {
+    globalThis.__mcqJobEvents = new EventEmitter();
+    // One listener per open SSE connection; there is no meaningful upper bound.
+    globalThis.__mcqJobEvents.setMaxListeners(0);
+  }
+  return globalThis.__mcqJobEvents;
+}
+
+function getLastStatuses(): Map<string, string> {
+  if (!globalThis.__mcqJobLastStatus) {
+    globalThis.__mcqJobLastStatus = new Map();
+  }
+  return globalThis.__mcqJobLastStatus;
+}
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === "succeeded" || status === "failed";
+}
+
+export function toStatusSnapshot(record: JobRecord): JobStatusSnapshot {
+  return {
+    status: record.status,
+    error: record.error ?? null,
+    allowValidationRetry: Boolean(record.allowValidationRetry),
+    allowPersistenceRetry: Boolean(record.allowPersistenceRetry),
+    resumable: Boolean(record.resumable),
+    failedTopics: [...(record.failedTopics ?? [])],
+    outputFilename: record.outputFilename ?? null,
+    openAiUsage: { ...record.openAiUsage },
+    anthropicUsage: { ...record.anthropicUsage },
+    cost: record.cost ? structuredClone(record.cost) : null,
+  };
+}
+
+export function publishJobEvent(jobId: string, event: JobEvent) {
+  getEmitter().emit(jobId, event);
+}
+
+/**
+ * Publishes a status event when the job's status or retry flags changed since the
+ * last one, so repeated calls between transitions are cheap no-ops.
+ */
+export function publishJobStatus(record: JobRecord) {
+  const snapshot = toStatusSnapshot(record);
+  const key = [
+    snapshot.status,
+    snapshot.error ?? "",
+    snapshot.allowValidationRetry,
+    snapshot.allowPersistenceRetry,
+    snapshot.resumable,
+  ].join("|");
+  const lastStatuses = getLastStatuses();
+
+  if (lastStatuses.get(record.id) === key) {
+    return;
+  }
+
+  if (isTerminalStatus(snapshot.status)) {
+    lastStatuses.delete(record.id);
+  } else {
+    lastStatuses.set(record.id, key);
+  }
+
+  publishJobEvent(record.id, { type: "status", ...snapshot });
+}
+
+export function subscribeToJobEvents(
+  jobId: string,
+  listener: (event: JobEvent) => void,
+): () => void {
+  const emitter = getEmitter();
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -1,8 +1,18 @@
-import type { McqValidatorSummary } from "@/lib/anthropic";
+import type { McqValidatorSummary, TopicValidationVerdict } from "@/lib/anthropic";
+import type { BookFigure } from "@/lib/bookFigures";
+import { ensureSchema, getDbPool } from "@/lib/db";
+import type { JobCostTotals } from "./costs";
+import type { CsvExportProfile } from "./csvProfiles";
+import type { TopicDistributionReport } from "./distribution";
+import type { CitationIssue } from "./grounding";
+import { isTerminalStatus } from "./jobEvents";
+import type { RubricProfile } from "./rubricProfiles";
 
 export interface TopicSummary {
   topic: string;
   description: string;
+  /** Questions to generate for the topic; unset means the rubric's count range. */
+  questionCount?: number;
 }
 
 export interface JobPayload {
@@ -20,26 +30,110 @@ export interface JobPayload {
     id: number;
     name: string;
   };
+  /** `import` jobs validate an uploaded question bank instead of generating questions. */
+  source?: "generated" | "import";
+  /** Snapshot of the CSV profile chosen when the job was created. */
+  csvProfile?: CsvExportProfile;
+  /** Snapshot of the rubric profile the job generates with; unset means the default rubric. */
+  rubricProfile?: RubricProfile;
+  /** Free-text teacher guidance added to every generation prompt. */
+  guidance?: string;
+  /** Figures extracted from the uploaded pages, for diagram questions. */
+  figures?: BookFigure[];
+  /** Set id (see `bookSetId`) of the uploaded pages' extracted text, for grounding without the vector store. */
+  bookText?: string;
 }
 
 export type JobStatus = "pending" | "processing" | "succeeded" | "failed";
 
-export interface StoredMcqItem {
+interface StoredQuestionBase {
+  /** Stable identifier assigned at generation; replacements and edits keep it. */
+  id?: string;
   bloom: string;
   difficulty: string;
   stem: string;
-  options: string[];
-  correct_index: number;
   explanation: string;
   type: string;
   source_spans?: Array<{ page: number | null; text_snippet: string }>;
+  /** Figure the question is about, stored in `questions.image_url`. */
+  image_url?: string;
+}
+
+/** Four options with one correct answer; items from before question formats have no `format`. */
+export interface SingleChoiceItem extends StoredQuestionBase {
+  format?: "single";
+  options: string[];
+  correct_index: number;
 }
 
+/** Four options with two or three correct answers. */
+export interface MultipleChoiceItem extends StoredQuestionBase {
+  format: "multiple";
+  options: string[];
+  correct_indices: number[];
+}
+
+export interface TrueFalseItem extends StoredQuestionBase {
+  format: "true_false";
+  answer: boolean;
+}
+
+/** Left items matched to right items; the pairs are stored in their correct order. */
+export interface MatchItem extends StoredQuestionBase {
+  format: "match";
+  pairs: Array<{ left: string; right: string }>;
+}
+
+export interface NumericItem extends StoredQuestionBase {
+  format: "numeric";
+  answer: number;
+  /** Largest accepted distance from `answer`; 0 means exact. */
+  tolerance: number;
+  /** Unit the answer is given in, or "" when it has none. */
+  unit: string;
+}
+
+export interface ShortAnswerItem extends StoredQuestionBase {
+  format: "short_answer";
+  answer: string;
+  /** Other wordings marked correct besides `answer`. */
+  accepted_answers: string[];
+}
+
+export type StoredMcqItem =
+  | SingleChoiceItem
+  | MultipleChoiceItem
+  | TrueFalseItem
+  | MatchItem
+  | NumericItem
+  | ShortAnswerItem;
+
 export interface StoredTopicMcqs {
   topic: string;
   items: StoredMcqItem[];
 }
 
+export type QuestionAuditEvent =
+  | {
+      kind: "verdict";
+      run: number;
+      attempt: number;
+      at: number;
+      verdict: Omit<TopicValidationVerdict, "replacementMcq">;
+    }
+  | { kind: "replacement"; run: number; attempt: number; at: number; item: StoredMcqItem }
+  | { kind: "edited"; at: number; item: StoredMcqItem }
+  | { kind: "removed"; at: number };
+
+/** History of one question from the generator's output to the version that was exported. */
+export interface QuestionAuditTrail {
+  questionId: string;
+  topic: string;
+  originalItem: StoredMcqItem;
+  finalItem: StoredMcqItem | null;
+  events: QuestionAuditEvent[];
+}
+
 export interface TokenUsageTotals {
   inputTokens: number;
   outputTokens: number;
@@ -59,12 +153,41 @@ export interface JobRecord {
   error?: string;
   openAiUsage: TokenUsageTotals;
   anthropicUsage: TokenUsageTotals;
+  /** Tokens per `provider:model` across every stage, including local models. */
+  usageByModel?: Record<string, TokenUsageTotals>;
+  /** Priced usage in the price table's currency; every call is also in the cost ledger. */
+  cost?: JobCostTotals;
   generatedTopics?: StoredTopicMcqs[];
+  /** Topics generated so far, saved as each one finishes so a failed job can resume. */
+  topicCheckpoints?: StoredTopicMcqs[];
+  /** Topics the validator could not fix; they are left out of the CSV and the database. */
+  failedTopics?: string[];
+  /** Number of validation passes started, used to label audit events. */
+  validationRuns?: number;
+  questionAudit?: QuestionAuditTrail[];
+  /** Bloom/difficulty/type mix of each topic's current questions. */
+  distribution?: TopicDistributionReport[];
+  /** Cited snippets of the validated questions that were not found in the book. */
+  citationIssues?: CitationIssue[];
   allowValidationRetry?: boolean;
   allowPersistenceRetry?: boolean;
+  resumable?: boolean;
 }
 
-export type JobStore = Map<string, JobRecord>;
+export interface JobStore {
+  create(record: JobRecord): Promise<void>;
+  get(jobId: string): Promise<JobRecord | null>;
+  /**
+   * Writes the current state of the record. Calls for the same job are serialized,
+   * and back-to-back saves collapse into a single write of the latest state.
+   */
+  save(record: JobRecord): Promise<void>;
+  /**
+   * Flags jobs left `pending`/`processing` by a server process that has stopped
+   * running them as failed and resumable. Returns the affected job ids.
+   */
+  markInterruptedJobs(): Promise<string[]>;
+}
 
 declare global {
   var __mcqJobStore: JobStore | undefined;
@@ -74,11 +197,261 @@ declare global {
   var __mcqRetryPersistence:
     | ((jobId: string, record: JobRecord) => Promise<void>)
     | undefined;
+  var __mcqResumeJob:
+    | ((jobId: string, record: JobRecord) => Promise<void>)
+    | undefined;
+  var __mcqPublishReviewedTopic:
+    | ((jobId: string, record: JobRecord, topic: string, items: StoredMcqItem[]) => Promise<void>)
+    | undefined;
+  var __mcqImportQuestionBank:
+    | ((payload: JobPayload, topics: StoredTopicMcqs[]) => Promise<JobRecord>)
+    | undefined;
+  var __mcqApplyReviewEdits:
+    | ((jobId: string, record: JobRecord, editedTopics: string[]) => Promise<void>)
+    | undefined;
+  var __mcqRegenerateTopic:
+    | ((jobId: string, record: JobRecord, topic: string, guidance?: string) => Promise<void>)
+    | undefined;
+}
+
+const INTERRUPTED_JOB_MESSAGE = "Job was interrupted by a server restart; it can be resumed.";
+
+function markRecordInterrupted(record: JobRecord) {
+  const now = Date.now();
+  record.status = "failed";
+  record.error = INTERRUPTED_JOB_MESSAGE;
+  record.resumable = true;
+  record.allowValidationRetry =
+    Array.isArray(record.generatedTopics) && record.generatedTopics.length > 0;
+  record.allowPersistenceRetry = record.allowValidationRetry;
+  record.logs.push(`[job ${record.id}] ${INTERRUPTED_JOB_MESSAGE}`);
+  record.updatedAt = now;
+}
+
+class MemoryJobStore implements JobStore {
+  private readonly records = new Map<string, JobRecord>();
+
+  async create(record: JobRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async get(jobId: string): Promise<JobRecord | null> {
+    return this.records.get(jobId) ?? null;
+  }
+
+  async save(record: JobRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async markInterruptedJobs(): Promise<string[]> {
+    // Nothing survives a restart in memory, so there is nothing to recover.
+    return [];
+  }
+}
+
+const MCQ_JOBS_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_jobs (
+     id UUID PRIMARY KEY,
+     status TEXT NOT NULL,
+     class_level INTEGER,
+     subject_id INTEGER,
+     resumable BOOLEAN NOT NULL DEFAULT FALSE,
+     record JSONB NOT NULL,
+     created_at TIMESTAMPTZ NOT NULL,
+     updated_at TIMESTAMPTZ NOT NULL
+   )`,
+  `CREATE INDEX IF NOT EXISTS mcq_jobs_status_idx ON mcq_jobs (status)`,
+  `ALTER TABLE mcq_jobs ADD COLUMN IF NOT EXISTS owner TEXT`,
+  `ALTER TABLE mcq_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ`,
+];
+
+// A process refreshes `heartbeat_at` on the unfinished jobs it owns; another process
+// only takes a job for interrupted once its heartbeat is this old.
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const HEARTBEAT_STALE_MS = 60_000;
+
+interface JobRow {
+  record: JobRecord;
+}
+
+/**
+ * Job store backed by the `mcq_jobs` table. Records touched by this process are kept
+ * in memory so background processing and status polling share the same object; every
+ * save writes the full record as JSON. A finished job leaves the cache once its writes
+ * have flushed and is read back from the table after that.
+ *
+ * Each save claims the job for this process (`owner`), and a heartbeat keeps its
+ * unfinished jobs' `heartbeat_at` fresh, so several instances can share the table.
+ */
+class PostgresJobStore implements JobStore {
+  private readonly live = new Map<string, JobRecord>();
+  private readonly inflightWrites = new Map<string, Promise<void>>();
+  private readonly queuedWrites = new Map<string, Promise<void>>();
+  private readonly instanceId = crypto.randomUUID();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  async create(record: JobRecord): Promise<void> {
+    this.live.set(record.id, record);
+    await this.save(record);
+  }
+
+  async get(jobId: string): Promise<JobRecord | null> {
+    const cached = this.live.get(jobId);
+    if (cached) {
+      return cached;
+    }
+
+    await ensureSchema("mcq_jobs", MCQ_JOBS_SCHEMA);
+    const result = await getDbPool().query<JobRow>(`SELECT record FROM mcq_jobs WHERE id = $1`, [
+      jobId,
+    ]);
+    const record = result.rows[0]?.record;
+
+    if (!record) {
+      return null;
+    }
+
+    // Another request may have loaded the same job while this query was in flight.
+    const raced = this.live.get(jobId);
+    if (raced) {
+      return raced;
+    }
+
+    this.live.set(jobId, record);
+    return record;
+  }
+
+  save(record: JobRecord): Promise<void> {
+    // A job restarted from a copy loaded after eviction becomes the shared object again.
+    if (!isTerminalStatus(record.status)) {
+      this.live.set(record.id, record);
+      this.startHeartbeat();
+    }
+
+    const queued = this.queuedWrites.get(record.id);
+    if (queued) {
+      return queued;
+    }
+
+    const previous = this.inflightWrites.get(record.id) ?? Promise.resolve();
+    const write: Promise<void> = previous
+      .catch(() => undefined)
+      .then(() => {
+        this.queuedWrites.delete(record.id);
+        this.inflightWrites.set(record.id, write);
+        return this.writeRecord(record);
+      })
+      .finally(() => {
+        if (this.inflightWrites.get(record.id) === write) {
+          this.inflightWrites.delete(record.id);
+        }
+        this.evictIfSettled(record);
+      });
+
+    this.queuedWrites.set(record.id, write);
+    return write;
+  }
+
+  async markInterruptedJobs(): Promise<string[]> {
+    await ensureSchema("mcq_jobs", MCQ_JOBS_SCHEMA);
+    // Rows from before heartbeats fall back to their last save.
+    const result = await getDbPool().query<JobRow>(
+      `SELECT record FROM mcq_jobs
+        WHERE status IN ('pending', 'processing')
+          AND owner IS DISTINCT FROM $1
+          AND COALESCE(heartbeat_at, updated_at) < NOW() - $2 * INTERVAL '1 millisecond'`,
+      [this.instanceId, HEARTBEAT_STALE_MS],
+    );
+
+    const interrupted: string[] = [];
+
+    for (const row of result.rows) {
+      const record = this.live.get(row.record.id) ?? row.record;
+      if (record.status !== "pending" && record.status !== "processing") {
+        continue;
+      }
+      if (this.live.has(record.id)) {
+        // Picked up by this process already; it is not orphaned.
+        continue;
+      }
+
+      markRecordInterrupted(record);
+      await this.save(record);
+      interrupted.push(record.id);
+    }
+
+    return interrupted;
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) {
+      return;
+    }
+    this.heartbeat = setInterval(() => {
+      const running = [...this.live.values()].some((record) => !isTerminalStatus(record.status));
+      if (!running && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+        return;
+      }
+      getDbPool()
+        .query(
+          `UPDATE mcq_jobs SET heartbeat_at = NOW()
+            WHERE owner = $1 AND status IN ('pending', 'processing')`,
+          [this.instanceId],
+        )
+        .catch((error) => {
+          console.error("[jobs] Unable to refresh the job heartbeat", error);
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+    // The heartbeat alone must not keep the process alive.
+    this.heartbeat.unref?.();
+  }
+
+  private evictIfSettled(record: JobRecord) {
+    if (
+      isTerminalStatus(record.status) &&
+      this.live.get(record.id) === record &&
+      !this.inflightWrites.has(record.id) &&
+      !this.queuedWrites.has(record.id)
+    ) {
+      this.live.delete(record.id);
+    }
+  }
+
+  private async writeRecord(record: JobRecord): Promise<void> {
+    await ensureSchema("mcq_jobs", MCQ_JOBS_SCHEMA);
+    await getDbPool().query(
+      `INSERT INTO mcq_jobs
+         (id, status, class_level, subject_id, resumable, record, created_at, updated_at, owner, heartbeat_at)
+       VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0), to_timestamp($8 / 1000.0), $9, NOW())
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         resumable = EXCLUDED.resumable,
+         record = EXCLUDED.record,
+         updated_at = EXCLUDED.updated_at,
+         owner = EXCLUDED.owner,
+         heartbeat_at = EXCLUDED.heartbeat_at`,
+      [
+        record.id,
+        record.status,
+        record.payload.classLevel,
+        record.payload.subject?.id ?? null,
+        Boolean(record.resumable),
+        JSON.stringify(record),
+        record.createdAt,
+        record.updatedAt,
+        this.instanceId,
+      ],
+    );
+  }
 }
 
 export function getJobStore(): JobStore {
   if (!globalThis.__mcqJobStore) {
-    globalThis.__mcqJobStore = new Map();
+    globalThis.__mcqJobStore = process.env.DATABASE_URL
+      ? new PostgresJobStore()
+      : new MemoryJobStore();
   }
   return globalThis.__mcqJobStore;
 }
@@ -0,0 +1,114 @@
+import type { StoredMcqItem, StoredTopicMcqs } from "./jobStore";
+import { isQuestionFormat, parseAnswerFields } from "./questionFormats";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * An absolute http(s) URL or a figure served by this app. Other relative forms,
+ * including protocol-relative `//host/...`, are refused.
+ */
+function isImageUrl(value: string): boolean {
+  if (value.startsWith("/")) {
+    return value.startsWith("/api/figures/");
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks an item received from a client (review edits, imports) and returns a
+ * normalized copy, or a message describing the first problem found. The answer
+ * fields are checked by the rules of the item's `format` (single-answer if unset).
+ */
+export function parseStoredMcqItem(value: unknown): StoredMcqItem | string {
+  if (!value || typeof value !== "object") {
+    return "Each question must be an object.";
+  }
+
+  const candidate = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(candidate.stem)) {
+    return "Each question requires a stem.";
+  }
+
+  const format = candidate.format ?? "single";
+  if (!isQuestionFormat(format)) {
+    return `Question "${candidate.stem}" has an unknown format "${String(format)}".`;
+  }
+
+  const answer = parseAnswerFields(format, candidate, candidate.stem);
+  if (typeof answer === "string") {
+    return answer;
+  }
+
+  if (typeof candidate.explanation !== "string") {
+    return `Question "${candidate.stem}" requires an explanation.`;
+  }
+
+  if (isNonEmptyString(candidate.image_url) && !isImageUrl(candidate.image_url.trim())) {
+    return `Question "${candidate.stem}" has an image_url that is not an http(s) URL or an /api/figures/ path.`;
+  }
+
+  const spans = Array.isArray(candidate.source_spans)
+    ? (candidate.source_spans as Array<{ page?: unknown; text_snippet?: unknown }>)
+        .filter((span) => span && typeof span === "object")
+        .map((span) => ({
+          page: typeof span.page === "number" ? span.page : null,
+          text_snippet: typeof span.text_snippet === "string" ? span.text_snippet : "",
+        }))
+    : undefined;
+
+  return {
+    ...(isNonEmptyString(candidate.id) ? { id: candidate.id } : {}),
+    bloom: typeof candidate.bloom === "string" ? candidate.bloom : "",
+    difficulty: typeof candidate.difficulty === "string" ? candidate.difficulty : "",
+    type: typeof candidate.type === "string" ? candidate.type : "",
+    stem: candidate.stem.trim(),
+    ...answer,
+    explanation: candidate.explanation.trim(),
+    source_spans: spans,
+    ...(isNonEmptyString(candidate.image_url) ? { image_url: candidate.image_url.trim() } : {}),
+  };
+}
+
+/**
+ * Parses a list of `{ topic, items }` buckets; topics must be named and non-empty.
+ */
+export function parseStoredTopics(value: unknown): StoredTopicMcqs[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return "topics must be a non-empty array.";
+  }
+
+  const topics: StoredTopicMcqs[] = [];
+
+  for (const entry of value) {
+    const bucket = entry as { topic?: unknown; items?: unknown } | null;
+
+    if (!bucket || !isNonEmptyString(bucket.topic)) {
+      return "Each topic requires a name.";
+    }
+
+    if (!Array.isArray(bucket.items) || bucket.items.length === 0) {
+      return `Topic "${bucket.topic}" must keep at least one question.`;
+    }
+
+    const items: StoredMcqItem[] = [];
+    for (const rawItem of bucket.items) {
+      const parsed = parseStoredMcqItem(rawItem);
+      if (typeof parsed === "string") {
+        return `Topic "${bucket.topic}": ${parsed}`;
+      }
+      items.push(parsed);
+    }
+
+    topics.push({ topic: bucket.topic, items });
+  }
+
+  return topics;
+}
@@ -0,0 +1,174 @@
+import type { TopicValidationVerdict } from "@/lib/anthropic";
+import type {
+  JobRecord,
+  QuestionAuditTrail,
+  StoredMcqItem,
+  StoredTopicMcqs,
+} from "./jobStore";
+
+function cloneItem(item: StoredMcqItem): StoredMcqItem {
+  return JSON.parse(JSON.stringify(item)) as StoredMcqItem;
+}
+
+function sameContent(left: StoredMcqItem, right: StoredMcqItem): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Gives every question without an id a fresh one. Jobs created before ids existed
+ * get them the first time they are validated or edited.
+ */
+export function ensureQuestionIds(topics: StoredTopicMcqs[]): void {
+  for (const topic of topics) {
+    for (const item of topic.items) {
+      if (!item.id) {
+        item.id = crypto.randomUUID();
+      }
+    }
+  }
+}
+
+/** The most recent version of the question the trail knows about. */
+function latestItem(trail: QuestionAuditTrail): StoredMcqItem {
+  if (trail.finalItem) {
+    return trail.finalItem;
+  }
+
+  for (let index = trail.events.length - 1; index >= 0; index -= 1) {
+    const event = trail.events[index];
+    if (event.kind === "replacement" || event.kind === "edited") {
+      return event.item;
+    }
+  }
+
+  return trail.originalItem;
+}
+
+function getTrail(record: JobRecord, topic: string, item: StoredMcqItem): QuestionAuditTrail | null {
+  if (!item.id) {
+    return null;
+  }
+
+  record.questionAudit ??= [];
+  let trail = record.questionAudit.find((entry) => entry.questionId === item.id);
+
+  if (!trail) {
+    trail = {
+      questionId: item.id,
+      topic,
+      originalItem: cloneItem(item),
+      finalItem: null,
+      events: [],
+    };
+    record.questionAudit.push(trail);
+  }
+
+  return trail;
+}
+
+export function recordVerdict(
+  record: JobRecord,
+  details: {
+    topic: string;
+    item: StoredMcqItem;
+    run: number;
+    attempt: number;
+    verdict: TopicValidationVerdict;
+  },
+): void {
+  const trail = getTrail(record, details.topic, details.item);
+  if (!trail) {
+    return;
+  }
+
+  // The proposed replacement shows up as its own event once it is applied.
+  const { index, verdict, reasons, explanationAlignment, correctAnswerConfirmed, confidence } =
+    details.verdict;
+  trail.events.push({
+    kind: "verdict",
+    run: details.run,
+    attempt: details.attempt,
+    at: Date.now(),
+    verdict: {
+      index,
+      verdict,
+      reasons: [...reasons],
+      explanationAlignment,
+      correctAnswerConfirmed,
+      confidence,
+    },
+  });
+}
+
+export function recordReplacement(
+  record: JobRecord,
+  details: { topic: string; item: StoredMcqItem; run: number; attempt: number },
+): void {
+  const trail = getTrail(record, details.topic, details.item);
+  if (!trail) {
+    return;
+  }
+
+  trail.events.push({
+    kind: "replacement",
+    run: details.run,
+    attempt: details.attempt,
+    at: Date.now(),
+    item: cloneItem(details.item),
+  });
+}
+
+/**
+ * Records the questions a topic ended up with. When `source` is "review", questions
+ * whose content changed get an `edited` event and questions no longer present get a
+ * `removed` event; after validation only the final versions are stored.
+ */
+export function recordFinalItems(
+  record: JobRecord,
+  topic: StoredTopicMcqs,
+  source: "validation" | "review",
+): void {
+  const keptIds = new Set<string>();
+
+  for (const item of topic.items) {
+    const trail = getTrail(record, topic.topic, item);
+    if (!trail) {
+      continue;
+    }
+
+    keptIds.add(trail.questionId);
+
+    if (source === "review" && !sameContent(latestItem(trail), item)) {
+      trail.events.push({ kind: "edited", at: Date.now(), item: cloneItem(item) });
+    }
+    trail.finalItem = cloneItem(item);
+  }
+
+  if (source !== "review") {
+    return;
+  }
+
+  for (const trail of record.questionAudit ?? []) {
+    const alreadyRemoved = trail.events.at(-1)?.kind === "removed";
+    if (trail.topic === topic.topic && !keptIds.has(trail.questionId) && !alreadyRemoved) {
+      trail.events.push({ kind: "removed", at: Date.now() });
+      trail.finalItem = null;
+    }
+  }
+}
+
+/**
+ * Marks the topic's previous questions as removed when it was regenerated; the new
+ * questions start their own trails.
+ */
+export function recordTopicRegenerated(record: JobRecord, previous: StoredTopicMcqs): void {
+  const previousIds = new Set(previous.items.map((item) => item.id).filter(Boolean));
+
+  for (const trail of record.questionAudit ?? []) {
+    const alreadyRemoved = trail.events.at(-1)?.kind === "removed";
+    if (trail.topic === previous.topic && previousIds.has(trail.questionId) && !alreadyRemoved) {
+      trail.events.push({ kind: "removed", at: Date.now() });
+      trail.finalItem = null;
+    }
+  }
+}
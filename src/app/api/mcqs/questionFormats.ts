@@ -0,0 +1,468 @@
+import { ensureSchema } from "@/lib/db";
+import type { MultipleChoiceItem, SingleChoiceItem, StoredMcqItem } from "./jobStore";
+
+/**
+ * How a question is answered. This is separate from the rubric's question `type`
+ * (recall, application, …), which describes what the question asks.
+ */
+export const QUESTION_FORMATS = ["single", "multiple", "true_false", "match", "numeric", "short_answer"] as const;
+
+export type QuestionFormat = (typeof QUESTION_FORMATS)[number];
+
+export const OPTION_COUNT = 4;
+export const OPTION_LETTERS = ["A", "B", "C", "D"];
+
+/** Correct answers a multiple-select question may have. */
+const MULTIPLE_CORRECT = { min: 2, max: 3 };
+/** Pairs in a match-the-following question. */
+const MATCH_PAIRS = { min: 3, max: 6 };
+/** Alternative wordings a short-answer question may accept. */
+const MAX_ACCEPTED_ANSWERS = 5;
+
+export const FORMAT_LABELS: Record<QuestionFormat, string> = {
+  single: "Single-answer MCQ",
+  multiple: "Multiple-select",
+  true_false: "True/false",
+  match: "Match the following",
+  numeric: "Numeric answer",
+  short_answer: "Short answer",
+};
+
+/** Generation instructions per format, listed in the rubric prompt. */
+export const FORMAT_RULES: Record<QuestionFormat, string> = {
+  single: `"options" holds 4 choices with exactly one correct; "correct_index" is its position (0=A … 3=D).`,
+  multiple: `"options" holds 4 choices with ${MULTIPLE_CORRECT.min} or ${MULTIPLE_CORRECT.max} correct; "correct_indices" lists their positions.`,
+  true_false: `The stem is a statement; "answer" is true or false. Keep true and false answers roughly balanced.`,
+  match: `"pairs" holds ${MATCH_PAIRS.min}–${MATCH_PAIRS.max} { "left", "right" } items in their correct matching; the stem says what to match. Right-hand items must be distinct.`,
+  numeric: `"answer" is the number, "tolerance" the largest accepted error (0 for exact) and "unit" its unit ("" if none).`,
+  short_answer: `"answer" is a word or short phrase; "accepted_answers" lists up to ${MAX_ACCEPTED_ANSWERS} other correct wordings.`,
+};
+
+export function isQuestionFormat(value: unknown): value is QuestionFormat {
+  return typeof value === "string" && (QUESTION_FORMATS as readonly string[]).includes(value);
+}
+
+export function formatOf(item: StoredMcqItem): QuestionFormat {
+  return item.format ?? "single";
+}
+
+/** Single-answer and multiple-select questions keep their answers as indices into `options`. */
+export function hasOptions(item: StoredMcqItem): item is SingleChoiceItem | MultipleChoiceItem {
+  return item.format === undefined || item.format === "single" || item.format === "multiple";
+}
+
+/** Positions of the correct options; empty for formats without options. */
+export function correctIndices(item: StoredMcqItem): number[] {
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return [item.correct_index];
+    case "multiple":
+      return item.correct_indices;
+    default:
+      return [];
+  }
+}
+
+// Separators inside answer keys: `|` between entries and an arrow inside a pair.
+// A separator or backslash that is part of the text is written with a backslash in front.
+const KEY_SEPARATORS = /\\|\||=>|->|→/g;
+
+function escapeKeyText(text: string): string {
+  return text.replace(KEY_SEPARATORS, (separator) => `\\${separator}`);
+}
+
+/**
+ * Splits `text` on every unescaped occurrence of one of `separators`. The pieces
+ * keep their escapes, so they can be split again; `unescapeKeyText` removes them.
+ */
+function splitKeyText(text: string, separators: string[]): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (let index = 0; index < text.length; ) {
+    if (text[index] === "\\" && index + 1 < text.length) {
+      current += text.slice(index, index + 2);
+      index += 2;
+      continue;
+    }
+    const separator = separators.find((candidate) => text.startsWith(candidate, index));
+    if (separator) {
+      pieces.push(current);
+      current = "";
+      index += separator.length;
+      continue;
+    }
+    current += text[index];
+    index += 1;
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+function unescapeKeyText(text: string): string {
+  return text.replace(/\\(\\|\||=>|->|→)/g, "$1").trim();
+}
+
+/**
+ * The answer in the compact form the CSV export writes and the importer reads back:
+ * letters for option formats (`A;C`), `True`/`False`, `left => right | …` pairs,
+ * `9.8 ± 0.1 m/s²` numbers and `answer | other wording` short answers. A `|` or an
+ * arrow inside a pair side or an answer is escaped with a backslash.
+ */
+export function answerKey(item: StoredMcqItem): string {
+  switch (item.format) {
+    case undefined:
+    case "single":
+    case "multiple":
+      return correctIndices(item).map((index) => OPTION_LETTERS[index] ?? "?").join(";");
+    case "true_false":
+      return item.answer ? "True" : "False";
+    case "match":
+      return item.pairs.map((pair) => `${escapeKeyText(pair.left)} => ${escapeKeyText(pair.right)}`).join(" | ");
+    case "numeric":
+      return [
+        String(item.answer),
+        item.tolerance > 0 ? `± ${item.tolerance}` : "",
+        item.unit,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    case "short_answer":
+      return [item.answer, ...item.accepted_answers].map(escapeKeyText).join(" | ");
+  }
+}
+
+/** The answer as a reader sees it: the correct option texts, or the answer key. */
+export function answerText(item: StoredMcqItem): string {
+  if (hasOptions(item)) {
+    return correctIndices(item).map((index) => item.options[index] ?? "").join("; ");
+  }
+  if (item.format === "match") {
+    return item.pairs.map((pair) => `${pair.left} → ${pair.right}`).join("; ");
+  }
+  return answerKey(item);
+}
+
+/** Texts besides the stem that tell questions apart, for near-duplicate checks. */
+export function choiceTexts(item: StoredMcqItem): string[] {
+  if (hasOptions(item)) {
+    return item.options;
+  }
+  return item.format === "match" ? item.pairs.map((pair) => `${pair.left} ${pair.right}`) : [];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function parseOptions(value: unknown, stem: string): string[] | string {
+  if (!Array.isArray(value) || value.length !== OPTION_COUNT || !value.every(isNonEmptyString)) {
+    return `Question "${stem}" must have exactly ${OPTION_COUNT} non-empty options.`;
+  }
+  return value.map((option: string) => option.trim());
+}
+
+function isOptionIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < OPTION_COUNT;
+}
+
+type AnswerFields<F extends StoredMcqItem = StoredMcqItem> = F extends unknown
+  ? Omit<F, "id" | "bloom" | "difficulty" | "stem" | "explanation" | "type" | "source_spans">
+  : never;
+
+/**
+ * Checks the answer fields `candidate` needs for `format` and returns them normalized,
+ * or a message describing the first problem found.
+ */
+export function parseAnswerFields(
+  format: QuestionFormat,
+  candidate: Record<string, unknown>,
+  stem: string,
+): AnswerFields | string {
+  switch (format) {
+    case "single": {
+      const options = parseOptions(candidate.options, stem);
+      if (typeof options === "string") {
+        return options;
+      }
+      if (!isOptionIndex(candidate.correct_index)) {
+        return `Question "${stem}" has an invalid correct_index.`;
+      }
+      return { options, correct_index: candidate.correct_index };
+    }
+    case "multiple": {
+      const options = parseOptions(candidate.options, stem);
+      if (typeof options === "string") {
+        return options;
+      }
+      const indices = Array.isArray(candidate.correct_indices) ? candidate.correct_indices : [];
+      const unique = [...new Set(indices)];
+      if (
+        !unique.every(isOptionIndex)
+        || unique.length !== indices.length
+        || unique.length < MULTIPLE_CORRECT.min
+        || unique.length > MULTIPLE_CORRECT.max
+      ) {
+        return `Question "${stem}" needs ${MULTIPLE_CORRECT.min} or ${MULTIPLE_CORRECT.max} distinct correct_indices.`;
+      }
+      return { format, options, correct_indices: (unique as number[]).sort((left, right) => left - right) };
+    }
+    case "true_false":
+      if (typeof candidate.answer !== "boolean") {
+        return `Question "${stem}" needs a true or false answer.`;
+      }
+      return { format, answer: candidate.answer };
+    case "match": {
+      const pairs = Array.isArray(candidate.pairs)
+        ? (candidate.pairs as Array<{ left?: unknown; right?: unknown } | null>)
+        : [];
+      if (
+        pairs.length < MATCH_PAIRS.min
+        || pairs.length > MATCH_PAIRS.max
+        || !pairs.every((pair) => pair && isNonEmptyString(pair.left) && isNonEmptyString(pair.right))
+      ) {
+        return `Question "${stem}" needs ${MATCH_PAIRS.min}–${MATCH_PAIRS.max} pairs with both sides filled in.`;
+      }
+      const cleaned = (pairs as Array<{ left: string; right: string }>).map((pair) => ({
+        left: pair.left.trim(),
+        right: pair.right.trim(),
+      }));
+      const lefts = new Set(cleaned.map((pair) => pair.left.toLowerCase()));
+      const rights = new Set(cleaned.map((pair) => pair.right.toLowerCase()));
+      if (lefts.size !== cleaned.length || rights.size !== cleaned.length) {
+        return `Question "${stem}" repeats an item on one side of its pairs.`;
+      }
+      return { format, pairs: cleaned };
+    }
+    case "numeric": {
+      const tolerance = candidate.tolerance ?? 0;
+      if (typeof candidate.answer !== "number" || !Number.isFinite(candidate.answer)) {
+        return `Question "${stem}" needs a numeric answer.`;
+      }
+      if (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0) {
+        return `Question "${stem}" has an invalid tolerance.`;
+      }
+      return {
+        format,
+        answer: candidate.answer,
+        tolerance,
+        unit: typeof candidate.unit === "string" ? candidate.unit.trim() : "",
+      };
+    }
+    case "short_answer": {
+      if (!isNonEmptyString(candidate.answer)) {
+        return `Question "${stem}" needs a short answer.`;
+      }
+      const accepted = Array.isArray(candidate.accepted_answers) ? candidate.accepted_answers : [];
+      if (!accepted.every((answer) => typeof answer === "string")) {
+        return `Question "${stem}" has accepted_answers that are not text.`;
+      }
+      const alternatives = [...new Set((accepted as string[]).map((answer) => answer.trim()).filter(Boolean))];
+      if (alternatives.length > MAX_ACCEPTED_ANSWERS) {
+        return `Question "${stem}" lists more than ${MAX_ACCEPTED_ANSWERS} accepted answers.`;
+      }
+      return { format, answer: candidate.answer.trim(), accepted_answers: alternatives };
+    }
+  }
+}
+
+// Numbers as `String(number)` writes them, exponents included (1e-7, 6.02e+23).
+const NUMBER = String.raw`\d+(?:\.\d+)?(?:e[+-]?\d+)?`;
+const NUMERIC_KEY = new RegExp(String.raw`^(-?${NUMBER})(?:\s*(?:±|\+\/-)\s*(${NUMBER}))?\s*(.*)$`, "i");
+
+/**
+ * Reads an answer key in the form `answerKey` writes into the answer fields of
+ * `format`, e.g. for CSV imports. The result still goes through `parseAnswerFields`.
+ */
+export function parseAnswerKey(format: Exclude<QuestionFormat, "single">, key: string): Record<string, unknown> | string {
+  const text = key.trim();
+  if (!text) {
+    return "Missing correct answer.";
+  }
+
+  switch (format) {
+    case "multiple": {
+      const letters = text.toUpperCase().split(/[\s;,|]+/).filter(Boolean);
+      if (!letters.every((letter) => OPTION_LETTERS.includes(letter))) {
+        return `Correct answers "${text}" are not letters A–D.`;
+      }
+      return { correct_indices: letters.map((letter) => OPTION_LETTERS.indexOf(letter)) };
+    }
+    case "true_false":
+      if (/^(true|t|yes)$/i.test(text)) {
+        return { answer: true };
+      }
+      if (/^(false|f|no)$/i.test(text)) {
+        return { answer: false };
+      }
+      return `Correct answer "${text}" is not True or False.`;
+    case "match": {
+      const pairs = splitKeyText(text, ["|"]).map((entry) => splitKeyText(entry, ["=>", "->", "→"]));
+      if (!pairs.every((sides) => sides.length === 2)) {
+        return `Pairs "${text}" must be written as "left => right | left => right".`;
+      }
+      return {
+        pairs: pairs.map(([left, right]) => ({ left: unescapeKeyText(left), right: unescapeKeyText(right) })),
+      };
+    }
+    case "numeric": {
+      const match = NUMERIC_KEY.exec(text);
+      if (!match) {
+        return `Correct answer "${text}" does not start with a number.`;
+      }
+      return {
+        answer: Number(match[1]),
+        tolerance: match[2] ? Number(match[2]) : 0,
+        unit: match[3].trim(),
+      };
+    }
+    case "short_answer": {
+      const [answer, ...acceptedAnswers] = splitKeyText(text, ["|"]).map(unescapeKeyText);
+      return { answer, accepted_answers: acceptedAnswers };
+    }
+  }
+}
+
+/**
+ * JSON schema for one format's answer fields, in the strict structured-output
+ * dialect: every property is required.
+ */
+export function buildFormatSchema(format: QuestionFormat): {
+  required: string[];
+  properties: Record<string, unknown>;
+} {
+  const options = {
+    type: "array",
+    minItems: OPTION_COUNT,
+    maxItems: OPTION_COUNT,
+    items: { type: "string", minLength: 1 },
+  };
+  const optionIndex = { type: "integer", minimum: 0, maximum: OPTION_COUNT - 1 };
+
+  switch (format) {
+    case "single":
+      return { required: ["options", "correct_index"], properties: { options, correct_index: optionIndex } };
+    case "multiple":
+      return {
+        required: ["options", "correct_indices"],
+        properties: {
+          options,
+          correct_indices: {
+            type: "array",
+            minItems: MULTIPLE_CORRECT.min,
+            maxItems: MULTIPLE_CORRECT.max,
+            items: optionIndex,
+          },
+        },
+      };
+    case "true_false":
+      return { required: ["answer"], properties: { answer: { type: "boolean" } } };
+    case "match":
+      return {
+        required: ["pairs"],
+        properties: {
+          pairs: {
+            type: "array",
+            minItems: MATCH_PAIRS.min,
+            maxItems: MATCH_PAIRS.max,
+            items: {
+              type: "object",
+              additionalProperties: false,
+              required: ["left", "right"],
+              properties: {
+                left: { type: "string", minLength: 1 },
+                right: { type: "string", minLength: 1 },
+              },
+            },
+          },
+        },
+      };
+    case "numeric":
+      return {
+        required: ["answer", "tolerance", "unit"],
+        properties: {
+          answer: { type: "number" },
+          tolerance: { type: "number", minimum: 0 },
+          unit: { type: "string" },
+        },
+      };
+    case "short_answer":
+      return {
+        required: ["answer", "accepted_answers"],
+        properties: {
+          answer: { type: "string", minLength: 1 },
+          accepted_answers: {
+            type: "array",
+            maxItems: MAX_ACCEPTED_ANSWERS,
+            items: { type: "string", minLength: 1 },
+          },
+        },
+      };
+  }
+}
+
+/**
+ * Columns added to `questions` for formats other than single-answer MCQs. Those rows
+ * still fill the legacy columns as far as they can (true/false uses options A and B);
+ * `correct_answer` stays a single letter, or NULL when no one letter is the answer,
+ * and the full answer lives in `answer_data`.
+ */
+const QUESTION_FORMAT_SCHEMA = [
+  `ALTER TABLE questions ADD COLUMN IF NOT EXISTS question_format TEXT`,
+  `ALTER TABLE questions ADD COLUMN IF NOT EXISTS answer_data JSONB`,
+  `ALTER TABLE questions ALTER COLUMN correct_answer DROP NOT NULL`,
+];
+
+export function ensureQuestionFormatSchema(): Promise<void> {
+  return ensureSchema("question_formats", QUESTION_FORMAT_SCHEMA);
+}
+
+export interface QuestionRowValues {
+  options: [string, string, string, string];
+  /** Letter A–D of the correct option; null for formats without a single correct letter. */
+  correctAnswer: string | null;
+  /** Null for single-answer MCQs, which the legacy columns describe completely. */
+  answerData: Record<string, unknown> | null;
+}
+
+/** How an item maps onto the `questions` table. */
+export function toQuestionRow(item: StoredMcqItem): QuestionRowValues {
+  const padded = (values: string[]) =>
+    Array.from({ length: OPTION_COUNT }, (_, index) => values[index] ?? "") as QuestionRowValues["options"];
+
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return {
+        options: padded(item.options),
+        correctAnswer: OPTION_LETTERS[item.correct_index] ?? OPTION_LETTERS[0],
+        answerData: null,
+      };
+    case "multiple":
+      return {
+        options: padded(item.options),
+        correctAnswer: null,
+        answerData: { correct_indices: item.correct_indices },
+      };
+    case "true_false":
+      return {
+        options: padded(["True", "False"]),
+        correctAnswer: item.answer ? "A" : "B",
+        answerData: { answer: item.answer },
+      };
+    case "match":
+      return { options: padded([]), correctAnswer: null, answerData: { pairs: item.pairs } };
+    case "numeric":
+      return {
+        options: padded([]),
+        correctAnswer: null,
+        answerData: { answer: item.answer, tolerance: item.tolerance, unit: item.unit },
+      };
+    case "short_answer":
+      return {
+        options: padded([]),
+        correctAnswer: null,
+        answerData: { answer: item.answer, accepted_answers: item.accepted_answers },
+      };
+  }
+}
@@ -0,0 +1,407 @@
+import { CSV_DELIMITERS, DEFAULT_CSV_PROFILE, type CsvField } from "./csvProfiles";
+import type { StoredMcqItem, StoredTopicMcqs } from "./jobStore";
+import { parseStoredMcqItem } from "./mcqItems";
+import {
+  isQuestionFormat,
+  OPTION_LETTERS,
+  parseAnswerFields,
+  parseAnswerKey,
+  type QuestionFormat,
+} from "./questionFormats";
+
+export type QuestionBankFormat = "csv" | "json";
+
+export interface ImportRowError {
+  /** 1-based line of the CSV file the row starts on (the header is line 1) or position in the JSON list; 0 for file-level problems. */
+  row: number;
+  topic: string | null;
+  message: string;
+}
+
+export interface ParsedQuestionBank {
+  topics: StoredTopicMcqs[];
+  rowCount: number;
+  errors: ImportRowError[];
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ImportField = Extract<
+  CsvField,
+  | "topic"
+  | "stem"
+  | "option_a"
+  | "option_b"
+  | "option_c"
+  | "option_d"
+  | "correct_letter"
+  | "correct_index"
+  | "correct_text"
+  | "explanation"
+  | "bloom"
+  | "difficulty"
+  | "type"
+  | "format"
+  | "image_url"
+  | "source_pages"
+  | "question_id"
+>;
+
+function headerKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Accepts the default export headers, the CSV profile field names and a few
+// spreadsheet spellings, compared without case, spaces or punctuation.
+const HEADER_ALIASES = new Map<string, ImportField>([
+  ...DEFAULT_CSV_PROFILE.columns.map(
+    (column) => [headerKey(column.header), column.field as ImportField] as const,
+  ),
+  ...([
+    "topic",
+    "stem",
+    "option_a",
+    "option_b",
+    "option_c",
+    "option_d",
+    "correct_letter",
+    "correct_index",
+    "correct_text",
+    "explanation",
+    "bloom",
+    "difficulty",
+    "type",
+    "format",
+    "image_url",
+    "source_pages",
+    "question_id",
+  ] as const).map((field) => [headerKey(field), field] as const),
+  ["question", "stem"],
+  ["answer", "correct_letter"],
+  ["correctoption", "correct_letter"],
+  ["bloomlevel", "bloom"],
+  ["questiontype", "type"],
+  ["questionformat", "format"],
+  ["image", "image_url"],
+  ["figure", "image_url"],
+  ["id", "question_id"],
+  ["pages", "source_pages"],
+]);
+
+interface CsvRow {
+  /** 1-based line of the file the row starts on; quoted cells may carry it over several lines. */
+  line: number;
+  cells: string[];
+}
+
+/** Splits CSV text into non-blank rows of cells (RFC 4180 quoting, any line ending). */
+function parseCsvRows(text: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[index + 1] !== "\n")) {
+          line += 1;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = "";
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return rows.filter((entry) => entry.cells.some((value) => value.trim().length > 0));
+}
+
+/** Picks the supported delimiter that splits the header line into the most cells. */
+function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return [...CSV_DELIMITERS].sort(
+    (left, right) => headerLine.split(right).length - headerLine.split(left).length,
+  )[0];
+}
+
+function resolveCorrectIndex(
+  values: Partial<Record<ImportField, string>>,
+  options: string[],
+): number | string {
+  const letter = values.correct_letter?.trim();
+  if (letter) {
+    const match = /^(?:option\s*)?([a-d])\)?\.?$/i.exec(letter);
+    if (match) {
+      return OPTION_LETTERS.indexOf(match[1].toUpperCase());
+    }
+    const byText = options.findIndex((option) => option.trim() === letter);
+    if (byText !== -1) {
+      return byText;
+    }
+    return `Correct answer "${letter}" is not a letter A–D or one of the options.`;
+  }
+
+  const rawIndex = values.correct_index?.trim();
+  if (rawIndex) {
+    const parsed = Number(rawIndex);
+    return Number.isInteger(parsed) ? parsed : `correct_index "${rawIndex}" is not a number.`;
+  }
+
+  const text = values.correct_text?.trim();
+  if (text) {
+    const byText = options.findIndex((option) => option.trim() === text);
+    return byText !== -1 ? byText : `Correct answer text "${text}" does not match any option.`;
+  }
+
+  return "Missing correct answer.";
+}
+
+function parsePages(raw: string | undefined): StoredMcqItem["source_spans"] {
+  const pages = (raw ?? "")
+    .split(/[;,|\s]+/)
+    .map((value) => Number.parseInt(value.replace(/^p\.?/i, ""), 10))
+    .filter((page) => Number.isInteger(page) && page > 0);
+  return pages.length > 0 ? pages.map((page) => ({ page, text_snippet: "" })) : undefined;
+}
+
+/**
+ * Reads the answer of a question that is not single-answer: from the structured
+ * fields of a JSON row (`pairs`, `answer`, …), else from the answer key in the
+ * correct-answer column, written as the CSV export writes it.
+ */
+function resolveFormatAnswer(
+  format: Exclude<QuestionFormat, "single">,
+  record: Record<string, unknown>,
+  values: Partial<Record<ImportField, string>>,
+  options: unknown[],
+): Record<string, unknown> | string {
+  if (typeof parseAnswerFields(format, { ...record, options }, values.stem ?? "") !== "string") {
+    return {};
+  }
+  return parseAnswerKey(format, values.correct_letter?.trim() || values.correct_text?.trim() || "");
+}
+
+/**
+ * Builds a question from a flat record. Field names follow the CSV profile fields;
+ * JSON rows may also use the `StoredMcqItem` names (`options`, `correct_index`, …).
+ * A `format` column picks the question format; without one, rows are single-answer MCQs.
+ */
+function parseFlatQuestion(record: Record<string, unknown>): { topic: string; item: StoredMcqItem } | string {
+  const values: Partial<Record<ImportField, string>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = HEADER_ALIASES.get(headerKey(key));
+    if (field && (typeof value === "string" || typeof value === "number")) {
+      values[field] = String(value);
+    }
+  }
+
+  const topic = values.topic?.trim();
+  if (!topic) {
+    return "Missing topic.";
+  }
+
+  const format = values.format?.trim().toLowerCase().replace(/[\s-]+/g, "_") || "single";
+  if (!isQuestionFormat(format)) {
+    return `Unknown question format "${values.format}".`;
+  }
+
+  const options = Array.isArray(record.options)
+    ? record.options
+    : [values.option_a, values.option_b, values.option_c, values.option_d].map((option) => option ?? "");
+
+  let answer: Record<string, unknown>;
+  if (format === "single") {
+    const correctIndex = typeof record.correct_index === "number"
+      ? record.correct_index
+      : resolveCorrectIndex(values, options.map((option) => String(option ?? "")));
+    if (typeof correctIndex === "string") {
+      return correctIndex;
+    }
+    answer = { correct_index: correctIndex };
+  } else {
+    const resolved = resolveFormatAnswer(format, record, values, options);
+    if (typeof resolved === "string") {
+      return resolved;
+    }
+    answer = resolved;
+  }
+
+  const parsed = parseStoredMcqItem({
+    ...record,
+    id: values.question_id?.trim(),
+    stem: values.stem,
+    format,
+    options,
+    ...answer,
+    explanation: values.explanation ?? "",
+    bloom: values.bloom?.trim(),
+    difficulty: values.difficulty?.trim(),
+    type: values.type?.trim(),
+    image_url: values.image_url?.trim(),
+    source_spans: Array.isArray(record.source_spans) ? record.source_spans : parsePages(values.source_pages),
+  });
+
+  return typeof parsed === "string" ? parsed : { topic, item: parsed };
+}
+
+function parseCsvBank(content: string, errors: ImportRowError[]) {
+  const text = content.replace(/^\ufeff/, "");
+  const [header, ...rows] = parseCsvRows(text, detectDelimiter(text));
+
+  if (!header) {
+    return { entries: [], rowCount: 0 };
+  }
+
+  const unknown = header.cells.filter((cell) => cell.trim() && !HEADER_ALIASES.has(headerKey(cell)));
+  if (unknown.length > 0) {
+    errors.push({ row: 0, topic: null, message: `Ignored unknown column(s): ${unknown.join(", ")}.` });
+  }
+
+  const entries = rows.map(({ line, cells }) => {
+    const record: Record<string, string> = {};
+    header.cells.forEach((name, column) => {
+      record[name] = cells[column] ?? "";
+    });
+    return { row: line, record };
+  });
+
+  return { entries, rowCount: rows.length };
+}
+
+function parseJsonBank(content: string, errors: ImportRowError[]) {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^\ufeff/, ""));
+  } catch (error) {
+    errors.push({
+      row: 0,
+      topic: null,
+      message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return { entries: [], rowCount: 0 };
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { topics?: unknown }).topics)
+      ? (data as { topics: unknown[] }).topics
+      : null;
+
+  if (!list) {
+    errors.push({
+      row: 0,
+      topic: null,
+      message: "Expected an array of questions, an array of { topic, items } or { topics: [...] }.",
+    });
+    return { entries: [], rowCount: 0 };
+  }
+
+  // Topic buckets (`{ topic, items }`, as in the JSON export) are flattened into rows.
+  const records = list.flatMap((entry): Record<string, unknown>[] => {
+    const bucket = entry as { topic?: unknown; items?: unknown } | null;
+    if (bucket && typeof bucket === "object" && Array.isArray(bucket.items)) {
+      return bucket.items.map((item) => ({ topic: bucket.topic, ...(item as Record<string, unknown>) }));
+    }
+    return [entry as Record<string, unknown>];
+  });
+
+  return {
+    entries: records.map((record, index) => ({ row: index + 1, record })),
+    rowCount: records.length,
+  };
+}
+
+/**
+ * Parses a question bank into topic buckets in first-seen topic order. Rows that
+ * cannot be used are reported in `errors` and left out; the rest are still returned.
+ */
+export function parseQuestionBank(content: string, format: QuestionBankFormat): ParsedQuestionBank {
+  const errors: ImportRowError[] = [];
+  const { entries, rowCount } = format === "json"
+    ? parseJsonBank(content, errors)
+    : parseCsvBank(content, errors);
+
+  if (rowCount > MAX_IMPORT_ROWS) {
+    errors.push({
+      row: 0,
+      topic: null,
+      message: `The file has ${rowCount} rows; at most ${MAX_IMPORT_ROWS} can be imported at once.`,
+    });
+    return { topics: [], rowCount, errors };
+  }
+
+  const topics = new Map<string, StoredMcqItem[]>();
+
+  for (const { row, record } of entries) {
+    if (!record || typeof record !== "object") {
+      errors.push({ row, topic: null, message: "Each question must be an object." });
+      continue;
+    }
+
+    const parsed = parseFlatQuestion(record);
+    if (typeof parsed === "string") {
+      const topicKey = Object.keys(record).find((key) => HEADER_ALIASES.get(headerKey(key)) === "topic");
+      const topic = topicKey ? String(record[topicKey] ?? "").trim() : "";
+      errors.push({ row, topic: topic || null, message: parsed });
+      continue;
+    }
+
+    const item = parsed.item;
+    // Versioned persistence stores ids as UUIDs, so other legacy ids are replaced.
+    if (!item.id || !UUID_PATTERN.test(item.id)) {
+      item.id = crypto.randomUUID();
+    }
+    const bucket = topics.get(parsed.topic) ?? [];
+    bucket.push(item);
+    topics.set(parsed.topic, bucket);
+  }
+
+  return {
+    topics: [...topics.entries()].map(([topic, items]) => ({ topic, items })),
+    rowCount,
+    errors,
+  };
+}
+
+/** Guesses the format from the file name or the first non-blank character. */
+export function detectQuestionBankFormat(content: string, filename?: string | null): QuestionBankFormat {
+  if (filename?.toLowerCase().endsWith(".json")) {
+    return "json";
+  }
+  if (filename?.toLowerCase().endsWith(".csv")) {
+    return "csv";
+  }
+  return /^[\s\ufeff]*[[{]/.test(content) ? "json" : "csv";
+}
@@ -0,0 +1,288 @@
+import type { PoolClient } from "pg";
+import { ensureSchema, getDbPool } from "@/lib/db";
+import type { StoredMcqItem } from "./jobStore";
+
+export type PersistenceMode = "replace" | "versioned";
+export type VersionSetStatus = "active" | "retired";
+
+export interface TopicVersionQuestion {
+  questionUid: string;
+  questionId: number;
+  position: number;
+  item: StoredMcqItem;
+}
+
+export interface TopicVersion {
+  version: number;
+  status: VersionSetStatus;
+  jobId: string | null;
+  createdAt: string;
+  retiredAt: string | null;
+  questions: TopicVersionQuestion[];
+}
+
+const QUESTION_VERSION_SCHEMA = [
+  `ALTER TABLE questions ADD COLUMN IF NOT EXISTS retired_at TIMESTAMPTZ`,
+  `CREATE TABLE IF NOT EXISTS question_version_sets (
+     id SERIAL PRIMARY KEY,
+     topic_id INTEGER NOT NULL,
+     version INTEGER NOT NULL,
+     job_id UUID,
+     status TEXT NOT NULL DEFAULT 'active',
+     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     retired_at TIMESTAMPTZ,
+     UNIQUE (topic_id, version)
+   )`,
+  `CREATE TABLE IF NOT EXISTS question_version_entries (
+     version_set_id INTEGER NOT NULL REFERENCES question_version_sets (id) ON DELETE CASCADE,
+     question_uid UUID NOT NULL,
+     question_id INTEGER NOT NULL,
+     position INTEGER NOT NULL,
+     item JSONB NOT NULL,
+     PRIMARY KEY (version_set_id, position)
+   )`,
+  `CREATE INDEX IF NOT EXISTS question_version_entries_uid_idx ON question_version_entries (question_uid)`,
+];
+
+interface VersionSetRow {
+  id: number;
+  version: number;
+  status: VersionSetStatus;
+  job_id: string | null;
+  created_at: Date;
+  retired_at: Date | null;
+}
+
+interface VersionEntryRow {
+  version_set_id: number;
+  question_uid: string;
+  question_id: number;
+  position: number;
+  item: StoredMcqItem;
+}
+
+/**
+ * `MCQ_PERSISTENCE_MODE=versioned` keeps every stored question set; anything else
+ * keeps the original delete-and-reinsert behaviour.
+ */
+export function getPersistenceMode(): PersistenceMode {
+  return process.env.MCQ_PERSISTENCE_MODE?.trim().toLowerCase() === "versioned"
+    ? "versioned"
+    : "replace";
+}
+
+export function ensureQuestionVersionSchema(): Promise<void> {
+  return ensureSchema("question_versions", QUESTION_VERSION_SCHEMA);
+}
+
+/** JSON with object keys sorted, so an item read back from JSONB (which reorders keys) still compares equal. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => canonicalJson(entry ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameItem(left: StoredMcqItem, right: StoredMcqItem): boolean {
+  return canonicalJson(left) === canonicalJson(right);
+}
+
+async function retireOtherQuestions(
+  client: PoolClient,
+  topicId: number,
+  classLabel: string,
+  keepIds: number[],
+): Promise<void> {
+  await client.query(
+    `UPDATE questions SET retired_at = NOW()
+     WHERE topic_id = $1 AND class = $2 AND retired_at IS NULL AND NOT (id = ANY($3::integer[]))`,
+    [topicId, classLabel, keepIds],
+  );
+}
+
+/**
+ * Stores `items` as the topic's next version inside the caller's transaction. Questions
+ * whose id and content match the active version keep their `questions` row; everything
+ * else gets a new row from `insertQuestion`, and rows left out of the new version are
+ * retired rather than deleted. The caller's topic upsert holds the topic row lock, so
+ * concurrent writers for one topic are serialized.
+ */
+export async function storeTopicVersion(
+  client: PoolClient,
+  options: {
+    topicId: number;
+    classLabel: string;
+    jobId: string;
+    items: StoredMcqItem[];
+    insertQuestion: (item: StoredMcqItem) => Promise<number>;
+  },
+): Promise<{ version: number; reused: number; inserted: number }> {
+  const { topicId, classLabel, jobId, items, insertQuestion } = options;
+
+  const active = await client.query<VersionSetRow>(
+    `SELECT * FROM question_version_sets WHERE topic_id = $1 AND status = 'active'`,
+    [topicId],
+  );
+  const activeSet = active.rows[0];
+  const previousEntries = activeSet
+    ? (
+        await client.query<VersionEntryRow>(
+          `SELECT * FROM question_version_entries WHERE version_set_id = $1`,
+          [activeSet.id],
+        )
+      ).rows
+    : [];
+  const previousByUid = new Map(previousEntries.map((entry) => [entry.question_uid, entry]));
+
+  const latest = await client.query<{ version: number | null }>(
+    `SELECT MAX(version) AS version FROM question_version_sets WHERE topic_id = $1`,
+    [topicId],
+  );
+  const version = (latest.rows[0]?.version ?? 0) + 1;
+
+  if (activeSet) {
+    await client.query(
+      `UPDATE question_version_sets SET status = 'retired', retired_at = NOW() WHERE id = $1`,
+      [activeSet.id],
+    );
+  }
+
+  const inserted = await client.query<{ id: number }>(
+    `INSERT INTO question_version_sets (topic_id, version, job_id, status)
+     VALUES ($1, $2, $3, 'active')
+     RETURNING id`,
+    [topicId, version, jobId],
+  );
+  const versionSetId = inserted.rows[0].id;
+
+  const keepIds: number[] = [];
+  let reused = 0;
+
+  for (const [position, item] of items.entries()) {
+    const questionUid = item.id ?? crypto.randomUUID();
+    const previous = previousByUid.get(questionUid);
+    const storedItem = { ...item, id: questionUid };
+    let questionId: number;
+
+    if (previous && sameItem(previous.item, storedItem)) {
+      questionId = previous.question_id;
+      reused += 1;
+    } else {
+      questionId = await insertQuestion(storedItem);
+    }
+
+    keepIds.push(questionId);
+    await client.query(
+      `INSERT INTO question_version_entries (version_set_id, question_uid, question_id, position, item)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [versionSetId, questionUid, questionId, position, JSON.stringify(storedItem)],
+    );
+  }
+
+  await retireOtherQuestions(client, topicId, classLabel, keepIds);
+
+  return { version, reused, inserted: items.length - reused };
+}
+
+function toTopicVersion(row: VersionSetRow, entries: VersionEntryRow[]): TopicVersion {
+  return {
+    version: row.version,
+    status: row.status,
+    jobId: row.job_id,
+    createdAt: new Date(row.created_at).toISOString(),
+    retiredAt: row.retired_at ? new Date(row.retired_at).toISOString() : null,
+    questions: entries
+      .filter((entry) => entry.version_set_id === row.id)
+      .sort((left, right) => left.position - right.position)
+      .map((entry) => ({
+        questionUid: entry.question_uid,
+        questionId: entry.question_id,
+        position: entry.position,
+        item: entry.item,
+      })),
+  };
+}
+
+export async function listTopicVersions(topicId: number): Promise<TopicVersion[]> {
+  await ensureQuestionVersionSchema();
+  const db = getDbPool();
+
+  const sets = await db.query<VersionSetRow>(
+    `SELECT * FROM question_version_sets WHERE topic_id = $1 ORDER BY version DESC`,
+    [topicId],
+  );
+  const entries = await db.query<VersionEntryRow>(
+    `SELECT e.* FROM question_version_entries e
+     JOIN question_version_sets s ON s.id = e.version_set_id
+     WHERE s.topic_id = $1`,
+    [topicId],
+  );
+
+  return sets.rows.map((row) => toTopicVersion(row, entries.rows));
+}
+
+/**
+ * Makes an earlier version the topic's active set again: its questions are restored
+ * and the questions of the version it replaces are retired. Returns null when the
+ * version does not exist.
+ */
+export async function rollbackTopicVersion(
+  topicId: number,
+  version: number,
+): Promise<TopicVersion | null> {
+  await ensureQuestionVersionSchema();
+  const client = await getDbPool().connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const topic = await client.query<{ class: string }>(
+      `SELECT class FROM topics WHERE id = $1 FOR UPDATE`,
+      [topicId],
+    );
+    const target = await client.query<VersionSetRow>(
+      `SELECT * FROM question_version_sets WHERE topic_id = $1 AND version = $2`,
+      [topicId, version],
+    );
+
+    if (!topic.rows[0] || !target.rows[0]) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    const targetSet = target.rows[0];
+    const entries = await client.query<VersionEntryRow>(
+      `SELECT * FROM question_version_entries WHERE version_set_id = $1`,
+      [targetSet.id],
+    );
+    const questionIds = entries.rows.map((entry) => entry.question_id);
+
+    await client.query(
+      `UPDATE question_version_sets SET status = 'retired', retired_at = NOW()
+       WHERE topic_id = $1 AND status = 'active' AND id <> $2`,
+      [topicId, targetSet.id],
+    );
+    const restored = await client.query<VersionSetRow>(
+      `UPDATE question_version_sets SET status = 'active', retired_at = NULL WHERE id = $1 RETURNING *`,
+      [targetSet.id],
+    );
+    await client.query(`UPDATE questions SET retired_at = NULL WHERE id = ANY($1::integer[])`, [
+      questionIds,
+    ]);
+    await retireOtherQuestions(client, topicId, topic.rows[0].class, questionIds);
+
+    await client.query("COMMIT");
+    return toTopicVersion(restored.rows[0], entries.rows);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getJobStore, type JobRecord } from "../jobStore";
+import { MAX_GUIDANCE_LENGTH } from "../rubricProfiles";
+
+export const runtime = "nodejs";
+
+function getRegenerateTopic(): (
+  jobId: string,
+  record: JobRecord,
+  topic: string,
+  guidance?: string,
+) => Promise<void> {
+  const handler = globalThis.__mcqRegenerateTopic;
+  if (!handler) {
+    throw new Error("Topic regeneration handler is unavailable.");
+  }
+  return handler;
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { jobId?: string; topic?: string; guidance?: string }
+      | null;
+
+    if (!payload || typeof payload.jobId !== "string" || payload.jobId.trim().length === 0) {
+      return NextResponse.json({ error: "jobId is required." }, { status: 400 });
+    }
+
+    if (typeof payload.topic !== "string" || payload.topic.trim().length === 0) {
+      return NextResponse.json({ error: "topic is required." }, { status: 400 });
+    }
+
+    if (payload.guidance !== undefined && typeof payload.guidance !== "string") {
+      return NextResponse.json({ error: "guidance must be text." }, { status: 400 });
+    }
+
+    const guidance = payload.guidance?.trim() || undefined;
+    if (guidance && guidance.length > MAX_GUIDANCE_LENGTH) {
+      return NextResponse.json(
+        { error: `guidance must be at most ${MAX_GUIDANCE_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+
+    const jobId = payload.jobId.trim();
+    const topicName = payload.topic;
+    const jobStore = getJobStore();
+    const record = await jobStore.get(jobId);
+
+    if (!record) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 });
+    }
+
+    if (record.status === "pending" || record.status === "processing") {
+      return NextResponse.json({ error: "Job is still running." }, { status: 409 });
+    }
+
+    if (!record.generatedTopics?.some((topic) => topic.topic === topicName)) {
+      return NextResponse.json({ error: "Topic has no generated questions on this job." }, { status: 409 });
+    }
+
+    if (!record.payload.vectorStoreId) {
+      return NextResponse.json(
+        { error: "Imported question banks have no uploaded book to regenerate from." },
+        { status: 409 },
+      );
+    }
+
+    await import("../route");
+
+    const regenerateTopic = getRegenerateTopic();
+    await regenerateTopic(jobId, record, topicName, guidance);
+
+    return NextResponse.json({ jobId: record.id, topic: topicName, status: record.status });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to regenerate topic.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
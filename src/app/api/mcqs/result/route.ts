@@ -1,17 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
+import { loadFigureFiles } from "@/lib/bookFigures";
+import { getCsvProfile } from "../csvProfiles";
 import { getJobStore } from "../jobStore";
+import {
+  buildExportBasename,
+  getExportableTopics,
+  getExporter,
+  listExporters,
+} from "../exporters";
 
 export const runtime = "nodejs";
 
 export async function GET(request: NextRequest) {
   const jobId = request.nextUrl.searchParams.get("jobId");
+  const format = request.nextUrl.searchParams.get("format") ?? "csv";
+  const profileName = request.nextUrl.searchParams.get("profile")?.trim() || null;
 
   if (!jobId) {
     return NextResponse.json({ error: "Missing jobId parameter." }, { status: 400 });
   }
 
+  const exporter = getExporter(format);
+
+  if (!exporter) {
+    return NextResponse.json(
+      {
+        error: `Unknown format "${format}". Supported formats: ${listExporters()
+          .map((entry) => entry.format)
+          .join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
   const jobStore = getJobStore();
-  const record = jobStore.get(jobId);
+  const record = await jobStore.get(jobId);
 
   if (!record) {
     return NextResponse.json({ error: "Job not found." }, { status: 404 });
@@ -21,11 +44,56 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Job is not ready." }, { status: 409 });
   }
 
-  return new NextResponse(record.resultCsv, {
+  let csvProfile = null;
+  if (profileName && exporter.format === "csv") {
+    try {
+      csvProfile = await getCsvProfile(profileName);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to load the CSV profile.";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+
+    if (!csvProfile) {
+      return NextResponse.json(
+        { error: `CSV profile "${profileName}" does not exist.` },
+        { status: 400 },
+      );
+    }
+  }
+
+  const topics = getExportableTopics(record);
+  // Figures are bundled into the packaged formats; missing ones are linked by URL instead.
+  const figures = exporter.format === "csv"
+    ? undefined
+    : await loadFigureFiles(
+        topics.flatMap((topic) => topic.items.flatMap((item) => (item.image_url ? [item.image_url] : []))),
+      ).catch((error) => {
+        console.warn(`[result] Unable to load figures for job ${record.id}.`, error);
+        return undefined;
+      });
+
+  // The job's own CSV is built when it finishes; other formats and CSV profiles are
+  // rendered on request.
+  const result = exporter.format === "csv" && !csvProfile
+    ? {
+        body: record.resultCsv,
+        contentType: "text/csv; charset=utf-8",
+        filename: record.outputFilename ?? "mcqs.csv",
+      }
+    : exporter.export({
+        jobId: record.id,
+        payload: record.payload,
+        topics,
+        basename: buildExportBasename(record.payload),
+        csvProfile: csvProfile ?? undefined,
+        figures,
+      });
+
+  return new NextResponse(result.body, {
     status: 200,
     headers: {
-      "Content-Type": "text/csv; charset=utf-8",
-      "Content-Disposition": `attachment; filename="${record.outputFilename ?? "mcqs.csv"}"`,
+      "Content-Type": result.contentType,
+      "Content-Disposition": `attachment; filename="${result.filename}"`,
     },
   });
 }
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getJobStore, type JobRecord } from "../jobStore";
+
+export const runtime = "nodejs";
+
+function getResumeJob(): (jobId: string, record: JobRecord) => Promise<void> {
+  const handler = globalThis.__mcqResumeJob;
+  if (!handler) {
+    throw new Error("Job resume handler is unavailable.");
+  }
+  return handler;
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as { jobId?: string } | null;
+
+    if (!payload || typeof payload.jobId !== "string" || payload.jobId.trim().length === 0) {
+      return NextResponse.json({ error: "jobId is required." }, { status: 400 });
+    }
+
+    const jobId = payload.jobId.trim();
+    const jobStore = getJobStore();
+    const record = await jobStore.get(jobId);
+
+    if (!record) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 });
+    }
+
+    if (record.status !== "failed" || !record.resumable) {
+      return NextResponse.json({ error: "Job cannot be resumed." }, { status: 409 });
+    }
+
+    await import("../route");
+
+    const resumeJob = getResumeJob();
+    await resumeJob(jobId, record);
+
+    return NextResponse.json({
+      jobId: record.id,
+      status: record.status,
+      completedTopics: record.topicCheckpoints?.length ?? 0,
+      totalTopics: record.payload.topics.length,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to resume job.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -21,7 +21,7 @@ export async function POST(request: Request) {
 
     const jobId = payload.jobId.trim();
     const jobStore = getJobStore();
-    const record = jobStore.get(jobId);
+    const record = await jobStore.get(jobId);
 
     if (!record) {
       return NextResponse.json({ error: "Job not found." }, { status: 404 });
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { parseStoredMcqItem } from "../../mcqItems";
+import {
+  REVIEW_DECISIONS,
+  getReviewItem,
+  recordReviewDecision,
+  type ReviewDecision,
+} from "../../reviewQueue";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { id?: number; decision?: string; item?: unknown }
+      | null;
+
+    if (!payload || typeof payload.id !== "number") {
+      return NextResponse.json({ error: "id is required." }, { status: 400 });
+    }
+
+    if (!payload.decision || !REVIEW_DECISIONS.includes(payload.decision as ReviewDecision)) {
+      return NextResponse.json(
+        { error: `decision must be one of ${REVIEW_DECISIONS.join(", ")}.` },
+        { status: 400 },
+      );
+    }
+
+    const entry = await getReviewItem(payload.id);
+
+    if (!entry) {
+      return NextResponse.json({ error: "Review item not found." }, { status: 404 });
+    }
+
+    if (entry.status === "published") {
+      return NextResponse.json({ error: "Review item has already been published." }, { status: 409 });
+    }
+
+    const decision = payload.decision as ReviewDecision;
+    let finalItem = null;
+
+    switch (decision) {
+      case "accept_original":
+        finalItem = entry.originalItem;
+        break;
+      case "accept_replacement":
+        if (!entry.replacementItem) {
+          return NextResponse.json(
+            { error: "The validator did not provide a replacement for this question." },
+            { status: 400 },
+          );
+        }
+        finalItem = entry.replacementItem;
+        break;
+      case "edited": {
+        const parsed = parseStoredMcqItem(payload.item);
+        if (typeof parsed === "string") {
+          return NextResponse.json({ error: parsed }, { status: 400 });
+        }
+        finalItem = parsed;
+        break;
+      }
+      case "discard":
+        finalItem = null;
+        break;
+    }
+
+    const updated = await recordReviewDecision(entry.id, decision, finalItem);
+    return NextResponse.json({ item: updated });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to record review decision.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { getJobStore, type JobRecord, type StoredMcqItem } from "../../jobStore";
+import { applyReviewDecisions, listReviewItems, markTopicPublished } from "../../reviewQueue";
+
+export const runtime = "nodejs";
+
+function getPublishReviewedTopic(): (
+  jobId: string,
+  record: JobRecord,
+  topic: string,
+  items: StoredMcqItem[],
+) => Promise<void> {
+  const handler = globalThis.__mcqPublishReviewedTopic;
+  if (!handler) {
+    throw new Error("Review publish handler is unavailable.");
+  }
+  return handler;
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { jobId?: string; topic?: string }
+      | null;
+
+    if (!payload || typeof payload.jobId !== "string" || payload.jobId.trim().length === 0) {
+      return NextResponse.json({ error: "jobId is required." }, { status: 400 });
+    }
+
+    if (typeof payload.topic !== "string" || payload.topic.trim().length === 0) {
+      return NextResponse.json({ error: "topic is required." }, { status: 400 });
+    }
+
+    const jobId = payload.jobId.trim();
+    const topicName = payload.topic;
+    const jobStore = getJobStore();
+    const record = await jobStore.get(jobId);
+
+    if (!record) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 });
+    }
+
+    // A running job (generation, resume or a topic regeneration) would overwrite the published set.
+    if (record.status === "pending" || record.status === "processing") {
+      return NextResponse.json({ error: "Job is still running." }, { status: 409 });
+    }
+
+    const topic = record.generatedTopics?.find((entry) => entry.topic === topicName);
+
+    if (!topic || !record.failedTopics?.includes(topicName)) {
+      return NextResponse.json({ error: "Topic is not awaiting review on this job." }, { status: 409 });
+    }
+
+    const entries = await listReviewItems({ jobId, topic: topicName });
+    const undecided = entries.filter((entry) => entry.status === "pending");
+
+    if (undecided.length > 0) {
+      return NextResponse.json(
+        { error: `${undecided.length} question(s) in this topic still need a decision.` },
+        { status: 409 },
+      );
+    }
+
+    const items = applyReviewDecisions(
+      topic.items,
+      entries.filter((entry) => entry.status === "decided"),
+    );
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: "Every question in this topic was discarded." }, { status: 400 });
+    }
+
+    await import("../../route");
+
+    const publishReviewedTopic = getPublishReviewedTopic();
+    await publishReviewedTopic(jobId, record, topicName, items);
+    await markTopicPublished(jobId, topicName);
+
+    return NextResponse.json({
+      jobId: record.id,
+      topic: topicName,
+      questionCount: items.length,
+      status: record.status,
+      error: record.error ?? null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to publish reviewed topic.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
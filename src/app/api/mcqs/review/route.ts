@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listReviewItems, type ReviewItemStatus } from "../reviewQueue";
+
+export const runtime = "nodejs";
+
+const STATUSES: ReviewItemStatus[] = ["pending", "decided", "published"];
+
+export async function GET(request: NextRequest) {
+  const statusParam = request.nextUrl.searchParams.get("status");
+  const jobId = request.nextUrl.searchParams.get("jobId") ?? undefined;
+
+  if (statusParam && !STATUSES.includes(statusParam as ReviewItemStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of ${STATUSES.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const items = await listReviewItems({
+      status: (statusParam as ReviewItemStatus | null) ?? undefined,
+      jobId,
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("[review] Failed to list review items", error);
+    return NextResponse.json({ error: "Unable to load the review queue." }, { status: 500 });
+  }
+}
@@ -0,0 +1,217 @@
+import type { TopicValidationVerdict } from "@/lib/anthropic";
+import { ensureSchema, getDbPool } from "@/lib/db";
+import type { StoredMcqItem } from "./jobStore";
+
+export type ReviewDecision = "accept_original" | "accept_replacement" | "edited" | "discard";
+export type ReviewItemStatus = "pending" | "decided" | "published";
+
+export const REVIEW_DECISIONS: ReviewDecision[] = [
+  "accept_original",
+  "accept_replacement",
+  "edited",
+  "discard",
+];
+
+export interface NewReviewItem {
+  topic: string;
+  questionIndex: number;
+  originalItem: StoredMcqItem;
+  replacementItem: StoredMcqItem | null;
+  reasons: string[];
+  verdict: Omit<TopicValidationVerdict, "replacementMcq">;
+}
+
+export interface ReviewItem extends NewReviewItem {
+  id: number;
+  jobId: string;
+  status: ReviewItemStatus;
+  decision: ReviewDecision | null;
+  finalItem: StoredMcqItem | null;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+const REVIEW_QUEUE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_review_items (
+     id SERIAL PRIMARY KEY,
+     job_id UUID NOT NULL,
+     topic TEXT NOT NULL,
+     question_index INTEGER NOT NULL,
+     original_item JSONB NOT NULL,
+     replacement_item JSONB,
+     reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+     verdict JSONB NOT NULL,
+     status TEXT NOT NULL DEFAULT 'pending',
+     decision TEXT,
+     final_item JSONB,
+     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     decided_at TIMESTAMPTZ
+   )`,
+  `CREATE INDEX IF NOT EXISTS mcq_review_items_job_topic_idx ON mcq_review_items (job_id, topic)`,
+  `CREATE INDEX IF NOT EXISTS mcq_review_items_status_idx ON mcq_review_items (status)`,
+];
+
+interface ReviewItemRow {
+  id: number;
+  job_id: string;
+  topic: string;
+  question_index: number;
+  original_item: StoredMcqItem;
+  replacement_item: StoredMcqItem | null;
+  reasons: string[];
+  verdict: Omit<TopicValidationVerdict, "replacementMcq">;
+  status: ReviewItemStatus;
+  decision: ReviewDecision | null;
+  final_item: StoredMcqItem | null;
+  created_at: Date;
+  decided_at: Date | null;
+}
+
+function toReviewItem(row: ReviewItemRow): ReviewItem {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    topic: row.topic,
+    questionIndex: row.question_index,
+    originalItem: row.original_item,
+    replacementItem: row.replacement_item,
+    reasons: row.reasons,
+    verdict: row.verdict,
+    status: row.status,
+    decision: row.decision,
+    finalItem: row.final_item,
+    createdAt: new Date(row.created_at).toISOString(),
+    decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : null,
+  };
+}
+
+/**
+ * Replaces the job's unpublished queue entries with the questions from its latest
+ * validation run. Published entries are history and are left alone. With `topic`,
+ * only that topic's entries are replaced.
+ */
+export async function replacePendingReviewItems(
+  jobId: string,
+  items: NewReviewItem[],
+  topic?: string,
+): Promise<void> {
+  await ensureSchema("mcq_review_items", REVIEW_QUEUE_SCHEMA);
+  const client = await getDbPool().connect();
+
+  try {
+    await client.query("BEGIN");
+    if (topic === undefined) {
+      await client.query(`DELETE FROM mcq_review_items WHERE job_id = $1 AND status <> 'published'`, [
+        jobId,
+      ]);
+    } else {
+      await client.query(
+        `DELETE FROM mcq_review_items WHERE job_id = $1 AND topic = $2 AND status <> 'published'`,
+        [jobId, topic],
+      );
+    }
+
+    for (const item of items) {
+      await client.query(
+        `INSERT INTO mcq_review_items (job_id, topic, question_index, original_item, replacement_item, reasons, verdict)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          jobId,
+          item.topic,
+          item.questionIndex,
+          JSON.stringify(item.originalItem),
+          item.replacementItem ? JSON.stringify(item.replacementItem) : null,
+          JSON.stringify(item.reasons),
+          JSON.stringify(item.verdict),
+        ],
+      );
+    }
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listReviewItems(filter: {
+  status?: ReviewItemStatus;
+  jobId?: string;
+  topic?: string;
+}): Promise<ReviewItem[]> {
+  await ensureSchema("mcq_review_items", REVIEW_QUEUE_SCHEMA);
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.status) {
+    values.push(filter.status);
+    conditions.push(`status = $${values.length}`);
+  }
+  if (filter.jobId) {
+    values.push(filter.jobId);
+    conditions.push(`job_id = $${values.length}`);
+  }
+  if (filter.topic) {
+    values.push(filter.topic);
+    conditions.push(`topic = $${values.length}`);
+  }
+
+  const result = await getDbPool().query<ReviewItemRow>(
+    `SELECT * FROM mcq_review_items
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY created_at, job_id, topic, question_index`,
+    values,
+  );
+
+  return result.rows.map(toReviewItem);
+}
+
+export async function getReviewItem(id: number): Promise<ReviewItem | null> {
+  await ensureSchema("mcq_review_items", REVIEW_QUEUE_SCHEMA);
+  const result = await getDbPool().query<ReviewItemRow>(`SELECT * FROM mcq_review_items WHERE id = $1`, [
+    id,
+  ]);
+  return result.rows[0] ? toReviewItem(result.rows[0]) : null;
+}
+
+export async function recordReviewDecision(
+  id: number,
+  decision: ReviewDecision,
+  finalItem: StoredMcqItem | null,
+): Promise<ReviewItem | null> {
+  await ensureSchema("mcq_review_items", REVIEW_QUEUE_SCHEMA);
+  const result = await getDbPool().query<ReviewItemRow>(
+    `UPDATE mcq_review_items
+     SET status = 'decided', decision = $2, final_item = $3, decided_at = NOW()
+     WHERE id = $1 AND status <> 'published'
+     RETURNING *`,
+    [id, decision, finalItem ? JSON.stringify(finalItem) : null],
+  );
+  return result.rows[0] ? toReviewItem(result.rows[0]) : null;
+}
+
+export async function markTopicPublished(jobId: string, topic: string): Promise<void> {
+  await ensureSchema("mcq_review_items", REVIEW_QUEUE_SCHEMA);
+  await getDbPool().query(
+    `UPDATE mcq_review_items SET status = 'published' WHERE job_id = $1 AND topic = $2 AND status = 'decided'`,
+    [jobId, topic],
+  );
+}
+
+/**
+ * Applies the reviewer's decisions to the topic's current questions: decided
+ * entries replace (or, when discarded, drop) the question at their index.
+ */
+export function applyReviewDecisions(items: StoredMcqItem[], decisions: ReviewItem[]): StoredMcqItem[] {
+  const byIndex = new Map(decisions.map((entry) => [entry.questionIndex, entry]));
+
+  return items.flatMap((item, index) => {
+    const entry = byIndex.get(index);
+    if (!entry) {
+      return [item];
+    }
+    return entry.decision === "discard" || !entry.finalItem ? [] : [entry.finalItem];
+  });
+}
@@ -5,7 +5,18 @@ import {
   type TopicValidationPayload,
   type ReplacementMcq,
 } from "@/lib/anthropic";
+import { getBookRegistry } from "@/lib/bookRegistry";
+import {
+  describeFigure,
+  loadFigureImages,
+  loadFigureSet,
+  type BookFigure,
+} from "@/lib/bookFigures";
+import { isBookSetId } from "@/lib/bookText";
 import { getOpenAIClient } from "@/lib/openai";
+import { getConcurrencyLimit, mapWithConcurrency } from "@/lib/concurrency";
+import { getStageModel, type LlmImage, type LlmUsage, type StageModel } from "@/lib/llm";
+import { getErrorStatus, retryWithBackoff } from "@/lib/retry";
 import { summarizeVectorStoreFiles } from "@/lib/vectorStore";
 import {
   type JobPayload,
@@ -13,166 +24,225 @@ import {
   type TopicSummary,
   type StoredTopicMcqs,
   type StoredMcqItem,
+  type TokenUsageTotals,
   getJobStore,
 } from "./jobStore";
+import { isTerminalStatus, publishJobEvent, publishJobStatus } from "./jobEvents";
+import { replacePendingReviewItems, type NewReviewItem } from "./reviewQueue";
+import {
+  ensureQuestionIds,
+  recordFinalItems,
+  recordReplacement,
+  recordTopicRegenerated,
+  recordVerdict,
+} from "./questionAudit";
+import {
+  answerKey,
+  buildFormatSchema,
+  choiceTexts,
+  ensureQuestionFormatSchema,
+  formatOf,
+  hasOptions,
+  parseAnswerFields,
+  toQuestionRow,
+} from "./questionFormats";
+import { parseStoredMcqItem } from "./mcqItems";
+import {
+  ensureQuestionVersionSchema,
+  getPersistenceMode,
+  storeTopicVersion,
+} from "./questionVersions";
+import {
+  findDuplicateQuestions,
+  getDedupSettings,
+  loadStoredQuestions,
+  type DedupReference,
+  type DedupSettings,
+} from "./dedup";
+import {
+  canMeetTargets,
+  checkTopicDistribution,
+  describeDistribution,
+  fillMissingCategories,
+  getDistributionSettings,
+  getDistributionTargets,
+  getMissingCategories,
+} from "./distribution";
+import { buildExportBasename, csvExporter, getExportableTopics } from "./exporters";
+import { getCsvProfile } from "./csvProfiles";
+import {
+  DEFAULT_RUBRIC_PROFILE,
+  MAX_GUIDANCE_LENGTH,
+  MAX_RUBRIC_QUESTIONS,
+  allowedBloomValues,
+  allowedDifficulties,
+  buildRubricPrompt,
+  getRubricProfile,
+  resolveRubricProfile,
+  rubricFormats,
+  type RubricProfile,
+} from "./rubricProfiles";
+import {
+  assertWithinBudget,
+  formatCost,
+  recordJobCost,
+  reserveBudget,
+  withinBudget,
+  type BudgetReservation,
+  type CostStage,
+} from "./costs";
+import {
+  collectCitationIssues,
+  getGroundingSource,
+  groundingKey,
+  groundTopics,
+  type CitationIssue,
+  type QuestionGrounding,
+} from "./grounding";
 import { getDbPool } from "@/lib/db";
+import type { PoolClient } from "pg";
 
-const MODEL = "gpt-4.1";
 const MAX_VALIDATION_ATTEMPTS = 2;
-
-const MCQ_RUBRIC = `You are a K–12 curriculum expert and assessment designer.
-
-Goal: Generate high-quality MCQs strictly from the provided book PDF.
-
-Quantity per topic
-- Produce 10–15 MCQs (decide by topic size/complexity).
-- Keep questions varied and non-redundant.
-
-Diverse types (mix across the set)
-- Direct recall
-- Application / word problem
-- Assertion–Reason
-- Fill-in-the-blank (convert to 4 options; only one correct)
-- (Optional) One diagram/figure-based if the text clearly supports it
-
-Bloom’s distribution (across the whole set)
-- 20% Remember
-- 25% Understand
-- 25% Apply
-- 20% Analyze
-- 10% Evaluate/Create
-
-Answer balancing
-- Shuffle correct answers among A, B, C, D.
-- No single option is correct > 40% of the time across the set.
-- The "correct_index" must match the shuffled option (0=A, 1=B, 2=C, 3=D).
-- This distribution rule is mandatory; adjust choices internally before responding so it is satisfied.
-
-Explanations
-- Friendly teacher tone, step-by-step, suitable for self-study.
-- Do NOT prefix with “Correct option is…”.
-- Provide clear, slightly longer teaching-style notes (1–3 sentences).
-
-Must Rules
-- Use only facts present or logically entailed by the topic content in the book.
-- Keep stems concise; avoid clues like “All/None of the above”.
-- Each MCQ must have exactly one correct choice.
-- If the topic content is too thin, reduce count but keep Bloom balance as close as possible.
-
-Formatting & schema (JSON only)
-{
-  "mcqs": [
-    {
-      "bloom": "Remember|Understand|Apply|Analyze|Evaluate|Create",
-      "difficulty": "Easy|Medium|Hard",
-      "stem": "string",
-      "options": ["A text","B text","C text","D text"],
-      "correct_index": 0,
-      "explanation": "string",
-      "type": "recall|application|assertion-reason|fill-blank|diagram",
-      "source_spans": [{"page": 0, "text_snippet": "string"}]
-    }
-  ]
-}`;
-
-const CSV_HEADERS = [
-  "Topic",
-  "Question_text",
-  "Option A",
-  "Option B",
-  "Option C",
-  "Option D",
-  "Correct_Answer",
-  "Explanation",
-] as const;
-
-const LETTERS = ["A", "B", "C", "D"];
+const DEFAULT_GENERATION_CONCURRENCY = 3;
 
 const jobStore = getJobStore();
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function buildInstructionPrompt(
+  topic: TopicSummary,
+  chapterNumber: number,
+  chapterTitle: string,
+  index: number,
+  totalTopics: number,
+  rubric: RubricProfile,
+  guidance?: string,
+  figures: BookFigure[] = [],
+): string {
+  const { min, max } = getQuestionRange(topic, rubric);
+  const count = min === max
+    ? `exactly ${min} MCQs`
+    : `${min}–${max} MCQs (decide by topic size/complexity)`;
+  let prompt = `${buildRubricPrompt(rubric)}\n\nChapter focus: Chapter ${chapterNumber} – "${chapterTitle}".\nTopic focus (${index + 1} of ${totalTopics}): ${topic.topic}.\nTopic summary: ${topic.description}\nQuestion count: ${count}.`;
+  if (figures.length > 0) {
+    prompt += `\n\nFigures from the chapter (attached as images after the request):\n${figures
+      .map((figure) => `- ${describeFigure(figure)}`)
+      .join("\n")}\nA "diagram" question must be about one of these figures: set figure_id to its id and word the stem for a student looking at that figure (e.g. "In the figure shown, …"). Only write diagram questions for figures relevant to this topic. Set figure_id to null for every other question.`;
+  }
+  return guidance ? `${prompt}\n\nTeacher guidance (follow it unless it conflicts with the rules above):\n${guidance}` : prompt;
 }
 
-function makeFilenamePart(raw: string, fallback: string): string {
-  const sanitized = raw
-    .trim()
-    .replace(/\s+/g, "_")
-    .replace(/[^A-Za-z0-9_\-]/g, "");
-  return sanitized.length > 0 ? sanitized : fallback;
+/** Figures the job's generator may ask about; only rubrics with `diagram` questions use them. */
+function getJobFigures(payload: JobPayload): BookFigure[] {
+  return getJobRubric(payload).questionTypes.includes("diagram") ? payload.figures ?? [] : [];
 }
 
-function getErrorStatus(error: unknown): number | null {
-  if (!error) {
-    return null;
-  }
-
-  const candidate = error as { status?: unknown; response?: { status?: unknown } };
+/** The rubric the job was created with; jobs from before rubric profiles use the default. */
+function getJobRubric(payload: JobPayload): RubricProfile {
+  return payload.rubricProfile ?? DEFAULT_RUBRIC_PROFILE;
+}
 
-  if (typeof candidate.status === "number") {
-    return candidate.status;
-  }
+/**
+ * Checks an edited topic list: names must be present and unique (buckets are matched
+ * by name), and question counts whole numbers within the supported range.
+ */
+function checkTopicList(topics: TopicSummary[]): string | null {
+  const names = new Set<string>();
+  for (const topic of topics) {
+    const name = typeof topic?.topic === "string" ? topic.topic.trim() : "";
+    if (!name) {
+      return "Every topic needs a name.";
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Topic "${name}" is listed more than once.`;
+    }
+    names.add(name.toLowerCase());
 
-  if (candidate.response && typeof candidate.response.status === "number") {
-    return candidate.response.status;
+    const count = topic.questionCount;
+    if (
+      count !== undefined &&
+      count !== null &&
+      (!Number.isInteger(count) || count < 1 || count > MAX_RUBRIC_QUESTIONS)
+    ) {
+      return `Question count for "${name}" must be a whole number from 1 to ${MAX_RUBRIC_QUESTIONS}.`;
+    }
   }
-
   return null;
 }
 
-interface RetryOptions {
-  label?: string;
-  log?: (...args: unknown[]) => void;
-  maxAttempts?: number;
-  initialDelayMs?: number;
+/** A topic's question count bounds: its target when one was set, else the rubric's range. */
+function getQuestionRange(topic: TopicSummary, rubric: RubricProfile): { min: number; max: number } {
+  return topic.questionCount
+    ? { min: topic.questionCount, max: topic.questionCount }
+    : rubric.countRange;
 }
 
-async function retryWithBackoff<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
-  const { label, log } = options;
-  const maxAttempts = options.maxAttempts ?? 5;
-  let delay = options.initialDelayMs ?? 2000;
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    try {
-      return await task();
-    } catch (error) {
-      const status = getErrorStatus(error);
-
-      if (status === 429 && attempt < maxAttempts) {
-        if (log) {
-          log(
-            `${label ?? "Retryable task"} hit 429. Waiting ${Math.round(delay / 1000)}s before retry ${
-              attempt + 1
-            }/${maxAttempts}.`,
-          );
-        }
-        await sleep(delay);
-        delay *= 2;
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  throw new Error(`${label ?? "Retryable task"} exhausted all retry attempts.`);
+function buildUserPrompt(topic: TopicSummary, extraGuidance?: string): string {
+  const prompt = `Create MCQs strictly for the topic "${topic.topic}" using only the retrieved book context. Ensure the question set reflects the topic description: ${topic.description}.`;
+  return extraGuidance ? `${prompt}\n\n${extraGuidance}` : prompt;
 }
 
-function buildInstructionPrompt(
-  topic: TopicSummary,
-  chapterNumber: number,
-  chapterTitle: string,
-  index: number,
-  totalTopics: number,
-): string {
-  return `${MCQ_RUBRIC}\n\nChapter focus: Chapter ${chapterNumber} – "${chapterTitle}".\nTopic focus (${index + 1} of ${totalTopics}): ${topic.topic}.\nTopic summary: ${topic.description}`;
-}
+function buildJsonSchema(
+  range: { min: number; max: number },
+  rubric: RubricProfile,
+  figureIds: string[] = [],
+) {
+  const shared = {
+    bloom: {
+      type: "string",
+      enum: allowedBloomValues(rubric),
+    },
+    difficulty: {
+      type: "string",
+      enum: allowedDifficulties(rubric),
+    },
+    stem: { type: "string", minLength: 3 },
+    explanation: { type: "string", minLength: 10 },
+    type: {
+      type: "string",
+      enum: rubric.questionTypes,
+    },
+    source_spans: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["page", "text_snippet"],
+        properties: {
+          page: { type: "integer", minimum: 0 },
+          text_snippet: { type: "string", minLength: 5 },
+        },
+        additionalProperties: false,
+      },
+    },
+    ...(figureIds.length > 0
+      ? { figure_id: { type: ["string", "null"], enum: [...figureIds, null] } }
+      : {}),
+  };
 
-function buildUserPrompt(topic: TopicSummary): string {
-  return `Create MCQs strictly for the topic "${topic.topic}" using only the retrieved book context. Ensure the question set reflects the topic description: ${topic.description}.`;
-}
+  // One item shape per allowed format, told apart by its `format` value.
+  const variants = rubricFormats(rubric).map((format) => {
+    const answer = buildFormatSchema(format);
+    return {
+      type: "object",
+      additionalProperties: false,
+      required: [
+        "format",
+        "bloom",
+        "difficulty",
+        "stem",
+        ...answer.required,
+        "explanation",
+        "type",
+        "source_spans",
+        ...(figureIds.length > 0 ? ["figure_id"] : []),
+      ],
+      properties: {
+        format: { type: "string", enum: [format] },
+        ...shared,
+        ...answer.properties,
+      },
+    };
+  });
 
-function buildJsonSchema() {
   return {
     type: "object",
     additionalProperties: false,
@@ -180,93 +250,24 @@ function buildJsonSchema() {
     properties: {
       mcqs: {
         type: "array",
-        minItems: 10,
-        maxItems: 15,
-        items: {
-          type: "object",
-          additionalProperties: false,
-          required: [
-            "bloom",
-            "difficulty",
-            "stem",
-            "options",
-            "correct_index",
-            "explanation",
-            "type",
-            "source_spans",
-          ],
-          properties: {
-            bloom: {
-              type: "string",
-              enum: ["Remember", "Understand", "Apply", "Analyze", "Evaluate", "Create"],
-            },
-            difficulty: {
-              type: "string",
-              enum: ["Easy", "Medium", "Hard"],
-            },
-            stem: { type: "string", minLength: 3 },
-            options: {
-              type: "array",
-              minItems: 4,
-              maxItems: 4,
-              items: { type: "string", minLength: 1 },
-            },
-            correct_index: {
-              type: "integer",
-              minimum: 0,
-              maximum: 3,
-            },
-            explanation: { type: "string", minLength: 10 },
-            type: {
-              type: "string",
-              enum: ["recall", "application", "assertion-reason", "fill-blank", "diagram"],
-            },
-            source_spans: {
-              type: "array",
-              minItems: 1,
-              items: {
-                type: "object",
-                required: ["page", "text_snippet"],
-                properties: {
-                  page: { type: "integer", minimum: 0 },
-                  text_snippet: { type: "string", minLength: 5 },
-                },
-                additionalProperties: false,
-              },
-            },
-          },
-        },
+        minItems: range.min,
+        maxItems: range.max,
+        items: variants.length === 1 ? variants[0] : { anyOf: variants },
       },
     },
   } as const;
 }
 
-function toCsv(table: Array<{ topic: string; item: StoredMcqItem }>): string {
-  const rows: string[][] = [CSV_HEADERS.slice()];
-
-  for (const entry of table) {
-    const options = entry.item.options ?? [];
-    const paddedOptions = [0, 1, 2, 3].map((index) => options[index] ?? "");
-    const correctIndex =
-      typeof entry.item.correct_index === "number" &&
-      entry.item.correct_index >= 0 &&
-      entry.item.correct_index < LETTERS.length
-        ? entry.item.correct_index
-        : 0;
-    const correctLetter = LETTERS[correctIndex];
-
-    rows.push([
-      entry.topic,
-      entry.item.stem,
-      ...paddedOptions,
-      correctLetter,
-      entry.item.explanation,
-    ]);
-  }
-
-  return rows
-    .map((row) => row.map((cell) => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(","))
-    .join("\n");
+function writeJobCsv(record: JobRecord) {
+  const { body, filename } = csvExporter.export({
+    jobId: record.id,
+    payload: record.payload,
+    topics: getExportableTopics(record),
+    basename: buildExportBasename(record.payload),
+    csvProfile: record.payload.csvProfile,
+  });
+  record.resultCsv = String(body);
+  record.outputFilename = filename;
 }
 
 function shuffle<T>(values: T[]): T[] {
@@ -292,11 +293,30 @@ function selectBalancedIndex(correctCounts: number[]): number {
   return candidates[choice] ?? 0;
 }
 
+/**
+ * Moves each single-answer question's correct option to the least used position so
+ * far, and shuffles multiple-select options. Other formats have no options to move.
+ */
 function rebalanceCorrectOptions(
   mcqs: StoredMcqItem[],
   correctCounts: number[],
 ): StoredMcqItem[] {
   return mcqs.map((mcq) => {
+    if (mcq.format === "multiple") {
+      const order = shuffle(mcq.options.map((_, index) => index));
+      return {
+        ...mcq,
+        options: order.map((index) => mcq.options[index]),
+        correct_indices: mcq.correct_indices
+          .map((index) => order.indexOf(index))
+          .sort((left, right) => left - right),
+      };
+    }
+
+    if (mcq.format !== undefined && mcq.format !== "single") {
+      return mcq;
+    }
+
     const options = Array.isArray(mcq.options) ? [...mcq.options] : [];
     while (options.length < 4) {
       options.push("");
@@ -338,11 +358,7 @@ function rebalanceCorrectOptions(
 type OpenAIClient = NonNullable<ReturnType<typeof getOpenAIClient>>;
 
 function cloneMcqItem(item: StoredMcqItem): StoredMcqItem {
-  return {
-    ...item,
-    options: [...item.options],
-    source_spans: item.source_spans?.map((span) => ({ ...span })),
-  };
+  return structuredClone(item);
 }
 
 async function ensureVectorStoreHasFiles(
@@ -372,78 +388,174 @@ async function ensureVectorStoreHasFiles(
   return { completedCount: completedFiles, completedFileIds: summary.completed };
 }
 
-async function validateAndFinalizeJob(options: {
+/** Images of the job figures the questions refer to, by image URL. */
+async function loadQuestionFigures(
+  figures: BookFigure[],
+  topics: StoredTopicMcqs[],
+  log: (...args: unknown[]) => void,
+): Promise<Map<string, LlmImage>> {
+  const used = figures.filter((figure) =>
+    topics.some((topic) => topic.items.some((item) => item.image_url === figure.url)),
+  );
+  if (used.length === 0) {
+    return new Map();
+  }
+  const images = await loadFigureImages(used).catch((error) => {
+    log("Unable to load figures for validation; validating without them.", error);
+    return new Map<string, LlmImage>();
+  });
+  return new Map(
+    used.flatMap((figure) => {
+      const image = images.get(figure.id);
+      return image ? [[figure.url, image] as const] : [];
+    }),
+  );
+}
+
+function topicFigureImages(
+  topic: StoredTopicMcqs,
+  figureImages: Map<string, LlmImage>,
+): { images?: LlmImage[] } {
+  const images = [...new Set(topic.items.map((item) => item.image_url))]
+    .flatMap((url) => (url && figureImages.has(url) ? [figureImages.get(url) as LlmImage] : []));
+  return images.length > 0 ? { images } : {};
+}
+
+/**
+ * Validates the topics against the book, applying the validator's replacements for
+ * up to MAX_VALIDATION_ATTEMPTS rounds. Topics rejected without a usable replacement
+ * come back in `failedTopicSummaries`, with the question set they were rejected
+ * with in `reviewOriginals`; nothing is persisted.
+ */
+async function runValidationAttempts(options: {
   jobId: string;
   record: JobRecord;
-  generatedTopics: StoredTopicMcqs[];
-  classLevel: number;
-  subject: { id: number; name: string };
-  syllabus: { name: string };
-  chapterNumber: number;
-  chapterTitle: string;
+  topics: StoredTopicMcqs[];
   log: (...args: unknown[]) => void;
-}): Promise<void> {
-  const {
-    jobId,
-    record,
-    generatedTopics,
-    classLevel,
-    subject,
-    syllabus,
-    chapterNumber,
-    chapterTitle,
-    log,
-  } = options;
-
-  const currentTopics = generatedTopics.map((topic) => ({
+}): Promise<{
+  currentTopics: StoredTopicMcqs[];
+  failedTopicSummaries: McqValidatorSummary["topicSummaries"];
+  reviewOriginals: Map<string, StoredMcqItem[]>;
+  approvedSummary: McqValidatorSummary | null;
+  citationIssues: CitationIssue[] | null;
+}> {
+  const { jobId, record, topics, log } = options;
+
+  const currentTopics = topics.map((topic) => ({
     topic: topic.topic,
     items: topic.items.map((item) => cloneMcqItem(item)),
   }));
+  ensureQuestionIds(currentTopics);
+  const run = (record.validationRuns ?? 0) + 1;
+  record.validationRuns = run;
+
+  const validationLlm = getStageModel("validation");
+  const groundingSource = await getGroundingSource(getOpenAIClient(), record.payload, log);
+  const grounding = new Map<string, QuestionGrounding>();
+  if (groundingSource) {
+    log(`Grounding validation in book text from ${groundingSource.name}.`);
+  }
 
   const failedTopicSummaries: McqValidatorSummary["topicSummaries"] = [];
+  // Question set each failed topic had when it was last rejected, for the review queue.
+  const reviewOriginals = new Map<string, StoredMcqItem[]>();
+  let approvedSummary: McqValidatorSummary | null = null;
 
   for (let attempt = 1; attempt <= MAX_VALIDATION_ATTEMPTS; attempt += 1) {
+    if (groundingSource) {
+      await groundTopics({ source: groundingSource, topics: currentTopics, cache: grounding, log });
+    }
+
+    const figureImages = await loadQuestionFigures(record.payload.figures ?? [], currentTopics, log);
     const payload: TopicValidationPayload[] = currentTopics.map((currentTopic) => ({
       topic: currentTopic.topic,
-      questions: currentTopic.items.map((item, index) => ({
-        index,
-        stem: item.stem,
-        options: item.options,
-        correctLetter: LETTERS[item.correct_index] ?? "A",
-        explanation: item.explanation,
-        sourceSnippet: item.source_spans?.[0]?.text_snippet ?? null,
-        bloom: item.bloom,
-        difficulty: item.difficulty,
-        type: item.type,
-      })),
+      ...topicFigureImages(currentTopic, figureImages),
+      questions: currentTopic.items.map((item, index) => {
+        const evidence = grounding.get(groundingKey(item));
+        const figure = item.image_url ? figureImages.get(item.image_url) : undefined;
+        return {
+          index,
+          format: formatOf(item),
+          stem: item.stem,
+          options: hasOptions(item) ? item.options : [],
+          correctAnswer: answerKey(item),
+          explanation: item.explanation,
+          sourceSnippet: item.source_spans?.[0]?.text_snippet ?? null,
+          bookPassage: evidence?.passage ?? null,
+          unsupportedSnippets: evidence?.unsupportedSpans.map((span) => span.text_snippet),
+          bloom: item.bloom,
+          difficulty: item.difficulty,
+          type: item.type,
+          ...(figure ? { figure: figure.label } : {}),
+        };
+      }),
     }));
 
+    const attemptSnapshot = currentTopics.map((topic) => topic.items.map((item) => cloneMcqItem(item)));
+    const markTopicFailed = (topicSummary: McqValidatorSummary["topicSummaries"][number]) => {
+      failedTopicSummaries.push(topicSummary);
+      const topicIndex = currentTopics.findIndex((topic) => topic.topic === topicSummary.topic);
+      if (topicIndex !== -1) {
+        reviewOriginals.set(topicSummary.topic, attemptSnapshot[topicIndex]);
+      }
+    };
+
     log(`Validation attempt ${attempt} started.`);
-    const { summary: validationSummary, usageTotals: anthUsage } = await retryWithBackoff(
-      () => validateTopics(payload),
-      {
-        label: `Anthropic validation attempt ${attempt}`,
-        log,
-        initialDelayMs: 5000,
-        maxAttempts: 6,
+    let validatedCount = 0;
+    // Each topic's estimate is held until its cost is recorded or the run fails.
+    const reservations = new Map<number, BudgetReservation>();
+    const { summary: validationSummary, usageTotals: validationUsage } = await validateTopics(payload, {
+      llm: validationLlm,
+      log,
+      beforeTopic: async (_, topicIndex) => {
+        reservations.set(topicIndex, await reserveBudget(record, "validation", validationLlm.label));
       },
-    );
-
-    record.anthropicUsage.inputTokens += anthUsage.inputTokens;
-    record.anthropicUsage.outputTokens += anthUsage.outputTokens;
-    record.anthropicUsage.totalTokens += anthUsage.totalTokens;
+      onTopicValidated: (result, topicIndex) => {
+        validatedCount += 1;
+        if (result.usage) {
+          const inputTokens = result.usage.input_tokens ?? 0;
+          const outputTokens = result.usage.output_tokens ?? 0;
+          recordLlmUsage(record, validationLlm, {
+            inputTokens,
+            outputTokens,
+            totalTokens: result.usage.total_tokens ?? inputTokens + outputTokens,
+          });
+        }
+        reservations.get(topicIndex)?.release();
+        publishJobEvent(jobId, {
+          type: "progress",
+          stage: "validation",
+          topic: result.topic,
+          completed: validatedCount,
+          total: payload.length,
+        });
+        const rejectedCount = result.verdicts.filter((verdict) => verdict.verdict === "reject").length;
+        log(
+          `Validated topic "${result.topic}" (${validatedCount}/${payload.length}) — ${rejectedCount} of ${result.verdicts.length} question(s) rejected.`,
+        );
+      },
+    }).finally(() => reservations.forEach((reservation) => reservation.release()));
 
     log(
-      `Validation attempt ${attempt} token usage — input: ${anthUsage.inputTokens}, output: ${anthUsage.outputTokens}, total: ${anthUsage.totalTokens}.`,
+      `Validation attempt ${attempt} token usage (${validationLlm.label}) — input: ${validationUsage.inputTokens}, output: ${validationUsage.outputTokens}, total: ${validationUsage.totalTokens}.`,
     );
 
+    validationSummary.topicSummaries.forEach((topicSummary, topicIndex) => {
+      topicSummary.verdicts.forEach((verdict) => {
+        const item = currentTopics[topicIndex]?.items[verdict.index];
+        if (item) {
+          recordVerdict(record, { topic: topicSummary.topic, item, run, attempt, verdict });
+        }
+      });
+    });
+
     const rejectedTopics = validationSummary.topicSummaries.filter((topicSummary) =>
       topicSummary.verdicts.some((verdict) => verdict.verdict === "reject"),
     );
 
     if (rejectedTopics.length === 0) {
       log(`Validation attempt ${attempt} succeeded.`);
-      record.summary = validationSummary;
+      approvedSummary = validationSummary;
       failedTopicSummaries.length = 0;
       break;
     }
@@ -454,7 +566,7 @@ async function validateAndFinalizeJob(options: {
       topicSummary.verdicts.forEach((verdict) => {
         if (verdict.verdict === "reject") {
           if (!verdict.replacementMcq) {
-            failedTopicSummaries.push(topicSummary);
+            markTopicFailed(topicSummary);
             return;
           }
 
@@ -464,6 +576,12 @@ async function validateAndFinalizeJob(options: {
             verdict.replacementMcq,
             fallback,
           );
+          recordReplacement(record, {
+            topic: topicSummary.topic,
+            item: bucket.items[verdict.index],
+            run,
+            attempt,
+          });
           replacedAny = true;
           log(`Applied replacement for topic "${topicSummary.topic}" question ${verdict.index}.`);
         }
@@ -472,15 +590,80 @@ async function validateAndFinalizeJob(options: {
 
     if (!replacedAny) {
       log("Validation failed without any provided replacements for at least one topic.");
-      failedTopicSummaries.push(...rejectedTopics);
+      rejectedTopics.forEach(markTopicFailed);
       break;
     }
   }
 
+  let citationIssues: CitationIssue[] | null = null;
+  if (groundingSource) {
+    citationIssues = collectCitationIssues(currentTopics, grounding);
+    if (citationIssues.length > 0) {
+      log(`Flagged ${citationIssues.length} cited snippet(s) that do not appear in the book.`);
+    }
+  }
+
+  return { currentTopics, failedTopicSummaries, reviewOriginals, approvedSummary, citationIssues };
+}
+
+async function validateAndFinalizeJob(options: {
+  jobId: string;
+  record: JobRecord;
+  generatedTopics: StoredTopicMcqs[];
+  classLevel: number;
+  subject: { id: number; name: string };
+  syllabus: { name: string };
+  chapterNumber: number;
+  chapterTitle: string;
+  log: (...args: unknown[]) => void;
+}): Promise<void> {
+  const {
+    jobId,
+    record,
+    generatedTopics,
+    classLevel,
+    subject,
+    syllabus,
+    chapterNumber,
+    chapterTitle,
+    log,
+  } = options;
+
+  const {
+    currentTopics,
+    failedTopicSummaries,
+    reviewOriginals,
+    approvedSummary,
+    citationIssues,
+  } = await runValidationAttempts({ jobId, record, topics: generatedTopics, log });
+  if (approvedSummary) {
+    record.summary = approvedSummary;
+  }
+
   const successfulTopics = currentTopics.filter((topic) =>
     !failedTopicSummaries.some((failed) => failed.topic === topic.topic),
   );
 
+  if (citationIssues) {
+    record.citationIssues = citationIssues;
+  }
+
+  const reviewItems = buildReviewItems(failedTopicSummaries, reviewOriginals);
+  if (reviewItems.length > 0 || (record.failedTopics?.length ?? 0) > 0) {
+    try {
+      await replacePendingReviewItems(jobId, reviewItems);
+      if (reviewItems.length > 0) {
+        log(`Queued ${reviewItems.length} rejected question(s) for manual review.`);
+      }
+    } catch (queueError) {
+      console.error(`[job ${jobId}] Unable to update the review queue`, queueError);
+      log(
+        "Unable to update the review queue:",
+        queueError instanceof Error ? queueError.message : queueError,
+      );
+    }
+  }
+
   if (successfulTopics.length === 0) {
     record.status = "failed";
     record.summary = {
@@ -488,6 +671,9 @@ async function validateAndFinalizeJob(options: {
       topicSummaries: failedTopicSummaries,
     };
     record.error = "All topics failed validation.";
+    record.generatedTopics = currentTopics;
+    record.failedTopics = currentTopics.map((topic) => topic.topic);
+    refreshDistribution(record);
     record.allowValidationRetry = false;
     log(record.error);
     return;
@@ -498,18 +684,14 @@ async function validateAndFinalizeJob(options: {
   }
 
   const correctCounts = [0, 0, 0, 0];
-  const rows: Array<{ topic: string; item: StoredMcqItem }> = [];
 
   successfulTopics.forEach((topicBucket) => {
-    const balanced = rebalanceCorrectOptions(topicBucket.items, correctCounts);
-    topicBucket.items = balanced;
-    balanced.forEach((item) => {
-      rows.push({ topic: topicBucket.topic, item });
-    });
+    topicBucket.items = rebalanceCorrectOptions(topicBucket.items, correctCounts);
   });
 
   try {
     await persistChapterToDatabase({
+      jobId,
       classLevel,
       subjectId: subject.id,
       chapterNumber,
@@ -536,18 +718,17 @@ async function validateAndFinalizeJob(options: {
     return;
   }
 
-  const csv = `\ufeff${toCsv(rows)}`;
-
-  record.resultCsv = csv;
+  // From here on the validated, rebalanced set is the job's working copy: reviewer
+  // edits and re-exports start from it rather than from the raw generator output.
+  record.generatedTopics = currentTopics;
+  record.failedTopics = [...new Set(failedTopicSummaries.map((summary) => summary.topic))];
+  successfulTopics.forEach((topic) => recordFinalItems(record, topic, "validation"));
+  refreshDistribution(record);
+  writeJobCsv(record);
   record.summary = {
     overallStatus: failedTopicSummaries.length === 0 ? "approved" : "mixed",
     topicSummaries: failedTopicSummaries.length === 0 ? [] : failedTopicSummaries,
   };
-  const classPart = makeFilenamePart(`Class ${classLevel}`, "Class");
-  const subjectPart = makeFilenamePart(subject.name ?? "Subject", "Subject");
-  const chapterPart = makeFilenamePart(chapterTitle, "Chapter");
-  const syllabusPart = makeFilenamePart(syllabus.name ?? "Syllabus", "Syllabus");
-  record.outputFilename = `${classPart}_${subjectPart}_${chapterPart}_${syllabusPart}.csv`;
   record.status = failedTopicSummaries.length === 0 ? "succeeded" : "succeeded";
   record.error = failedTopicSummaries.length === 0
     ? undefined
@@ -561,6 +742,7 @@ async function validateAndFinalizeJob(options: {
   log(
     `Total Anthropic tokens used: input ${record.anthropicUsage.inputTokens}, output ${record.anthropicUsage.outputTokens}, total ${record.anthropicUsage.totalTokens}.`,
   );
+  log(`Total cost: ${formatCost(record.cost?.total ?? 0)}.`);
   log(
     failedTopicSummaries.length === 0
       ? "Job completed successfully."
@@ -568,7 +750,79 @@ async function validateAndFinalizeJob(options: {
   );
 }
 
+function buildReviewItems(
+  failedTopicSummaries: McqValidatorSummary["topicSummaries"],
+  originals: Map<string, StoredMcqItem[]>,
+): NewReviewItem[] {
+  const latestByTopic = new Map(failedTopicSummaries.map((summary) => [summary.topic, summary]));
+
+  return [...latestByTopic.values()].flatMap((summary) => {
+    const items = originals.get(summary.topic) ?? [];
+
+    return summary.verdicts
+      .filter((verdict) => verdict.verdict === "reject" && items[verdict.index])
+      .map((verdict) => {
+        const { replacementMcq, ...verdictDetails } = verdict;
+        const originalItem = items[verdict.index];
+        return {
+          topic: summary.topic,
+          questionIndex: verdict.index,
+          originalItem,
+          replacementItem: replacementMcq
+            ? normalizeReplacementMcq(replacementMcq, originalItem)
+            : null,
+          reasons: verdict.reasons,
+          verdict: verdictDetails,
+        };
+      });
+  });
+}
+
+async function insertQuestionRow(
+  client: PoolClient,
+  topicId: number,
+  classLabel: string,
+  item: StoredMcqItem,
+): Promise<number> {
+  const { options, correctAnswer, answerData } = toQuestionRow(item);
+  // Single-answer rows keep the original column list, so they need no schema change.
+  const formatColumns = answerData ? ",\n       question_format,\n       answer_data" : "";
+  const formatValues = answerData ? ", $11, $12" : "";
+
+  const inserted = await client.query<{ id: number }>(
+    `INSERT INTO questions (
+       topic_id,
+       class,
+       question_text,
+       option_a,
+       option_b,
+       option_c,
+       option_d,
+       correct_answer,
+       explanation,
+       image_url${formatColumns}
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10${formatValues})
+     RETURNING id`,
+    [
+      topicId,
+      classLabel,
+      item.stem,
+      options[0],
+      options[1],
+      options[2],
+      options[3],
+      correctAnswer,
+      item.explanation ?? "",
+      item.image_url ?? null,
+      ...(answerData ? [formatOf(item), JSON.stringify(answerData)] : []),
+    ],
+  );
+
+  return inserted.rows[0].id;
+}
+
 async function persistChapterToDatabase(options: {
+  jobId: string;
   classLevel: number;
   subjectId: number;
   chapterNumber: number;
@@ -577,7 +831,16 @@ async function persistChapterToDatabase(options: {
   topics: Array<{ name: string; items: StoredMcqItem[] }>;
   log: (...args: unknown[]) => void;
 }) {
-  const { classLevel, subjectId, chapterNumber, chapterTitle, syllabusName, topics, log } = options;
+  const { jobId, classLevel, subjectId, chapterNumber, chapterTitle, syllabusName, topics, log } =
+    options;
+  const persistenceMode = getPersistenceMode();
+  if (persistenceMode === "versioned") {
+    await ensureQuestionVersionSchema();
+  }
+  if (topics.some((topic) => topic.items.some((item) => formatOf(item) !== "single"))) {
+    await ensureQuestionFormatSchema();
+  }
+
   const pool = getDbPool();
   const client = await pool.connect();
   const classLabel = `Class ${classLevel}`;
@@ -647,45 +910,27 @@ async function persistChapterToDatabase(options: {
       const topicId = topicResult.rows[0].id;
       log(`Upserted topic "${topic.name}" with id ${topicId}.`);
 
+      if (persistenceMode === "versioned") {
+        const stored = await storeTopicVersion(client, {
+          topicId,
+          classLabel,
+          jobId,
+          items: topic.items,
+          insertQuestion: (item) => insertQuestionRow(client, topicId, classLabel, item),
+        });
+        log(
+          `Stored version ${stored.version} of topic "${topic.name}" (${stored.reused} question(s) kept, ${stored.inserted} added).`,
+        );
+        continue;
+      }
+
       await client.query(`DELETE FROM questions WHERE topic_id = $1 AND class = $2`, [
         topicId,
         classLabel,
       ]);
 
       for (const item of topic.items) {
-        const optionsPadded = [...item.options];
-        while (optionsPadded.length < 4) {
-          optionsPadded.push("");
-        }
-
-        const correctLetter = LETTERS[item.correct_index] ?? LETTERS[0];
-
-        await client.query(
-          `INSERT INTO questions (
-             topic_id,
-             class,
-             question_text,
-             option_a,
-             option_b,
-             option_c,
-             option_d,
-             correct_answer,
-             explanation,
-             image_url
-           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-          [
-            topicId,
-            classLabel,
-            item.stem,
-            optionsPadded[0],
-            optionsPadded[1],
-            optionsPadded[2],
-            optionsPadded[3],
-            correctLetter,
-            item.explanation ?? "",
-            null,
-          ],
-        );
+        await insertQuestionRow(client, topicId, classLabel, item);
       }
     }
 
@@ -699,25 +944,15 @@ async function persistChapterToDatabase(options: {
   }
 }
 
+/**
+ * Turns a validator's replacement into a stored item of the same format as the
+ * question it replaces. Answer fields that do not pass that format's rules are
+ * taken from the original question.
+ */
 function normalizeReplacementMcq(
   replacement: ReplacementMcq,
   fallback: StoredMcqItem,
 ): StoredMcqItem {
-  const options = Array.isArray(replacement.options)
-    ? [...replacement.options]
-    : [...fallback.options];
-
-  while (options.length < 4) {
-    options.push("");
-  }
-
-  const correctIndex =
-    typeof replacement.correct_index === "number" &&
-    replacement.correct_index >= 0 &&
-    replacement.correct_index <= 3
-      ? replacement.correct_index
-      : fallback.correct_index;
-
   const normalizedSpans = (() => {
     if (replacement.source_spans && replacement.source_spans.length > 0) {
       return replacement.source_spans.map((span) => ({
@@ -741,70 +976,87 @@ function normalizeReplacementMcq(
     return fallback.source_spans;
   })();
 
-  return {
+  const merged: StoredMcqItem = {
     ...fallback,
     bloom: replacement.bloom ?? fallback.bloom,
     difficulty: replacement.difficulty ?? fallback.difficulty,
     type: replacement.type ?? fallback.type,
     stem: replacement.stem ?? fallback.stem,
-    options,
-    correct_index: correctIndex,
     explanation: replacement.explanation ?? fallback.explanation,
     source_spans: normalizedSpans,
   };
-}
 
-interface OpenAiUsage {
-  input_tokens?: number;
-  output_tokens?: number;
-  total_tokens?: number;
+  const format = formatOf(fallback);
+  const answer = parseAnswerFields(format, { ...fallback, ...replacement }, merged.stem);
+  return typeof answer === "string" ? merged : ({ ...merged, ...answer } as StoredMcqItem);
 }
 
 async function generateMcqsForTopic(options: {
-  openai: OpenAIClient;
+  llm: StageModel;
   topic: TopicSummary;
   chapterNumber: number;
   chapterTitle: string;
   vectorStoreId: string;
   topicIndex: number;
   totalTopics: number;
-}): Promise<{ mcqs: StoredMcqItem[]; usage?: OpenAiUsage }> {
-  const { openai, topic, chapterNumber, chapterTitle, vectorStoreId, topicIndex, totalTopics } = options;
+  rubric: RubricProfile;
+  /** Teacher guidance for the whole job, added to the instructions. */
+  guidance?: string;
+  /** Appended to the user prompt, e.g. to steer a targeted regeneration. */
+  extraGuidance?: string;
+  /** Book figures shown to the model for diagram questions. */
+  figures?: BookFigure[];
+}): Promise<{ mcqs: StoredMcqItem[]; usage: LlmUsage }> {
+  const {
+    llm,
+    topic,
+    chapterNumber,
+    chapterTitle,
+    vectorStoreId,
+    topicIndex,
+    totalTopics,
+    rubric,
+    guidance,
+    extraGuidance,
+  } = options;
 
-  const instructions = buildInstructionPrompt(topic, chapterNumber, chapterTitle, topicIndex, totalTopics);
-  const userPrompt = buildUserPrompt(topic);
+  // A figure missing from the store is left out rather than failing the topic.
+  const images = options.figures?.length
+    ? await loadFigureImages(options.figures).catch((error) => {
+        console.warn(`[mcqs] Unable to load figures for topic "${topic.topic}"; generating without them.`, error);
+        return new Map<string, LlmImage>();
+      })
+    : new Map<string, LlmImage>();
+  const figures = (options.figures ?? []).filter((figure) => images.has(figure.id));
+
+  const instructions = buildInstructionPrompt(
+    topic,
+    chapterNumber,
+    chapterTitle,
+    topicIndex,
+    totalTopics,
+    rubric,
+    guidance,
+    figures,
+  );
+  const userPrompt = buildUserPrompt(topic, extraGuidance);
+  const range = getQuestionRange(topic, rubric);
 
   let response;
   try {
-    response = await openai.responses.create({
-      model: MODEL,
-      instructions,
-      input: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: userPrompt,
-            },
-          ],
-        },
-      ],
-      tool_choice: "auto",
-      tools: [
-        {
-          type: "file_search",
-          vector_store_ids: [vectorStoreId],
-        },
-      ],
-      text: {
-        format: {
-          type: "json_schema",
-          name: `mcq_batch_topic_${topicIndex + 1}`,
-          schema: buildJsonSchema(),
-          strict: true,
-        },
+    response = await llm.provider.completeJson({
+      model: llm.model,
+      system: instructions,
+      prompt: userPrompt,
+      retrieval: {
+        vectorStoreId,
+        query: `Chapter ${chapterNumber} "${chapterTitle}": ${topic.topic}. ${topic.description}`,
+      },
+      schema: {
+        name: `mcq_batch_topic_${topicIndex + 1}`,
+        schema: buildJsonSchema(range, rubric, figures.map((figure) => figure.id)),
       },
+      ...(images.size > 0 ? { images: [...images.values()] } : {}),
     });
   } catch (error) {
     const status = getErrorStatus(error);
@@ -819,10 +1071,10 @@ async function generateMcqsForTopic(options: {
     throw error;
   }
 
-  const output = response.output_text?.trim();
+  const output = response.text;
 
   if (!output) {
-    throw new Error(`OpenAI returned an empty MCQ payload for topic "${topic.topic}".`);
+    throw new Error(`${llm.label} returned an empty MCQ payload for topic "${topic.topic}".`);
   }
 
   let parsed: unknown;
@@ -833,23 +1085,51 @@ async function generateMcqsForTopic(options: {
     throw new Error(`Failed to parse MCQ JSON response for topic "${topic.topic}".`);
   }
 
-  const mcqs = Array.isArray((parsed as { mcqs?: unknown }).mcqs)
-    ? ((parsed as { mcqs: StoredMcqItem[] }).mcqs as StoredMcqItem[])
+  const rawMcqs = Array.isArray((parsed as { mcqs?: unknown }).mcqs)
+    ? (parsed as { mcqs: unknown[] }).mcqs
     : null;
 
-  if (!mcqs || mcqs.length === 0) {
+  if (!rawMcqs || rawMcqs.length === 0) {
     throw new Error(`Model did not return any MCQs for topic "${topic.topic}".`);
   }
 
-  if (mcqs.length < 10 || mcqs.length > 15) {
+  // Checks each item against its format's rules, e.g. distinct match pairs, and turns
+  // the figure the model cited into the question's image.
+  const mcqs: StoredMcqItem[] = [];
+  for (const raw of rawMcqs) {
+    const { figure_id: figureId, ...fields } = (raw ?? {}) as Record<string, unknown>;
+    const figure = figures.find((entry) => entry.id === figureId);
+    const item = parseStoredMcqItem(figure ? { ...fields, image_url: figure.url } : fields);
+    if (typeof item === "string") {
+      throw new Error(`Model returned an invalid question for topic "${topic.topic}": ${item}`);
+    }
+    mcqs.push(item);
+  }
+
+  if (mcqs.length < range.min || mcqs.length > range.max) {
     throw new Error(
-      `Model returned ${mcqs.length} MCQs for topic "${topic.topic}". Provide between 10 and 15 items based on topic complexity.`,
+      range.min === range.max
+        ? `Model returned ${mcqs.length} MCQs for topic "${topic.topic}". Provide exactly ${range.min} items.`
+        : `Model returned ${mcqs.length} MCQs for topic "${topic.topic}". Provide between ${range.min} and ${range.max} items based on topic complexity.`,
     );
   }
 
-  const usage = response.usage as OpenAiUsage | undefined;
+  return { mcqs, usage: response.usage };
+}
+
+// Log lines are saved together, at most once per interval; other changes save at once.
+const LOG_SAVE_INTERVAL_MS = 1000;
+const pendingLogSaves = new Map<string, ReturnType<typeof setTimeout>>();
 
-  return { mcqs, usage };
+function saveJob(record: JobRecord): Promise<void> {
+  const pending = pendingLogSaves.get(record.id);
+  if (pending) {
+    clearTimeout(pending);
+    pendingLogSaves.delete(record.id);
+  }
+  return jobStore.save(record).catch((error) => {
+    console.error(`[job ${record.id}] Failed to save job state`, error);
+  });
 }
 
 function logJob(record: JobRecord, jobId: string, ...args: unknown[]) {
@@ -857,10 +1137,397 @@ function logJob(record: JobRecord, jobId: string, ...args: unknown[]) {
   console.log(message);
   record.logs.push(message);
   record.updatedAt = Date.now();
+  publishJobEvent(jobId, { type: "log", message });
+  // Terminal transitions are announced once the run settles so that trailing log
+  // lines reach stream subscribers before the stream closes.
+  if (!isTerminalStatus(record.status)) {
+    publishJobStatus(record);
+  }
+  if (!pendingLogSaves.has(record.id)) {
+    pendingLogSaves.set(
+      record.id,
+      setTimeout(() => {
+        pendingLogSaves.delete(record.id);
+        void saveJob(record);
+      }, LOG_SAVE_INTERVAL_MS),
+    );
+  }
+}
+
+function addUsage(
+  record: JobRecord,
+  provider: "openai" | "anthropic",
+  delta: TokenUsageTotals,
+) {
+  const totals = provider === "openai" ? record.openAiUsage : record.anthropicUsage;
+  totals.inputTokens += delta.inputTokens;
+  totals.outputTokens += delta.outputTokens;
+  totals.totalTokens += delta.totalTokens;
+  publishJobEvent(record.id, { type: "usage", provider, delta, totals: { ...totals } });
+}
+
+async function settleJob(record: JobRecord): Promise<void> {
+  publishJobStatus(record);
+  await saveJob(record);
+}
+
+function recordCost(record: JobRecord, stage: CostStage, model: string, usage: LlmUsage) {
+  const delta = recordJobCost(record, stage, model, usage);
+  if (record.cost) {
+    publishJobEvent(record.id, { type: "cost", model, delta, totals: structuredClone(record.cost) });
+  }
+}
+
+/** Adds a model call's tokens and cost to the job's per-model totals and its provider totals. */
+function recordLlmUsage(record: JobRecord, llm: StageModel, usage: LlmUsage) {
+  const usageByModel = (record.usageByModel ??= {});
+  const totals = (usageByModel[llm.label] ??= { inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.totalTokens;
+  recordCost(record, llm.stage, llm.label, usage);
+
+  if (llm.provider.name !== "local") {
+    addUsage(record, llm.provider.name, usage);
+  }
+}
+
+/** The generation model for dedup/distribution top-ups, or null when the job cannot regenerate. */
+function getRegenerationModel(record: JobRecord): StageModel | null {
+  // Imported question banks have no uploaded book to regenerate from.
+  if (record.payload.source === "import") {
+    return null;
+  }
+  try {
+    return getStageModel("generation");
+  } catch {
+    return null;
+  }
+}
+
+function truncateStem(stem: string): string {
+  return stem.length > 80 ? `${stem.slice(0, 77)}…` : stem;
+}
+
+/**
+ * Drops near-duplicate questions across the chapter and against the questions already
+ * stored for each topic. A topic left with fewer than the minimum is regenerated once
+ * and topped up with the new questions that are not duplicates themselves.
+ */
+interface DedupContext {
+  settings: DedupSettings;
+  stored: DedupReference[];
+}
+
+/** The job's near-duplicate scorer and its topics' stored questions, or null when de-duplication is off. */
+async function loadDedupContext(
+  record: JobRecord,
+  topicNames: string[],
+  log: (...args: unknown[]) => void,
+): Promise<DedupContext | null> {
+  const { classLevel, subject } = record.payload;
+  const openai = getOpenAIClient();
+  const settings = getDedupSettings(openai, (tokens, model) => {
+    const usage = { inputTokens: tokens, outputTokens: 0, totalTokens: tokens };
+    addUsage(record, "openai", usage);
+    recordCost(record, "embedding", `openai:${model}`, usage);
+  });
+
+  if (!settings) {
+    return null;
+  }
+
+  let stored: DedupReference[] = [];
+  if (process.env.DATABASE_URL) {
+    try {
+      stored = await loadStoredQuestions({ subjectId: subject.id, classLevel, topics: topicNames });
+    } catch (error) {
+      log(
+        "Unable to load stored questions for de-duplication; checking the chapter only:",
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return { settings, stored };
+}
+
+/** `candidates` for `topic` that repeat neither a question in `topics` nor a stored one. */
+async function dropDuplicateCandidates(
+  candidates: StoredMcqItem[],
+  topic: string,
+  topics: StoredTopicMcqs[],
+  context: DedupContext,
+): Promise<StoredMcqItem[]> {
+  const references: DedupReference[] = [
+    ...topics.flatMap((entry) =>
+      entry.items.map((item) => ({
+        topic: entry.topic,
+        stem: item.stem,
+        options: choiceTexts(item),
+        source: "chapter" as const,
+      })),
+    ),
+    ...context.stored,
+  ];
+  const entries = candidates.map((item, index) => ({ topic, index, item }));
+  const rejected = await findDuplicateQuestions(entries, references, context.settings);
+  return candidates.filter((_, index) => !rejected.some((entry) => entry.index === index));
+}
+
+async function deduplicateGeneratedTopics(options: {
+  record: JobRecord;
+  topics: StoredTopicMcqs[];
+  log: (...args: unknown[]) => void;
+}): Promise<StoredTopicMcqs[]> {
+  const { record, topics, log } = options;
+  const { chapterNumber, chapterTitle, vectorStoreId } = record.payload;
+  const rubric = getJobRubric(record.payload);
+  const context = await loadDedupContext(record, topics.map((topic) => topic.topic), log);
+
+  if (!context) {
+    return topics;
+  }
+
+  const { settings, stored } = context;
+  const llm = getRegenerationModel(record);
+
+  const entries = topics.flatMap((topic) =>
+    topic.items.map((item, index) => ({ topic: topic.topic, index, item })),
+  );
+  const duplicates = await findDuplicateQuestions(entries, stored, settings);
+
+  if (duplicates.length === 0) {
+    log(`De-duplication (${settings.scorer.name}) found no near-duplicate questions.`);
+    return topics;
+  }
+
+  for (const duplicate of duplicates) {
+    log(
+      `Dropped near-duplicate question ${duplicate.index} in topic "${duplicate.topic}" ("${truncateStem(duplicate.item.stem)}"): ` +
+        `${Math.round(duplicate.score * 100)}% similar to ${duplicate.duplicateOf.source === "stored" ? "a stored question" : `a question in topic "${duplicate.duplicateOf.topic}"`} ("${truncateStem(duplicate.duplicateOf.stem)}").`,
+    );
+  }
+
+  const result = topics.map((topic) => ({
+    topic: topic.topic,
+    items: topic.items.filter(
+      (_, index) => !duplicates.some((entry) => entry.topic === topic.topic && entry.index === index),
+    ),
+  }));
+
+  for (const [topicIndex, bucket] of result.entries()) {
+    const originalCount = topics[topicIndex].items.length;
+    const topic = record.payload.topics.find((entry) => entry.topic === bucket.topic);
+    const minimum = topic ? getQuestionRange(topic, rubric).min : rubric.countRange.min;
+    if (bucket.items.length >= minimum || bucket.items.length === originalCount) {
+      continue;
+    }
+
+    if (!llm || !topic) {
+      log(`Topic "${bucket.topic}" keeps ${bucket.items.length} question(s) after de-duplication.`);
+      continue;
+    }
+
+    const needed = originalCount - bucket.items.length;
+    log(`Regenerating topic "${bucket.topic}" to replace ${needed} duplicate question(s).`);
+
+    try {
+      const avoid = bucket.items.map((item) => `- ${item.stem}`).join("\n");
+      const { mcqs } = await withinBudget(record, "generation", llm.label, async () => {
+        const generated = await retryWithBackoff(
+          async () =>
+            generateMcqsForTopic({
+              llm,
+              topic,
+              chapterNumber,
+              chapterTitle,
+              vectorStoreId,
+              topicIndex: record.payload.topics.indexOf(topic),
+              totalTopics: record.payload.topics.length,
+              rubric,
+              guidance: record.payload.guidance,
+              figures: getJobFigures(record.payload),
+              extraGuidance: `Do not repeat or paraphrase these existing questions:\n${avoid}`,
+            }),
+          {
+            label: `Regeneration (${llm.label}) for topic "${bucket.topic}"`,
+            log,
+            initialDelayMs: 5000,
+            maxAttempts: 3,
+            gate: llm.provider.gate,
+          },
+        );
+        recordLlmUsage(record, llm, generated.usage);
+        return generated;
+      });
+
+      const fresh = (await dropDuplicateCandidates(mcqs, bucket.topic, result, context))
+        .slice(0, needed)
+        .map((item) => ({ ...cloneMcqItem(item), id: crypto.randomUUID() }));
+
+      bucket.items = [...bucket.items, ...fresh];
+      log(
+        `Added ${fresh.length} regenerated question(s) to topic "${bucket.topic}" (${bucket.items.length} total).`,
+      );
+    } catch (error) {
+      log(
+        `Regeneration for topic "${bucket.topic}" failed; keeping ${bucket.items.length} question(s):`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  const emptied = result.filter((topic) => topic.items.length === 0);
+  if (emptied.length > 0) {
+    log(
+      `Every question in ${emptied.map((topic) => `"${topic.topic}"`).join(", ")} was a duplicate; skipping the topic(s).`,
+    );
+  }
+
+  return result.filter((topic) => topic.items.length > 0);
+}
+
+/**
+ * Recomputes the Bloom/difficulty/type report for the job's current questions,
+ * keeping the note of which topics were regenerated to fix their mix.
+ */
+function refreshDistribution(record: JobRecord) {
+  const { tolerance } = getDistributionSettings();
+  const targets = getDistributionTargets(getJobRubric(record.payload));
+  const regenerated = new Set(
+    (record.distribution ?? []).filter((report) => report.regenerated).map((report) => report.topic),
+  );
+
+  record.distribution = (record.generatedTopics ?? []).map((topic) => ({
+    ...checkTopicDistribution(topic.topic, topic.items, tolerance, targets),
+    regenerated: regenerated.has(topic.topic),
+  }));
+}
+
+/**
+ * Checks each topic against the rubric's Bloom split and type/difficulty mix. A topic
+ * outside the tolerance gets one targeted regeneration for its missing categories, and
+ * the matching new questions replace questions from over-represented categories.
+ */
+async function enforceTopicDistributions(options: {
+  record: JobRecord;
+  topics: StoredTopicMcqs[];
+  log: (...args: unknown[]) => void;
+}): Promise<StoredTopicMcqs[]> {
+  const { record, topics, log } = options;
+  const { chapterNumber, chapterTitle, vectorStoreId, guidance } = record.payload;
+  const rubric = getJobRubric(record.payload);
+  const targets = getDistributionTargets(rubric);
+  const { tolerance, enforce } = getDistributionSettings();
+  const llm = getRegenerationModel(record);
+  const regenerated = new Set<string>();
+  // Questions added for missing categories get the same near-duplicate check as the
+  // generated set; the context is only loaded once a topic is regenerated.
+  let dedupContext: Promise<DedupContext | null> | undefined;
+  const getDedupContext = () =>
+    (dedupContext ??= loadDedupContext(record, topics.map((topic) => topic.topic), log));
+
+  const result = await mapWithConcurrency(
+    topics,
+    getConcurrencyLimit("MCQ_GENERATION_CONCURRENCY", DEFAULT_GENERATION_CONCURRENCY),
+    async (bucket) => {
+      const report = checkTopicDistribution(bucket.topic, bucket.items, tolerance, targets);
+      const topic = record.payload.topics.find((entry) => entry.topic === bucket.topic);
+
+      if (!report.skewed || !enforce || !llm || !topic) {
+        if (report.skewed) {
+          log(`Topic "${bucket.topic}" is outside the rubric mix (${describeDistribution(report)}).`);
+        }
+        return bucket;
+      }
+
+      // A per-topic question count can be smaller than the categories the mix requires.
+      if (!canMeetTargets(getQuestionRange(topic, rubric).max, targets)) {
+        log(
+          `Topic "${bucket.topic}" has too few questions to cover the rubric mix; keeping it as generated (${describeDistribution(report)}).`,
+        );
+        return bucket;
+      }
+
+      const missing = getMissingCategories(report);
+      const wanted = missing
+        .map((entry) => `${entry.needed} × ${entry.dimension} "${entry.label}"`)
+        .join(", ");
+      log(`Topic "${bucket.topic}" is outside the rubric mix (${describeDistribution(report)}); regenerating ${wanted}.`);
+
+      try {
+        const avoid = bucket.items.map((item) => `- ${item.stem}`).join("\n");
+        const { mcqs } = await withinBudget(record, "generation", llm.label, async () => {
+          const generated = await retryWithBackoff(
+            async () =>
+              generateMcqsForTopic({
+                llm,
+                topic,
+                chapterNumber,
+                chapterTitle,
+                vectorStoreId,
+                topicIndex: record.payload.topics.indexOf(topic),
+                totalTopics: record.payload.topics.length,
+                rubric,
+                guidance,
+                figures: getJobFigures(record.payload),
+                extraGuidance:
+                  `The existing set is missing these categories: ${wanted}. Make as many questions as possible fall in them.\n` +
+                  `Do not repeat or paraphrase these existing questions:\n${avoid}`,
+              }),
+            {
+              label: `Distribution regeneration (${llm.label}) for topic "${bucket.topic}"`,
+              log,
+              initialDelayMs: 5000,
+              maxAttempts: 3,
+              gate: llm.provider.gate,
+            },
+          );
+          recordLlmUsage(record, llm, generated.usage);
+          return generated;
+        });
+
+        const context = await getDedupContext();
+        const candidates = context ? await dropDuplicateCandidates(mcqs, bucket.topic, topics, context) : mcqs;
+        if (candidates.length < mcqs.length) {
+          log(
+            `Dropped ${mcqs.length - candidates.length} near-duplicate question(s) from the distribution regeneration for topic "${bucket.topic}".`,
+          );
+        }
+        const { items, added } = fillMissingCategories(
+          bucket.items,
+          candidates.map((item) => ({ ...cloneMcqItem(item), id: crypto.randomUUID() })),
+          report,
+          getQuestionRange(topic, rubric).max,
+        );
+        const after = checkTopicDistribution(bucket.topic, items, tolerance, targets);
+        regenerated.add(bucket.topic);
+        log(
+          `Added ${added} question(s) to topic "${bucket.topic}" for its missing categories` +
+            `${after.skewed ? "; the mix is still outside the tolerance" : ""} (${describeDistribution(after)}).`,
+        );
+        return { topic: bucket.topic, items };
+      } catch (error) {
+        log(
+          `Distribution regeneration for topic "${bucket.topic}" failed; keeping the generated set:`,
+          error instanceof Error ? error.message : error,
+        );
+        return bucket;
+      }
+    },
+  );
+
+  record.distribution = result.map((topic) => ({
+    ...checkTopicDistribution(topic.topic, topic.items, tolerance, targets),
+    regenerated: regenerated.has(topic.topic),
+  }));
+
+  return result;
 }
 
 async function processJob(jobId: string, record: JobRecord): Promise<void> {
   record.status = "processing";
+  record.resumable = false;
   record.updatedAt = Date.now();
 
   const log = (...args: unknown[]) => logJob(record, jobId, ...args);
@@ -889,64 +1556,121 @@ async function processJob(jobId: string, record: JobRecord): Promise<void> {
       `Starting job for Class ${classLevel}, Subject ${subject.name}, Syllabus ${syllabus.name}.`,
     );
 
-    const openai = getOpenAIClient();
-    if (!openai) {
-      throw new Error("OPENAI_API_KEY is not configured on the server.");
-    }
-
-    const { completedCount, completedFileIds } = await ensureVectorStoreHasFiles(openai, vectorStoreId);
-    log(
-      `Validated vector store ${vectorStoreId} before MCQ generation (${completedCount} completed files: ${completedFileIds.join(", ")}).`,
-    );
-
     record.generatedTopics = undefined;
+    record.failedTopics = undefined;
     record.allowValidationRetry = false;
     record.allowPersistenceRetry = false;
 
-    const generatedTopics: StoredTopicMcqs[] = [];
-
-    for (const [index, topic] of topics.entries()) {
-      const { mcqs, usage } = await retryWithBackoff(
-        async () =>
-          generateMcqsForTopic({
-            openai,
-            topic,
-            chapterNumber,
-            chapterTitle,
-            vectorStoreId,
-            topicIndex: index,
-            totalTopics: topics.length,
-          }),
-        {
-          label: `OpenAI generation for topic "${topic.topic}"`,
-          log,
-          initialDelayMs: 5000,
-          maxAttempts: 6,
-        },
-      );
+    const checkpoints = record.topicCheckpoints ?? [];
+    record.topicCheckpoints = checkpoints;
+    const findCheckpoint = (topic: TopicSummary) =>
+      checkpoints.find((checkpoint) => checkpoint.topic === topic.topic);
+    const pendingTopics = [...topics.entries()].filter(([, topic]) => !findCheckpoint(topic));
 
+    if (record.payload.source === "import") {
+      log(`Validating ${checkpoints.length} imported topic(s); generation is skipped.`);
+    } else if (checkpoints.length > 0) {
       log(
-        `Generated ${mcqs.length} MCQs for topic "${topic.topic}" (${index + 1}/${topics.length}).` +
-          (usage
-            ? ` Tokens — input: ${usage.input_tokens ?? 0}, output: ${usage.output_tokens ?? 0}, total: ${usage.total_tokens ?? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0)}`
-            : ""),
+        pendingTopics.length > 0
+          ? `Resuming with ${topics.length - pendingTopics.length}/${topics.length} topics already generated; continuing from topic "${pendingTopics[0][1].topic}".`
+          : `All ${topics.length} topics were already generated; skipping straight to validation.`,
       );
+    }
 
-      if (usage) {
-        record.openAiUsage.inputTokens += usage.input_tokens ?? 0;
-        record.openAiUsage.outputTokens += usage.output_tokens ?? 0;
-        record.openAiUsage.totalTokens += usage.total_tokens
-          ?? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0);
+    if (pendingTopics.length > 0) {
+      // The uploaded book lives in an OpenAI vector store whichever model generates.
+      const openai = getOpenAIClient();
+      if (!openai) {
+        throw new Error("OPENAI_API_KEY is not configured on the server.");
       }
+      const llm = getStageModel("generation");
+
+      const { completedCount, completedFileIds } = await ensureVectorStoreHasFiles(openai, vectorStoreId);
+      await getBookRegistry().touch(vectorStoreId).catch((error) => {
+        console.warn(`[job ${jobId}] Unable to record use of vector store ${vectorStoreId}`, error);
+      });
+      log(
+        `Validated vector store ${vectorStoreId} before MCQ generation (${completedCount} completed files: ${completedFileIds.join(", ")}).`,
+      );
+
+      const concurrency = getConcurrencyLimit(
+        "MCQ_GENERATION_CONCURRENCY",
+        DEFAULT_GENERATION_CONCURRENCY,
+      );
+      log(`Generating ${pendingTopics.length} topic(s) with ${llm.label}, up to ${concurrency} in parallel.`);
+
+      await mapWithConcurrency(pendingTopics, concurrency, async ([index, topic]) => {
+        log(`Generating MCQs for topic "${topic.topic}" (${index + 1}/${topics.length}).`);
+        const { mcqs, usage } = await withinBudget(record, "generation", llm.label, async () => {
+          const generated = await retryWithBackoff(
+            async () =>
+              generateMcqsForTopic({
+                llm,
+                topic,
+                chapterNumber,
+                chapterTitle,
+                vectorStoreId,
+                topicIndex: index,
+                totalTopics: topics.length,
+                rubric: getJobRubric(record.payload),
+                guidance: record.payload.guidance,
+                figures: getJobFigures(record.payload),
+              }),
+            {
+              label: `Generation (${llm.label}) for topic "${topic.topic}"`,
+              log,
+              initialDelayMs: 5000,
+              maxAttempts: 6,
+              gate: llm.provider.gate,
+            },
+          );
+          recordLlmUsage(record, llm, generated.usage);
+          return generated;
+        });
+
+        checkpoints.push({
+          topic: topic.topic,
+          items: mcqs.map((item) => ({ ...cloneMcqItem(item), id: crypto.randomUUID() })),
+        });
+        publishJobEvent(jobId, {
+          type: "progress",
+          stage: "generation",
+          topic: topic.topic,
+          completed: checkpoints.length,
+          total: topics.length,
+        });
 
-      generatedTopics.push({ topic: topic.topic, items: mcqs.map((item) => cloneMcqItem(item)) });
+        log(
+          `Generated ${mcqs.length} MCQs for topic "${topic.topic}" (${checkpoints.length}/${topics.length} topics done). Tokens — input: ${usage.inputTokens}, output: ${usage.outputTokens}, total: ${usage.totalTokens}`,
+        );
+        await saveJob(record);
+      });
     }
-    record.generatedTopics = generatedTopics.map((topic) => ({
-      topic: topic.topic,
-      items: topic.items.map((item) => cloneMcqItem(item)),
-    }));
+
+    record.generatedTopics = topics.map((topic) => {
+      const checkpoint = findCheckpoint(topic);
+      if (!checkpoint) {
+        throw new Error(`Missing generated MCQs for topic "${topic.topic}".`);
+      }
+      return {
+        topic: checkpoint.topic,
+        items: checkpoint.items.map((item) => cloneMcqItem(item)),
+      };
+    });
     record.allowValidationRetry = false;
 
+    record.generatedTopics = await deduplicateGeneratedTopics({
+      record,
+      topics: record.generatedTopics,
+      log,
+    });
+    record.generatedTopics = await enforceTopicDistributions({
+      record,
+      topics: record.generatedTopics,
+      log,
+    });
+    await saveJob(record);
+
     await validateAndFinalizeJob({
       jobId,
       record,
@@ -976,6 +1700,9 @@ async function processJob(jobId: string, record: JobRecord): Promise<void> {
       record.allowValidationRetry = false;
       record.allowPersistenceRetry = Array.isArray(record.generatedTopics) && record.generatedTopics.length > 0;
     }
+    // The payload and any checkpointed topics are kept, so the job can be resumed
+    // unless the uploaded book itself is gone.
+    record.resumable = status !== 410;
     record.updatedAt = Date.now();
     log("Job failed:", message);
     log(
@@ -984,11 +1711,15 @@ async function processJob(jobId: string, record: JobRecord): Promise<void> {
     log(
       `Total Anthropic tokens used before failure: input ${record.anthropicUsage.inputTokens}, output ${record.anthropicUsage.outputTokens}, total ${record.anthropicUsage.totalTokens}.`,
     );
+    log(`Total cost before failure: ${formatCost(record.cost?.total ?? 0)}.`);
+  } finally {
+    await settleJob(record);
   }
 }
 
 async function retryValidation(jobId: string, record: JobRecord): Promise<void> {
   record.status = "processing";
+  record.resumable = false;
   record.updatedAt = Date.now();
 
   const log = (...args: unknown[]) => logJob(record, jobId, ...args);
@@ -1049,11 +1780,14 @@ async function retryValidation(jobId: string, record: JobRecord): Promise<void>
     }
     record.updatedAt = Date.now();
     log("Validation retry failed:", message);
+  } finally {
+    await settleJob(record);
   }
 }
 
 async function retryPersistence(jobId: string, record: JobRecord): Promise<void> {
   record.status = "processing";
+  record.resumable = false;
   record.updatedAt = Date.now();
 
   const log = (...args: unknown[]) => logJob(record, jobId, ...args);
@@ -1114,10 +1848,315 @@ async function retryPersistence(jobId: string, record: JobRecord): Promise<void>
     }
     record.updatedAt = Date.now();
     log("Persistence retry failed:", message);
+  } finally {
+    await settleJob(record);
   }
 }
 
-function createJob(payload: JobPayload): JobRecord {
+async function applyReviewEdits(
+  jobId: string,
+  record: JobRecord,
+  editedTopics: string[],
+): Promise<void> {
+  const log = (...args: unknown[]) => logJob(record, jobId, ...args);
+  const { chapterNumber, chapterTitle, classLevel, subject, syllabus } = record.payload;
+  const failed = new Set(record.failedTopics ?? []);
+  const edited = (record.generatedTopics ?? []).filter((topic) => editedTopics.includes(topic.topic));
+  const topicsToPersist = edited.filter((topic) => !failed.has(topic.topic));
+
+  ensureQuestionIds(edited);
+  edited.forEach((topic) => recordFinalItems(record, topic, "review"));
+  refreshDistribution(record);
+
+  log(`Applying reviewer edits to ${editedTopics.length} topic(s).`);
+
+  try {
+    if (record.status === "succeeded" && topicsToPersist.length > 0) {
+      await persistChapterToDatabase({
+        jobId,
+        classLevel,
+        subjectId: subject.id,
+        chapterNumber,
+        chapterTitle,
+        syllabusName: syllabus.name,
+        topics: topicsToPersist.map((topic) => ({ name: topic.topic, items: topic.items })),
+        log,
+      });
+      writeJobCsv(record);
+      log("Reviewer edits stored in the database and CSV rebuilt.");
+    } else {
+      log("Reviewer edits saved; they will be used when the job is validated and exported.");
+    }
+  } catch (error) {
+    console.error(`[job ${jobId}] Failed to persist reviewer edits`, error);
+    log(
+      "Reviewer edits saved on the job but not stored in the database:",
+      error instanceof Error ? error.message : error,
+    );
+    throw new Error("Failed to persist reviewer edits to the database; save again to retry.");
+  } finally {
+    await saveJob(record);
+  }
+}
+
+async function publishReviewedTopic(
+  jobId: string,
+  record: JobRecord,
+  topicName: string,
+  items: StoredMcqItem[],
+): Promise<void> {
+  const log = (...args: unknown[]) => logJob(record, jobId, ...args);
+  const { chapterNumber, chapterTitle, classLevel, subject, syllabus } = record.payload;
+
+  log(`Publishing reviewed topic "${topicName}" with ${items.length} question(s).`);
+
+  try {
+    await persistChapterToDatabase({
+      jobId,
+      classLevel,
+      subjectId: subject.id,
+      chapterNumber,
+      chapterTitle,
+      syllabusName: syllabus.name,
+      topics: [{ name: topicName, items }],
+      log,
+    });
+  } catch (error) {
+    console.error(`[job ${jobId}] Failed to persist reviewed topic`, error);
+    log(
+      `Persisting reviewed topic "${topicName}" failed:`,
+      error instanceof Error ? error.message : error,
+    );
+    await saveJob(record);
+    throw new Error("Failed to persist the reviewed topic to the database.");
+  }
+
+  record.generatedTopics = (record.generatedTopics ?? []).map((topic) =>
+    topic.topic === topicName ? { topic: topicName, items: items.map((item) => cloneMcqItem(item)) } : topic,
+  );
+  record.failedTopics = (record.failedTopics ?? []).filter((topic) => topic !== topicName);
+  recordFinalItems(record, { topic: topicName, items }, "review");
+  refreshDistribution(record);
+  if (record.summary) {
+    const remaining = record.summary.topicSummaries.filter((summary) => summary.topic !== topicName);
+    record.summary = {
+      overallStatus: record.failedTopics.length === 0 ? "approved" : "mixed",
+      topicSummaries: remaining,
+    };
+  }
+  writeJobCsv(record);
+
+  if (record.failedTopics.length === 0) {
+    record.status = "succeeded";
+    record.error = undefined;
+  } else if (record.status === "failed") {
+    // At least one topic is exportable now, so the job is a partial success.
+    record.status = "succeeded";
+    record.error = "One or more topics require manual review.";
+  }
+  record.allowValidationRetry = false;
+  record.allowPersistenceRetry = false;
+  record.updatedAt = Date.now();
+  log(`Reviewed topic "${topicName}" published; CSV rebuilt.`);
+  await settleJob(record);
+}
+
+/**
+ * Generates a fresh question set for one topic of a finished job, validates it and
+ * swaps it into the job. Only that topic's rows are re-stored and its review items
+ * replaced; the other topics are untouched. A failed regeneration keeps the topic's
+ * previous questions.
+ */
+async function regenerateTopic(
+  jobId: string,
+  record: JobRecord,
+  topicName: string,
+  guidance?: string,
+): Promise<void> {
+  const log = (...args: unknown[]) => logJob(record, jobId, ...args);
+  const previousStatus = record.status;
+
+  log(`Regeneration requested for topic "${topicName}"${guidance ? " with editor guidance" : ""}.`);
+  record.status = "processing";
+  record.updatedAt = Date.now();
+  await settleJob(record);
+
+  void (async () => {
+    try {
+      const { chapterNumber, chapterTitle, topics, vectorStoreId, classLevel, subject, syllabus } =
+        record.payload;
+      const topicIndex = topics.findIndex((topic) => topic.topic === topicName);
+      const previous = record.generatedTopics?.find((topic) => topic.topic === topicName);
+      if (topicIndex === -1 || !previous) {
+        throw new Error(`Topic "${topicName}" is not part of this job.`);
+      }
+
+      const openai = getOpenAIClient();
+      if (!openai) {
+        throw new Error("OPENAI_API_KEY is not configured on the server.");
+      }
+      const llm = getStageModel("generation");
+      await ensureVectorStoreHasFiles(openai, vectorStoreId);
+      await getBookRegistry().touch(vectorStoreId).catch((error) => {
+        console.warn(`[job ${jobId}] Unable to record use of vector store ${vectorStoreId}`, error);
+      });
+
+      const { mcqs } = await withinBudget(record, "generation", llm.label, async () => {
+        const generated = await retryWithBackoff(
+          async () =>
+            generateMcqsForTopic({
+              llm,
+              topic: topics[topicIndex],
+              chapterNumber,
+              chapterTitle,
+              vectorStoreId,
+              topicIndex,
+              totalTopics: topics.length,
+              rubric: getJobRubric(record.payload),
+              guidance: record.payload.guidance,
+              figures: getJobFigures(record.payload),
+              extraGuidance: guidance ? `Editor guidance for this regeneration: ${guidance}` : undefined,
+            }),
+          {
+            label: `Regeneration (${llm.label}) for topic "${topicName}"`,
+            log,
+            initialDelayMs: 5000,
+            maxAttempts: 6,
+            gate: llm.provider.gate,
+          },
+        );
+        recordLlmUsage(record, llm, generated.usage);
+        return generated;
+      });
+      log(`Regenerated ${mcqs.length} MCQs for topic "${topicName}".`);
+
+      const regenerated: StoredTopicMcqs = {
+        topic: topicName,
+        items: mcqs.map((item) => ({ ...cloneMcqItem(item), id: crypto.randomUUID() })),
+      };
+      const {
+        currentTopics: [validated],
+        failedTopicSummaries,
+        reviewOriginals,
+        citationIssues,
+      } = await runValidationAttempts({ jobId, record, topics: [regenerated], log });
+      const failed = failedTopicSummaries.length > 0;
+
+      if (!failed) {
+        // Keep the chapter's correct-answer spread balanced with the other topics.
+        const correctCounts = [0, 0, 0, 0];
+        for (const topic of getExportableTopics(record)) {
+          if (topic.topic !== topicName) {
+            topic.items.forEach((item) => {
+              if (
+                (item.format === undefined || item.format === "single") &&
+                item.correct_index >= 0 &&
+                item.correct_index < correctCounts.length
+              ) {
+                correctCounts[item.correct_index] += 1;
+              }
+            });
+          }
+        }
+        validated.items = rebalanceCorrectOptions(validated.items, correctCounts);
+
+        await persistChapterToDatabase({
+          jobId,
+          classLevel,
+          subjectId: subject.id,
+          chapterNumber,
+          chapterTitle,
+          syllabusName: syllabus.name,
+          topics: [{ name: topicName, items: validated.items }],
+          log,
+        });
+      }
+
+      try {
+        await replacePendingReviewItems(jobId, buildReviewItems(failedTopicSummaries, reviewOriginals), topicName);
+      } catch (queueError) {
+        console.error(`[job ${jobId}] Unable to update the review queue`, queueError);
+        log(
+          "Unable to update the review queue:",
+          queueError instanceof Error ? queueError.message : queueError,
+        );
+      }
+
+      recordTopicRegenerated(record, previous);
+      record.generatedTopics = (record.generatedTopics ?? []).map((topic) =>
+        topic.topic === topicName ? validated : topic,
+      );
+      record.topicCheckpoints = (record.topicCheckpoints ?? []).map((checkpoint) =>
+        checkpoint.topic === topicName
+          ? { topic: topicName, items: regenerated.items.map((item) => cloneMcqItem(item)) }
+          : checkpoint,
+      );
+      const otherFailures = (record.failedTopics ?? []).filter((topic) => topic !== topicName);
+      record.failedTopics = failed ? [...otherFailures, topicName] : otherFailures;
+      if (citationIssues) {
+        record.citationIssues = [
+          ...(record.citationIssues ?? []).filter((issue) => issue.topic !== topicName),
+          ...citationIssues,
+        ];
+      }
+      if (!failed) {
+        recordFinalItems(record, validated, "validation");
+      }
+      refreshDistribution(record);
+
+      const topicSummaries = [
+        ...(record.summary?.topicSummaries ?? []).filter((summary) => summary.topic !== topicName),
+        ...failedTopicSummaries,
+      ];
+      const exportable = record.failedTopics.length < record.generatedTopics.length;
+      record.summary = {
+        overallStatus: record.failedTopics.length === 0 ? "approved" : exportable ? "mixed" : "rejected",
+        topicSummaries,
+      };
+      if (exportable) {
+        writeJobCsv(record);
+      }
+      record.status = exportable ? "succeeded" : "failed";
+      record.error = record.failedTopics.length === 0
+        ? undefined
+        : exportable
+          ? "One or more topics require manual review."
+          : "All topics failed validation.";
+      log(
+        failed
+          ? `Regenerated topic "${topicName}" failed validation and was queued for manual review.`
+          : `Regenerated topic "${topicName}" validated and stored; CSV rebuilt.`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Topic regeneration failed.";
+      console.error(`[job ${jobId}] topic regeneration`, error);
+      record.status = previousStatus;
+      record.error = `Regenerating topic "${topicName}" failed: ${message}`;
+      log("Topic regeneration failed; the previous questions are kept:", message);
+    } finally {
+      record.allowValidationRetry = false;
+      record.allowPersistenceRetry = false;
+      record.updatedAt = Date.now();
+      await settleJob(record);
+    }
+  })();
+}
+
+async function resumeJob(jobId: string, record: JobRecord): Promise<void> {
+  const done = record.topicCheckpoints?.length ?? 0;
+  logJob(record, jobId, `Resume requested (${done}/${record.payload.topics.length} topics checkpointed).`);
+  record.status = "pending";
+  record.error = undefined;
+  record.resumable = false;
+  record.allowValidationRetry = false;
+  record.allowPersistenceRetry = false;
+  record.updatedAt = Date.now();
+  await settleJob(record);
+
+  void processJob(jobId, record);
+}
+
+async function createJob(payload: JobPayload): Promise<JobRecord> {
   const jobId = crypto.randomUUID();
   const now = Date.now();
 
@@ -1132,16 +2171,50 @@ function createJob(payload: JobPayload): JobRecord {
     openAiUsage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
     anthropicUsage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
     generatedTopics: undefined,
+    topicCheckpoints: [],
     allowValidationRetry: false,
     allowPersistenceRetry: false,
+    resumable: false,
   };
 
-  jobStore.set(jobId, record);
+  await jobStore.create(record);
+  return record;
+}
+
+/**
+ * Starts a job for an imported question bank. The topics are stored as completed
+ * checkpoints, so processing goes straight to de-duplication, validation and
+ * persistence. Topic names are checked as for a generated job.
+ */
+async function importQuestionBank(
+  payload: JobPayload,
+  topics: StoredTopicMcqs[],
+): Promise<JobRecord> {
+  const topicError = checkTopicList(payload.topics);
+  if (topicError) {
+    const error = new Error(topicError);
+    Object.assign(error, { status: 400 });
+    throw error;
+  }
+
+  const record = await createJob({ ...payload, source: "import" });
+  record.topicCheckpoints = topics.map((topic) => ({
+    topic: topic.topic,
+    items: topic.items.map((item) => ({ ...cloneMcqItem(item), id: item.id ?? crypto.randomUUID() })),
+  }));
+  await saveJob(record);
+
+  void processJob(record.id, record);
   return record;
 }
 
 globalThis.__mcqRetryValidation = retryValidation;
 globalThis.__mcqRetryPersistence = retryPersistence;
+globalThis.__mcqResumeJob = resumeJob;
+globalThis.__mcqApplyReviewEdits = applyReviewEdits;
+globalThis.__mcqPublishReviewedTopic = publishReviewedTopic;
+globalThis.__mcqImportQuestionBank = importQuestionBank;
+globalThis.__mcqRegenerateTopic = regenerateTopic;
 
 export async function POST(request: NextRequest) {
   try {
@@ -1153,24 +2226,39 @@ export async function POST(request: NextRequest) {
       topics,
       vectorStoreId,
       bookFingerprint = null,
+      figureSet,
+      bookText,
       classLevel,
       subject,
       syllabus,
+      csvProfile: csvProfileName,
+      rubricProfile: rubricProfileName,
+      guidance: rawGuidance,
     }: {
       chapterNumber: number;
       chapterTitle: string;
       topics: TopicSummary[];
       vectorStoreId: string;
       bookFingerprint?: string | null;
+      figureSet?: string | null;
+      bookText?: string | null;
       classLevel: number;
       subject: { id?: number | null; name?: string };
       syllabus: { id?: number | null; name?: string };
+      csvProfile?: string;
+      rubricProfile?: string;
+      guidance?: string;
     } = body ?? {};
 
     if (!Array.isArray(topics) || topics.length === 0) {
       return NextResponse.json({ error: "Topics are required to generate MCQs." }, { status: 400 });
     }
 
+    const topicError = checkTopicList(topics);
+    if (topicError) {
+      return NextResponse.json({ error: topicError }, { status: 400 });
+    }
+
     if (!vectorStoreId || typeof vectorStoreId !== "string") {
       return NextResponse.json({ error: "Missing vector store id for file search." }, { status: 400 });
     }
@@ -1205,10 +2293,53 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Syllabus is required." }, { status: 400 });
     }
 
+    const csvProfile = typeof csvProfileName === "string" && csvProfileName.trim()
+      ? await getCsvProfile(csvProfileName)
+      : null;
+
+    if (typeof csvProfileName === "string" && csvProfileName.trim() && !csvProfile) {
+      return NextResponse.json(
+        { error: `CSV profile "${csvProfileName}" does not exist.` },
+        { status: 400 },
+      );
+    }
+
+    const guidance = typeof rawGuidance === "string" ? rawGuidance.trim() : "";
+    if (guidance.length > MAX_GUIDANCE_LENGTH) {
+      return NextResponse.json(
+        { error: `Guidance must be at most ${MAX_GUIDANCE_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+
+    // An explicit choice wins; otherwise the class/subject assignment (or the default) applies.
+    const rubricProfile = typeof rubricProfileName === "string" && rubricProfileName.trim()
+      ? await getRubricProfile(rubricProfileName)
+      : await resolveRubricProfile(classLevel, subject.id);
+
+    if (!rubricProfile) {
+      return NextResponse.json(
+        { error: `Rubric profile "${rubricProfileName}" does not exist.` },
+        { status: 400 },
+      );
+    }
+
+    // The figure list is read from the store, not taken from the request.
+    const figures = isBookSetId(figureSet)
+      ? await loadFigureSet(figureSet).catch((error) => {
+          console.warn(`[mcqs] Unable to load figure set ${figureSet}; generating without figures.`, error);
+          return null;
+        })
+      : null;
+
     const payload: JobPayload = {
       chapterNumber,
       chapterTitle,
-      topics,
+      topics: topics.map((topic) => ({
+        topic: topic.topic.trim(),
+        description: typeof topic.description === "string" ? topic.description.trim() : "",
+        ...(topic.questionCount ? { questionCount: topic.questionCount } : {}),
+      })),
       vectorStoreId,
       bookFingerprint,
       classLevel,
@@ -1220,9 +2351,17 @@ export async function POST(request: NextRequest) {
         id: syllabus.id,
         name: syllabus.name.trim(),
       },
+      ...(csvProfile ? { csvProfile } : {}),
+      rubricProfile,
+      ...(guidance ? { guidance } : {}),
+      ...(figures?.length ? { figures } : {}),
+      ...(isBookSetId(bookText) ? { bookText } : {}),
     };
 
-    const record = createJob(payload);
+    // A spent daily budget is reported here rather than as a failed job.
+    await assertWithinBudget(null, "generation", getStageModel("generation").label);
+
+    const record = await createJob(payload);
     const jobId = record.id;
 
     record.status = "pending";
@@ -1234,6 +2373,6 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unable to create MCQs at this time.";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return NextResponse.json({ error: message }, { status: getErrorStatus(error) === 402 ? 402 : 500 });
   }
 }
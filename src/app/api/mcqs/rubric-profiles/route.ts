@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BLOOM_LEVELS,
+  DEFAULT_RUBRIC_PROFILE,
+  DIFFICULTY_LEVELS,
+  QUESTION_TYPES,
+  assignRubricProfile,
+  deleteRubricProfile,
+  getRubricProfile,
+  listRubricAssignments,
+  listRubricProfiles,
+  normalizeRubricName,
+  parseRubricProfile,
+  resolveRubricProfile,
+  saveRubricProfile,
+} from "../rubricProfiles";
+import { QUESTION_FORMATS } from "../questionFormats";
+
+export const runtime = "nodejs";
+
+function parseOptionalId(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === null || raw === "") {
+    return null;
+  }
+  const value = typeof raw === "number" ? raw : Number.parseInt(String(raw), 10);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Lists the rubric profiles and their class/subject assignments. With `classLevel` and
+ * `subjectId`, also names the profile a job for them would use by default.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const classLevel = parseOptionalId(params.get("classLevel"));
+  const subjectId = parseOptionalId(params.get("subjectId"));
+
+  if (classLevel === undefined || subjectId === undefined) {
+    return NextResponse.json({ error: "classLevel and subjectId must be numbers." }, { status: 400 });
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json({
+      profiles: [DEFAULT_RUBRIC_PROFILE],
+      assignments: [],
+      resolved: DEFAULT_RUBRIC_PROFILE.name,
+      options: { bloom: BLOOM_LEVELS, difficulty: DIFFICULTY_LEVELS, types: QUESTION_TYPES, formats: QUESTION_FORMATS },
+    });
+  }
+
+  try {
+    const [profiles, assignments] = await Promise.all([listRubricProfiles(), listRubricAssignments()]);
+    const resolved = classLevel !== null && subjectId !== null
+      ? (await resolveRubricProfile(classLevel, subjectId)).name
+      : null;
+    return NextResponse.json({
+      profiles,
+      assignments,
+      resolved,
+      options: { bloom: BLOOM_LEVELS, difficulty: DIFFICULTY_LEVELS, types: QUESTION_TYPES, formats: QUESTION_FORMATS },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to list rubric profiles.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { profile, error } = parseRubricProfile(body);
+
+    if (!profile) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (profile.name === DEFAULT_RUBRIC_PROFILE.name) {
+      return NextResponse.json(
+        { error: "The default rubric is built in and cannot be changed." },
+        { status: 400 },
+      );
+    }
+
+    await saveRubricProfile(profile);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save the rubric profile.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * Assigns a profile to a class, a subject or both (body `{ profile, classLevel?, subjectId? }`);
+ * `profile: null` removes the assignment.
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as
+      | { profile?: string | null; classLevel?: number | null; subjectId?: number | null }
+      | null;
+    const classLevel = parseOptionalId(body?.classLevel);
+    const subjectId = parseOptionalId(body?.subjectId);
+
+    if (!body || classLevel === undefined || subjectId === undefined) {
+      return NextResponse.json({ error: "classLevel and subjectId must be numbers." }, { status: 400 });
+    }
+
+    if (classLevel === null && subjectId === null) {
+      return NextResponse.json(
+        { error: "Give a classLevel, a subjectId or both; the default rubric covers everything else." },
+        { status: 400 },
+      );
+    }
+
+    if (body.profile !== null && typeof body.profile !== "string") {
+      return NextResponse.json({ error: "profile must be a profile name or null." }, { status: 400 });
+    }
+
+    if (body.profile !== null && !(await getRubricProfile(body.profile))) {
+      return NextResponse.json({ error: `Rubric profile "${body.profile}" does not exist.` }, { status: 404 });
+    }
+
+    await assignRubricProfile({ classLevel, subjectId }, body.profile);
+    return NextResponse.json({
+      profile: body.profile === null ? null : normalizeRubricName(body.profile),
+      classLevel,
+      subjectId,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to assign the rubric profile.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const name = normalizeRubricName(request.nextUrl.searchParams.get("name") ?? "");
+
+  if (!name) {
+    return NextResponse.json({ error: "Missing name parameter." }, { status: 400 });
+  }
+
+  if (name === DEFAULT_RUBRIC_PROFILE.name) {
+    return NextResponse.json(
+      { error: "The default rubric is built in and cannot be deleted." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const deleted = await deleteRubricProfile(name);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Rubric profile not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: name });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to delete the rubric profile.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
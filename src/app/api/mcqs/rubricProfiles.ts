@@ -0,0 +1,409 @@
+import { ensureSchema, getDbPool } from "@/lib/db";
+import { FORMAT_LABELS, FORMAT_RULES, QUESTION_FORMATS, type QuestionFormat } from "./questionFormats";
+
+export const BLOOM_LEVELS = ["Remember", "Understand", "Apply", "Analyze", "Evaluate/Create"] as const;
+export const DIFFICULTY_LEVELS = ["Easy", "Medium", "Hard"] as const;
+export const QUESTION_TYPES = ["recall", "application", "assertion-reason", "fill-blank", "diagram"] as const;
+
+export type BloomLevel = (typeof BLOOM_LEVELS)[number];
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+/** Largest question count a rubric or a topic may ask for. */
+export const MAX_RUBRIC_QUESTIONS = 30;
+/** Longest free-text guidance accepted with a job or a regeneration. */
+export const MAX_GUIDANCE_LENGTH = 2000;
+
+export interface RubricProfile {
+  name: string;
+  description?: string;
+  /** Opening instructions: who the model is and what it is writing for. */
+  instructions: string;
+  /** Percent of each topic's questions per Bloom level; sums to 100. */
+  bloomMix: Record<BloomLevel, number>;
+  /**
+   * Percent per difficulty, checked like the Bloom mix. Without one, every
+   * difficulty only has to appear at least once.
+   */
+  difficultyMix?: Record<DifficultyLevel, number>;
+  /** Types the model may use; each one except `diagram` must appear in a topic. */
+  questionTypes: QuestionType[];
+  /** Answer formats the model may use; unset means single-answer MCQs only. */
+  formats?: QuestionFormat[];
+  /** Questions per topic when the topic has no count of its own. */
+  countRange: { min: number; max: number };
+  /** One instruction per line for how explanations are written. */
+  explanationStyle: string;
+}
+
+/** The rubric the app has always used; it cannot be overwritten or deleted. */
+export const DEFAULT_RUBRIC_PROFILE: RubricProfile = {
+  name: "default",
+  description: "K–12 rubric: 10–15 questions per topic and the 20/25/25/20/10 Bloom split.",
+  instructions:
+    "You are a K–12 curriculum expert and assessment designer.\n\nGoal: Generate high-quality MCQs strictly from the provided book PDF.",
+  bloomMix: { Remember: 20, Understand: 25, Apply: 25, Analyze: 20, "Evaluate/Create": 10 },
+  questionTypes: ["recall", "application", "assertion-reason", "fill-blank", "diagram"],
+  countRange: { min: 10, max: 15 },
+  explanationStyle:
+    "Friendly teacher tone, step-by-step, suitable for self-study.\nProvide clear, slightly longer teaching-style notes (1–3 sentences).",
+};
+
+export interface RubricAssignment {
+  profile: string;
+  /** `null` applies to every class. */
+  classLevel: number | null;
+  /** `null` applies to every subject. */
+  subjectId: number | null;
+}
+
+const RUBRIC_PROFILE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_rubric_profiles (
+     name TEXT PRIMARY KEY,
+     profile JSONB NOT NULL,
+     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+   )`,
+  // 0 stands for "any" so the pair can be the primary key.
+  `CREATE TABLE IF NOT EXISTS mcq_rubric_assignments (
+     class_level INTEGER NOT NULL DEFAULT 0,
+     subject_id INTEGER NOT NULL DEFAULT 0,
+     profile_name TEXT NOT NULL,
+     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     PRIMARY KEY (class_level, subject_id)
+   )`,
+];
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const MAX_TEXT_LENGTH = 4000;
+
+const TYPE_LINES: Record<QuestionType, string> = {
+  recall: "Direct recall",
+  application: "Application / word problem",
+  "assertion-reason": "Assertion–Reason",
+  "fill-blank": "Fill-in-the-blank (convert to 4 options; only one correct)",
+  diagram: "(Optional) One diagram/figure-based if the text clearly supports it",
+};
+
+function ensureRubricSchema(): Promise<void> {
+  return ensureSchema("rubric_profiles", RUBRIC_PROFILE_SCHEMA);
+}
+
+export function normalizeRubricName(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+function parseMix<K extends string>(
+  raw: unknown,
+  keys: readonly K[],
+  label: string,
+): { mix: Record<K, number>; error?: undefined } | { mix?: undefined; error: string } {
+  if (!raw || typeof raw !== "object") {
+    return { error: `${label} must map ${keys.join(", ")} to percentages.` };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const mix = {} as Record<K, number>;
+  for (const key of keys) {
+    const value = input[key] ?? 0;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 100) {
+      return { error: `${label} for ${key} must be a percentage from 0 to 100.` };
+    }
+    mix[key] = value;
+  }
+
+  const total = keys.reduce((sum, key) => sum + mix[key], 0);
+  if (Math.abs(total - 100) > 0.5) {
+    return { error: `${label} must add up to 100 (got ${total}).` };
+  }
+  return { mix };
+}
+
+/**
+ * Validates a rubric profile submitted by a client. Returns the cleaned profile, or an
+ * error message describing the first problem found.
+ */
+export function parseRubricProfile(
+  raw: unknown,
+): { profile: RubricProfile; error?: undefined } | { profile?: undefined; error: string } {
+  if (!raw || typeof raw !== "object") {
+    return { error: "Profile must be an object." };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const name = typeof input.name === "string" ? normalizeRubricName(input.name) : "";
+
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    return {
+      error: "Profile name must be 1–64 characters of lowercase letters, digits, '-' or '_'.",
+    };
+  }
+
+  const instructions = typeof input.instructions === "string" ? input.instructions.trim() : "";
+  if (!instructions || instructions.length > MAX_TEXT_LENGTH) {
+    return { error: `instructions must be 1–${MAX_TEXT_LENGTH} characters.` };
+  }
+
+  const bloom = parseMix(input.bloomMix, BLOOM_LEVELS, "bloomMix");
+  if (!bloom.mix) {
+    return { error: bloom.error };
+  }
+
+  let difficultyMix: Record<DifficultyLevel, number> | undefined;
+  if (input.difficultyMix !== undefined && input.difficultyMix !== null) {
+    const difficulty = parseMix(input.difficultyMix, DIFFICULTY_LEVELS, "difficultyMix");
+    if (!difficulty.mix) {
+      return { error: difficulty.error };
+    }
+    difficultyMix = difficulty.mix;
+  }
+
+  const types = Array.isArray(input.questionTypes) ? [...new Set(input.questionTypes)] : [];
+  if (
+    types.length === 0 ||
+    !types.every((type) => (QUESTION_TYPES as readonly unknown[]).includes(type))
+  ) {
+    return { error: `questionTypes must list one or more of ${QUESTION_TYPES.join(", ")}.` };
+  }
+  if (types.every((type) => type === "diagram")) {
+    return { error: "questionTypes needs at least one type besides diagram." };
+  }
+
+  let formats: QuestionFormat[] | undefined;
+  if (input.formats !== undefined && input.formats !== null) {
+    const requested = Array.isArray(input.formats) ? input.formats : [];
+    if (
+      requested.length === 0 ||
+      !requested.every((format) => (QUESTION_FORMATS as readonly unknown[]).includes(format))
+    ) {
+      return { error: `formats must list one or more of ${QUESTION_FORMATS.join(", ")}.` };
+    }
+    formats = QUESTION_FORMATS.filter((format) => requested.includes(format));
+  }
+
+  const range = (input.countRange ?? {}) as Record<string, unknown>;
+  const min = range.min;
+  const max = range.max;
+  if (
+    !Number.isInteger(min) ||
+    !Number.isInteger(max) ||
+    (min as number) < 1 ||
+    (max as number) > MAX_RUBRIC_QUESTIONS ||
+    (min as number) > (max as number)
+  ) {
+    return { error: `countRange needs whole numbers with 1 ≤ min ≤ max ≤ ${MAX_RUBRIC_QUESTIONS}.` };
+  }
+
+  const explanationStyle = typeof input.explanationStyle === "string"
+    ? input.explanationStyle.trim()
+    : "";
+  if (!explanationStyle || explanationStyle.length > MAX_TEXT_LENGTH) {
+    return { error: `explanationStyle must be 1–${MAX_TEXT_LENGTH} characters.` };
+  }
+
+  return {
+    profile: {
+      name,
+      description: typeof input.description === "string" && input.description.trim()
+        ? input.description.trim()
+        : undefined,
+      instructions,
+      bloomMix: bloom.mix,
+      ...(difficultyMix ? { difficultyMix } : {}),
+      questionTypes: QUESTION_TYPES.filter((type) => types.includes(type)),
+      ...(formats ? { formats } : {}),
+      countRange: { min: min as number, max: max as number },
+      explanationStyle,
+    },
+  };
+}
+
+/** Difficulties the model may use: those with a share, or all of them without a mix. */
+export function allowedDifficulties(profile: RubricProfile): DifficultyLevel[] {
+  const mix = profile.difficultyMix;
+  return mix ? DIFFICULTY_LEVELS.filter((level) => mix[level] > 0) : [...DIFFICULTY_LEVELS];
+}
+
+/** Bloom values the model may use: the levels with a share, Evaluate/Create as both. */
+export function allowedBloomValues(profile: RubricProfile): string[] {
+  return BLOOM_LEVELS
+    .filter((level) => profile.bloomMix[level] > 0)
+    .flatMap((level) => (level === "Evaluate/Create" ? ["Evaluate", "Create"] : [level]));
+}
+
+export function rubricFormats(profile: RubricProfile): QuestionFormat[] {
+  return profile.formats && profile.formats.length > 0 ? profile.formats : ["single"];
+}
+
+const bullets = (lines: string[]) => lines.map((line) => `- ${line}`).join("\n");
+
+/** The generation system prompt's rubric section for the profile. */
+export function buildRubricPrompt(profile: RubricProfile): string {
+  const bloomLines = BLOOM_LEVELS
+    .filter((level) => profile.bloomMix[level] > 0)
+    .map((level) => `${profile.bloomMix[level]}% ${level}`);
+  const difficultySection = profile.difficultyMix
+    ? `\n\nDifficulty mix (across the whole set)\n${bullets(
+        allowedDifficulties(profile).map((level) => `${profile.difficultyMix?.[level]}% ${level}`),
+      )}`
+    : "";
+  const formats = rubricFormats(profile);
+  const formatSection = formats.length === 1 && formats[0] === "single"
+    ? ""
+    : `\n\nQuestion formats (mix across the set; set "format" on every item)
+${bullets(formats.map((format) => `${format} – ${FORMAT_LABELS[format]}: ${FORMAT_RULES[format]}`))}
+- Each item carries only its own format's answer fields; the schema example below shows the single format.
+- Where a format rule differs from the rules below (such as one correct choice per MCQ), the format rule wins.`;
+  const explanationLines = profile.explanationStyle
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  return `${profile.instructions}
+
+Quantity per topic
+- Produce the number of MCQs given under "Question count" below.
+- Keep questions varied and non-redundant.
+
+Diverse types (mix across the set)
+${bullets(profile.questionTypes.map((type) => TYPE_LINES[type]))}
+
+Bloom’s distribution (across the whole set)
+${bullets(bloomLines)}${difficultySection}
+
+Answer balancing
+- Shuffle correct answers among A, B, C, D.
+- No single option is correct > 40% of the time across the set.
+- The "correct_index" must match the shuffled option (0=A, 1=B, 2=C, 3=D).
+- This distribution rule is mandatory; adjust choices internally before responding so it is satisfied.${formatSection}
+
+Explanations
+${bullets([...explanationLines, "Do NOT prefix with “Correct option is…”."])}
+
+Must Rules
+- Use only facts present or logically entailed by the topic content in the book.
+- Keep stems concise; avoid clues like “All/None of the above”.
+- Each MCQ must have exactly one correct choice.
+- If the topic content is too thin, reduce count but keep Bloom balance as close as possible.
+
+Formatting & schema (JSON only)
+{
+  "mcqs": [
+    {
+      "bloom": "${allowedBloomValues(profile).join("|")}",
+      "difficulty": "${allowedDifficulties(profile).join("|")}",
+      "stem": "string",
+      "options": ["A text","B text","C text","D text"],
+      "correct_index": 0,
+      "explanation": "string",
+      "type": "${profile.questionTypes.join("|")}",
+      "source_spans": [{"page": 0, "text_snippet": "string"}]
+    }
+  ]
+}`;
+}
+
+export async function listRubricProfiles(): Promise<RubricProfile[]> {
+  await ensureRubricSchema();
+  const result = await getDbPool().query<{ profile: RubricProfile }>(
+    `SELECT profile FROM mcq_rubric_profiles ORDER BY name`,
+  );
+  return [DEFAULT_RUBRIC_PROFILE, ...result.rows.map((row) => row.profile)];
+}
+
+/** Looks a profile up by name; `default` is always available, even without a database. */
+export async function getRubricProfile(name: string): Promise<RubricProfile | null> {
+  const normalized = normalizeRubricName(name);
+
+  if (normalized === DEFAULT_RUBRIC_PROFILE.name) {
+    return DEFAULT_RUBRIC_PROFILE;
+  }
+
+  await ensureRubricSchema();
+  const result = await getDbPool().query<{ profile: RubricProfile }>(
+    `SELECT profile FROM mcq_rubric_profiles WHERE name = $1`,
+    [normalized],
+  );
+  return result.rows[0]?.profile ?? null;
+}
+
+export async function saveRubricProfile(profile: RubricProfile): Promise<void> {
+  await ensureRubricSchema();
+  await getDbPool().query(
+    `INSERT INTO mcq_rubric_profiles (name, profile)
+     VALUES ($1, $2)
+     ON CONFLICT (name) DO UPDATE SET profile = EXCLUDED.profile, updated_at = NOW()`,
+    [profile.name, JSON.stringify(profile)],
+  );
+}
+
+/** Deletes the profile and any class/subject assignments pointing at it. */
+export async function deleteRubricProfile(name: string): Promise<boolean> {
+  await ensureRubricSchema();
+  const normalized = normalizeRubricName(name);
+  await getDbPool().query(`DELETE FROM mcq_rubric_assignments WHERE profile_name = $1`, [normalized]);
+  const result = await getDbPool().query(`DELETE FROM mcq_rubric_profiles WHERE name = $1`, [normalized]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function listRubricAssignments(): Promise<RubricAssignment[]> {
+  await ensureRubricSchema();
+  const result = await getDbPool().query<{ class_level: number; subject_id: number; profile_name: string }>(
+    `SELECT class_level, subject_id, profile_name FROM mcq_rubric_assignments
+     ORDER BY class_level, subject_id`,
+  );
+  return result.rows.map((row) => ({
+    profile: row.profile_name,
+    classLevel: row.class_level || null,
+    subjectId: row.subject_id || null,
+  }));
+}
+
+/** Sets (or with `profile: null`, clears) the profile for a class and/or subject. */
+export async function assignRubricProfile(
+  target: { classLevel: number | null; subjectId: number | null },
+  profile: string | null,
+): Promise<void> {
+  await ensureRubricSchema();
+  const key = [target.classLevel ?? 0, target.subjectId ?? 0];
+
+  if (profile === null) {
+    await getDbPool().query(
+      `DELETE FROM mcq_rubric_assignments WHERE class_level = $1 AND subject_id = $2`,
+      key,
+    );
+    return;
+  }
+
+  await getDbPool().query(
+    `INSERT INTO mcq_rubric_assignments (class_level, subject_id, profile_name)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (class_level, subject_id)
+     DO UPDATE SET profile_name = EXCLUDED.profile_name, updated_at = NOW()`,
+    [...key, normalizeRubricName(profile)],
+  );
+}
+
+/**
+ * The profile assigned to the class and subject, preferring a class+subject match, then
+ * the subject, then the class. Falls back to `default` without a database or a match.
+ */
+export async function resolveRubricProfile(classLevel: number, subjectId: number): Promise<RubricProfile> {
+  if (!process.env.DATABASE_URL) {
+    return DEFAULT_RUBRIC_PROFILE;
+  }
+
+  await ensureRubricSchema();
+  // `default` is built in, so it has no row to join.
+  const result = await getDbPool().query<{ profile: RubricProfile | null }>(
+    `SELECT p.profile
+       FROM mcq_rubric_assignments a
+       LEFT JOIN mcq_rubric_profiles p ON p.name = a.profile_name
+      WHERE a.class_level IN ($1, 0) AND a.subject_id IN ($2, 0)
+        AND (p.name IS NOT NULL OR a.profile_name = $3)
+      ORDER BY (a.class_level <> 0 AND a.subject_id <> 0) DESC, (a.subject_id <> 0) DESC, (a.class_level <> 0) DESC
+      LIMIT 1`,
+    [classLevel, subjectId, DEFAULT_RUBRIC_PROFILE.name],
+  );
+  return result.rows[0]?.profile ?? DEFAULT_RUBRIC_PROFILE;
+}
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
   }
 
   const jobStore = getJobStore();
-  const record = jobStore.get(jobId);
+  const record = await jobStore.get(jobId);
 
   if (!record) {
     return NextResponse.json({ error: "Job not found." }, { status: 404 });
@@ -22,13 +22,19 @@ export async function GET(request: NextRequest) {
     status: record.status,
     logs: record.logs,
     summary: record.summary,
+    distribution: record.distribution ?? [],
+    citationIssues: record.citationIssues ?? [],
     error: record.error ?? null,
     createdAt: record.createdAt,
     updatedAt: record.updatedAt,
     openAiUsage: record.openAiUsage,
     anthropicUsage: record.anthropicUsage,
+    usageByModel: record.usageByModel ?? {},
+    cost: record.cost ?? null,
     allowValidationRetry: Boolean(record.allowValidationRetry),
     allowPersistenceRetry: Boolean(record.allowPersistenceRetry),
+    resumable: Boolean(record.resumable),
+    failedTopics: record.failedTopics ?? [],
     outputFilename: record.outputFilename ?? null,
   });
 }
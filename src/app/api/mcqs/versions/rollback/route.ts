@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getPersistenceMode, rollbackTopicVersion } from "../../questionVersions";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const payload = (await request.json().catch(() => null)) as
+      | { topicId?: number; version?: number }
+      | null;
+
+    if (!payload || !Number.isInteger(payload.topicId) || !Number.isInteger(payload.version)) {
+      return NextResponse.json({ error: "topicId and version are required." }, { status: 400 });
+    }
+
+    if (getPersistenceMode() !== "versioned") {
+      return NextResponse.json(
+        { error: "Versioned persistence is disabled; set MCQ_PERSISTENCE_MODE=versioned." },
+        { status: 409 },
+      );
+    }
+
+    const restored = await rollbackTopicVersion(payload.topicId as number, payload.version as number);
+
+    if (!restored) {
+      return NextResponse.json({ error: "Topic version not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ topicId: payload.topicId, version: restored });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to roll back the topic.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
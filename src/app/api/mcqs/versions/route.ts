@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listTopicVersions } from "../questionVersions";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const topicId = Number.parseInt(request.nextUrl.searchParams.get("topicId") ?? "", 10);
+
+  if (!Number.isInteger(topicId) || topicId <= 0) {
+    return NextResponse.json({ error: "Missing or invalid topicId parameter." }, { status: 400 });
+  }
+
+  try {
+    const versions = await listTopicVersions(topicId);
+    return NextResponse.json({ topicId, versions });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to list question versions.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadFigureFiles } from "@/lib/bookFigures";
+import { buildExportBasename, getExportableTopics } from "../exporters";
+import { getJobStore } from "../jobStore";
+import {
+  buildWorksheet,
+  renderWorksheetHtml,
+  renderWorksheetPdf,
+  type WorksheetPart,
+} from "../worksheets";
+
+export const runtime = "nodejs";
+
+const PARTS: WorksheetPart[] = ["paper", "key", "both"];
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const jobId = params.get("jobId");
+  const format = params.get("format") ?? "html";
+  const part = (params.get("part") ?? "both") as WorksheetPart;
+  const order = params.get("order") === "shuffled" ? "shuffled" : "topic";
+  const difficulties = (params.get("difficulty") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing jobId parameter." }, { status: 400 });
+  }
+
+  if (format !== "html" && format !== "pdf") {
+    return NextResponse.json({ error: 'format must be "html" or "pdf".' }, { status: 400 });
+  }
+
+  if (!PARTS.includes(part)) {
+    return NextResponse.json({ error: `part must be one of ${PARTS.join(", ")}.` }, { status: 400 });
+  }
+
+  const jobStore = getJobStore();
+  const record = await jobStore.get(jobId);
+
+  if (!record) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (record.status !== "succeeded") {
+    return NextResponse.json({ error: "Job is not ready." }, { status: 409 });
+  }
+
+  const topics = getExportableTopics(record);
+  const worksheet = buildWorksheet(record.payload, topics, {
+    order,
+    difficulties,
+    seed: params.get("seed") ?? record.id,
+  });
+
+  if (worksheet.questionCount === 0) {
+    return NextResponse.json({ error: "No questions match the selected difficulty." }, { status: 400 });
+  }
+
+  if (format === "html") {
+    return new NextResponse(renderWorksheetHtml(worksheet, part), {
+      status: 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  // The HTML links figures by URL; the PDF embeds them.
+  const figures = await loadFigureFiles(
+    topics.flatMap((topic) => topic.items.flatMap((item) => (item.image_url ? [item.image_url] : []))),
+  ).catch((error) => {
+    console.warn(`[worksheet] Unable to load figures for job ${record.id}.`, error);
+    return undefined;
+  });
+
+  const suffix = part === "key" ? "answer_key" : part === "paper" ? "worksheet" : "worksheet_with_key";
+  return new NextResponse(await renderWorksheetPdf(worksheet, part, figures), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${buildExportBasename(record.payload)}_${suffix}.pdf"`,
+    },
+  });
+}
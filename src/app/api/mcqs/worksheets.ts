@@ -0,0 +1,433 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import type { FigureFile } from "@/lib/figureStore";
+import type { JobPayload, MatchItem, StoredMcqItem, StoredTopicMcqs } from "./jobStore";
+import { answerKey } from "./questionFormats";
+
+export type WorksheetOrder = "topic" | "shuffled";
+export type WorksheetPart = "paper" | "key" | "both";
+
+export interface WorksheetOptions {
+  order: WorksheetOrder;
+  /** Difficulties to keep (e.g. `["Easy", "Medium"]`); empty keeps every question. */
+  difficulties: string[];
+  /** Seed for the shuffled order, so a paper and its answer key always match. */
+  seed: string;
+}
+
+export interface WorksheetSection {
+  title: string | null;
+  questions: Array<{ number: number; topic: string; item: StoredMcqItem }>;
+}
+
+export interface Worksheet {
+  title: string;
+  details: Array<[string, string]>;
+  sections: WorksheetSection[];
+  questionCount: number;
+}
+
+// Match questions print up to six right-hand items.
+const LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+// Small deterministic PRNG (mulberry32) seeded from a string hash.
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (const char of seed) {
+    state = (Math.imul(state, 31) + char.charCodeAt(0)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function buildWorksheet(
+  payload: JobPayload,
+  topics: StoredTopicMcqs[],
+  options: WorksheetOptions,
+): Worksheet {
+  const wanted = new Set(options.difficulties.map((difficulty) => difficulty.toLowerCase()));
+  const keep = (item: StoredMcqItem) => wanted.size === 0 || wanted.has(item.difficulty.toLowerCase());
+  let number = 0;
+  let sections: WorksheetSection[];
+
+  if (options.order === "shuffled") {
+    const random = createRandom(options.seed);
+    const pool = topics.flatMap((topic) =>
+      topic.items.filter(keep).map((item) => ({ topic: topic.topic, item })),
+    );
+    for (let index = pool.length - 1; index > 0; index -= 1) {
+      const swapIndex = Math.floor(random() * (index + 1));
+      [pool[index], pool[swapIndex]] = [pool[swapIndex], pool[index]];
+    }
+    sections = [{ title: null, questions: pool.map((entry) => ({ ...entry, number: ++number })) }];
+  } else {
+    sections = topics
+      .map((topic) => ({
+        title: topic.topic,
+        questions: topic.items
+          .filter(keep)
+          .map((item) => ({ topic: topic.topic, item, number: ++number })),
+      }))
+      .filter((section) => section.questions.length > 0);
+  }
+
+  return {
+    title: `Chapter ${payload.chapterNumber}: ${payload.chapterTitle}`,
+    details: [
+      ["Class", String(payload.classLevel)],
+      ["Subject", payload.subject.name],
+      ["Syllabus", payload.syllabus.name],
+      ["Chapter", `${payload.chapterNumber} – ${payload.chapterTitle}`],
+    ],
+    sections,
+    questionCount: number,
+  };
+}
+
+/** Right-hand match items in the order printed on the paper, so they do not give the answer away. */
+function printedMatchOrder(item: MatchItem): string[] {
+  return item.pairs.map((pair) => pair.right).sort((left, right) => left.localeCompare(right));
+}
+
+/**
+ * What the paper prints under a stem: an optional note, numbered prompts (the left
+ * side of match questions) and lettered options.
+ */
+function paperParts(item: StoredMcqItem): { note: string | null; prompts: string[]; options: string[] } {
+  switch (item.format) {
+    case undefined:
+    case "single":
+      return { note: null, prompts: [], options: item.options };
+    case "multiple":
+      return { note: "Select all that apply.", prompts: [], options: item.options };
+    case "true_false":
+      return { note: "True or false?", prompts: [], options: [] };
+    case "match":
+      return {
+        note: "Match each item on the left with one on the right.",
+        prompts: item.pairs.map((pair) => pair.left),
+        options: printedMatchOrder(item),
+      };
+    case "numeric":
+      return { note: `Answer: ____________${item.unit ? ` ${item.unit}` : ""}`, prompts: [], options: [] };
+    case "short_answer":
+      return { note: "Answer: ______________________", prompts: [], options: [] };
+  }
+}
+
+/** The answer-key entry: letters for options and match pairs, the answer otherwise. */
+function keyAnswer(item: StoredMcqItem): string {
+  if (item.format === "match") {
+    const printed = printedMatchOrder(item);
+    return item.pairs
+      .map((pair, index) => `${index + 1}–${LETTERS[printed.indexOf(pair.right)] ?? "?"}`)
+      .join(", ");
+  }
+  return answerKey(item).split(";").join(", ");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const WORKSHEET_CSS = `
+  body { font-family: Georgia, "Times New Roman", serif; color: #111; margin: 0 auto; max-width: 800px; padding: 24px; }
+  h1 { font-size: 1.4rem; margin: 0 0 8px; }
+  h2 { font-size: 1.1rem; margin: 24px 0 8px; border-bottom: 1px solid #999; }
+  .details { display: flex; flex-wrap: wrap; gap: 4px 24px; margin-bottom: 12px; font-size: 0.95rem; }
+  .student { display: flex; gap: 24px; margin: 12px 0 20px; }
+  .student span { flex: 1; border-bottom: 1px solid #333; padding-bottom: 2px; }
+  ol.questions { padding-left: 28px; }
+  ol.questions > li { margin-bottom: 14px; break-inside: avoid; }
+  ol.options { list-style: upper-alpha; padding-left: 24px; margin: 6px 0 0; }
+  ol.prompts { list-style: decimal; padding-left: 24px; margin: 6px 0 0; }
+  p.note { font-style: italic; margin: 6px 0 0; }
+  p.figure { margin: 8px 0 0; }
+  p.figure img { max-width: 100%; max-height: 320px; }
+  table.key { width: 100%; border-collapse: collapse; font-size: 0.95rem; }
+  table.key th, table.key td { border: 1px solid #999; padding: 6px 8px; text-align: left; vertical-align: top; }
+  .answer-key { break-before: page; }
+  @media print { body { padding: 0; } }
+`;
+
+function renderDetails(worksheet: Worksheet): string {
+  return `<div class="details">${worksheet.details
+    .map(([label, value]) => `<span><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</span>`)
+    .join("")}</div>`;
+}
+
+function renderPaperHtml(worksheet: Worksheet): string {
+  const sections = worksheet.sections
+    .map((section) => {
+      const items = section.questions
+        .map((question) => {
+          const { note, prompts, options } = paperParts(question.item);
+          const list = (className: string, values: string[]) =>
+            values.length > 0
+              ? `<ol class="${className}">${values.map((value) => `<li>${escapeHtml(value)}</li>`).join("")}</ol>`
+              : "";
+          const figure = question.item.image_url
+            ? `<p class="figure"><img src="${escapeHtml(question.item.image_url)}" alt="Figure"></p>`
+            : "";
+          return `<li value="${question.number}">${escapeHtml(question.item.stem)}${figure}${
+            note ? `<p class="note">${escapeHtml(note)}</p>` : ""
+          }${list("prompts", prompts)}${list("options", options)}</li>`;
+        })
+        .join("");
+      return `${section.title ? `<h2>${escapeHtml(section.title)}</h2>` : ""}<ol class="questions">${items}</ol>`;
+    })
+    .join("");
+
+  return `<section class="paper">
+<h1>${escapeHtml(worksheet.title)}</h1>
+${renderDetails(worksheet)}
+<div class="student"><span>Name:</span><span>Date:</span><span>Score: &nbsp;&nbsp;&nbsp;/ ${worksheet.questionCount}</span></div>
+${sections}
+</section>`;
+}
+
+function renderKeyHtml(worksheet: Worksheet): string {
+  const rows = worksheet.sections
+    .flatMap((section) => section.questions)
+    .map(
+      (question) =>
+        `<tr><td>${question.number}</td><td>${escapeHtml(keyAnswer(question.item))}</td><td>${escapeHtml(question.item.explanation)}</td></tr>`,
+    )
+    .join("");
+
+  return `<section class="answer-key">
+<h1>Answer key – ${escapeHtml(worksheet.title)}</h1>
+${renderDetails(worksheet)}
+<table class="key"><thead><tr><th>Q</th><th>Answer</th><th>Explanation</th></tr></thead><tbody>${rows}</tbody></table>
+</section>`;
+}
+
+export function renderWorksheetHtml(worksheet: Worksheet, part: WorksheetPart): string {
+  const body = [
+    part !== "key" ? renderPaperHtml(worksheet) : "",
+    part !== "paper" ? renderKeyHtml(worksheet) : "",
+  ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(worksheet.title)}</title>
+<style>${WORKSHEET_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FIGURE_MAX_HEIGHT = 240;
+
+/**
+ * Minimal flowing-text layout on top of pdf-lib: wraps paragraphs to the page width
+ * and starts a new page when the cursor reaches the bottom margin.
+ */
+class PdfTextWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+  private readonly supported: Set<number>;
+
+  constructor(
+    private readonly document: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont,
+  ) {
+    this.page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.supported = new Set(regular.getCharacterSet());
+  }
+
+  newPage() {
+    this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  /** Standard fonts only cover WinAnsi; anything else is transliterated or replaced. */
+  private clean(text: string): string {
+    return [...text.normalize("NFKD").replace(/\s+/g, " ")]
+      .map((char) => (this.supported.has(char.codePointAt(0) ?? 0) ? char : /\p{M}/u.test(char) ? "" : "?"))
+      .join("");
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+
+    for (const word of this.clean(text).split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) {
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; indent?: number; keepLines?: number } = {}) {
+    const size = options.size ?? 11;
+    const indent = options.indent ?? 0;
+    const font = options.bold ? this.bold : this.regular;
+    const lineHeight = size * 1.35;
+    const lines = this.wrap(text, font, size, PAGE_WIDTH - MARGIN * 2 - indent);
+
+    // Keep short blocks (a stem and its first lines) together on one page.
+    const keep = Math.min(lines.length, options.keepLines ?? 1);
+    if (this.y - keep * lineHeight < MARGIN) {
+      this.newPage();
+    }
+
+    for (const line of lines) {
+      if (this.y - lineHeight < MARGIN) {
+        this.newPage();
+      }
+      this.y -= lineHeight;
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y,
+        size,
+        font,
+        color: rgb(0.07, 0.07, 0.07),
+      });
+    }
+  }
+
+  /** Draws an image scaled to fit the text width and `FIGURE_MAX_HEIGHT`, never enlarged. */
+  image(image: PDFImage, options: { indent?: number } = {}) {
+    const indent = options.indent ?? 0;
+    const scale = Math.min(
+      1,
+      (PAGE_WIDTH - MARGIN * 2 - indent) / image.width,
+      FIGURE_MAX_HEIGHT / image.height,
+    );
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + 6);
+    this.y -= height + 6;
+    this.page.drawImage(image, { x: MARGIN + indent, y: this.y, width, height });
+  }
+
+  ensureSpace(points: number) {
+    if (this.y - points < MARGIN) {
+      this.newPage();
+    }
+  }
+}
+
+/**
+ * Renders the worksheet as a PDF. `figures` holds the stored figures behind the
+ * questions' image URLs; questions whose figure is missing print without it.
+ */
+export async function renderWorksheetPdf(
+  worksheet: Worksheet,
+  part: WorksheetPart,
+  figures: Map<string, FigureFile> = new Map(),
+): Promise<Uint8Array<ArrayBuffer>> {
+  const document = await PDFDocument.create();
+  document.setTitle(worksheet.title);
+  const regular = await document.embedFont(StandardFonts.Helvetica);
+  const bold = await document.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfTextWriter(document, regular, bold);
+  const embedded = new Map<string, PDFImage | null>();
+
+  const embedFigure = async (url: string): Promise<PDFImage | null> => {
+    if (!embedded.has(url)) {
+      const file = figures.get(url);
+      let image: PDFImage | null = null;
+      if (file?.contentType === "image/png") {
+        image = await document.embedPng(file.bytes);
+      } else if (file?.contentType === "image/jpeg") {
+        image = await document.embedJpg(file.bytes);
+      }
+      embedded.set(url, image);
+    }
+    return embedded.get(url) ?? null;
+  };
+
+  const writeHeader = (heading: string) => {
+    writer.paragraph(heading, { size: 16, bold: true });
+    writer.space(4);
+    writer.paragraph(worksheet.details.map(([label, value]) => `${label}: ${value}`).join("    "), {
+      size: 10,
+    });
+    writer.space(10);
+  };
+
+  if (part !== "key") {
+    writeHeader(worksheet.title);
+    writer.paragraph(`Name: ____________________    Date: ____________    Score: ____ / ${worksheet.questionCount}`, {
+      size: 10,
+    });
+    writer.space(8);
+
+    for (const section of worksheet.sections) {
+      if (section.title) {
+        writer.ensureSpace(60);
+        writer.space(6);
+        writer.paragraph(section.title, { size: 13, bold: true });
+        writer.space(4);
+      }
+      for (const question of section.questions) {
+        writer.ensureSpace(90);
+        writer.paragraph(`${question.number}. ${question.item.stem}`, { keepLines: 3 });
+        const figure = question.item.image_url ? await embedFigure(question.item.image_url) : null;
+        if (figure) {
+          writer.image(figure, { indent: 18 });
+        }
+        const { note, prompts, options } = paperParts(question.item);
+        if (note) {
+          writer.paragraph(note, { size: 10, indent: 18 });
+        }
+        prompts.forEach((prompt, index) => {
+          writer.paragraph(`${index + 1}. ${prompt}`, { indent: 18 });
+        });
+        options.forEach((option, index) => {
+          writer.paragraph(`${LETTERS[index]}) ${option}`, { indent: 18 });
+        });
+        writer.space(8);
+      }
+    }
+  }
+
+  if (part !== "paper") {
+    if (part === "both") {
+      writer.newPage();
+    }
+    writeHeader(`Answer key – ${worksheet.title}`);
+
+    for (const question of worksheet.sections.flatMap((section) => section.questions)) {
+      writer.ensureSpace(40);
+      writer.paragraph(`${question.number}. ${keyAnswer(question.item)}`, {
+        bold: true,
+      });
+      writer.paragraph(question.item.explanation, { size: 10, indent: 18 });
+      writer.space(6);
+    }
+  }
+
+  return new Uint8Array(await document.save());
+}
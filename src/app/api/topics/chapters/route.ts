@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { analyzePdf, getPdfLimits } from "@/lib/pdf";
+import { getErrorStatus } from "@/lib/retry";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Parses the uploaded book locally and lists the chapters found in its outline or
+ * headings, so the client can pick one instead of typing its number and title.
+ */
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const pdf = formData.get("pdf");
+
+    if (!pdf || !(pdf instanceof Blob)) {
+      return NextResponse.json(
+        { error: "Expected a PDF upload in the `pdf` field." },
+        { status: 400 },
+      );
+    }
+
+    if (pdf.size > MAX_FILE_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: "PDF exceeds the 100 MB upload limit." },
+        { status: 413 },
+      );
+    }
+
+    const limits = getPdfLimits();
+    const structure = await analyzePdf(new Uint8Array(await pdf.arrayBuffer()), {
+      maxPages: limits.maxBookPages,
+    });
+
+    return NextResponse.json({
+      pageCount: structure.pageCount,
+      chapterSource: structure.chapterSource,
+      chapters: structure.chapters.map((chapter) => ({
+        ...chapter,
+        pageCount: chapter.endPage - chapter.startPage + 1,
+      })),
+      maxChapterPages: limits.maxChapterPages,
+    });
+  } catch (error) {
+    if (getErrorStatus(error) === 413) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 413 });
+    }
+    console.error("[topics/chapters] Unable to parse the PDF", error);
+    const message = error instanceof Error ? error.message : "Unable to read the PDF.";
+    return NextResponse.json({ error: `Unable to read the PDF: ${message}` }, { status: 422 });
+  }
+}
@@ -1,17 +1,26 @@
-import { Readable } from "node:stream";
-import type { ReadableStream as NodeReadableStream } from "node:stream/web";
 import { type NextRequest, NextResponse } from "next/server";
 import { toFile } from "openai/uploads";
+import {
+  BOOK_STORE_NAME_PREFIX,
+  VECTOR_STORE_EXPIRATION_DAYS,
+  bookScope,
+  getBookRegistry,
+  hashPdf,
+  newBookStoreEntry,
+  startBookStoreSweeper,
+} from "@/lib/bookRegistry";
+import { getFigureSettings, prepareBookFigures } from "@/lib/bookFigures";
+import { prepareBookText } from "@/lib/bookText";
+import { getStageModel } from "@/lib/llm";
 import { getOpenAIClient } from "@/lib/openai";
+import { countPdfPages, extractPdfPages, getPdfLimits } from "@/lib/pdf";
+import { getErrorStatus } from "@/lib/retry";
 import { summarizeVectorStoreFiles } from "@/lib/vectorStore";
+import { recordUnattributedCost, withinBudget } from "../mcqs/costs";
 
 export const runtime = "nodejs";
 
 const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
-const MODEL = "gpt-4.1";
-
-const MAX_FILE_RETENTION_MS = 60 * 60 * 1000; // keep cached uploads for 1 hour.
-const VECTOR_STORE_EXPIRATION_DAYS = 2;
 
 type OpenAIClient = NonNullable<ReturnType<typeof getOpenAIClient>>;
 
@@ -35,13 +44,6 @@ async function validateCachedVectorStore(openai: OpenAIClient, vectorStoreId: st
   return summary;
 }
 
-type CachedStore = {
-  uploadedAt: number;
-  vectorStoreId: string;
-};
-
-const storeCache: Map<string, CachedStore> = new Map();
-
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -49,7 +51,8 @@ export async function POST(request: NextRequest) {
     const pdf = formData.get("pdf");
     const chapterNumber = formData.get("chapterNumber");
     const chapterTitle = formData.get("chapterTitle");
-    const bookIdentifier = formData.get("bookFingerprint");
+    const rawStartPage = formData.get("startPage");
+    const rawEndPage = formData.get("endPage");
 
     if (!pdf || !(pdf instanceof Blob)) {
       return NextResponse.json(
@@ -72,6 +75,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A page range (from /api/topics/chapters) uploads just that chapter; without
+    // one the whole book is indexed.
+    const startPage = typeof rawStartPage === "string" ? Number.parseInt(rawStartPage, 10) : Number.NaN;
+    const endPage = typeof rawEndPage === "string" ? Number.parseInt(rawEndPage, 10) : Number.NaN;
+    const pageRange = Number.isInteger(startPage) && Number.isInteger(endPage)
+      ? { startPage, endPage }
+      : null;
+    const limits = getPdfLimits();
+
+    if (pageRange && pageRange.endPage - pageRange.startPage + 1 > limits.maxChapterPages) {
+      return NextResponse.json(
+        {
+          error: `Pages ${pageRange.startPage}–${pageRange.endPage} span more than ${limits.maxChapterPages} pages; pick a shorter range.`,
+        },
+        { status: 413 },
+      );
+    }
+
     const openai = getOpenAIClient();
     if (!openai) {
       return NextResponse.json(
@@ -85,60 +106,68 @@ export async function POST(request: NextRequest) {
         ? ((pdf as { name: string }).name || "book.pdf")
         : "book.pdf";
 
-    const forwardedFor = request.headers.get("x-forwarded-for");
-    const requesterAddress = forwardedFor?.split(",")[0]?.trim();
-
-    const cacheKey =
-      typeof bookIdentifier === "string" && bookIdentifier.trim().length > 0
-        ? bookIdentifier.trim()
-        : requesterAddress ?? `${filename}:${pdf.size}`;
-
-    if (cacheKey) {
-      for (const [key, entry] of storeCache.entries()) {
-        if (Date.now() - entry.uploadedAt > MAX_FILE_RETENTION_MS) {
-          storeCache.delete(key);
-        }
-      }
-    }
+    startBookStoreSweeper(getOpenAIClient);
 
-    const existing = cacheKey ? storeCache.get(cacheKey) : null;
+    // The same book (and page range) reuses its vector store across sessions and users.
+    const bookBytes = new Uint8Array(await pdf.arrayBuffer());
+    const bookHash = hashPdf(bookBytes);
+    const storeScope = bookScope(pageRange);
+    const registry = getBookRegistry();
+    const existing = await registry.find(bookHash, storeScope).catch((error) => {
+      console.warn("[topics] Book registry lookup failed; uploading the book again.", error);
+      return null;
+    });
 
     let vectorStoreId: string | null = null;
 
-    if (existing && Date.now() - existing.uploadedAt < MAX_FILE_RETENTION_MS) {
+    if (existing) {
       try {
         const summary = await validateCachedVectorStore(openai, existing.vectorStoreId);
         vectorStoreId = existing.vectorStoreId;
         console.log(
-          `[topics] Reusing cached vector store ${existing.vectorStoreId} (completed files: ${summary.completed.join(", ")}).`,
+          `[topics] Reusing vector store ${existing.vectorStoreId} for book ${bookHash.slice(0, 12)} (${storeScope}; completed files: ${summary.completed.join(", ")}).`,
         );
       } catch (error) {
         console.warn(
-          `[topics] Cached vector store ${existing.vectorStoreId} is not reusable; removing from cache.`,
+          `[topics] Registered vector store ${existing.vectorStoreId} is not reusable; uploading the book again.`,
           error,
         );
-        storeCache.delete(cacheKey);
+        await registry.remove(existing.vectorStoreId).catch(() => undefined);
       }
     }
 
-    if (!vectorStoreId) {
-      const webStream = pdf.stream();
-      const readableStream = Readable.fromWeb(
-        webStream as unknown as NodeReadableStream<Uint8Array>,
-      );
-      const uploadable = await toFile(
-        readableStream,
-        filename,
-        {
-          type:
-            typeof (pdf as { type?: unknown }).type === "string"
-              ? (pdf as { type: string }).type
-              : "application/pdf",
-        },
-      );
+    if (vectorStoreId) {
+      await registry.touch(vectorStoreId).catch((error) => {
+        console.warn(`[topics] Unable to record use of vector store ${vectorStoreId}.`, error);
+      });
+    } else {
+      let uploadBytes: Uint8Array = bookBytes;
+      let pageCount: number | null = null;
+      let uploadName = filename;
+
+      if (pageRange) {
+        uploadBytes = await extractPdfPages(bookBytes, pageRange.startPage, pageRange.endPage, {
+          maxPages: limits.maxBookPages,
+        });
+        uploadName = `${filename.replace(/\.pdf$/i, "")}-p${pageRange.startPage}-${pageRange.endPage}.pdf`;
+        console.log(
+          `[topics] Uploading pages ${pageRange.startPage}–${pageRange.endPage} of ${filename} instead of the whole book.`,
+        );
+        pageCount = pageRange.endPage - pageRange.startPage + 1;
+      } else {
+        pageCount = await countPdfPages(bookBytes);
+        if (pageCount > limits.maxBookPages) {
+          return NextResponse.json(
+            { error: `PDF has ${pageCount} pages; at most ${limits.maxBookPages} are supported.` },
+            { status: 413 },
+          );
+        }
+      }
+
+      const uploadable = await toFile(Buffer.from(uploadBytes), uploadName, { type: "application/pdf" });
 
       const vectorStore = await openai.vectorStores.create({
-        name: `book-${filename}`.slice(0, 63),
+        name: `${BOOK_STORE_NAME_PREFIX}${filename}`.slice(0, 63),
         expires_after: {
           anchor: "last_active_at",
           days: VECTOR_STORE_EXPIRATION_DAYS,
@@ -159,12 +188,24 @@ export async function POST(request: NextRequest) {
 
         vectorStoreId = vectorStore.id;
 
-        if (cacheKey) {
-          storeCache.set(cacheKey, {
-            uploadedAt: Date.now(),
-            vectorStoreId,
+        await registry
+          .save(
+            newBookStoreEntry(
+              {
+                bookHash,
+                scope: storeScope,
+                vectorStoreId,
+                fileIds: summary.completed,
+                filename,
+                byteSize: bookBytes.byteLength,
+                pageCount,
+              },
+              vectorStore.expires_at,
+            ),
+          )
+          .catch((error) => {
+            console.warn(`[topics] Unable to register vector store ${vectorStore.id}.`, error);
           });
-        }
 
         console.log(
           `[topics] Vector store ${vectorStore.id} ready with completed file IDs: ${summary.completed.join(", ")}`,
@@ -180,32 +221,41 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const systemMessage = `You are an expert curriculum designer. Focus strictly on Chapter ${chapterNumber} titled "${chapterTitle}" within the provided book PDF. Extract between three and eight concise topic areas that best summarize the requested chapter. Each topic must include a short, reader-friendly description. Ignore other chapters even if present.`;
+    // Figures are extracted once per book and page range; without them the job just
+    // writes no figure-based questions.
+    const figureSet = getFigureSettings().enabled
+      ? await prepareBookFigures(bookBytes, bookHash, pageRange).catch((error) => {
+          console.warn("[topics] Figure extraction failed; continuing without figures.", error);
+          return null;
+        })
+      : null;
+    if (figureSet) {
+      console.log(`[topics] ${figureSet.figures.length} figure(s) available for ${figureSet.setId}.`);
+    }
 
-    const response = await openai.responses.create({
-      model: MODEL,
-      instructions: systemMessage,
-      input: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: `Using the indexed book, list 3-8 well-defined topics for Chapter ${chapterNumber} titled "${chapterTitle}". Provide a short learner-friendly description for each topic and omit other chapters.`,
-            },
-          ],
-        },
-      ],
-      tool_choice: "auto",
-      tools: [
-        {
-          type: "file_search",
-          vector_store_ids: [vectorStoreId],
+    // Page text lets validation check answers and citations without the vector store.
+    const bookText = await prepareBookText(bookBytes, bookHash, pageRange).catch((error) => {
+      console.warn("[topics] Text extraction failed; grounding will rely on the vector store.", error);
+      return null;
+    });
+
+    const scope = pageRange
+      ? ` The indexed file holds only pages ${pageRange.startPage}–${pageRange.endPage} of the book, which contain this chapter.`
+      : "";
+    const systemMessage = `You are an expert curriculum designer. Focus strictly on Chapter ${chapterNumber} titled "${chapterTitle}" within the provided book PDF. Extract between three and eight concise topic areas that best summarize the requested chapter. Each topic must include a short, reader-friendly description. Ignore other chapters even if present.${scope}`;
+
+    const llm = getStageModel("topics");
+    // Topic extraction is not tied to a job, so only the daily budget applies.
+    const response = await withinBudget(null, "topics", llm.label, async () => {
+      const completion = await llm.provider.completeJson({
+        model: llm.model,
+        system: systemMessage,
+        prompt: `Using the indexed book, list 3-8 well-defined topics for Chapter ${chapterNumber} titled "${chapterTitle}". Provide a short learner-friendly description for each topic and omit other chapters.`,
+        retrieval: {
+          vectorStoreId,
+          query: `Chapter ${chapterNumber} "${chapterTitle}" contents and section headings`,
         },
-      ],
-      text: {
-        format: {
-          type: "json_schema",
+        schema: {
           name: "chapter_topics",
           schema: {
             type: "object",
@@ -228,15 +278,20 @@ export async function POST(request: NextRequest) {
               },
             },
           },
-          strict: true,
         },
-      },
+      });
+
+      recordUnattributedCost("topics", llm.label, completion.usage, {
+        chapterNumber: Number.parseInt(chapterNumber, 10) || null,
+        chapterTitle,
+      });
+      return completion;
     });
 
-    const output = response.output_text?.trim();
+    const output = response.text;
 
     if (!output) {
-      throw new Error("OpenAI returned an empty response.");
+      throw new Error(`${llm.label} returned an empty response.`);
     }
 
     let parsed: unknown;
@@ -255,10 +310,21 @@ export async function POST(request: NextRequest) {
       throw new Error("Model response did not include any topics.");
     }
 
-    return NextResponse.json({ topics, vectorStoreId });
+    return NextResponse.json({
+      topics,
+      vectorStoreId,
+      bookHash,
+      figureSet: figureSet?.setId ?? null,
+      bookText: bookText?.setId ?? null,
+      figures: figureSet?.figures ?? [],
+    });
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unable to process the chapter topics request.";
-    return NextResponse.json({ error: message }, { status: 500 });
+    const status = getErrorStatus(error);
+    return NextResponse.json(
+      { error: message },
+      { status: status === 400 || status === 402 || status === 413 ? status : 500 },
+    );
   }
 }
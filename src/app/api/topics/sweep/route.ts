@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getBookRegistry, sweepBookStores } from "@/lib/bookRegistry";
+import { getOpenAIClient } from "@/lib/openai";
+
+export const runtime = "nodejs";
+
+/** Lists the registered book vector stores. */
+export async function GET() {
+  try {
+    const stores = await getBookRegistry().list();
+    return NextResponse.json({ stores });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to list book vector stores.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Runs the vector store sweeper now, e.g. from an external scheduler. */
+export async function POST() {
+  const openai = getOpenAIClient();
+  if (!openai) {
+    return NextResponse.json(
+      { error: "OPENAI_API_KEY is not configured on the server." },
+      { status: 500 },
+    );
+  }
+
+  try {
+    const report = await sweepBookStores(openai);
+    return NextResponse.json(report);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to sweep book vector stores.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
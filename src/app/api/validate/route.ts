@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateTopics, type TopicValidationPayload } from "@/lib/anthropic";
+import {
+  validateTopics,
+  type TopicValidationPayload,
+  type TopicValidationQuestion,
+} from "@/lib/anthropic";
+import { QUESTION_FORMATS, isQuestionFormat } from "../mcqs/questionFormats";
 
 export const runtime = "nodejs";
 
@@ -25,17 +30,38 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "Each payload requires a non-empty questions array." }, { status: 400 });
       }
 
-      for (const question of item.questions) {
+      for (const question of item.questions as Array<TopicValidationQuestion & { correctLetter?: unknown }>) {
         if (typeof question.stem !== "string" || typeof question.explanation !== "string") {
           return NextResponse.json({ error: "Each question requires stem and explanation." }, { status: 400 });
         }
 
-        if (!Array.isArray(question.options) || question.options.length !== 4) {
-          return NextResponse.json({ error: "Each question must include exactly four options." }, { status: 400 });
+        // Callers from before question formats send single-answer questions with `correctLetter`.
+        question.format ??= "single";
+        if (question.correctAnswer === undefined && typeof question.correctLetter === "string") {
+          question.correctAnswer = question.correctLetter;
         }
 
-        if (typeof question.correctLetter !== "string" || !["A", "B", "C", "D"].includes(question.correctLetter)) {
-          return NextResponse.json({ error: "correctLetter must be one of A, B, C, D." }, { status: 400 });
+        if (!isQuestionFormat(question.format)) {
+          return NextResponse.json(
+            { error: `format must be one of ${QUESTION_FORMATS.join(", ")}.` },
+            { status: 400 },
+          );
+        }
+
+        if (question.format === "single" || question.format === "multiple") {
+          if (!Array.isArray(question.options) || question.options.length !== 4) {
+            return NextResponse.json({ error: "Each question must include exactly four options." }, { status: 400 });
+          }
+        } else {
+          question.options = [];
+        }
+
+        if (question.format === "single" && !["A", "B", "C", "D"].includes(question.correctAnswer)) {
+          return NextResponse.json({ error: "correctAnswer must be one of A, B, C, D." }, { status: 400 });
+        }
+
+        if (typeof question.correctAnswer !== "string" || question.correctAnswer.trim().length === 0) {
+          return NextResponse.json({ error: "Each question requires a correctAnswer." }, { status: 400 });
         }
       }
     }
@@ -0,0 +1,21 @@
+import McqReviewWorkspace from "@/components/McqReviewWorkspace";
+
+export default async function ReviewJobPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+
+  return (
+    <div className="page">
+      <main className="container">
+        <header className="hero">
+          <h1>Review MCQs</h1>
+          <p>Edit, reorder or remove generated questions before they are exported.</p>
+        </header>
+        <McqReviewWorkspace jobId={jobId} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import ReviewQueue from "@/components/ReviewQueue";
+
+export default function ReviewQueuePage() {
+  return (
+    <div className="page">
+      <main className="container">
+        <header className="hero">
+          <h1>Review queue</h1>
+          <p>Decide on questions the validator could not fix, then publish each topic.</p>
+        </header>
+        <ReviewQueue />
+      </main>
+    </div>
+  );
+}
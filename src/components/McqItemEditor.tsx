@@ -0,0 +1,329 @@
+"use client";
+
+export interface SourceSpan {
+  page: number | null;
+  text_snippet: string;
+}
+
+/**
+ * A question as the API returns it. Which answer fields are set depends on `format`
+ * (single-answer when unset); the server checks them when an edit is saved.
+ */
+export interface McqItem {
+  id?: string;
+  format?: QuestionFormat;
+  bloom: string;
+  difficulty: string;
+  stem: string;
+  options?: string[];
+  correct_index?: number;
+  correct_indices?: number[];
+  answer?: boolean | number | string;
+  tolerance?: number;
+  unit?: string;
+  accepted_answers?: string[];
+  pairs?: Array<{ left: string; right: string }>;
+  explanation: string;
+  type: string;
+  /** Figure the question refers to, e.g. one extracted from the book. */
+  image_url?: string;
+  source_spans?: SourceSpan[];
+}
+
+export type QuestionFormat = "single" | "multiple" | "true_false" | "match" | "numeric" | "short_answer";
+
+export const FORMAT_LABELS: Record<QuestionFormat, string> = {
+  single: "Single answer",
+  multiple: "Multiple select",
+  true_false: "True/false",
+  match: "Match the following",
+  numeric: "Numeric",
+  short_answer: "Short answer",
+};
+
+export const LETTERS = ["A", "B", "C", "D"];
+const BLOOM_LEVELS = ["Remember", "Understand", "Apply", "Analyze", "Evaluate", "Create"];
+const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+const QUESTION_TYPES = ["recall", "application", "assertion-reason", "fill-blank", "diagram"];
+
+function withCurrent(values: string[], current: string): string[] {
+  return current && !values.includes(current) ? [...values, current] : values;
+}
+
+function AnswerEditor({
+  item,
+  name,
+  onChange,
+  disabled,
+}: {
+  item: McqItem;
+  name: string;
+  onChange: (patch: Partial<McqItem>) => void;
+  disabled: boolean;
+}) {
+  const format = item.format ?? "single";
+
+  if (format === "single" || format === "multiple") {
+    const options = item.options ?? [];
+    const correct = format === "single" ? [item.correct_index ?? -1] : item.correct_indices ?? [];
+    return (
+      <>
+        {options.map((option, optionIndex) => (
+          <div key={optionIndex} className="review-option">
+            <input
+              type={format === "single" ? "radio" : "checkbox"}
+              name={`${name}-correct`}
+              checked={correct.includes(optionIndex)}
+              onChange={(event) =>
+                onChange(
+                  format === "single"
+                    ? { correct_index: optionIndex }
+                    : {
+                        correct_indices: event.target.checked
+                          ? [...correct, optionIndex].sort((left, right) => left - right)
+                          : correct.filter((index) => index !== optionIndex),
+                      },
+                )
+              }
+              disabled={disabled}
+              aria-label={`Mark option ${LETTERS[optionIndex]} correct`}
+            />
+            <span>{LETTERS[optionIndex]}</span>
+            <input
+              type="text"
+              value={option}
+              onChange={(event) =>
+                onChange({
+                  options: options.map((value, index) =>
+                    index === optionIndex ? event.target.value : value,
+                  ),
+                })
+              }
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  if (format === "true_false") {
+    return (
+      <div className="button-row">
+        {[true, false].map((value) => (
+          <label key={String(value)} className="review-option">
+            <input
+              type="radio"
+              name={`${name}-correct`}
+              checked={item.answer === value}
+              onChange={() => onChange({ answer: value })}
+              disabled={disabled}
+            />
+            {value ? "True" : "False"}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  if (format === "match") {
+    const pairs = item.pairs ?? [];
+    const updatePair = (pairIndex: number, side: "left" | "right", value: string) =>
+      onChange({
+        pairs: pairs.map((pair, index) => (index === pairIndex ? { ...pair, [side]: value } : pair)),
+      });
+    return (
+      <>
+        {pairs.map((pair, pairIndex) => (
+          <div key={pairIndex} className="review-option">
+            <span>{pairIndex + 1}</span>
+            <input
+              type="text"
+              value={pair.left}
+              onChange={(event) => updatePair(pairIndex, "left", event.target.value)}
+              disabled={disabled}
+              aria-label={`Left item ${pairIndex + 1}`}
+            />
+            <span>→</span>
+            <input
+              type="text"
+              value={pair.right}
+              onChange={(event) => updatePair(pairIndex, "right", event.target.value)}
+              disabled={disabled}
+              aria-label={`Matching right item ${pairIndex + 1}`}
+            />
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  if (format === "numeric") {
+    return (
+      <div className="button-row wrap">
+        <label>
+          Answer
+          <input
+            type="number"
+            value={typeof item.answer === "number" ? item.answer : ""}
+            onChange={(event) => onChange({ answer: event.target.valueAsNumber })}
+            disabled={disabled}
+          />
+        </label>
+        <label>
+          Tolerance ±
+          <input
+            type="number"
+            min={0}
+            value={item.tolerance ?? 0}
+            onChange={(event) => onChange({ tolerance: event.target.valueAsNumber })}
+            disabled={disabled}
+          />
+        </label>
+        <label>
+          Unit
+          <input
+            type="text"
+            value={item.unit ?? ""}
+            onChange={(event) => onChange({ unit: event.target.value })}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <label>
+        Answer
+        <input
+          type="text"
+          value={typeof item.answer === "string" ? item.answer : ""}
+          onChange={(event) => onChange({ answer: event.target.value })}
+          disabled={disabled}
+        />
+      </label>
+      <label>
+        Also accept (one per line)
+        <textarea
+          value={(item.accepted_answers ?? []).join("\n")}
+          onChange={(event) => onChange({ accepted_answers: event.target.value.split("\n") })}
+          disabled={disabled}
+          rows={2}
+        />
+      </label>
+    </>
+  );
+}
+
+export default function McqItemEditor({
+  item,
+  name,
+  onChange,
+  disabled = false,
+}: {
+  item: McqItem;
+  /** Unique per editor on the page; groups the correct-answer radio buttons. */
+  name: string;
+  onChange: (patch: Partial<McqItem>) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <>
+      <label>
+        Question
+        <textarea
+          value={item.stem}
+          onChange={(event) => onChange({ stem: event.target.value })}
+          disabled={disabled}
+          rows={2}
+        />
+      </label>
+
+      {item.image_url && (
+        <figure className="question-figure">
+          {/* eslint-disable-next-line @next/next/no-img-element -- figures may be served from any bucket or CDN */}
+          <img src={item.image_url} alt="Figure for this question" />
+          <figcaption className="button-row wrap">
+            <button type="button" onClick={() => onChange({ image_url: undefined })} disabled={disabled}>
+              Remove figure
+            </button>
+          </figcaption>
+        </figure>
+      )}
+
+      <AnswerEditor item={item} name={name} onChange={onChange} disabled={disabled} />
+
+      <label>
+        Explanation
+        <textarea
+          value={item.explanation}
+          onChange={(event) =>
+            onChange({ explanation: event.target.value })
+          }
+          disabled={disabled}
+          rows={3}
+        />
+      </label>
+
+      <div className="button-row wrap">
+        <label>
+          Bloom
+          <select
+            value={item.bloom}
+            onChange={(event) => onChange({ bloom: event.target.value })}
+            disabled={disabled}
+          >
+            {withCurrent(BLOOM_LEVELS, item.bloom).map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Difficulty
+          <select
+            value={item.difficulty}
+            onChange={(event) =>
+              onChange({ difficulty: event.target.value })
+            }
+            disabled={disabled}
+          >
+            {withCurrent(DIFFICULTIES, item.difficulty).map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Type
+          <select
+            value={item.type}
+            onChange={(event) => onChange({ type: event.target.value })}
+            disabled={disabled}
+          >
+            {withCurrent(QUESTION_TYPES, item.type).map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {item.source_spans && item.source_spans.length > 0 && (
+        <ul className="source-spans">
+          {item.source_spans.map((span, spanIndex) => (
+            <li key={spanIndex}>
+              {span.page !== null ? `p. ${span.page}: ` : ""}
+              {span.text_snippet}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { FORMAT_LABELS, LETTERS, type McqItem } from "./McqItemEditor";
+
+/** The answer as a reviewer reads it, e.g. "A", "B, D" or "9.8 ± 0.1 m/s". */
+function describeAnswer(item: McqItem): string {
+  switch (item.format ?? "single") {
+    case "single":
+      return LETTERS[item.correct_index ?? -1] ?? "?";
+    case "multiple":
+      return (item.correct_indices ?? []).map((index) => LETTERS[index] ?? "?").join(", ");
+    case "true_false":
+      return item.answer ? "True" : "False";
+    case "match":
+      return `${item.pairs?.length ?? 0} pairs`;
+    case "numeric":
+      return [String(item.answer), item.tolerance ? `± ${item.tolerance}` : "", item.unit ?? ""]
+        .filter(Boolean)
+        .join(" ");
+    case "short_answer":
+      return [item.answer, ...(item.accepted_answers ?? [])].join(" / ");
+  }
+}
+
+export default function McqItemSummary({ item }: { item: McqItem }) {
+  const correct = item.format === "multiple" ? item.correct_indices ?? [] : [item.correct_index ?? -1];
+  const details = [
+    FORMAT_LABELS[item.format ?? "single"],
+    `Answer ${describeAnswer(item)}`,
+    item.bloom,
+    item.difficulty,
+    item.type,
+  ];
+
+  return (
+    <div className="review-summary">
+      <p>{item.stem}</p>
+      {item.image_url && (
+        <figure className="question-figure">
+          {/* eslint-disable-next-line @next/next/no-img-element -- figures may be served from any bucket or CDN */}
+          <img src={item.image_url} alt="Figure for this question" />
+        </figure>
+      )}
+      {item.options && (
+        <ol type="A">
+          {item.options.map((option, index) => (
+            <li key={index} className={correct.includes(index) ? "correct" : undefined}>
+              {option}
+            </li>
+          ))}
+        </ol>
+      )}
+      {item.pairs && (
+        <ol>
+          {item.pairs.map((pair, index) => (
+            <li key={index}>
+              {pair.left} → {pair.right}
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className="status">{details.join(" • ")}</p>
+      <p className="status">{item.explanation}</p>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import McqItemEditor, { type McqItem } from "./McqItemEditor";
+import QuestionHistory, { type QuestionAuditTrail } from "./QuestionHistory";
+
+interface ReviewTopic {
+  topic: string;
+  needsReview: boolean;
+  items: McqItem[];
+}
+
+const EXPORT_FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "qti", label: "QTI 2.1 (zip)" },
+  { format: "gift", label: "Moodle GIFT" },
+  { format: "moodle-xml", label: "Moodle XML" },
+];
+
+interface ItemsResponse {
+  jobId: string;
+  status: string;
+  editable: boolean;
+  chapterNumber: number;
+  chapterTitle: string;
+  classLevel: number;
+  subject: { id: number; name: string };
+  syllabus: { id: number; name: string };
+  topics: ReviewTopic[];
+  error?: string;
+}
+
+export default function McqReviewWorkspace({ jobId }: { jobId: string }) {
+  const [job, setJob] = useState<ItemsResponse | null>(null);
+  const [topics, setTopics] = useState<ReviewTopic[]>([]);
+  const [dirtyTopics, setDirtyTopics] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [auditTrails, setAuditTrails] = useState<Record<string, QuestionAuditTrail>>({});
+  const [openHistory, setOpenHistory] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState("csv");
+  const [worksheetOrder, setWorksheetOrder] = useState<"topic" | "shuffled">("topic");
+  const [worksheetDifficulty, setWorksheetDifficulty] = useState("");
+
+  const loadAudit = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/mcqs/audit?jobId=${encodeURIComponent(jobId)}`);
+      const data = (await response.json().catch(() => null)) as
+        | { trails?: QuestionAuditTrail[] }
+        | null;
+
+      if (response.ok && data?.trails) {
+        setAuditTrails(Object.fromEntries(data.trails.map((trail) => [trail.questionId, trail])));
+      }
+    } catch (auditError) {
+      // History is informational; the editor stays usable without it.
+      console.warn("Unable to load question history", auditError);
+    }
+  }, [jobId]);
+
+  const applyResponse = useCallback(
+    (data: ItemsResponse) => {
+      setJob(data);
+      setTopics(data.topics);
+      setDirtyTopics([]);
+      void loadAudit();
+    },
+    [loadAudit],
+  );
+
+  const toggleHistory = useCallback((questionId: string) => {
+    setOpenHistory((previous) =>
+      previous.includes(questionId)
+        ? previous.filter((candidate) => candidate !== questionId)
+        : [...previous, questionId],
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/mcqs/items?jobId=${encodeURIComponent(jobId)}`)
+      .then(async (response) => {
+        const data = (await response.json().catch(() => null)) as ItemsResponse | null;
+        if (!response.ok || !data) {
+          throw new Error(data?.error ?? "Failed to load generated MCQs.");
+        }
+        return data;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          applyResponse(data);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Unable to load MCQs.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyResponse, jobId]);
+
+  const updateTopicItems = useCallback(
+    (topicName: string, update: (items: McqItem[]) => McqItem[]) => {
+      setTopics((previous) =>
+        previous.map((topic) =>
+          topic.topic === topicName ? { ...topic, items: update(topic.items) } : topic,
+        ),
+      );
+      setDirtyTopics((previous) =>
+        previous.includes(topicName) ? previous : [...previous, topicName],
+      );
+      setStatus(null);
+    },
+    [],
+  );
+
+  const updateItem = useCallback(
+    (topicName: string, itemIndex: number, patch: Partial<McqItem>) => {
+      updateTopicItems(topicName, (items) =>
+        items.map((item, index) => (index === itemIndex ? { ...item, ...patch } : item)),
+      );
+    },
+    [updateTopicItems],
+  );
+
+  const moveItem = useCallback(
+    (topicName: string, itemIndex: number, offset: -1 | 1) => {
+      updateTopicItems(topicName, (items) => {
+        const target = itemIndex + offset;
+        if (target < 0 || target >= items.length) {
+          return items;
+        }
+        const reordered = [...items];
+        [reordered[itemIndex], reordered[target]] = [reordered[target], reordered[itemIndex]];
+        return reordered;
+      });
+    },
+    [updateTopicItems],
+  );
+
+  const deleteItem = useCallback(
+    (topicName: string, itemIndex: number) => {
+      updateTopicItems(topicName, (items) => items.filter((_, index) => index !== itemIndex));
+    },
+    [updateTopicItems],
+  );
+
+  const handleSave = useCallback(async () => {
+    if (dirtyTopics.length === 0) {
+      return;
+    }
+
+    const emptyTopic = topics.find(
+      (topic) => dirtyTopics.includes(topic.topic) && topic.items.length === 0,
+    );
+    if (emptyTopic) {
+      setError(`Topic "${emptyTopic.topic}" must keep at least one question.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setStatus("Saving edits…");
+
+    try {
+      const response = await fetch("/api/mcqs/items", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          jobId,
+          topics: topics
+            .filter((topic) => dirtyTopics.includes(topic.topic))
+            .map((topic) => ({ topic: topic.topic, items: topic.items })),
+        }),
+      });
+
+      const data = (await response.json().catch(() => null)) as ItemsResponse | null;
+
+      if (!response.ok || !data) {
+        throw new Error(data?.error ?? "Unable to save edits.");
+      }
+
+      applyResponse(data);
+      setStatus(
+        data.status === "succeeded"
+          ? "Edits saved. The CSV and database now reflect the reviewed questions."
+          : "Edits saved on the job.",
+      );
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unexpected error while saving edits.");
+      setStatus(null);
+    } finally {
+      setSaving(false);
+    }
+  }, [applyResponse, dirtyTopics, jobId, topics]);
+
+  if (loading) {
+    return <p className="status">Loading generated MCQs…</p>;
+  }
+
+  if (!job) {
+    return <p className="status error">{error ?? "Job not found."}</p>;
+  }
+
+  const readOnly = !job.editable || saving;
+  const worksheetUrl = (format: "html" | "pdf", part: "paper" | "key" | "both") =>
+    `/api/mcqs/worksheet?${new URLSearchParams({
+      jobId,
+      format,
+      part,
+      order: worksheetOrder,
+      ...(worksheetDifficulty ? { difficulty: worksheetDifficulty } : {}),
+    }).toString()}`;
+
+  return (
+    <div className="form">
+      <div className="status">
+        Class {job.classLevel} • {job.subject.name} • {job.syllabus.name} • Chapter{" "}
+        {job.chapterNumber}: {job.chapterTitle} • Job status: {job.status}
+      </div>
+
+      <div className="button-row">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={readOnly || dirtyTopics.length === 0}
+        >
+          {saving ? "Saving…" : `Save edits${dirtyTopics.length > 0 ? ` (${dirtyTopics.length} topic(s))` : ""}`}
+        </button>
+        {job.status === "succeeded" && (
+          <>
+            <select
+              value={exportFormat}
+              onChange={(event) => setExportFormat(event.target.value)}
+              aria-label="Export format"
+            >
+              {EXPORT_FORMATS.map((entry) => (
+                <option key={entry.format} value={entry.format}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+            <a
+              className="button-link"
+              href={`/api/mcqs/result?jobId=${encodeURIComponent(jobId)}&format=${exportFormat}`}
+            >
+              Download
+            </a>
+          </>
+        )}
+        {status && !error && <span className="status">{status}</span>}
+        {error && <span className="status error">{error}</span>}
+      </div>
+
+      {job.status === "succeeded" && (
+        <div className="button-row wrap">
+          <select
+            value={worksheetOrder}
+            onChange={(event) => setWorksheetOrder(event.target.value as "topic" | "shuffled")}
+            aria-label="Worksheet question order"
+          >
+            <option value="topic">Grouped by topic</option>
+            <option value="shuffled">Shuffled</option>
+          </select>
+          <select
+            value={worksheetDifficulty}
+            onChange={(event) => setWorksheetDifficulty(event.target.value)}
+            aria-label="Worksheet difficulty"
+          >
+            <option value="">All difficulties</option>
+            <option value="Easy">Easy only</option>
+            <option value="Medium">Medium only</option>
+            <option value="Hard">Hard only</option>
+            <option value="Easy,Medium">Easy and Medium</option>
+            <option value="Medium,Hard">Medium and Hard</option>
+          </select>
+          <a className="button-link" href={worksheetUrl("html", "both")} target="_blank" rel="noreferrer">
+            Printable worksheet
+          </a>
+          <a className="button-link" href={worksheetUrl("pdf", "paper")}>
+            Worksheet PDF
+          </a>
+          <a className="button-link" href={worksheetUrl("pdf", "key")}>
+            Answer key PDF
+          </a>
+        </div>
+      )}
+
+      {topics.map((topic) => (
+        <section key={topic.topic} className="review-topic">
+          <h2>
+            {topic.topic}
+            {topic.needsReview && <span className="badge">Needs manual review</span>}
+          </h2>
+
+          {topic.items.map((item, itemIndex) => {
+            const trail = item.id ? auditTrails[item.id] : undefined;
+            const historyOpen = Boolean(trail && openHistory.includes(trail.questionId));
+
+            return (
+              <article key={item.id ?? `${topic.topic}-${itemIndex}`} className="topic-card review-card">
+                <div className="review-card-header">
+                  <strong>Q{itemIndex + 1}</strong>
+                  <div className="button-row">
+                    {trail && (
+                      <button type="button" onClick={() => toggleHistory(trail.questionId)}>
+                        {historyOpen ? "Hide history" : `History (${trail.events.length})`}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => moveItem(topic.topic, itemIndex, -1)}
+                      disabled={readOnly || itemIndex === 0}
+                    >
+                      Move up
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveItem(topic.topic, itemIndex, 1)}
+                      disabled={readOnly || itemIndex === topic.items.length - 1}
+                    >
+                      Move down
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteItem(topic.topic, itemIndex)}
+                      disabled={readOnly}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <McqItemEditor
+                  item={item}
+                  name={`${topic.topic}-${itemIndex}`}
+                  onChange={(patch) => updateItem(topic.topic, itemIndex, patch)}
+                  disabled={readOnly}
+                />
+
+                {trail && historyOpen && <QuestionHistory trail={trail} />}
+              </article>
+            );
+          })}
+        </section>
+      ))}
+    </div>
+  );
+}
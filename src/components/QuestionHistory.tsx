@@ -0,0 +1,89 @@
+"use client";
+
+import type { McqItem } from "./McqItemEditor";
+import McqItemSummary from "./McqItemSummary";
+
+export type QuestionAuditEvent =
+  | {
+      kind: "verdict";
+      run: number;
+      attempt: number;
+      at: number;
+      verdict: {
+        verdict: "approve" | "reject";
+        reasons: string[];
+        explanationAlignment?: string;
+        correctAnswerConfirmed?: boolean;
+        confidence?: string;
+      };
+    }
+  | { kind: "replacement"; run: number; attempt: number; at: number; item: McqItem }
+  | { kind: "edited"; at: number; item: McqItem }
+  | { kind: "removed"; at: number };
+
+export interface QuestionAuditTrail {
+  questionId: string;
+  topic: string;
+  originalItem: McqItem;
+  finalItem: McqItem | null;
+  events: QuestionAuditEvent[];
+}
+
+function describeEvent(event: QuestionAuditEvent): string {
+  switch (event.kind) {
+    case "verdict": {
+      const details = [
+        event.verdict.confidence ? `confidence ${event.verdict.confidence}` : null,
+        event.verdict.explanationAlignment
+          ? `explanation ${event.verdict.explanationAlignment}`
+          : null,
+        event.verdict.correctAnswerConfirmed === false ? "answer not confirmed" : null,
+      ].filter(Boolean);
+      return `Run ${event.run}, attempt ${event.attempt}: validator ${
+        event.verdict.verdict === "reject" ? "rejected" : "approved"
+      }${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+    }
+    case "replacement":
+      return `Run ${event.run}, attempt ${event.attempt}: validator replacement applied`;
+    case "edited":
+      return "Edited by a reviewer";
+    case "removed":
+      return "Removed by a reviewer";
+  }
+}
+
+export default function QuestionHistory({ trail }: { trail: QuestionAuditTrail }) {
+  return (
+    <div className="question-history">
+      <div>
+        <h3>Generated question</h3>
+        <McqItemSummary item={trail.originalItem} />
+      </div>
+
+      <ol className="history-events">
+        {trail.events.map((event, index) => (
+          <li key={index}>
+            <p>
+              <strong>{describeEvent(event)}</strong>{" "}
+              <span className="status">{new Date(event.at).toLocaleString()}</span>
+            </p>
+            {event.kind === "verdict" && event.verdict.reasons.length > 0 && (
+              <ul className="source-spans">
+                {event.verdict.reasons.map((reason, reasonIndex) => (
+                  <li key={reasonIndex}>{reason}</li>
+                ))}
+              </ul>
+            )}
+            {(event.kind === "replacement" || event.kind === "edited") && (
+              <McqItemSummary item={event.item} />
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {trail.events.length === 0 && (
+        <p className="status">The validator has not reviewed this question yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import McqItemEditor, { type McqItem } from "./McqItemEditor";
+import McqItemSummary from "./McqItemSummary";
+
+type ReviewDecision = "accept_original" | "accept_replacement" | "edited" | "discard";
+
+interface ReviewItem {
+  id: number;
+  jobId: string;
+  topic: string;
+  questionIndex: number;
+  originalItem: McqItem;
+  replacementItem: McqItem | null;
+  reasons: string[];
+  verdict: { confidence?: string; explanationAlignment?: string; correctAnswerConfirmed?: boolean };
+  status: "pending" | "decided" | "published";
+  decision: ReviewDecision | null;
+  finalItem: McqItem | null;
+}
+
+interface ReviewGroup {
+  key: string;
+  jobId: string;
+  topic: string;
+  entries: ReviewItem[];
+}
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  accept_original: "Original accepted",
+  accept_replacement: "Replacement accepted",
+  edited: "Hand-edited",
+  discard: "Discarded",
+};
+
+export default function ReviewQueue() {
+  const [entries, setEntries] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, McqItem>>({});
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/mcqs/review");
+      const data = (await response.json().catch(() => null)) as
+        | { items?: ReviewItem[]; error?: string }
+        | null;
+
+      if (!response.ok || !data) {
+        throw new Error(data?.error ?? "Failed to load the review queue.");
+      }
+
+      setEntries((data.items ?? []).filter((entry) => entry.status !== "published"));
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to load the review queue.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ReviewGroup>();
+    for (const entry of entries) {
+      const key = `${entry.jobId}::${entry.topic}`;
+      const group = byKey.get(key) ?? { key, jobId: entry.jobId, topic: entry.topic, entries: [] };
+      group.entries.push(entry);
+      byKey.set(key, group);
+    }
+    return [...byKey.values()];
+  }, [entries]);
+
+  const submitDecision = useCallback(
+    async (entry: ReviewItem, decision: ReviewDecision, item?: McqItem) => {
+      setBusyKey(`entry-${entry.id}`);
+      setError(null);
+      setStatus(null);
+
+      try {
+        const response = await fetch("/api/mcqs/review/decision", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ id: entry.id, decision, item }),
+        });
+        const data = (await response.json().catch(() => null)) as
+          | { item?: ReviewItem | null; error?: string }
+          | null;
+
+        if (!response.ok || !data?.item) {
+          throw new Error(data?.error ?? "Unable to record the decision.");
+        }
+
+        const updated = data.item;
+        setEntries((previous) =>
+          previous.map((candidate) => (candidate.id === updated.id ? updated : candidate)),
+        );
+        setDrafts((previous) => {
+          const next = { ...previous };
+          delete next[entry.id];
+          return next;
+        });
+      } catch (cause) {
+        setError(cause instanceof Error ? cause.message : "Unexpected error while saving the decision.");
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [],
+  );
+
+  const publishTopic = useCallback(
+    async (group: ReviewGroup) => {
+      setBusyKey(group.key);
+      setError(null);
+      setStatus(null);
+
+      try {
+        const response = await fetch("/api/mcqs/review/publish", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ jobId: group.jobId, topic: group.topic }),
+        });
+        const data = (await response.json().catch(() => null)) as
+          | { questionCount?: number; error?: string }
+          | null;
+
+        if (!response.ok) {
+          throw new Error(data?.error ?? "Unable to publish the topic.");
+        }
+
+        setStatus(`Published "${group.topic}" with ${data?.questionCount ?? 0} question(s).`);
+        setEntries((previous) =>
+          previous.filter((entry) => `${entry.jobId}::${entry.topic}` !== group.key),
+        );
+      } catch (cause) {
+        setError(cause instanceof Error ? cause.message : "Unexpected error while publishing.");
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [],
+  );
+
+  if (loading) {
+    return <p className="status">Loading review queue…</p>;
+  }
+
+  return (
+    <div className="form">
+      <div className="button-row">
+        <button type="button" onClick={() => void loadQueue()} disabled={busyKey !== null}>
+          Refresh
+        </button>
+        {status && !error && <span className="status">{status}</span>}
+        {error && <span className="status error">{error}</span>}
+      </div>
+
+      {groups.length === 0 && <p className="status">No topics are waiting for review.</p>}
+
+      {groups.map((group) => {
+        const undecided = group.entries.filter((entry) => entry.status === "pending").length;
+
+        return (
+          <section key={group.key} className="review-topic">
+            <h2>
+              {group.topic}
+              <span className="badge">{undecided > 0 ? `${undecided} undecided` : "Ready to publish"}</span>
+            </h2>
+            <p className="status">
+              Job {group.jobId} •{" "}
+              <a href={`/jobs/${encodeURIComponent(group.jobId)}/review`}>Open job workspace</a>
+            </p>
+
+            {group.entries.map((entry) => {
+              const draft = drafts[entry.id];
+              const busy = busyKey !== null;
+
+              return (
+                <article key={entry.id} className="topic-card review-card">
+                  <div className="review-card-header">
+                    <strong>Q{entry.questionIndex + 1}</strong>
+                    <span className="status">
+                      {entry.decision ? DECISION_LABELS[entry.decision] : "Awaiting decision"}
+                      {entry.verdict.confidence ? ` • validator confidence ${entry.verdict.confidence}` : ""}
+                    </span>
+                  </div>
+
+                  {entry.reasons.length > 0 && (
+                    <ul className="source-spans">
+                      {entry.reasons.map((reason, index) => (
+                        <li key={index}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="review-compare">
+                    <div>
+                      <h3>Original</h3>
+                      <McqItemSummary item={entry.originalItem} />
+                    </div>
+                    <div>
+                      <h3>Validator replacement</h3>
+                      {entry.replacementItem ? (
+                        <McqItemSummary item={entry.replacementItem} />
+                      ) : (
+                        <p className="status">No replacement was provided.</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {draft && (
+                    <McqItemEditor
+                      item={draft}
+                      name={`review-${entry.id}`}
+                      onChange={(patch) =>
+                        setDrafts((previous) => ({
+                          ...previous,
+                          [entry.id]: { ...previous[entry.id], ...patch },
+                        }))
+                      }
+                      disabled={busy}
+                    />
+                  )}
+
+                  <div className="button-row wrap">
+                    <button
+                      type="button"
+                      onClick={() => void submitDecision(entry, "accept_original")}
+                      disabled={busy}
+                    >
+                      Accept original
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void submitDecision(entry, "accept_replacement")}
+                      disabled={busy || !entry.replacementItem}
+                    >
+                      Accept replacement
+                    </button>
+                    {draft ? (
+                      <button
+                        type="button"
+                        onClick={() => void submitDecision(entry, "edited", draft)}
+                        disabled={busy}
+                      >
+                        Save edit
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDrafts((previous) => ({
+                            ...previous,
+                            [entry.id]: entry.finalItem ?? entry.replacementItem ?? entry.originalItem,
+                          }))
+                        }
+                        disabled={busy}
+                      >
+                        Edit by hand
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void submitDecision(entry, "discard")}
+                      disabled={busy}
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </article>
+              );
+            })}
+
+            <div className="button-row">
+              <button
+                type="button"
+                onClick={() => void publishTopic(group)}
+                disabled={busyKey !== null || undecided > 0}
+              >
+                {busyKey === group.key ? "Publishing…" : "Publish topic"}
+              </button>
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -13,8 +13,12 @@ import {
 interface Topic {
   topic: string;
   description: string;
+  /** Target question count; unset uses the rubric's range. */
+  questionCount?: number;
 }
 
+const MAX_TOPIC_QUESTIONS = 30;
+
 interface SubjectOption {
   id: number;
   name: string;
@@ -25,23 +29,56 @@ interface SyllabusOption {
   name: string;
 }
 
+interface RubricProfileOption {
+  name: string;
+  description?: string;
+}
+
+interface CsvProfileOption {
+  name: string;
+  description?: string;
+}
+
 interface TokenUsageTotals {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
 }
 
+interface JobCostTotals {
+  currency: string;
+  total: number;
+}
+
 interface StatusResponse {
   status: JobStatus;
   logs?: string[];
   error?: string | null;
   openAiUsage?: TokenUsageTotals;
   anthropicUsage?: TokenUsageTotals;
+  cost?: JobCostTotals | null;
   allowValidationRetry?: boolean;
   allowPersistenceRetry?: boolean;
+  resumable?: boolean;
+  failedTopics?: string[];
   outputFilename?: string | null;
 }
 
+interface DetectedChapter {
+  number: number;
+  title: string;
+  startPage: number;
+  endPage: number;
+  pageCount: number;
+}
+
+interface TopicProgress {
+  stage: "generation" | "validation";
+  topic: string;
+  completed: number;
+  total: number;
+}
+
 const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100 MB limit for safety.
 const CLASS_LEVELS = [5, 6, 7, 8, 9, 10, 11, 12] as const;
 
@@ -51,8 +88,17 @@ export default function TopicSplitForm() {
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [chapterNumber, setChapterNumber] = useState<string>("");
   const [chapterTitle, setChapterTitle] = useState("");
+  const [detectedChapters, setDetectedChapters] = useState<DetectedChapter[]>([]);
+  const [chaptersStatus, setChaptersStatus] = useState<string | null>(null);
+  const [selectedChapter, setSelectedChapter] = useState<DetectedChapter | null>(null);
   const [topics, setTopics] = useState<Topic[] | null>(null);
   const [vectorStoreId, setVectorStoreId] = useState<string | null>(null);
+  // SHA-256 of the PDF, returned by /api/topics.
+  const [bookFingerprint, setBookFingerprint] = useState<string | null>(null);
+  // Figures extracted from the uploaded pages, for diagram questions.
+  const [figureSet, setFigureSet] = useState<string | null>(null);
+  // The uploaded pages' extracted text, for grounding validation without the vector store.
+  const [bookText, setBookText] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [status, setStatus] = useState<string | null>(null);
   const [mcqStatus, setMcqStatus] = useState<string | null>(null);
@@ -68,15 +114,27 @@ export default function TopicSplitForm() {
   const [syllabusesLoading, setSyllabusesLoading] = useState(false);
   const [syllabusesError, setSyllabusesError] = useState<string | null>(null);
   const [selectedSyllabus, setSelectedSyllabus] = useState<SyllabusOption | null>(null);
+  const [csvProfiles, setCsvProfiles] = useState<CsvProfileOption[]>([]);
+  const [selectedCsvProfile, setSelectedCsvProfile] = useState("default");
+  const [rubricProfiles, setRubricProfiles] = useState<RubricProfileOption[]>([]);
+  // Profile assigned to the selected class/subject, used when no profile is picked.
+  const [resolvedRubric, setResolvedRubric] = useState<string | null>(null);
+  const [selectedRubric, setSelectedRubric] = useState("");
+  const [guidance, setGuidance] = useState("");
   const [jobId, setJobId] = useState<string | null>(null);
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
   const [jobLogs, setJobLogs] = useState<string[]>([]);
   const [openAiUsage, setOpenAiUsage] = useState<TokenUsageTotals | null>(null);
   const [anthropicUsage, setAnthropicUsage] = useState<TokenUsageTotals | null>(null);
+  const [jobCost, setJobCost] = useState<JobCostTotals | null>(null);
   const [allowValidationRetry, setAllowValidationRetry] = useState(false);
   const [allowPersistenceRetry, setAllowPersistenceRetry] = useState(false);
+  const [resumable, setResumable] = useState(false);
+  const [failedTopics, setFailedTopics] = useState<string[]>([]);
+  const [topicProgress, setTopicProgress] = useState<TopicProgress | null>(null);
 
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
   const fileLabel = useMemo(() => {
     if (!pdfFile) {
@@ -86,18 +144,15 @@ export default function TopicSplitForm() {
     return `${pdfFile.name} • ${sizeMB} MB`;
   }, [pdfFile]);
 
-  const bookFingerprint = useMemo(() => {
-    if (!pdfFile) {
-      return null;
-    }
-    return `${pdfFile.name}:${pdfFile.size}:${pdfFile.lastModified}`;
-  }, [pdfFile]);
-
   const resetJobPolling = useCallback(() => {
     if (pollIntervalRef.current) {
       clearInterval(pollIntervalRef.current);
       pollIntervalRef.current = null;
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close();
+      eventSourceRef.current = null;
+    }
   }, []);
 
   const handleFileChange = useCallback(
@@ -126,11 +181,135 @@ export default function TopicSplitForm() {
       setMcqError(null);
       setTopics(null);
       setVectorStoreId(null);
+      setBookFingerprint(null);
+      setFigureSet(null);
+      setBookText(null);
+      setSelectedChapter(null);
       setPdfFile(file);
     },
     [],
   );
 
+  useEffect(() => {
+    setDetectedChapters([]);
+    setChaptersStatus(null);
+    if (!pdfFile) {
+      return;
+    }
+
+    let cancelled = false;
+    setChaptersStatus("Looking for chapters in the PDF…");
+    const payload = new FormData();
+    payload.append("pdf", pdfFile);
+
+    fetch("/api/topics/chapters", { method: "POST", body: payload })
+      .then(async (response) => {
+        const result = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(result?.error ?? "Unable to read chapters from the PDF.");
+        }
+        if (!cancelled) {
+          const chapters = (result?.chapters ?? []) as DetectedChapter[];
+          setDetectedChapters(chapters);
+          setChaptersStatus(
+            chapters.length > 0
+              ? `Found ${chapters.length} chapters in ${result.pageCount} pages.`
+              : "No chapters detected; enter the chapter number and title.",
+          );
+        }
+      })
+      .catch((cause) => {
+        if (!cancelled) {
+          setChaptersStatus(cause instanceof Error ? cause.message : "Unable to read chapters from the PDF.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfFile]);
+
+  const applyJobStatus = useCallback(
+    async (jobIdentifier: string, statusPayload: StatusResponse) => {
+      setJobStatus(statusPayload.status);
+      if (Array.isArray(statusPayload.logs)) {
+        setJobLogs(statusPayload.logs);
+      }
+      setOpenAiUsage(statusPayload.openAiUsage ?? null);
+      setAnthropicUsage(statusPayload.anthropicUsage ?? null);
+      setJobCost(statusPayload.cost ?? null);
+      setAllowValidationRetry(Boolean(statusPayload.allowValidationRetry));
+      setAllowPersistenceRetry(Boolean(statusPayload.allowPersistenceRetry));
+      setResumable(Boolean(statusPayload.resumable));
+      if (Array.isArray(statusPayload.failedTopics)) {
+        setFailedTopics(statusPayload.failedTopics);
+      }
+
+      if (statusPayload.status === "succeeded") {
+        const openAiTotal = statusPayload.openAiUsage?.totalTokens ?? 0;
+        const anthropicTotal = statusPayload.anthropicUsage?.totalTokens ?? 0;
+        setMcqStatus(
+          `Validation succeeded. Tokens — OpenAI ${openAiTotal}, Anthropic ${anthropicTotal}. Preparing download…`,
+        );
+        resetJobPolling();
+
+        const resultResponse = await fetch(`/api/mcqs/result?jobId=${jobIdentifier}`);
+
+        if (!resultResponse.ok) {
+          const problem = await resultResponse.json().catch(() => null);
+          throw new Error(problem?.error ?? "Unable to retrieve MCQ results.");
+        }
+
+        const blob = await resultResponse.blob();
+        const downloadUrl = URL.createObjectURL(blob);
+        const anchor = document.createElement("a");
+        anchor.href = downloadUrl;
+        const downloadName =
+          typeof statusPayload.outputFilename === "string"
+          && statusPayload.outputFilename.trim().length > 0
+            ? statusPayload.outputFilename.trim()
+            : `chapter-${chapterNumber}-mcqs.csv`;
+        anchor.download = downloadName;
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+        URL.revokeObjectURL(downloadUrl);
+
+        setMcqStatus("All MCQ sets generated and download started.");
+        setIsGeneratingMcqs(false);
+      } else if (statusPayload.status === "failed") {
+        resetJobPolling();
+        setMcqError(statusPayload.error ?? "MCQ generation failed.");
+        setMcqStatus(null);
+        setIsGeneratingMcqs(false);
+      } else {
+        setMcqStatus(
+          statusPayload.status === "processing"
+            ? `Validation in progress for Class ${selectedClass} – ${selectedSubject?.name ?? ""}…`
+            : "Job queued…",
+        );
+      }
+    },
+    [
+      chapterNumber,
+      resetJobPolling,
+      selectedClass,
+      selectedSubject,
+    ],
+  );
+
+  const handleJobUpdateError = useCallback(
+    (cause: unknown) => {
+      resetJobPolling();
+      setMcqError(cause instanceof Error ? cause.message : "Unable to poll MCQ job.");
+      setMcqStatus(null);
+      setAllowValidationRetry(false);
+      setAllowPersistenceRetry(false);
+      setIsGeneratingMcqs(false);
+    },
+    [resetJobPolling],
+  );
+
   const startJobPolling = useCallback(
     async (jobIdentifier: string) => {
       const poll = async () => {
@@ -144,76 +323,73 @@ export default function TopicSplitForm() {
             throw new Error(statusPayload?.error ?? "Unable to poll MCQ job status.");
           }
 
-          setJobStatus(statusPayload.status);
-          setJobLogs(Array.isArray(statusPayload.logs) ? statusPayload.logs : []);
-          setOpenAiUsage(statusPayload.openAiUsage ?? null);
-          setAnthropicUsage(statusPayload.anthropicUsage ?? null);
-          setAllowValidationRetry(Boolean(statusPayload.allowValidationRetry));
-          setAllowPersistenceRetry(Boolean(statusPayload.allowPersistenceRetry));
-
-          if (statusPayload.status === "succeeded") {
-            const openAiTotal = statusPayload.openAiUsage?.totalTokens ?? 0;
-            const anthropicTotal = statusPayload.anthropicUsage?.totalTokens ?? 0;
-            setMcqStatus(
-              `Validation succeeded. Tokens — OpenAI ${openAiTotal}, Anthropic ${anthropicTotal}. Preparing download…`,
-            );
-            resetJobPolling();
-
-            const resultResponse = await fetch(`/api/mcqs/result?jobId=${jobIdentifier}`);
-
-            if (!resultResponse.ok) {
-              const problem = await resultResponse.json().catch(() => null);
-              throw new Error(problem?.error ?? "Unable to retrieve MCQ results.");
-            }
-
-            const blob = await resultResponse.blob();
-            const downloadUrl = URL.createObjectURL(blob);
-            const anchor = document.createElement("a");
-            anchor.href = downloadUrl;
-            const downloadName =
-              typeof statusPayload.outputFilename === "string"
-              && statusPayload.outputFilename.trim().length > 0
-                ? statusPayload.outputFilename.trim()
-                : `chapter-${chapterNumber}-mcqs.csv`;
-            anchor.download = downloadName;
-            document.body.append(anchor);
-            anchor.click();
-            anchor.remove();
-            URL.revokeObjectURL(downloadUrl);
-
-            setMcqStatus("All MCQ sets generated and download started.");
-            setIsGeneratingMcqs(false);
-          } else if (statusPayload.status === "failed") {
-            resetJobPolling();
-            setMcqError(statusPayload.error ?? "MCQ generation failed.");
-            setMcqStatus(null);
-            setIsGeneratingMcqs(false);
-          } else {
-          setMcqStatus(
-            statusPayload.status === "processing"
-              ? `Validation in progress for Class ${selectedClass} – ${selectedSubject?.name ?? ""}…`
-              : "Job queued…",
-          );
+          await applyJobStatus(jobIdentifier, statusPayload);
+        } catch (cause) {
+          handleJobUpdateError(cause);
         }
-      } catch (cause) {
-        resetJobPolling();
-        setMcqError(cause instanceof Error ? cause.message : "Unable to poll MCQ job.");
-        setMcqStatus(null);
-        setAllowValidationRetry(false);
-        setAllowPersistenceRetry(false);
-        setIsGeneratingMcqs(false);
-      }
       };
 
       await poll();
       pollIntervalRef.current = setInterval(poll, 2000);
     },
-    [
-      chapterNumber,
-      resetJobPolling,
-      selectedClass,
-      selectedSubject,
-    ],
+    [applyJobStatus, handleJobUpdateError],
+  );
+
+  const startJobUpdates = useCallback(
+    async (jobIdentifier: string) => {
+      if (typeof EventSource === "undefined") {
+        await startJobPolling(jobIdentifier);
+        return;
+      }
+
+      const source = new EventSource(`/api/mcqs/events?jobId=${encodeURIComponent(jobIdentifier)}`);
+      eventSourceRef.current = source;
+      let settled = false;
+
+      const handleStatus = (event: MessageEvent<string>) => {
+        const statusPayload = JSON.parse(event.data) as StatusResponse;
+        if (statusPayload.status === "succeeded" || statusPayload.status === "failed") {
+          settled = true;
+        }
+        applyJobStatus(jobIdentifier, statusPayload).catch(handleJobUpdateError);
+      };
+
+      source.addEventListener("snapshot", handleStatus);
+      source.addEventListener("status", handleStatus);
+      source.addEventListener("log", (event) => {
+        const { message } = JSON.parse((event as MessageEvent<string>).data) as { message: string };
+        setJobLogs((previous) => [...previous, message]);
+      });
+      source.addEventListener("usage", (event) => {
+        const usageEvent = JSON.parse((event as MessageEvent<string>).data) as {
+          provider: "openai" | "anthropic";
+          totals: TokenUsageTotals;
+        };
+        if (usageEvent.provider === "openai") {
+          setOpenAiUsage(usageEvent.totals);
+        } else {
+          setAnthropicUsage(usageEvent.totals);
+        }
+      });
+      source.addEventListener("cost", (event) => {
+        const costEvent = JSON.parse((event as MessageEvent<string>).data) as { totals: JobCostTotals };
+        setJobCost(costEvent.totals);
+      });
+      source.addEventListener("progress", (event) => {
+        setTopicProgress(JSON.parse((event as MessageEvent<string>).data) as TopicProgress);
+      });
+      source.onerror = () => {
+        source.close();
+        if (eventSourceRef.current === source) {
+          eventSourceRef.current = null;
+        }
+        if (!settled) {
+          // The stream dropped before the job finished; keep tracking it by polling.
+          void startJobPolling(jobIdentifier);
+        }
+      };
+    },
+    [applyJobStatus, handleJobUpdateError, startJobPolling],
   );
 
   const handleSubmit = useCallback(
@@ -257,6 +433,9 @@ export default function TopicSplitForm() {
       setMcqStatus(null);
       setMcqError(null);
       setVectorStoreId(null);
+      setBookFingerprint(null);
+      setFigureSet(null);
+      setBookText(null);
 
       const payload = new FormData();
       payload.append("pdf", pdfFile);
@@ -264,8 +443,9 @@ export default function TopicSplitForm() {
       payload.append("chapterTitle", chapterTitle.trim());
       payload.append("classLevel", String(selectedClass));
       payload.append("syllabusName", selectedSyllabus.name);
-      if (bookFingerprint) {
-        payload.append("bookFingerprint", bookFingerprint);
+      if (selectedChapter) {
+        payload.append("startPage", String(selectedChapter.startPage));
+        payload.append("endPage", String(selectedChapter.endPage));
       }
 
       try {
@@ -279,10 +459,25 @@ export default function TopicSplitForm() {
           throw new Error(problem?.error ?? "Failed to generate topics.");
         }
 
-        const result = (await response.json()) as { topics: Topic[]; vectorStoreId?: string };
+        const result = (await response.json()) as {
+          topics: Topic[];
+          vectorStoreId?: string;
+          bookHash?: string;
+          figureSet?: string | null;
+          bookText?: string | null;
+          figures?: unknown[];
+        };
         setTopics(result.topics);
         setVectorStoreId(result.vectorStoreId ?? null);
-        setStatus("Finished! Here are the topics the model suggested.");
+        setBookFingerprint(result.bookHash ?? null);
+        setFigureSet(result.figureSet ?? null);
+        setBookText(result.bookText ?? null);
+        const figureCount = result.figures?.length ?? 0;
+        setStatus(
+          figureCount > 0
+            ? `Finished! Here are the topics the model suggested. ${figureCount} figure(s) found for diagram questions.`
+            : "Finished! Here are the topics the model suggested.",
+        );
       } catch (cause) {
         setError(cause instanceof Error ? cause.message : "Unexpected error.");
         setStatus(null);
@@ -291,10 +486,10 @@ export default function TopicSplitForm() {
       }
     },
     [
-      bookFingerprint,
       chapterNumber,
       chapterTitle,
       pdfFile,
+      selectedChapter,
       selectedClass,
       selectedSyllabus,
     ],
@@ -388,12 +583,145 @@ export default function TopicSplitForm() {
     };
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/mcqs/csv-profiles")
+      .then(async (response) => {
+        if (!response.ok) {
+          const problem = await response.json().catch(() => null);
+          throw new Error(problem?.error ?? "Failed to fetch CSV profiles.");
+        }
+        return response.json() as Promise<{ profiles?: CsvProfileOption[] }>;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setCsvProfiles(Array.isArray(data.profiles) ? data.profiles : []);
+        }
+      })
+      .catch((profileError) => {
+        // Without the profile list the built-in default layout is still used.
+        console.error("[csv-profiles]", profileError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams();
+    if (selectedClass !== null && selectedSubject) {
+      params.set("classLevel", String(selectedClass));
+      params.set("subjectId", String(selectedSubject.id));
+    }
+
+    fetch(`/api/mcqs/rubric-profiles?${params.toString()}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const problem = await response.json().catch(() => null);
+          throw new Error(problem?.error ?? "Failed to fetch rubric profiles.");
+        }
+        return response.json() as Promise<{ profiles?: RubricProfileOption[]; resolved?: string | null }>;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setRubricProfiles(Array.isArray(data.profiles) ? data.profiles : []);
+          setResolvedRubric(data.resolved ?? null);
+        }
+      })
+      .catch((profileError) => {
+        // The server still picks the class/subject rubric when none is chosen here.
+        console.error("[rubric-profiles]", profileError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClass, selectedSubject]);
+
+  const updateTopic = useCallback((index: number, changes: Partial<Topic>) => {
+    setTopics((current) =>
+      current ? current.map((topic, position) => (position === index ? { ...topic, ...changes } : topic)) : current,
+    );
+  }, []);
+
+  const removeTopic = useCallback((index: number) => {
+    setTopics((current) => (current ? current.filter((_, position) => position !== index) : current));
+  }, []);
+
+  const moveTopic = useCallback((index: number, offset: number) => {
+    setTopics((current) => {
+      const target = index + offset;
+      if (!current || target < 0 || target >= current.length) {
+        return current;
+      }
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const addTopic = useCallback(() => {
+    setTopics((current) => [
+      ...(current ?? []),
+      { topic: `New topic ${(current?.length ?? 0) + 1}`, description: "" },
+    ]);
+  }, []);
+
+  // Merges a topic into the one after it; counts add up only when both were set.
+  const mergeTopicWithNext = useCallback((index: number) => {
+    setTopics((current) => {
+      if (!current || index + 1 >= current.length) {
+        return current;
+      }
+      const [first, second] = [current[index], current[index + 1]];
+      const merged: Topic = {
+        topic: `${first.topic} & ${second.topic}`,
+        description: [first.description, second.description].filter(Boolean).join(" "),
+        ...(first.questionCount && second.questionCount
+          ? { questionCount: Math.min(first.questionCount + second.questionCount, MAX_TOPIC_QUESTIONS) }
+          : {}),
+      };
+      return [...current.slice(0, index), merged, ...current.slice(index + 2)];
+    });
+  }, []);
+
+  // Splits a topic into two parts for the editor to rename; a set count is shared out.
+  const splitTopic = useCallback((index: number) => {
+    setTopics((current) => {
+      if (!current) {
+        return current;
+      }
+      const topic = current[index];
+      const count = topic.questionCount;
+      const parts: Topic[] = [1, 2].map((part) => ({
+        topic: `${topic.topic} (part ${part})`,
+        description: topic.description,
+        ...(count ? { questionCount: Math.max(1, part === 1 ? Math.ceil(count / 2) : Math.floor(count / 2)) } : {}),
+      }));
+      return [...current.slice(0, index), ...parts, ...current.slice(index + 1)];
+    });
+  }, []);
+
   const handleDownloadMcqs = useCallback(async () => {
     if (!topics || topics.length === 0) {
       setMcqError("Generate topics before requesting MCQs.");
       return;
     }
 
+    const topicNames = topics.map((topic) => topic.topic.trim().toLowerCase());
+    if (topicNames.some((name) => !name)) {
+      setMcqError("Every topic needs a name.");
+      return;
+    }
+
+    if (new Set(topicNames).size !== topicNames.length) {
+      setMcqError("Topic names must be unique.");
+      return;
+    }
+
     if (!vectorStoreId) {
       setMcqError("Missing reference to the uploaded book. Regenerate topics and try again.");
       return;
@@ -422,8 +750,12 @@ export default function TopicSplitForm() {
     setJobLogs([]);
     setOpenAiUsage(null);
     setAnthropicUsage(null);
+    setJobCost(null);
     setAllowValidationRetry(false);
     setAllowPersistenceRetry(false);
+    setResumable(false);
+    setTopicProgress(null);
+    setFailedTopics([]);
     setJobId(null);
 
     try {
@@ -438,6 +770,8 @@ export default function TopicSplitForm() {
           topics,
           vectorStoreId,
           bookFingerprint,
+          figureSet,
+          bookText,
           classLevel: selectedClass,
           subject: {
             id: selectedSubject.id,
@@ -447,6 +781,9 @@ export default function TopicSplitForm() {
             id: selectedSyllabus.id,
             name: selectedSyllabus.name,
           },
+          csvProfile: selectedCsvProfile,
+          rubricProfile: selectedRubric || undefined,
+          guidance: guidance.trim() || undefined,
         }),
       });
 
@@ -460,7 +797,7 @@ export default function TopicSplitForm() {
 
       setJobId(payload.jobId);
       setJobStatus("pending");
-      await startJobPolling(payload.jobId);
+      await startJobUpdates(payload.jobId);
     } catch (cause) {
       setMcqError(cause instanceof Error ? cause.message : "Unexpected error while creating MCQs.");
       setMcqStatus(null);
@@ -470,13 +807,18 @@ export default function TopicSplitForm() {
     }
   }, [
     bookFingerprint,
+    bookText,
     chapterNumber,
     chapterTitle,
+    figureSet,
+    guidance,
     resetJobPolling,
     selectedClass,
+    selectedCsvProfile,
+    selectedRubric,
     selectedSubject,
     selectedSyllabus,
-    startJobPolling,
+    startJobUpdates,
     topics,
     vectorStoreId,
   ]);
@@ -510,7 +852,7 @@ export default function TopicSplitForm() {
       setJobStatus((payload as { status?: JobStatus | null })?.status ?? "processing");
       setAllowValidationRetry(Boolean((payload as { allowValidationRetry?: boolean })?.allowValidationRetry));
 
-      await startJobPolling(jobId);
+      await startJobUpdates(jobId);
     } catch (cause) {
       setMcqError(cause instanceof Error ? cause.message : "Unexpected error while retrying validation.");
       setMcqStatus(null);
@@ -518,7 +860,7 @@ export default function TopicSplitForm() {
       setAllowPersistenceRetry(false);
       setIsGeneratingMcqs(false);
     }
-  }, [jobId, resetJobPolling, startJobPolling]);
+  }, [jobId, resetJobPolling, startJobUpdates]);
 
   const handleRetryPersistence = useCallback(async () => {
     if (!jobId) {
@@ -551,7 +893,7 @@ export default function TopicSplitForm() {
       setAllowValidationRetry(Boolean((payload as { allowValidationRetry?: boolean })?.allowValidationRetry));
       setAllowPersistenceRetry(Boolean((payload as { allowPersistenceRetry?: boolean })?.allowPersistenceRetry));
 
-      await startJobPolling(jobId);
+      await startJobUpdates(jobId);
     } catch (cause) {
       setMcqError(cause instanceof Error ? cause.message : "Unexpected error while retrying database save.");
       setMcqStatus(null);
@@ -559,7 +901,46 @@ export default function TopicSplitForm() {
       setAllowPersistenceRetry(true);
       setIsGeneratingMcqs(false);
     }
-  }, [jobId, resetJobPolling, startJobPolling]);
+  }, [jobId, resetJobPolling, startJobUpdates]);
+
+  const handleResumeJob = useCallback(async () => {
+    if (!jobId) {
+      return;
+    }
+
+    resetJobPolling();
+    setIsGeneratingMcqs(true);
+    setMcqError(null);
+    setMcqStatus("Resuming MCQ generation…");
+    setAllowValidationRetry(false);
+    setAllowPersistenceRetry(false);
+    setResumable(false);
+
+    try {
+      const response = await fetch("/api/mcqs/resume", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId }),
+      });
+
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error((payload as { error?: string } | null)?.error ?? "Unable to resume job.");
+      }
+
+      setJobStatus((payload as { status?: JobStatus | null })?.status ?? "pending");
+
+      await startJobUpdates(jobId);
+    } catch (cause) {
+      setMcqError(cause instanceof Error ? cause.message : "Unexpected error while resuming job.");
+      setMcqStatus(null);
+      setResumable(true);
+      setIsGeneratingMcqs(false);
+    }
+  }, [jobId, resetJobPolling, startJobUpdates]);
 
   useEffect(() => {
     return () => {
@@ -669,8 +1050,37 @@ export default function TopicSplitForm() {
           disabled={isSubmitting}
         />
         <span className="status">{fileLabel}</span>
+        {chaptersStatus && <span className="status">{chaptersStatus}</span>}
       </fieldset>
 
+      {detectedChapters.length > 0 && (
+        <fieldset>
+          <label htmlFor="detectedChapter">Chapter</label>
+          <select
+            id="detectedChapter"
+            value={selectedChapter ? String(selectedChapter.startPage) : ""}
+            onChange={(event) => {
+              const chapter = detectedChapters.find(
+                (entry) => String(entry.startPage) === event.target.value,
+              ) ?? null;
+              setSelectedChapter(chapter);
+              if (chapter) {
+                setChapterNumber(String(chapter.number));
+                setChapterTitle(chapter.title);
+              }
+            }}
+            disabled={isSubmitting}
+          >
+            <option value="">Whole book (enter the chapter below)</option>
+            {detectedChapters.map((chapter) => (
+              <option key={chapter.startPage} value={String(chapter.startPage)}>
+                {chapter.number}. {chapter.title} (pp. {chapter.startPage}–{chapter.endPage})
+              </option>
+            ))}
+          </select>
+        </fieldset>
+      )}
+
       <fieldset>
         <label htmlFor="chapterNumber">Chapter number</label>
         <input
@@ -718,6 +1128,21 @@ export default function TopicSplitForm() {
           >
             {isGeneratingMcqs ? "Generating MCQs…" : "Download MCQs (CSV)"}
           </button>
+          {csvProfiles.length > 1 && (
+            <select
+              value={selectedCsvProfile}
+              onChange={(event) => setSelectedCsvProfile(event.target.value)}
+              disabled={isGeneratingMcqs}
+              className="select-compact"
+              aria-label="CSV layout"
+            >
+              {csvProfiles.map((profile) => (
+                <option key={profile.name} value={profile.name} title={profile.description}>
+                  {profile.name === "default" ? "Default CSV layout" : profile.name}
+                </option>
+              ))}
+            </select>
+          )}
           {allowValidationRetry && jobId && (
             <button
               type="button"
@@ -727,6 +1152,15 @@ export default function TopicSplitForm() {
               {isGeneratingMcqs ? "Retrying validation…" : "Retry validation"}
             </button>
           )}
+          {resumable && jobId && (
+            <button
+              type="button"
+              onClick={handleResumeJob}
+              disabled={isGeneratingMcqs}
+            >
+              {isGeneratingMcqs ? "Resuming…" : "Resume job"}
+            </button>
+          )}
           {allowPersistenceRetry && jobId && (
             <button
               type="button"
@@ -736,19 +1170,134 @@ export default function TopicSplitForm() {
               {isGeneratingMcqs ? "Retrying database save…" : "Retry database save"}
             </button>
           )}
+          {jobId && (jobStatus === "succeeded" || jobStatus === "failed") && (
+            <a
+              className="button-link"
+              href={`/jobs/${encodeURIComponent(jobId)}/review`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              Review &amp; edit questions
+            </a>
+          )}
+          {failedTopics.length > 0 && (
+            <a className="button-link" href="/review" target="_blank" rel="noreferrer">
+              Open review queue ({failedTopics.length} topic(s))
+            </a>
+          )}
           {mcqStatus && !mcqError && <span className="status">{mcqStatus}</span>}
           {mcqError && <span className="status error">{mcqError}</span>}
         </div>
       )}
 
-      {topics && topics.length > 0 && (
+      {topics && (
+        <fieldset>
+          <label htmlFor="rubricProfile">Rubric</label>
+          <select
+            id="rubricProfile"
+            value={selectedRubric}
+            onChange={(event) => setSelectedRubric(event.target.value)}
+            disabled={isGeneratingMcqs}
+            className="select-compact"
+          >
+            <option value="">
+              {resolvedRubric ? `Class/subject default (${resolvedRubric})` : "Class/subject default"}
+            </option>
+            {rubricProfiles.map((profile) => (
+              <option key={profile.name} value={profile.name} title={profile.description}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="guidance">Extra guidance (optional)</label>
+          <textarea
+            id="guidance"
+            value={guidance}
+            onChange={(event) => setGuidance(event.target.value)}
+            disabled={isGeneratingMcqs}
+            rows={3}
+            maxLength={2000}
+            placeholder="e.g. Use Indian currency in word problems; avoid questions on the activity boxes."
+          />
+        </fieldset>
+      )}
+
+      {topics && (
         <section className="topic-grid" aria-live="polite">
-          {topics.map((topic) => (
-            <article key={topic.topic} className="topic-card">
-              <h3>{topic.topic}</h3>
-              <p>{topic.description}</p>
+          {topics.map((topic, index) => (
+            // Index keys keep inputs focused while a topic is renamed.
+            <article key={index} className="topic-card topic-editor">
+              <input
+                type="text"
+                value={topic.topic}
+                onChange={(event) => updateTopic(index, { topic: event.target.value })}
+                disabled={isGeneratingMcqs}
+                aria-label={`Topic ${index + 1} name`}
+              />
+              <textarea
+                value={topic.description}
+                onChange={(event) => updateTopic(index, { description: event.target.value })}
+                disabled={isGeneratingMcqs}
+                rows={2}
+                aria-label={`Topic ${index + 1} description`}
+              />
+              <label className="topic-count">
+                Questions
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_TOPIC_QUESTIONS}
+                  placeholder="Rubric"
+                  value={topic.questionCount ?? ""}
+                  onChange={(event) => {
+                    const value = Number.parseInt(event.target.value, 10);
+                    updateTopic(index, {
+                      questionCount: Number.isNaN(value)
+                        ? undefined
+                        : Math.min(Math.max(value, 1), MAX_TOPIC_QUESTIONS),
+                    });
+                  }}
+                  disabled={isGeneratingMcqs}
+                />
+              </label>
+              <div className="button-row wrap">
+                <button type="button" onClick={() => moveTopic(index, -1)} disabled={isGeneratingMcqs || index === 0}>
+                  Move up
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveTopic(index, 1)}
+                  disabled={isGeneratingMcqs || index === topics.length - 1}
+                >
+                  Move down
+                </button>
+                <button
+                  type="button"
+                  onClick={() => mergeTopicWithNext(index)}
+                  disabled={isGeneratingMcqs || index === topics.length - 1}
+                >
+                  Merge with next
+                </button>
+                <button type="button" onClick={() => splitTopic(index)} disabled={isGeneratingMcqs}>
+                  Split
+                </button>
+                <button type="button" onClick={() => removeTopic(index)} disabled={isGeneratingMcqs}>
+                  Remove
+                </button>
+              </div>
             </article>
           ))}
+          <div className="button-row wrap">
+            <button type="button" onClick={addTopic} disabled={isGeneratingMcqs}>
+              Add topic
+            </button>
+            <span className="status">
+              {topics.length} topic(s)
+              {topics.every((topic) => topic.questionCount)
+                ? ` · ${topics.reduce((sum, topic) => sum + (topic.questionCount ?? 0), 0)} questions`
+                : ""}
+            </span>
+          </div>
         </section>
       )}
 
@@ -761,6 +1310,12 @@ export default function TopicSplitForm() {
               Last update: {jobLogs[jobLogs.length - 1]}
             </>
           )}
+          {topicProgress && (
+            <>
+              <br />
+              {topicProgress.stage === "generation" ? "Generated" : "Validated"} {topicProgress.completed}/{topicProgress.total} topics (latest: {topicProgress.topic})
+            </>
+          )}
           {openAiUsage && (
             <>
               <br />
@@ -773,6 +1328,12 @@ export default function TopicSplitForm() {
               Anthropic tokens — input: {anthropicUsage.inputTokens}, output: {anthropicUsage.outputTokens}, total: {anthropicUsage.totalTokens}
             </>
           )}
+          {jobCost && (
+            <>
+              <br />
+              Cost so far: {jobCost.total.toFixed(4)} {jobCost.currency}
+            </>
+          )}
         </div>
       )}
     </form>
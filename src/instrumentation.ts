@@ -0,0 +1,27 @@
+// Jobs whose owner stopped heartbeating are picked up at startup and then on this
+// interval, since a restarted instance's own last heartbeat may still look fresh.
+const INTERRUPTED_JOB_CHECK_MS = 60_000;
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { getJobStore } = await import("@/app/api/mcqs/jobStore");
+
+  const recover = async () => {
+    try {
+      const interrupted = await getJobStore().markInterruptedJobs();
+      if (interrupted.length > 0) {
+        console.warn(
+          `[jobs] Marked ${interrupted.length} interrupted job(s) as resumable: ${interrupted.join(", ")}`,
+        );
+      }
+    } catch (error) {
+      console.error("[jobs] Unable to recover interrupted jobs", error);
+    }
+  };
+
+  await recover();
+  setInterval(() => void recover(), INTERRUPTED_JOB_CHECK_MS).unref?.();
+}
@@ -1,24 +1,26 @@
 import { jsonrepair } from "jsonrepair";
-
-export const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
-
-export function getAnthropicApiKey(): string | null {
-  const key = process.env.ANTHROPIC_API_KEY;
-
-  if (!key || key.trim().length === 0) {
-    return null;
-  }
-
-  return key;
-}
-
+import { getConcurrencyLimit, mapWithConcurrency } from "./concurrency";
+import { getStageModel, type LlmImage, type StageModel } from "./llm";
+import { retryWithBackoff } from "./retry";
+
+/**
+ * A validator's rewrite of a rejected question. Only the answer fields of the
+ * question's format are expected; the caller checks them against that format.
+ */
 export interface ReplacementMcq {
   bloom?: string;
   difficulty?: string;
   type?: string;
+  format?: string;
   stem: string;
-  options: string[];
-  correct_index: number;
+  options?: string[];
+  correct_index?: number;
+  correct_indices?: number[];
+  answer?: boolean | number | string;
+  tolerance?: number;
+  unit?: string;
+  accepted_answers?: string[];
+  pairs?: Array<{ left: string; right: string }>;
   explanation: string;
   source_spans?: Array<{ page: number | null; text_snippet: string }>;
   sources?: Array<{ page?: number | string | null; text_snippet?: string }>;
@@ -26,19 +28,31 @@ export interface ReplacementMcq {
 
 export interface TopicValidationQuestion {
   index: number;
+  /** Question format name, e.g. "single" or "numeric". */
+  format: string;
   stem: string;
+  /** Lettered options; empty for formats without them. */
   options: string[];
-  correctLetter: string;
+  /** Letters of the correct options, or the answer itself for other formats. */
+  correctAnswer: string;
   explanation: string;
   sourceSnippet?: string | null;
+  /** Chapter text retrieved from the book for this question. */
+  bookPassage?: string | null;
+  /** Cited snippets that were not found in the book. */
+  unsupportedSnippets?: string[];
   bloom?: string;
   difficulty?: string;
   type?: string;
+  /** Label of the attached figure the question is about, e.g. `Figure F2 (page 14)`. */
+  figure?: string;
 }
 
 export interface TopicValidationPayload {
   topic: string;
   questions: TopicValidationQuestion[];
+  /** Figures the questions refer to, attached after the prompt. */
+  images?: LlmImage[];
 }
 
 export interface TopicValidationVerdict {
@@ -66,12 +80,18 @@ export interface McqValidatorSummary {
   topicSummaries: TopicValidationResponse[];
 }
 
-const CLAUDE_MODEL = "claude-3-haiku-20240307";
-const MAX_VALIDATOR_TOKENS = 1024;
+// Room for the topic summary plus a rewrite of every question. Match and
+// multiple-select rewrites carry more answer fields, so they get more; the total
+// stops at Claude 3 Haiku's output limit.
+const VALIDATOR_BASE_TOKENS = 1024;
+const VALIDATOR_TOKENS_PER_QUESTION: Record<string, number> = { match: 600, multiple: 450 };
+const DEFAULT_VALIDATOR_TOKENS_PER_QUESTION = 350;
+const MAX_VALIDATOR_TOKENS = 4096;
+const DEFAULT_VALIDATION_CONCURRENCY = 3;
 
 function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
   const header = [
-    "You are a meticulous educational assessor tasked with validating a set of multiple-choice questions for a single topic.",
+    "You are a meticulous educational assessor tasked with validating a set of assessment questions for a single topic.",
     "For each question, determine whether the provided correct answer and explanation are fully justified by the supplied context.",
     "If a question is flawed, rewrite it so it satisfies the rubric before returning your decision.",
     "Respond in JSON only using this format:",
@@ -89,9 +109,15 @@ function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
     '        "bloom": string,',
     '        "difficulty": string,',
     '        "type": string,',
+    '        "format": string,',
     '        "stem": string,',
-    '        "options": string[4],',
-    '        "correct_index": 0 | 1 | 2 | 3,',
+    '        "options": string[4],                  // single and multiple',
+    '        "correct_index": 0 | 1 | 2 | 3,         // single',
+    '        "correct_indices": number[],            // multiple: 2 or 3 positions',
+    '        "answer": boolean | number | string,    // true_false, numeric, short_answer',
+    '        "tolerance": number, "unit": string,    // numeric',
+    '        "accepted_answers": string[],           // short_answer',
+    '        "pairs": [{ "left": string, "right": string }], // match, in the correct matching',
     '        "explanation": string,',
     '        "source_spans": [{ "page": number | null, "text_snippet": string }]',
     "      }",
@@ -99,7 +125,15 @@ function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
     "  ]",
     "}",
     "Each verdict must correspond to the question index provided in the input.",
+    "A replacement keeps the format of the question it replaces and includes only the answer fields that format uses (marked in the comments above).",
+    "When a book passage is given, it is text retrieved from the chapter itself: confirm the answer and explanation against it rather than against the source snippet.",
+    "A citation marked as not found in the book does not appear in the chapter; do not treat it as support, and mention it in the reasons.",
   ];
+  if (payload.questions.some((question) => question.figure)) {
+    header.push(
+      "A question with a Figure line is about the attached image with that label: check that the stem, answer and explanation match what the image shows. A replacement for it must stay about the same figure.",
+    );
+  }
 
   const questionBlocks = payload.questions.map((question) => {
     const optionLines = question.options
@@ -108,9 +142,11 @@ function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
 
     const details: string[] = [
       `  - Index: ${question.index}`,
+      `    Format: ${question.format}`,
       `    Stem: ${question.stem}`,
-      optionLines,
-      `    Provided correct answer: ${question.correctLetter}`,
+      ...(question.figure ? [`    Figure: ${question.figure}`] : []),
+      ...(optionLines ? [optionLines] : []),
+      `    Provided correct answer: ${question.correctAnswer}`,
       `    Explanation: ${question.explanation}`,
     ];
 
@@ -126,6 +162,12 @@ function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
     if (question.sourceSnippet) {
       details.push(`    Source snippet: ${question.sourceSnippet}`);
     }
+    if (question.bookPassage) {
+      details.push(`    Book passage: ${question.bookPassage}`);
+    }
+    for (const snippet of question.unsupportedSnippets ?? []) {
+      details.push(`    Citation not found in the book: ${snippet}`);
+    }
 
     return details.join("\n");
   });
@@ -133,29 +175,12 @@ function buildTopicValidationPrompt(payload: TopicValidationPayload): string {
   return `${header.join("\n")}\n\nTopic: ${payload.topic}\nQuestions:\n${questionBlocks.join("\n\n")}`;
 }
 
-function sanitizeJsonText(raw: string): string {
-  const trimmed = raw.trim();
-
-  if (trimmed.startsWith("```")) {
-    const withoutOpening = trimmed.replace(/^```[a-zA-Z]*\n?/u, "");
-    const closingIndex = withoutOpening.lastIndexOf("```\n");
-
-    if (closingIndex !== -1) {
-      return withoutOpening.slice(0, closingIndex).trim();
-    }
-
-    return withoutOpening.replace(/```$/u, "").trim();
-  }
-
-  return trimmed;
-}
-
 function normaliseReplacement(replacement: ReplacementMcq): ReplacementMcq {
   const options = Array.isArray(replacement.options)
     ? [...replacement.options]
-    : [];
+    : undefined;
 
-  while (options.length < 4) {
+  while (options && options.length < 4) {
     options.push("");
   }
 
@@ -187,57 +212,32 @@ function normaliseReplacement(replacement: ReplacementMcq): ReplacementMcq {
   };
 }
 
-async function callAnthropicValidatorForTopic(
+function getValidatorTokenLimit(payload: TopicValidationPayload): number {
+  const total = payload.questions.reduce(
+    (sum, question) =>
+      sum + (VALIDATOR_TOKENS_PER_QUESTION[question.format] ?? DEFAULT_VALIDATOR_TOKENS_PER_QUESTION),
+    VALIDATOR_BASE_TOKENS,
+  );
+  return Math.min(total, MAX_VALIDATOR_TOKENS);
+}
+
+async function callValidatorForTopic(
   payload: TopicValidationPayload,
+  llm: StageModel,
 ): Promise<TopicValidationResponse> {
-  const apiKey = getAnthropicApiKey();
-
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY is not configured on the server.");
-  }
-
   const prompt = buildTopicValidationPrompt(payload);
 
-  const response = await fetch(ANTHROPIC_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: CLAUDE_MODEL,
-      max_tokens: MAX_VALIDATOR_TOKENS,
-      system:
-        "You are a rigorous assessment validator. Respond only with JSON following the provided schema.",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    }),
+  const { text: textOutput, usage } = await llm.provider.completeJson({
+    model: llm.model,
+    system:
+      "You are a rigorous assessment validator. Respond only with JSON following the provided schema.",
+    prompt,
+    maxOutputTokens: getValidatorTokenLimit(payload),
+    ...(payload.images?.length ? { images: payload.images } : {}),
   });
 
-  if (!response.ok) {
-    const message = await response.text();
-    const error = new Error(
-      `Anthropic validation failed: ${response.status} ${response.statusText} – ${message}`,
-    );
-    (error as { status?: number }).status = response.status;
-    throw error;
-  }
-
-  const json = (await response.json()) as { content?: Array<{ text?: string }>; error?: unknown };
-  const textOutput = sanitizeJsonText(json.content?.[0]?.text ?? "");
-
   if (!textOutput) {
-    throw new Error("Anthropic validator returned an empty body.");
+    throw new Error(`Validator (${llm.label}) returned an empty body.`);
   }
 
   let parsed: TopicValidationResponse;
@@ -245,15 +245,15 @@ async function callAnthropicValidatorForTopic(
   try {
     parsed = JSON.parse(textOutput) as TopicValidationResponse;
   } catch (error) {
-    console.error("[anthropic] Failed to parse topic validation JSON", error, "output:", textOutput);
+    console.error("[validator] Failed to parse topic validation JSON", error, "output:", textOutput);
 
     try {
       const repaired = jsonrepair(textOutput);
       parsed = JSON.parse(repaired) as TopicValidationResponse;
-      console.warn("[anthropic] JSON repaired successfully for topic", payload.topic);
+      console.warn("[validator] JSON repaired successfully for topic", payload.topic);
     } catch (repairError) {
       console.error(
-        "[anthropic] Unable to repair topic validation JSON",
+        "[validator] Unable to repair topic validation JSON",
         repairError,
         "original output:",
         textOutput,
@@ -279,12 +279,15 @@ async function callAnthropicValidatorForTopic(
     } as TopicValidationVerdict;
   });
 
-  const usage = (json as { usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number } }).usage;
 
   return {
     topic: parsed.topic ?? payload.topic,
     verdicts,
-    usage,
+    usage: {
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      total_tokens: usage.totalTokens,
+    },
   };
 }
 
@@ -299,8 +302,21 @@ export interface ValidationRunResult {
   usageTotals: TopicValidationTotals;
 }
 
+export interface ValidateTopicsOptions {
+  /** Provider and model to validate with. Defaults to the `validation` stage config. */
+  llm?: StageModel;
+  /** Maximum number of topics validated in parallel. Defaults to `MCQ_VALIDATION_CONCURRENCY` or 3. */
+  concurrency?: number;
+  log?: (...args: unknown[]) => void;
+  /** Awaited before each topic's validator call; throwing stops the run. */
+  beforeTopic?: (topic: TopicValidationPayload, topicIndex: number) => Promise<void>;
+  /** Called as each topic finishes, in completion order. */
+  onTopicValidated?: (result: TopicValidationResponse, topicIndex: number) => void;
+}
+
 export async function validateTopics(
   topics: TopicValidationPayload[],
+  options: ValidateTopicsOptions = {},
 ): Promise<ValidationRunResult> {
   if (topics.length === 0) {
     return {
@@ -312,14 +328,29 @@ export async function validateTopics(
     };
   }
 
-  const summaries: TopicValidationResponse[] = [];
   const usageTotals: TopicValidationTotals = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
 
-  for (const topic of topics) {
+  const concurrency =
+    options.concurrency
+    ?? getConcurrencyLimit("MCQ_VALIDATION_CONCURRENCY", DEFAULT_VALIDATION_CONCURRENCY);
+
+  const llm = options.llm ?? getStageModel("validation");
+
+  const summaries = await mapWithConcurrency(topics, concurrency, async (topic, index) => {
+    await options.beforeTopic?.(topic, index);
     console.log("[validator] Validating topic", topic.topic, "questionCount", topic.questions.length);
-    const result = await callAnthropicValidatorForTopic(topic);
-    summaries.push(result);
+    const result = await retryWithBackoff(() => callValidatorForTopic(topic, llm), {
+      label: `Validation (${llm.label}) for topic "${topic.topic}"`,
+      log: options.log,
+      initialDelayMs: 5000,
+      maxAttempts: 6,
+      gate: llm.provider.gate,
+    });
+    options.onTopicValidated?.(result, index);
+    return result;
+  });
 
+  for (const result of summaries) {
     if (result.usage) {
       usageTotals.inputTokens += result.usage.input_tokens ?? 0;
       usageTotals.outputTokens += result.usage.output_tokens ?? 0;
@@ -0,0 +1,141 @@
+import { bookSetId } from "./bookText";
+import { extractPdfImages } from "./pdf";
+import { figureKeyFromUrl, figureUrl, getFigureStore, isFigureKey, type FigureFile } from "./figureStore";
+import type { LlmImage } from "./llm/types";
+
+/** A figure extracted from a book, as listed in its figure set and on jobs. */
+export interface BookFigure {
+  /** Short id the generator cites, e.g. `F3`; unique within the figure set. */
+  id: string;
+  page: number;
+  caption: string | null;
+  /** Store key of the PNG. */
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface FigureSettings {
+  enabled: boolean;
+  /** Most figures kept per book or chapter range. */
+  maxFigures: number;
+  /** Longest side of a stored figure, in pixels. */
+  maxSize: number;
+}
+
+const DEFAULT_MAX_FIGURES = 8;
+const DEFAULT_MAX_SIZE = 1024;
+
+export function getFigureSettings(): FigureSettings {
+  const read = (name: string, fallback: number) => {
+    const parsed = Number.parseInt(process.env[name] ?? "", 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    enabled: process.env.MCQ_FIGURES?.trim().toLowerCase() !== "off",
+    maxFigures: read("MCQ_FIGURE_MAX", DEFAULT_MAX_FIGURES),
+    maxSize: read("MCQ_FIGURE_MAX_SIZE", DEFAULT_MAX_SIZE),
+  };
+}
+
+function manifestKey(setId: string): string {
+  return `books/${setId}/figures.json`;
+}
+
+/** The figures listed for a set (see `bookSetId`), or null when the set was never extracted. */
+export async function loadFigureSet(setId: string): Promise<BookFigure[] | null> {
+  const manifest = await getFigureStore().get(manifestKey(setId));
+  if (!manifest) {
+    return null;
+  }
+  const figures = JSON.parse(Buffer.from(manifest.bytes).toString("utf8")) as BookFigure[];
+  return Array.isArray(figures) ? figures : null;
+}
+
+/**
+ * Extracts the figures of a book (or of its chapter pages) into the figure store and
+ * lists them in the set's manifest. A set that was already extracted is returned as is,
+ * so re-uploading a book does not extract it again.
+ */
+export async function prepareBookFigures(
+  bytes: Uint8Array,
+  bookHash: string,
+  pageRange: { startPage: number; endPage: number } | null,
+): Promise<{ setId: string; figures: BookFigure[] }> {
+  const setId = bookSetId(bookHash, pageRange);
+  const existing = await loadFigureSet(setId);
+  if (existing) {
+    return { setId, figures: existing };
+  }
+
+  const settings = getFigureSettings();
+  const store = getFigureStore();
+  const images = await extractPdfImages(bytes, {
+    ...(pageRange ?? {}),
+    maxImages: settings.maxFigures,
+    maxSize: settings.maxSize,
+  });
+
+  const figures: BookFigure[] = [];
+  for (const image of images) {
+    // Images are keyed by page, so chapter ranges of the same book share them.
+    const key = `books/${bookHash}/figures/p${image.page}-${image.index}.png`;
+    await store.put(key, { bytes: image.png, contentType: "image/png" });
+    figures.push({
+      id: `F${figures.length + 1}`,
+      page: image.page,
+      caption: image.caption,
+      key,
+      url: figureUrl(key),
+      width: image.width,
+      height: image.height,
+    });
+  }
+
+  await store.put(manifestKey(setId), {
+    bytes: new Uint8Array(Buffer.from(JSON.stringify(figures))),
+    contentType: "application/json",
+  });
+  return { setId, figures };
+}
+
+/** How a figure is named in prompts, e.g. `Figure F2 (page 14): Fig. 3.1 Parts of a flower`. */
+export function describeFigure(figure: BookFigure): string {
+  return `Figure ${figure.id} (page ${figure.page})${figure.caption ? `: ${figure.caption}` : ""}`;
+}
+
+/** The figures' images for a model request, by figure id; figures missing from the store are left out. */
+export async function loadFigureImages(figures: BookFigure[]): Promise<Map<string, LlmImage>> {
+  const store = getFigureStore();
+  const images = new Map<string, LlmImage>();
+  for (const figure of figures) {
+    const file = isFigureKey(figure.key) ? await store.get(figure.key) : null;
+    if (file) {
+      images.set(figure.id, {
+        label: describeFigure(figure),
+        mediaType: file.contentType === "image/jpeg" ? "image/jpeg" : "image/png",
+        data: Buffer.from(file.bytes).toString("base64"),
+      });
+    }
+  }
+  return images;
+}
+
+/**
+ * Loads the stored figures behind image URLs, keyed by URL, e.g. to bundle them into
+ * an export. URLs that do not point into the figure store, or whose figure is gone,
+ * are left out.
+ */
+export async function loadFigureFiles(urls: string[]): Promise<Map<string, FigureFile>> {
+  const store = getFigureStore();
+  const files = new Map<string, FigureFile>();
+  for (const url of new Set(urls)) {
+    const key = figureKeyFromUrl(url);
+    const file = key ? await store.get(key) : null;
+    if (file) {
+      files.set(url, file);
+    }
+  }
+  return files;
+}
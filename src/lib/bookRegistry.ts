@@ -0,0 +1,354 @@
+import { createHash } from "node:crypto";
+import type OpenAI from "openai";
+import { ensureSchema, getDbPool } from "./db";
+import { getErrorStatus } from "./retry";
+
+/** Vector stores expire after this many days without activity (`last_active_at`). */
+export const VECTOR_STORE_EXPIRATION_DAYS = 2;
+/** Prefix of every vector store the app creates; the sweeper only touches these. */
+export const BOOK_STORE_NAME_PREFIX = "book-";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SWEEP_INTERVAL_MINUTES = 60;
+// Unregistered stores younger than this may still be mid-upload.
+const ORPHAN_GRACE_MS = DAY_MS;
+
+export interface BookStoreEntry {
+  /** SHA-256 of the PDF bytes, hex-encoded. */
+  bookHash: string;
+  /** `book` for the whole PDF, or `pages:<start>-<end>` for an uploaded chapter range. */
+  scope: string;
+  vectorStoreId: string;
+  fileIds: string[];
+  filename: string;
+  byteSize: number;
+  pageCount: number | null;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+export interface BookRegistry {
+  find(bookHash: string, scope: string): Promise<BookStoreEntry | null>;
+  save(entry: BookStoreEntry): Promise<void>;
+  /** Records that a store was used, pushing its expiry out like OpenAI does. */
+  touch(vectorStoreId: string): Promise<void>;
+  remove(vectorStoreId: string): Promise<void>;
+  list(): Promise<BookStoreEntry[]>;
+}
+
+export interface SweepReport {
+  checked: number;
+  refreshed: string[];
+  removed: string[];
+  orphansDeleted: string[];
+  errors: string[];
+}
+
+declare global {
+  var __mcqBookRegistry: BookRegistry | undefined;
+  var __mcqBookSweeper: ReturnType<typeof setInterval> | undefined;
+}
+
+export function hashPdf(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export function bookScope(pageRange: { startPage: number; endPage: number } | null): string {
+  return pageRange ? `pages:${pageRange.startPage}-${pageRange.endPage}` : "book";
+}
+
+function nextExpiry(from = Date.now()): number {
+  return from + VECTOR_STORE_EXPIRATION_DAYS * DAY_MS;
+}
+
+class MemoryBookRegistry implements BookRegistry {
+  private readonly entries = new Map<string, BookStoreEntry>();
+
+  async find(bookHash: string, scope: string): Promise<BookStoreEntry | null> {
+    return this.entries.get(`${bookHash}#${scope}`) ?? null;
+  }
+
+  async save(entry: BookStoreEntry): Promise<void> {
+    this.entries.set(`${entry.bookHash}#${entry.scope}`, entry);
+  }
+
+  async touch(vectorStoreId: string): Promise<void> {
+    const now = Date.now();
+    for (const entry of this.entries.values()) {
+      if (entry.vectorStoreId === vectorStoreId) {
+        entry.lastUsedAt = now;
+        entry.expiresAt = nextExpiry(now);
+      }
+    }
+  }
+
+  async remove(vectorStoreId: string): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.vectorStoreId === vectorStoreId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async list(): Promise<BookStoreEntry[]> {
+    return [...this.entries.values()];
+  }
+}
+
+const BOOK_STORE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS mcq_book_stores (
+     book_hash TEXT NOT NULL,
+     scope TEXT NOT NULL,
+     vector_store_id TEXT NOT NULL,
+     file_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+     filename TEXT NOT NULL,
+     byte_size BIGINT NOT NULL,
+     page_count INTEGER,
+     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+     expires_at TIMESTAMPTZ NOT NULL,
+     PRIMARY KEY (book_hash, scope)
+   )`,
+  "CREATE INDEX IF NOT EXISTS mcq_book_stores_store_idx ON mcq_book_stores (vector_store_id)",
+  "CREATE INDEX IF NOT EXISTS mcq_book_stores_expires_idx ON mcq_book_stores (expires_at)",
+];
+
+interface BookStoreRow {
+  book_hash: string;
+  scope: string;
+  vector_store_id: string;
+  file_ids: string[];
+  filename: string;
+  byte_size: string | number;
+  page_count: number | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+}
+
+function fromRow(row: BookStoreRow): BookStoreEntry {
+  return {
+    bookHash: row.book_hash,
+    scope: row.scope,
+    vectorStoreId: row.vector_store_id,
+    fileIds: row.file_ids ?? [],
+    filename: row.filename,
+    byteSize: Number(row.byte_size),
+    pageCount: row.page_count,
+    createdAt: new Date(row.created_at).getTime(),
+    lastUsedAt: new Date(row.last_used_at).getTime(),
+    expiresAt: new Date(row.expires_at).getTime(),
+  };
+}
+
+class PostgresBookRegistry implements BookRegistry {
+  private ensureTable(): Promise<void> {
+    return ensureSchema("book_stores", BOOK_STORE_SCHEMA);
+  }
+
+  async find(bookHash: string, scope: string): Promise<BookStoreEntry | null> {
+    await this.ensureTable();
+    const { rows } = await getDbPool().query<BookStoreRow>(
+      "SELECT * FROM mcq_book_stores WHERE book_hash = $1 AND scope = $2",
+      [bookHash, scope],
+    );
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async save(entry: BookStoreEntry): Promise<void> {
+    await this.ensureTable();
+    await getDbPool().query(
+      `INSERT INTO mcq_book_stores
+         (book_hash, scope, vector_store_id, file_ids, filename, byte_size, page_count,
+          created_at, last_used_at, expires_at)
+       VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7,
+          to_timestamp($8 / 1000.0), to_timestamp($9 / 1000.0), to_timestamp($10 / 1000.0))
+       ON CONFLICT (book_hash, scope) DO UPDATE SET
+         vector_store_id = EXCLUDED.vector_store_id,
+         file_ids = EXCLUDED.file_ids,
+         filename = EXCLUDED.filename,
+         byte_size = EXCLUDED.byte_size,
+         page_count = EXCLUDED.page_count,
+         created_at = EXCLUDED.created_at,
+         last_used_at = EXCLUDED.last_used_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        entry.bookHash,
+        entry.scope,
+        entry.vectorStoreId,
+        JSON.stringify(entry.fileIds),
+        entry.filename,
+        entry.byteSize,
+        entry.pageCount,
+        entry.createdAt,
+        entry.lastUsedAt,
+        entry.expiresAt,
+      ],
+    );
+  }
+
+  async touch(vectorStoreId: string): Promise<void> {
+    await this.ensureTable();
+    const now = Date.now();
+    await getDbPool().query(
+      `UPDATE mcq_book_stores
+          SET last_used_at = to_timestamp($2 / 1000.0), expires_at = to_timestamp($3 / 1000.0)
+        WHERE vector_store_id = $1`,
+      [vectorStoreId, now, nextExpiry(now)],
+    );
+  }
+
+  async remove(vectorStoreId: string): Promise<void> {
+    await this.ensureTable();
+    await getDbPool().query("DELETE FROM mcq_book_stores WHERE vector_store_id = $1", [vectorStoreId]);
+  }
+
+  async list(): Promise<BookStoreEntry[]> {
+    await this.ensureTable();
+    const { rows } = await getDbPool().query<BookStoreRow>(
+      "SELECT * FROM mcq_book_stores ORDER BY last_used_at DESC",
+    );
+    return rows.map(fromRow);
+  }
+}
+
+export function getBookRegistry(): BookRegistry {
+  if (!globalThis.__mcqBookRegistry) {
+    globalThis.__mcqBookRegistry = process.env.DATABASE_URL
+      ? new PostgresBookRegistry()
+      : new MemoryBookRegistry();
+  }
+  return globalThis.__mcqBookRegistry;
+}
+
+export function newBookStoreEntry(
+  fields: Omit<BookStoreEntry, "createdAt" | "lastUsedAt" | "expiresAt">,
+  storeExpiresAt?: number | null,
+): BookStoreEntry {
+  const now = Date.now();
+  return {
+    ...fields,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: storeExpiresAt ? storeExpiresAt * 1000 : nextExpiry(now),
+  };
+}
+
+async function deleteVectorStore(openai: OpenAI, vectorStoreId: string): Promise<void> {
+  try {
+    await openai.vectorStores.del(vectorStoreId);
+  } catch (error) {
+    if (getErrorStatus(error) !== 404) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Cleans up book vector stores. Registry entries past their expiry are checked with
+ * OpenAI: stores still active (used by a job since) get their expiry refreshed, gone
+ * or expired ones are deleted and unregistered. Stores the app created (named
+ * `book-…`) that no registry entry points to are deleted once they are a day old;
+ * set `MCQ_BOOK_SWEEP_ORPHANS=off` to keep them.
+ */
+export async function sweepBookStores(openai: OpenAI): Promise<SweepReport> {
+  const registry = getBookRegistry();
+  const report: SweepReport = { checked: 0, refreshed: [], removed: [], orphansDeleted: [], errors: [] };
+  const entries = await registry.list();
+  const now = Date.now();
+
+  for (const entry of entries) {
+    if (entry.expiresAt > now) {
+      continue;
+    }
+    report.checked += 1;
+
+    try {
+      const store = await openai.vectorStores.retrieve(entry.vectorStoreId).catch((error) => {
+        if (getErrorStatus(error) === 404) {
+          return null;
+        }
+        throw error;
+      });
+
+      if (store && store.status !== "expired") {
+        const expiresAt = store.expires_at ? store.expires_at * 1000 : nextExpiry(now);
+        if (expiresAt > now) {
+          await registry.save({ ...entry, expiresAt });
+          report.refreshed.push(entry.vectorStoreId);
+          continue;
+        }
+      }
+
+      if (store) {
+        await deleteVectorStore(openai, entry.vectorStoreId);
+      }
+      await registry.remove(entry.vectorStoreId);
+      report.removed.push(entry.vectorStoreId);
+    } catch (error) {
+      report.errors.push(
+        `${entry.vectorStoreId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  if (process.env.MCQ_BOOK_SWEEP_ORPHANS?.trim().toLowerCase() === "off") {
+    return report;
+  }
+
+  const registered = new Set(entries.map((entry) => entry.vectorStoreId));
+  try {
+    for await (const store of openai.vectorStores.list({ limit: 100 })) {
+      const isOwn = store.name?.startsWith(BOOK_STORE_NAME_PREFIX);
+      const isOld = store.created_at * 1000 < now - ORPHAN_GRACE_MS;
+      if (!isOwn || !isOld || registered.has(store.id)) {
+        continue;
+      }
+      try {
+        await deleteVectorStore(openai, store.id);
+        report.orphansDeleted.push(store.id);
+      } catch (error) {
+        report.errors.push(`${store.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } catch (error) {
+    report.errors.push(`Listing vector stores failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return report;
+}
+
+/**
+ * Starts the in-process sweeper once per server (`MCQ_BOOK_SWEEP_INTERVAL_MINUTES`,
+ * default 60; 0 disables it). Deployments with several instances can disable it and
+ * call `POST /api/topics/sweep` from a scheduler instead.
+ */
+export function startBookStoreSweeper(getClient: () => OpenAI | null) {
+  if (globalThis.__mcqBookSweeper) {
+    return;
+  }
+
+  const raw = Number.parseFloat(process.env.MCQ_BOOK_SWEEP_INTERVAL_MINUTES ?? "");
+  const minutes = Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_SWEEP_INTERVAL_MINUTES;
+  if (minutes === 0) {
+    return;
+  }
+
+  globalThis.__mcqBookSweeper = setInterval(() => {
+    const openai = getClient();
+    if (!openai) {
+      return;
+    }
+    sweepBookStores(openai)
+      .then((report) => {
+        if (report.removed.length + report.orphansDeleted.length + report.errors.length > 0) {
+          console.log("[book-registry] Sweep finished", report);
+        }
+      })
+      .catch((error) => {
+        console.error("[book-registry] Sweep failed", error);
+      });
+  }, minutes * 60 * 1000);
+  globalThis.__mcqBookSweeper.unref?.();
+}
@@ -0,0 +1,54 @@
+import type { BookPage } from "./grounding";
+import { getFigureStore } from "./figureStore";
+import { extractPdfText } from "./pdf";
+
+const BOOK_SET_ID = /^[0-9a-f]{64}\/(?:book|pages-\d+-\d+)$/;
+
+/**
+ * Names what was extracted from one upload: a book's hash plus its page range, like
+ * the book's vector stores. Figures and page text are kept under this id.
+ */
+export function bookSetId(bookHash: string, pageRange: { startPage: number; endPage: number } | null): string {
+  return `${bookHash}/${pageRange ? `pages-${pageRange.startPage}-${pageRange.endPage}` : "book"}`;
+}
+
+export function isBookSetId(value: unknown): value is string {
+  return typeof value === "string" && BOOK_SET_ID.test(value);
+}
+
+function pagesKey(setId: string): string {
+  return `books/${setId}/pages.json`;
+}
+
+/** The extracted page text of a set, or null when it was never extracted. */
+export async function loadBookText(setId: string): Promise<BookPage[] | null> {
+  const file = await getFigureStore().get(pagesKey(setId));
+  if (!file) {
+    return null;
+  }
+  const pages = JSON.parse(Buffer.from(file.bytes).toString("utf8")) as BookPage[];
+  return Array.isArray(pages) ? pages : null;
+}
+
+/**
+ * Extracts the text of a book (or of its chapter pages) so validation can be grounded
+ * without the vector store. Text that was already extracted is not extracted again.
+ */
+export async function prepareBookText(
+  bytes: Uint8Array,
+  bookHash: string,
+  pageRange: { startPage: number; endPage: number } | null,
+): Promise<{ setId: string; pageCount: number }> {
+  const setId = bookSetId(bookHash, pageRange);
+  const existing = await loadBookText(setId);
+  if (existing) {
+    return { setId, pageCount: existing.length };
+  }
+
+  const pages = await extractPdfText(bytes, pageRange ?? {});
+  await getFigureStore().put(pagesKey(setId), {
+    bytes: new Uint8Array(Buffer.from(JSON.stringify(pages))),
+    contentType: "application/json",
+  });
+  return { setId, pageCount: pages.length };
+}
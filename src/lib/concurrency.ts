@@ -0,0 +1,45 @@
+/**
+ * Reads a positive worker count from the environment, falling back when unset or invalid.
+ */
+export function getConcurrencyLimit(envName: string, fallback: number): number {
+  const raw = process.env[envName];
+  const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and returns the
+ * results in input order. After the first failure no new items are started; the
+ * error is rethrown once the in-flight calls settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  const runWorker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+
+  return results;
+}
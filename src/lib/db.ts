@@ -1,6 +1,7 @@
 import { Pool } from "pg";
 
 let pool: Pool | null = null;
+const schemaSetup = new Map<string, Promise<void>>();
 
 export function getDbPool(): Pool {
   const connectionString = process.env.DATABASE_URL;
@@ -15,3 +16,28 @@ export function getDbPool(): Pool {
 
   return pool;
 }
+
+/**
+ * Runs the given DDL statements once per process for the named schema block.
+ * Statements must be idempotent (`CREATE TABLE IF NOT EXISTS`, `ADD COLUMN IF NOT EXISTS`, …).
+ */
+export function ensureSchema(name: string, statements: string[]): Promise<void> {
+  const existing = schemaSetup.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const setup = (async () => {
+    const db = getDbPool();
+    for (const statement of statements) {
+      await db.query(statement);
+    }
+  })();
+
+  schemaSetup.set(name, setup);
+  setup.catch(() => {
+    schemaSetup.delete(name);
+  });
+
+  return setup;
+}
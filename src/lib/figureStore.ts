@@ -0,0 +1,208 @@
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface FigureFile {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+/** Where extracted figures, their manifests and book page text are kept. Keys are `/`-separated paths. */
+export interface FigureStore {
+  readonly name: "local" | "s3";
+  put(key: string, file: FigureFile): Promise<void>;
+  get(key: string): Promise<FigureFile | null>;
+}
+
+interface S3Settings {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+declare global {
+  var __mcqFigureStore: FigureStore | undefined;
+}
+
+const DEFAULT_FIGURE_DIR = ".figures";
+const DEFAULT_FIGURE_BASE_URL = "/api/figures";
+const FIGURE_KEY = /^[a-z0-9][a-z0-9._-]*(?:\/[a-z0-9][a-z0-9._-]*)*$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+};
+
+export function isFigureKey(key: string): boolean {
+  return FIGURE_KEY.test(key) && !key.split("/").includes("..");
+}
+
+function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** Files under `MCQ_FIGURE_DIR` (default `.figures`); also the stand-in for S3 in development. */
+class LocalFigureStore implements FigureStore {
+  readonly name = "local" as const;
+
+  constructor(private readonly root: string) {}
+
+  async put(key: string, file: FigureFile): Promise<void> {
+    const target = path.join(this.root, key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.bytes);
+  }
+
+  async get(key: string): Promise<FigureFile | null> {
+    try {
+      const bytes = await readFile(path.join(this.root, key));
+      return { bytes: new Uint8Array(bytes), contentType: contentTypeFor(key) };
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** SigV4 URI-encodes a path segment: everything but unreserved characters is escaped. */
+function encodePathSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, R2, …), addressed path-style as
+ * `<endpoint>/<bucket>/<key>` and signed with AWS Signature Version 4.
+ */
+class S3FigureStore implements FigureStore {
+  readonly name = "s3" as const;
+
+  constructor(private readonly settings: S3Settings) {}
+
+  private async send(method: "GET" | "PUT", key: string, file?: FigureFile): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey } = this.settings;
+    const objectPath = [bucket, ...key.split("/")].map(encodePathSegment).join("/");
+    const url = new URL(`${endpoint.replace(/\/+$/, "")}/${objectPath}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(file?.bytes ?? "");
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...(file ? { "content-type": file.contentType } : {}),
+    };
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(";");
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    // fetch sets Host itself.
+    const requestHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== "host"));
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      ...(file ? { body: Buffer.from(file.bytes) } : {}),
+    });
+  }
+
+  async put(key: string, file: FigureFile): Promise<void> {
+    const response = await this.send("PUT", key, file);
+    if (!response.ok) {
+      const error = new Error(`Storing figure ${key} failed: ${response.status} ${await response.text()}`);
+      Object.assign(error, { status: response.status });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<FigureFile | null> {
+    const response = await this.send("GET", key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const error = new Error(`Loading figure ${key} failed: ${response.status} ${await response.text()}`);
+      Object.assign(error, { status: response.status });
+      throw error;
+    }
+    return {
+      bytes: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") ?? contentTypeFor(key),
+    };
+  }
+}
+
+function readS3Settings(): S3Settings {
+  const read = (name: string) => process.env[name]?.trim() ?? "";
+  const settings = {
+    endpoint: read("MCQ_FIGURE_S3_ENDPOINT"),
+    bucket: read("MCQ_FIGURE_S3_BUCKET"),
+    region: read("MCQ_FIGURE_S3_REGION") || "us-east-1",
+    accessKeyId: read("MCQ_FIGURE_S3_ACCESS_KEY_ID"),
+    secretAccessKey: read("MCQ_FIGURE_S3_SECRET_ACCESS_KEY"),
+  };
+  if (!settings.endpoint || !settings.bucket || !settings.accessKeyId || !settings.secretAccessKey) {
+    throw new Error(
+      "MCQ_FIGURE_STORE=s3 needs MCQ_FIGURE_S3_ENDPOINT, MCQ_FIGURE_S3_BUCKET, MCQ_FIGURE_S3_ACCESS_KEY_ID and MCQ_FIGURE_S3_SECRET_ACCESS_KEY.",
+    );
+  }
+  return settings;
+}
+
+/** `MCQ_FIGURE_STORE=s3` uses an S3-compatible bucket; anything else the local directory. */
+export function getFigureStore(): FigureStore {
+  if (!globalThis.__mcqFigureStore) {
+    globalThis.__mcqFigureStore = process.env.MCQ_FIGURE_STORE?.trim().toLowerCase() === "s3"
+      ? new S3FigureStore(readS3Settings())
+      : new LocalFigureStore(path.resolve(process.env.MCQ_FIGURE_DIR?.trim() || DEFAULT_FIGURE_DIR));
+  }
+  return globalThis.__mcqFigureStore;
+}
+
+/**
+ * Public URL of a stored figure: `MCQ_FIGURE_BASE_URL` (e.g. a public bucket or CDN)
+ * followed by the key, or the app's own `/api/figures/<key>` route.
+ */
+export function figureUrl(key: string): string {
+  const base = process.env.MCQ_FIGURE_BASE_URL?.trim().replace(/\/+$/, "") || DEFAULT_FIGURE_BASE_URL;
+  return `${base}/${key}`;
+}
+
+/** The store key behind a URL from `figureUrl`, or null for images stored elsewhere. */
+export function figureKeyFromUrl(url: string): string | null {
+  for (const base of [process.env.MCQ_FIGURE_BASE_URL?.trim().replace(/\/+$/, ""), DEFAULT_FIGURE_BASE_URL]) {
+    if (base && url.startsWith(`${base}/`)) {
+      const key = url.slice(base.length + 1);
+      return isFigureKey(key) ? key : null;
+    }
+  }
+  return null;
+}
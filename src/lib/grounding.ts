@@ -0,0 +1,167 @@
+import type OpenAI from "openai";
+import { normalizeText, tokenSet } from "./similarity";
+
+export interface BookPage {
+  page: number | null;
+  text: string;
+}
+
+export interface BookPassage {
+  page: number | null;
+  text: string;
+  score: number;
+}
+
+/** Where the validator's evidence comes from: the indexed book or locally extracted text. */
+export interface BookTextSource {
+  readonly name: string;
+  /** Passages most relevant to `query`, best first. */
+  findPassages(query: string, limit: number): Promise<BookPassage[]>;
+  /**
+   * Whether `snippet` occurs in the book, allowing for ellipses and small edits.
+   * Returns null when the book text is not available to check against.
+   */
+  containsSnippet(snippet: string): Promise<boolean | null>;
+}
+
+const PASSAGE_CHARS = 800;
+const SHINGLE_WORDS = 5;
+const MIN_SHINGLE_COVERAGE = 0.6;
+
+function splitIntoPassages(pages: BookPage[]): Array<{ page: number | null; text: string }> {
+  const passages: Array<{ page: number | null; text: string }> = [];
+
+  for (const page of pages) {
+    let current = "";
+    for (const paragraph of page.text.split(/\n\s*\n/)) {
+      const trimmed = paragraph.replace(/\s+/g, " ").trim();
+      if (!trimmed) {
+        continue;
+      }
+      if (current && current.length + trimmed.length > PASSAGE_CHARS) {
+        passages.push({ page: page.page, text: current });
+        current = "";
+      }
+      current = current ? `${current} ${trimmed}` : trimmed;
+    }
+    if (current) {
+      passages.push({ page: page.page, text: current });
+    }
+  }
+
+  return passages;
+}
+
+function matchesNormalized(book: string, snippet: string): boolean {
+  const target = normalizeText(snippet.replace(/\.{3}|…/g, " "));
+
+  if (!target || book.includes(target)) {
+    return true;
+  }
+
+  // Quotes are often trimmed or lightly edited, so short word runs are matched instead.
+  const words = target.split(" ");
+  if (words.length < SHINGLE_WORDS) {
+    return false;
+  }
+
+  let found = 0;
+  let total = 0;
+  for (let start = 0; start + SHINGLE_WORDS <= words.length; start += 1) {
+    total += 1;
+    if (book.includes(words.slice(start, start + SHINGLE_WORDS).join(" "))) {
+      found += 1;
+    }
+  }
+  return found / total >= MIN_SHINGLE_COVERAGE;
+}
+
+/**
+ * Searches text that is already in memory, such as pages extracted from the PDF.
+ * Passages are ranked by how many of the query's words they contain.
+ */
+export function createLocalTextSource(pages: BookPage[], name = "local"): BookTextSource {
+  const passages = splitIntoPassages(pages).map((passage) => ({
+    ...passage,
+    tokens: tokenSet(passage.text),
+  }));
+  const normalizedBook = normalizeText(pages.map((page) => page.text).join(" "));
+
+  return {
+    name,
+    async findPassages(query, limit) {
+      const queryTokens = tokenSet(query);
+      if (queryTokens.size === 0) {
+        return [];
+      }
+
+      return passages
+        .map((passage) => {
+          let shared = 0;
+          for (const token of queryTokens) {
+            if (passage.tokens.has(token)) {
+              shared += 1;
+            }
+          }
+          return { page: passage.page, text: passage.text, score: shared / queryTokens.size };
+        })
+        .filter((passage) => passage.score > 0)
+        .sort((left, right) => right.score - left.score)
+        .slice(0, limit);
+    },
+    async containsSnippet(snippet) {
+      return normalizedBook ? matchesNormalized(normalizedBook, snippet) : null;
+    },
+  };
+}
+
+/**
+ * Uses the book's vector store: semantic search for passages, and the store's parsed
+ * file content (downloaded once per source) for citation checks.
+ */
+export function createVectorStoreTextSource(openai: OpenAI, vectorStoreId: string): BookTextSource {
+  let bookText: Promise<string | null> | null = null;
+
+  const loadBookText = async (): Promise<string | null> => {
+    const chunks: string[] = [];
+    for await (const file of openai.vectorStores.files.list(vectorStoreId, { limit: 100 })) {
+      if (file.status !== "completed") {
+        continue;
+      }
+      for await (const content of openai.vectorStores.files.content(vectorStoreId, file.id)) {
+        if (content.text) {
+          chunks.push(content.text);
+        }
+      }
+    }
+    return chunks.length > 0 ? normalizeText(chunks.join(" ")) : null;
+  };
+
+  return {
+    name: `vector-store:${vectorStoreId}`,
+    async findPassages(query, limit) {
+      const response = await openai.vectorStores.search(vectorStoreId, {
+        query,
+        max_num_results: limit,
+      });
+      return response.data.map((result) => ({
+        page: null,
+        text: result.content.map((content) => content.text).join("\n"),
+        score: result.score,
+      }));
+    },
+    async containsSnippet(snippet) {
+      // A failed download is not retried: every later check would list and download the
+      // whole store again, so citations stay unchecked for the rest of the job instead.
+      bookText ??= loadBookText().catch((error) => {
+        console.warn(
+          `[grounding] Unable to download the text of ${vectorStoreId}; citations are not checked:`,
+          error instanceof Error ? error.message : error,
+        );
+        return null;
+      });
+      const text = await bookText;
+      return text ? matchesNormalized(text, snippet) : null;
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { BackoffGate } from "../retry";
+import { describeSchema, stripJsonFence, withRetrievedContext } from "./json";
+import type { ContextRetriever, LlmProvider } from "./types";
+
+export const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+export function getAnthropicApiKey(): string | null {
+  const key = process.env.ANTHROPIC_API_KEY;
+
+  if (!key || key.trim().length === 0) {
+    return null;
+  }
+
+  return key;
+}
+
+/**
+ * Anthropic Messages API. The schema is described in the system prompt, and retrieval
+ * goes through `retrieveContext` because Claude cannot search an OpenAI vector store.
+ */
+export function createAnthropicProvider(retrieveContext: ContextRetriever): LlmProvider {
+  return {
+    name: "anthropic",
+    gate: new BackoffGate(),
+    async completeJson(request) {
+      const apiKey = getAnthropicApiKey();
+
+      if (!apiKey) {
+        throw new Error("ANTHROPIC_API_KEY is not configured on the server.");
+      }
+
+      const context = request.retrieval
+        ? await retrieveContext(request.retrieval.vectorStoreId, request.retrieval.query)
+        : "";
+      const system = request.schema
+        ? `${request.system}\n\n${describeSchema(request.schema)}`
+        : request.system;
+
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+          system,
+          messages: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: withRetrievedContext(request.prompt, context),
+                },
+                ...(request.images ?? []).flatMap((image) => [
+                  { type: "text", text: image.label },
+                  {
+                    type: "image",
+                    source: { type: "base64", media_type: image.mediaType, data: image.data },
+                  },
+                ]),
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        const error = new Error(
+          `Anthropic request failed: ${response.status} ${response.statusText} – ${message}`,
+        );
+        (error as { status?: number }).status = response.status;
+        throw error;
+      }
+
+      const json = (await response.json()) as {
+        content?: Array<{ text?: string }>;
+        usage?: { input_tokens?: number; output_tokens?: number };
+      };
+      const inputTokens = json.usage?.input_tokens ?? 0;
+      const outputTokens = json.usage?.output_tokens ?? 0;
+
+      return {
+        text: stripJsonFence(json.content?.[0]?.text ?? ""),
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      };
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { createVectorStoreTextSource } from "../grounding";
+import { getOpenAIClient } from "../openai";
+import { createAnthropicProvider } from "./anthropic";
+import { createMockProvider, isMockLlmMode } from "./mock";
+import { createOpenAiProvider } from "./openai";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import type { ContextRetriever, LlmProvider, LlmProviderName, LlmStage } from "./types";
+
+export type {
+  JsonCompletionRequest,
+  JsonCompletionResult,
+  LlmImage,
+  LlmProvider,
+  LlmProviderName,
+  LlmStage,
+  LlmUsage,
+} from "./types";
+export { ANTHROPIC_API_URL, getAnthropicApiKey } from "./anthropic";
+export { isMockLlmMode, resetMockLlmState } from "./mock";
+
+export interface StageModel {
+  stage: LlmStage;
+  provider: LlmProvider;
+  model: string;
+  /** `provider:model`, e.g. `openai:gpt-4.1`; used as the usage key. */
+  label: string;
+}
+
+const STAGE_SETTINGS: Record<LlmStage, { env: string; fallback: string }> = {
+  topics: { env: "MCQ_TOPICS_MODEL", fallback: "openai:gpt-4.1" },
+  generation: { env: "MCQ_GENERATION_MODEL", fallback: "openai:gpt-4.1" },
+  validation: { env: "MCQ_VALIDATION_MODEL", fallback: "anthropic:claude-3-haiku-20240307" },
+};
+
+const PASSAGES_PER_RETRIEVAL = 8;
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+/** Book passages from the OpenAI vector store, for providers without file search. */
+const retrieveFromVectorStore: ContextRetriever = async (vectorStoreId, query) => {
+  const openai = getOpenAIClient();
+  if (!openai) {
+    throw new Error("OPENAI_API_KEY is required to search the uploaded book's vector store.");
+  }
+
+  const passages = await createVectorStoreTextSource(openai, vectorStoreId).findPassages(
+    query,
+    PASSAGES_PER_RETRIEVAL,
+  );
+  return passages.map((passage) => passage.text).join("\n…\n");
+};
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  if (isMockLlmMode()) {
+    return createMockProvider(name);
+  }
+
+  switch (name) {
+    case "openai": {
+      const openai = getOpenAIClient();
+      if (!openai) {
+        throw new Error("OPENAI_API_KEY is not configured on the server.");
+      }
+      return createOpenAiProvider(openai);
+    }
+    case "anthropic":
+      return createAnthropicProvider(retrieveFromVectorStore);
+    case "local": {
+      const baseURL = process.env.LOCAL_LLM_BASE_URL?.trim();
+      if (!baseURL) {
+        throw new Error("LOCAL_LLM_BASE_URL must be set to use the local provider.");
+      }
+      return createOpenAiCompatibleProvider(
+        { baseURL, apiKey: process.env.LOCAL_LLM_API_KEY?.trim() },
+        retrieveFromVectorStore,
+      );
+    }
+  }
+}
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/** Parses `provider:model`; a bare model name is taken as an OpenAI model. */
+export function parseModelSpec(spec: string): { provider: LlmProviderName; model: string } {
+  const separator = spec.indexOf(":");
+  const provider = separator === -1 ? "openai" : spec.slice(0, separator).trim().toLowerCase();
+  const model = (separator === -1 ? spec : spec.slice(separator + 1)).trim();
+
+  if (provider !== "openai" && provider !== "anthropic" && provider !== "local") {
+    throw new Error(`Unknown LLM provider "${provider}"; use openai, anthropic or local.`);
+  }
+  if (!model) {
+    throw new Error(`Model spec "${spec}" does not name a model.`);
+  }
+  return { provider, model };
+}
+
+/**
+ * The provider and model for a pipeline stage, from `MCQ_TOPICS_MODEL`,
+ * `MCQ_GENERATION_MODEL` or `MCQ_VALIDATION_MODEL` (`provider:model`). Defaults are
+ * OpenAI gpt-4.1 for topics and generation and Claude 3 Haiku for validation.
+ */
+export function getStageModel(stage: LlmStage): StageModel {
+  const { env, fallback } = STAGE_SETTINGS[stage];
+  const { provider, model } = parseModelSpec(process.env[env]?.trim() || fallback);
+  return { stage, provider: getLlmProvider(provider), model, label: `${provider}:${model}` };
+}
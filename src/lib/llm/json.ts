@@ -0,0 +1,29 @@
+/** Removes a Markdown code fence around a model's JSON answer. */
+export function stripJsonFence(raw: string): string {
+  const trimmed = raw.trim();
+
+  if (trimmed.startsWith("```")) {
+    const withoutOpening = trimmed.replace(/^```[a-zA-Z]*\n?/u, "");
+    const closingIndex = withoutOpening.lastIndexOf("```\n");
+
+    if (closingIndex !== -1) {
+      return withoutOpening.slice(0, closingIndex).trim();
+    }
+
+    return withoutOpening.replace(/```$/u, "").trim();
+  }
+
+  return trimmed;
+}
+
+/** Prompt text for providers that cannot enforce a JSON schema themselves. */
+export function describeSchema(schema: { name: string; schema: Record<string, unknown> }): string {
+  return `Respond with a single JSON object (no prose, no code fences) that matches this JSON schema named "${schema.name}":\n${JSON.stringify(schema.schema)}`;
+}
+
+/** Adds retrieved book passages to a prompt. */
+export function withRetrievedContext(prompt: string, context: string): string {
+  return context
+    ? `Book context retrieved for this request:\n"""\n${context}\n"""\n\n${prompt}`
+    : prompt;
+}
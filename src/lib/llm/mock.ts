@@ -0,0 +1,391 @@
+import { readFileSync } from "node:fs";
+import type OpenAI from "openai";
+import { createLocalTextSource } from "../grounding";
+import { BackoffGate } from "../retry";
+import type { JsonCompletionRequest, LlmProvider, LlmProviderName } from "./types";
+
+/**
+ * Offline stand-in for OpenAI and Anthropic, enabled with `MCQ_LLM_MOCK=on`. Answers are
+ * deterministic: built-in topic lists, MCQ batches and approving verdicts, overridable
+ * per topic with a fixtures file (`MCQ_LLM_MOCK_FIXTURES`). `MCQ_LLM_MOCK_FAULTS` makes
+ * the first calls of a stage fail, e.g. `generation:429:2,validation:529,topics:malformed`.
+ */
+
+type MockStage = "topics" | "generation" | "validation";
+type MockFault = "429" | "529" | "malformed" | "no-file" | "reject";
+
+interface MockFixtures {
+  topics?: Array<{ topic: string; description: string }>;
+  /** MCQ batches keyed by topic name; `*` applies to every topic. */
+  mcqs?: Record<string, unknown[]>;
+  /** Verdict lists keyed by topic name, in the validator's response format. */
+  verdicts?: Record<string, unknown[]>;
+  /** Text the mock vector store returns for search and citation checks. */
+  bookText?: string;
+}
+
+interface MockState {
+  calls: Map<string, number>;
+  faultsUsed: Map<string, number>;
+  /** Snippets cited by generated questions; the mock book contains all of them. */
+  snippets: Set<string>;
+  vectorStores: number;
+}
+
+declare global {
+  var __mcqMockLlmState: MockState | undefined;
+}
+
+const MOCK_BOOK_TEXT = `Chapter text used by the offline mock.
+
+Light travels in straight lines and is reflected by smooth surfaces. The angle of incidence equals the angle of reflection.
+
+Refraction is the bending of light as it passes from one medium into another of different optical density.`;
+
+const DEFAULT_TOPICS = [
+  { topic: "Reflection of Light", description: "How light bounces off surfaces and the laws of reflection." },
+  { topic: "Refraction of Light", description: "Bending of light between media and everyday examples." },
+  { topic: "Optical Instruments", description: "Lenses, mirrors and the instruments built from them." },
+];
+
+// Distinct frames so the built-in questions do not look like near-duplicates.
+const STEM_FRAMES = [
+  (topic: string) => `Which statement correctly defines the core idea behind ${topic}?`,
+  (topic: string) => `A student observes ${topic} during an experiment at home. What explains the result?`,
+  (topic: string) => `Identify the everyday example that illustrates ${topic} most clearly.`,
+  (topic: string) => `Fill in the blank: the main quantity measured when studying ${topic} is ____.`,
+  (topic: string) => `Assertion: ${topic} follows fixed rules. Reason: those rules were verified experimentally.`,
+  (topic: string) => `Why would a laboratory technician calibrate equipment before demonstrating ${topic}?`,
+  (topic: string) => `Compare two classroom setups for ${topic}; which one gives more reliable readings?`,
+  (topic: string) => `Predict what happens to ${topic} when the surrounding medium is changed.`,
+  (topic: string) => `Which historical scientist is most associated with early studies of ${topic}?`,
+  (topic: string) => `Analyse the diagram described for ${topic}: where does the error in labelling lie?`,
+  (topic: string) => `Select the safety precaution most relevant while investigating ${topic}.`,
+  (topic: string) => `Evaluate the claim that ${topic} has no practical use in modern technology.`,
+];
+
+const BLOOM_SEQUENCE = [
+  "Remember", "Understand", "Apply", "Analyze", "Remember", "Understand",
+  "Apply", "Analyze", "Remember", "Understand", "Apply", "Evaluate",
+];
+const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+const TYPES = ["recall", "application", "assertion-reason", "fill-blank"];
+
+class MockLlmError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "MockLlmError";
+  }
+}
+
+export function isMockLlmMode(): boolean {
+  return ["1", "on", "true"].includes(process.env.MCQ_LLM_MOCK?.trim().toLowerCase() ?? "");
+}
+
+function getState(): MockState {
+  globalThis.__mcqMockLlmState ??= {
+    calls: new Map(),
+    faultsUsed: new Map(),
+    snippets: new Set(),
+    vectorStores: 0,
+  };
+  return globalThis.__mcqMockLlmState;
+}
+
+/** Forgets call counts, consumed faults and cited snippets, e.g. between test cases. */
+export function resetMockLlmState() {
+  globalThis.__mcqMockLlmState = undefined;
+}
+
+let cachedFixtures: { path: string; fixtures: MockFixtures } | null = null;
+
+function loadFixtures(): MockFixtures {
+  const path = process.env.MCQ_LLM_MOCK_FIXTURES?.trim();
+  if (!path) {
+    return {};
+  }
+  if (cachedFixtures?.path !== path) {
+    cachedFixtures = { path, fixtures: JSON.parse(readFileSync(path, "utf8")) as MockFixtures };
+  }
+  return cachedFixtures.fixtures;
+}
+
+/** Takes the next configured fault for `stage`, if any are left. */
+function takeFault(stage: MockStage): MockFault | null {
+  const state = getState();
+  const specs = (process.env.MCQ_LLM_MOCK_FAULTS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const spec of specs) {
+    const [specStage, fault, rawCount] = spec.split(":");
+    if (specStage !== stage) {
+      continue;
+    }
+    const count = Number.parseInt(rawCount ?? "1", 10) || 1;
+    const used = state.faultsUsed.get(spec) ?? 0;
+    if (used < count) {
+      state.faultsUsed.set(spec, used + 1);
+      return fault as MockFault;
+    }
+  }
+  return null;
+}
+
+function throwFault(fault: MockFault, stage: MockStage) {
+  switch (fault) {
+    case "429":
+      throw new MockLlmError(`Mock ${stage} call rate limited (429).`, 429);
+    case "529":
+      throw new MockLlmError(`Mock ${stage} call overloaded (529).`, 529);
+    case "no-file":
+      throw new MockLlmError("No file found with id 'file-mock' in vector store.", 404);
+    default:
+      break;
+  }
+}
+
+function detectStage(request: JsonCompletionRequest): MockStage {
+  if (request.schema?.name === "chapter_topics") {
+    return "topics";
+  }
+  if (request.schema?.name.startsWith("mcq_batch_topic")) {
+    return "generation";
+  }
+  return "validation";
+}
+
+/** The question count the generation schema asks for, clamped into its min/max items. */
+function requestedMcqCount(request: JsonCompletionRequest): number {
+  const mcqs = (request.schema?.schema.properties as Record<string, { minItems?: number; maxItems?: number }> | undefined)?.mcqs;
+  const min = mcqs?.minItems ?? 1;
+  const max = mcqs?.maxItems ?? STEM_FRAMES.length;
+  return Math.min(Math.max(STEM_FRAMES.length, min), max);
+}
+
+/** The question formats the generation schema allows, in schema order. */
+function requestedFormats(request: JsonCompletionRequest): string[] {
+  type ItemSchema = { properties?: { format?: { enum?: string[] } } };
+  const mcqs = (request.schema?.schema.properties as Record<string, { items?: ItemSchema & { anyOf?: ItemSchema[] } }> | undefined)?.mcqs;
+  const variants = mcqs?.items?.anyOf ?? (mcqs?.items ? [mcqs.items] : []);
+  const formats = variants.map((variant) => variant.properties?.format?.enum?.[0]).filter(Boolean) as string[];
+  return formats.length > 0 ? formats : ["single"];
+}
+
+/** Figure ids the generation schema offers for diagram questions; empty when it has none. */
+function requestedFigureIds(request: JsonCompletionRequest): string[] {
+  type ItemSchema = { properties?: { figure_id?: { enum?: Array<string | null> } } };
+  const mcqs = (request.schema?.schema.properties as Record<string, { items?: ItemSchema & { anyOf?: ItemSchema[] } }> | undefined)?.mcqs;
+  const variant = mcqs?.items?.anyOf?.[0] ?? mcqs?.items;
+  return (variant?.properties?.figure_id?.enum ?? []).filter((id): id is string => typeof id === "string");
+}
+
+// The stem frame that already talks about a diagram becomes the diagram question.
+const DIAGRAM_FRAME = 9;
+
+/** Answer fields for a mock question of `format`, built around its key fact. */
+function mockAnswerFields(format: string, topic: string, index: number): Record<string, unknown> {
+  const options = [
+    `Key fact number ${index + 1} about ${topic}`,
+    `An unrelated claim ${index + 1}a`,
+    `A common misconception ${index + 1}b`,
+    `None of the listed statements ${index + 1}c`,
+  ].map((_, optionIndex, values) => values[(optionIndex + index) % values.length]);
+  const correctIndex = (4 - (index % 4)) % 4;
+
+  switch (format) {
+    case "multiple":
+      return {
+        options,
+        correct_indices: [correctIndex, (correctIndex + 1) % 4].sort((left, right) => left - right),
+      };
+    case "true_false":
+      return { answer: index % 4 < 2 };
+    case "match":
+      return {
+        pairs: [1, 2, 3].map((pair) => ({
+          left: `${topic} term ${index + 1}.${pair}`,
+          right: `Meaning ${index + 1}.${pair}`,
+        })),
+      };
+    case "numeric":
+      return { answer: index + 1.5, tolerance: 0.1, unit: "cm" };
+    case "short_answer":
+      return { answer: `key fact ${index + 1}`, accepted_answers: [`fact ${index + 1}`] };
+    default:
+      return { options, correct_index: correctIndex };
+  }
+}
+
+function buildMockMcqs(
+  topic: string,
+  variant: number,
+  count = STEM_FRAMES.length,
+  formats = ["single"],
+  figureIds: string[] = [],
+) {
+  const state = getState();
+  const suffix = variant > 0 ? ` (variant ${variant + 1})` : "";
+
+  return Array.from({ length: count }, (_, index) => {
+    const frame = STEM_FRAMES[index % STEM_FRAMES.length];
+    const round = Math.floor(index / STEM_FRAMES.length);
+    const stem = round > 0 ? `${frame(topic)} (case ${round + 1})` : frame(topic);
+    const snippet = `${topic} mock passage ${index + 1}${suffix}: key fact number ${index + 1}.`;
+    state.snippets.add(snippet);
+    const format = formats[index % formats.length];
+    const diagram = figureIds.length > 0 && index % STEM_FRAMES.length === DIAGRAM_FRAME;
+    return {
+      ...(format === "single" ? {} : { format }),
+      bloom: BLOOM_SEQUENCE[index % BLOOM_SEQUENCE.length],
+      difficulty: DIFFICULTIES[index % DIFFICULTIES.length],
+      type: diagram ? "diagram" : TYPES[index % TYPES.length],
+      ...(figureIds.length > 0 ? { figure_id: diagram ? figureIds[round % figureIds.length] : null } : {}),
+      stem: `${stem}${suffix}`,
+      ...mockAnswerFields(format, topic, index),
+      explanation: `The book states key fact number ${index + 1} about ${topic}.`,
+      source_spans: [{ page: index + 1, text_snippet: snippet }],
+    };
+  });
+}
+
+function respond(request: JsonCompletionRequest): string {
+  const stage = detectStage(request);
+  const state = getState();
+  const fixtures = loadFixtures();
+  const fault = takeFault(stage);
+
+  if (fault) {
+    throwFault(fault, stage);
+    if (fault === "malformed") {
+      return '{"truncated": [ {"index": 0, "verdict": "appr';
+    }
+  }
+
+  if (stage === "topics") {
+    return JSON.stringify({ topics: fixtures.topics ?? DEFAULT_TOPICS });
+  }
+
+  if (stage === "generation") {
+    const topic = /for the topic "(.+?)"/.exec(request.prompt)?.[1] ?? "Mock topic";
+    const key = `generation:${topic}`;
+    const variant = state.calls.get(key) ?? 0;
+    state.calls.set(key, variant + 1);
+    return JSON.stringify({ mcqs: fixtures.mcqs?.[topic] ?? fixtures.mcqs?.["*"] ?? buildMockMcqs(topic, variant, requestedMcqCount(request), requestedFormats(request), requestedFigureIds(request)) });
+  }
+
+  const topic = /\nTopic: (.*)\n/.exec(request.prompt)?.[1] ?? "";
+  const indices = [...request.prompt.matchAll(/- Index: (\d+)/g)].map((match) => Number(match[1]));
+  // Fixtures are cached across calls, so the rejection below must not edit them in place.
+  const verdicts = structuredClone(fixtures.verdicts?.[topic]) ?? indices.map((index) => ({
+    index,
+    verdict: "approve",
+    reasons: [],
+    explanationAlignment: "strong",
+    correctAnswerConfirmed: true,
+    confidence: "high",
+    replacement_mcq: null,
+  }));
+
+  if (fault === "reject" && verdicts.length > 0) {
+    const replacement = buildMockMcqs(topic, 99)[0];
+    verdicts[0] = {
+      index: indices[0] ?? 0,
+      verdict: "reject",
+      reasons: ["Mock rejection requested by MCQ_LLM_MOCK_FAULTS."],
+      explanationAlignment: "weak",
+      correctAnswerConfirmed: false,
+      confidence: "medium",
+      replacement_mcq: replacement,
+    };
+  }
+
+  return JSON.stringify({ topic, verdicts });
+}
+
+export function createMockProvider(name: LlmProviderName): LlmProvider {
+  return {
+    name,
+    gate: new BackoffGate(),
+    async completeJson(request) {
+      const text = respond(request);
+      const inputTokens = Math.ceil((request.system.length + request.prompt.length) / 4);
+      const outputTokens = Math.ceil(text.length / 4);
+      return { text, usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } };
+    },
+  };
+}
+
+function getBookText(): string {
+  return [loadFixtures().bookText ?? MOCK_BOOK_TEXT, ...getState().snippets].join("\n\n");
+}
+
+async function* single<T>(value: T): AsyncGenerator<T> {
+  yield value;
+}
+
+async function* none(): AsyncGenerator<never> {
+  return;
+}
+
+/** Deterministic 64-dimension bag-of-words vector, so similar texts stay similar. */
+function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(64).fill(0);
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % 64] += 1;
+  }
+  return vector;
+}
+
+/**
+ * The subset of the OpenAI client the app uses for books: vector stores, their files,
+ * search and embeddings. Completions go through `createMockProvider`.
+ */
+export function createMockOpenAIClient(): OpenAI {
+  const completedFile = { id: "file-mock", status: "completed" };
+
+  const client = {
+    vectorStores: {
+      create: async () => {
+        const state = getState();
+        state.vectorStores += 1;
+        return { id: `vs_mock_${state.vectorStores}`, status: "completed" };
+      },
+      retrieve: async (id: string) => ({ id, status: "completed" }),
+      del: async (id: string) => ({ id, deleted: true }),
+      list: () => none(),
+      search: async (_id: string, params: { query: string; max_num_results?: number }) => {
+        const source = createLocalTextSource([{ page: null, text: getBookText() }], "mock");
+        const passages = await source.findPassages(params.query, params.max_num_results ?? 5);
+        return {
+          data: passages.map((passage) => ({
+            file_id: completedFile.id,
+            filename: "mock-book.pdf",
+            score: passage.score,
+            content: [{ type: "text", text: passage.text }],
+          })),
+        };
+      },
+      files: {
+        list: () => single(completedFile),
+        content: () => single({ type: "text", text: getBookText() }),
+      },
+      fileBatches: {
+        uploadAndPoll: async () => ({ id: "vsfb_mock", status: "completed" }),
+      },
+    },
+    embeddings: {
+      create: async (params: { input: string[] }) => ({
+        data: params.input.map((text, index) => ({ index, embedding: mockEmbedding(text) })),
+        usage: { total_tokens: params.input.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0) },
+      }),
+    },
+  };
+
+  return client as unknown as OpenAI;
+}
@@ -0,0 +1,69 @@
+import type OpenAI from "openai";
+import { BackoffGate } from "../retry";
+import { stripJsonFence } from "./json";
+import type { LlmProvider } from "./types";
+
+/** OpenAI Responses API, with the hosted `file_search` tool for retrieval. */
+export function createOpenAiProvider(openai: OpenAI): LlmProvider {
+  return {
+    name: "openai",
+    gate: new BackoffGate(),
+    async completeJson(request) {
+      const response = await openai.responses.create({
+        model: request.model,
+        instructions: request.system,
+        input: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "input_text",
+                text: request.prompt,
+              },
+              ...(request.images ?? []).flatMap((image) => [
+                { type: "input_text" as const, text: image.label },
+                {
+                  type: "input_image" as const,
+                  detail: "auto" as const,
+                  image_url: `data:${image.mediaType};base64,${image.data}`,
+                },
+              ]),
+            ],
+          },
+        ],
+        ...(request.retrieval
+          ? {
+              tool_choice: "auto" as const,
+              tools: [
+                {
+                  type: "file_search" as const,
+                  vector_store_ids: [request.retrieval.vectorStoreId],
+                },
+              ],
+            }
+          : {}),
+        ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+        text: {
+          format: request.schema
+            ? {
+                type: "json_schema",
+                name: request.schema.name,
+                schema: request.schema.schema,
+                strict: true,
+              }
+            : { type: "json_object" },
+        },
+      });
+
+      const usage = response.usage;
+      return {
+        text: stripJsonFence(response.output_text ?? ""),
+        usage: {
+          inputTokens: usage?.input_tokens ?? 0,
+          outputTokens: usage?.output_tokens ?? 0,
+          totalTokens: usage?.total_tokens ?? (usage?.input_tokens ?? 0) + (usage?.output_tokens ?? 0),
+        },
+      };
+    },
+  };
+}
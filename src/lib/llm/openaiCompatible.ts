@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+import { BackoffGate } from "../retry";
+import { stripJsonFence, withRetrievedContext } from "./json";
+import type { ContextRetriever, LlmProvider } from "./types";
+
+/**
+ * Any server that speaks the OpenAI Chat Completions API (vLLM, llama.cpp, Ollama, …),
+ * configured with `LOCAL_LLM_BASE_URL` and an optional `LOCAL_LLM_API_KEY`.
+ */
+export function createOpenAiCompatibleProvider(
+  options: { baseURL: string; apiKey?: string },
+  retrieveContext: ContextRetriever,
+): LlmProvider {
+  const client = new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey || "local" });
+
+  return {
+    name: "local",
+    gate: new BackoffGate(),
+    async completeJson(request) {
+      const context = request.retrieval
+        ? await retrieveContext(request.retrieval.vectorStoreId, request.retrieval.query)
+        : "";
+
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.system },
+          {
+            role: "user",
+            content: request.images?.length
+              ? [
+                  { type: "text", text: withRetrievedContext(request.prompt, context) },
+                  ...request.images.flatMap((image) => [
+                    { type: "text" as const, text: image.label },
+                    {
+                      type: "image_url" as const,
+                      image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+                    },
+                  ]),
+                ]
+              : withRetrievedContext(request.prompt, context),
+          },
+        ],
+        ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+        response_format: request.schema
+          ? {
+              type: "json_schema",
+              json_schema: { name: request.schema.name, schema: request.schema.schema, strict: true },
+            }
+          : { type: "json_object" },
+      });
+
+      const usage = completion.usage;
+      return {
+        text: stripJsonFence(completion.choices[0]?.message?.content ?? ""),
+        usage: {
+          inputTokens: usage?.prompt_tokens ?? 0,
+          outputTokens: usage?.completion_tokens ?? 0,
+          totalTokens: usage?.total_tokens ?? (usage?.prompt_tokens ?? 0) + (usage?.completion_tokens ?? 0),
+        },
+      };
+    },
+  };
+}
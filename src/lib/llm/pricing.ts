@@ -0,0 +1,114 @@
+import { isMockLlmMode } from "./mock";
+import type { LlmUsage } from "./types";
+
+export interface ModelPrice {
+  /** Price per million input tokens. */
+  input: number;
+  /** Price per million output tokens. */
+  output: number;
+}
+
+// USD list prices per million tokens, keyed by `provider:model`.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "openai:gpt-4.1": { input: 2, output: 8 },
+  "openai:gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "openai:gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "openai:gpt-4o": { input: 2.5, output: 10 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai:text-embedding-3-small": { input: 0.02, output: 0 },
+  "openai:text-embedding-3-large": { input: 0.13, output: 0 },
+  "anthropic:claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+  "anthropic:claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  "anthropic:claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "anthropic:claude-sonnet-4-20250514": { input: 3, output: 15 },
+};
+
+let cachedOverrides: { raw: string; prices: Record<string, ModelPrice> } | null = null;
+
+/**
+ * `MCQ_MODEL_PRICES` is a JSON object of `provider:model` → `{ input, output }` USD
+ * per million tokens that extends or replaces the built-in table.
+ */
+function getPriceOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.MCQ_MODEL_PRICES?.trim() ?? "";
+  if (cachedOverrides?.raw === raw) {
+    return cachedOverrides.prices;
+  }
+
+  let prices: Record<string, ModelPrice> = {};
+  if (raw) {
+    try {
+      prices = JSON.parse(raw) as Record<string, ModelPrice>;
+    } catch (error) {
+      console.error("[pricing] Ignoring MCQ_MODEL_PRICES; it is not valid JSON.", error);
+    }
+  }
+  cachedOverrides = { raw, prices };
+  return prices;
+}
+
+const warned = new Set<string>();
+
+function warnOnce(message: string) {
+  if (!warned.has(message)) {
+    warned.add(message);
+    console.warn(`[pricing] ${message}`);
+  }
+}
+
+/**
+ * Prices are kept in USD. `MCQ_COST_CURRENCY` reports costs in another currency
+ * and then needs `MCQ_COST_RATE`, the number of those units per USD; without a
+ * usable rate costs stay in USD.
+ */
+function getCurrencyRate(): { currency: string; rate: number } {
+  const currency = process.env.MCQ_COST_CURRENCY?.trim().toUpperCase() || "USD";
+  if (currency === "USD") {
+    return { currency, rate: 1 };
+  }
+
+  const rate = Number.parseFloat(process.env.MCQ_COST_RATE ?? "");
+  if (Number.isFinite(rate) && rate > 0) {
+    return { currency, rate };
+  }
+  warnOnce(`MCQ_COST_CURRENCY=${currency} needs MCQ_COST_RATE (${currency} per USD); reporting costs in USD.`);
+  return { currency: "USD", rate: 1 };
+}
+
+/** Currency costs and budgets are expressed in. */
+export function getCostCurrency(): string {
+  return getCurrencyRate().currency;
+}
+
+/** Local models and the offline mock are free; unknown hosted models have no price. */
+export function getModelPrice(label: string): ModelPrice | null {
+  // Mock providers keep the real model labels, but nothing is billed.
+  if (isMockLlmMode()) {
+    return { input: 0, output: 0 };
+  }
+  const price = getPriceOverrides()[label] ?? DEFAULT_PRICES[label];
+  if (price) {
+    return price;
+  }
+  return label.startsWith("local:") ? { input: 0, output: 0 } : null;
+}
+
+/** Cost of `usage` in USD; calls to a model without a price count as 0. */
+export function computeUsdCost(label: string, usage: LlmUsage): number {
+  const price = getModelPrice(label);
+  if (!price) {
+    warnOnce(`No price for ${label}; its calls are counted as 0. Add it to MCQ_MODEL_PRICES.`);
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** A USD amount in the reporting currency. */
+export function fromUsd(amount: number): number {
+  return amount * getCurrencyRate().rate;
+}
+
+/** Cost of `usage` in the reporting currency. */
+export function computeCost(label: string, usage: LlmUsage): number {
+  return fromUsd(computeUsdCost(label, usage));
+}
@@ -0,0 +1,50 @@
+import type { BackoffGate } from "../retry";
+
+export type LlmProviderName = "openai" | "anthropic" | "local";
+
+/** Pipeline steps that call a model; each can be pointed at its own provider and model. */
+export type LlmStage = "topics" | "generation" | "validation";
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/** An image shown to the model after the prompt, e.g. a figure from the book. */
+export interface LlmImage {
+  /** Text placed before the image so the prompt can refer to it, e.g. `Figure F2 (page 14)`. */
+  label: string;
+  mediaType: "image/png" | "image/jpeg";
+  /** Base64-encoded bytes. */
+  data: string;
+}
+
+export interface JsonCompletionRequest {
+  model: string;
+  /** System prompt / instructions. */
+  system: string;
+  prompt: string;
+  /** JSON schema the output must follow; without one the model is only asked for JSON. */
+  schema?: { name: string; schema: Record<string, unknown> };
+  /** Lets the model search the uploaded book. `query` is used by providers without native file search. */
+  retrieval?: { vectorStoreId: string; query: string };
+  images?: LlmImage[];
+  maxOutputTokens?: number;
+}
+
+export interface JsonCompletionResult {
+  /** The model's JSON output with any Markdown code fence removed. */
+  text: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Shared by every caller so concurrent workers back off together on a 429. */
+  readonly gate: BackoffGate;
+  completeJson(request: JsonCompletionRequest): Promise<JsonCompletionResult>;
+}
+
+/** Looks up book passages for providers that cannot search a vector store themselves. */
+export type ContextRetriever = (vectorStoreId: string, query: string) => Promise<string>;
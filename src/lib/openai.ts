@@ -1,8 +1,13 @@
 import OpenAI from "openai";
+import { createMockOpenAIClient, isMockLlmMode } from "./llm/mock";
 
 let cachedClient: OpenAI | null = null;
 
 export function getOpenAIClient(): OpenAI | null {
+  if (isMockLlmMode()) {
+    return createMockOpenAIClient();
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
 
   if (!apiKey) {
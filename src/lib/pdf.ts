@@ -0,0 +1,555 @@
+import { createHash } from "node:crypto";
+import { PDFDocument } from "pdf-lib";
+import type { BookPage } from "./grounding";
+import { encodePng } from "./png";
+
+export interface PdfChapter {
+  /** Chapter number from the heading or bookmark; bookmarks without one are numbered in order. */
+  number: number;
+  title: string;
+  /** 1-based, inclusive page range. */
+  startPage: number;
+  endPage: number;
+}
+
+export interface PdfStructure {
+  pageCount: number;
+  pages: BookPage[];
+  chapters: PdfChapter[];
+  /** Where the chapter list came from; `none` when no chapters were found. */
+  chapterSource: "outline" | "headings" | "none";
+}
+
+/** A raster image drawn on a page, e.g. a diagram or photo. */
+export interface PdfImage {
+  page: number;
+  /** Position among the page's images, from 1. */
+  index: number;
+  /** Size of `png`, after scaling down to `maxSize`. */
+  width: number;
+  height: number;
+  png: Uint8Array;
+  /** The nearest "Fig. 3.2 …" line above or below the image, if any. */
+  caption: string | null;
+}
+
+export interface PdfLimits {
+  /** Largest book accepted for parsing or upload. */
+  maxBookPages: number;
+  /** Largest page range uploaded for a single chapter. */
+  maxChapterPages: number;
+}
+
+const DEFAULT_MAX_BOOK_PAGES = 1500;
+const DEFAULT_MAX_CHAPTER_PAGES = 120;
+const HEADING_LINES_PER_PAGE = 6;
+
+const MIN_IMAGE_SIDE = 120;
+const MAX_IMAGE_ASPECT = 8;
+// Images repeated on more pages than this are logos or page decorations.
+const MAX_IMAGE_REPEATS = 2;
+const IMAGE_DECODE_TIMEOUT_MS = 10_000;
+// Captions further than an inch from an image belong to something else.
+const CAPTION_MAX_DISTANCE = 72;
+
+const CHAPTER_HEADING = /^(?:chapter|unit|lesson|ch\.)\s*(\d{1,3}|[ivxlc]{1,7})\b[\s.:\-–—]*(.*)$/i;
+const FIGURE_CAPTION = /^(?:fig(?:ure)?|diagram|illustration)\.?\s*\d+(?:[.\-–]\d+)*\b/i;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+export function getPdfLimits(): PdfLimits {
+  const read = (name: string, fallback: number) => {
+    const parsed = Number.parseInt(process.env[name] ?? "", 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    maxBookPages: read("MCQ_PDF_MAX_PAGES", DEFAULT_MAX_BOOK_PAGES),
+    maxChapterPages: read("MCQ_CHAPTER_MAX_PAGES", DEFAULT_MAX_CHAPTER_PAGES),
+  };
+}
+
+function parseChapterNumber(raw: string): number | null {
+  if (/^\d+$/.test(raw)) {
+    return Number.parseInt(raw, 10);
+  }
+
+  let total = 0;
+  const letters = raw.toLowerCase().split("");
+  for (let index = 0; index < letters.length; index += 1) {
+    const value = ROMAN_VALUES[letters[index]];
+    const next = ROMAN_VALUES[letters[index + 1]] ?? 0;
+    if (!value) {
+      return null;
+    }
+    total += value < next ? -value : value;
+  }
+  return total > 0 ? total : null;
+}
+
+function matchHeading(line: string): { number: number; title: string } | null {
+  const match = CHAPTER_HEADING.exec(line.trim());
+  const number = match ? parseChapterNumber(match[1]) : null;
+  return match && number !== null ? { number, title: match[2].trim() } : null;
+}
+
+/** Fills in end pages so each chapter runs until the next one starts. */
+function withPageRanges(
+  starts: Array<Omit<PdfChapter, "endPage">>,
+  pageCount: number,
+): PdfChapter[] {
+  const sorted = [...starts].sort((left, right) => left.startPage - right.startPage);
+  return sorted.map((chapter, index) => ({
+    ...chapter,
+    endPage: Math.max(chapter.startPage, (sorted[index + 1]?.startPage ?? pageCount + 1) - 1),
+  }));
+}
+
+type PdfJsDocument = Awaited<ReturnType<typeof import("pdfjs-dist/legacy/build/pdf.mjs").getDocument>["promise"]>;
+type OutlineNode = Awaited<ReturnType<PdfJsDocument["getOutline"]>>[number];
+
+async function openPdfJsDocument(data: Uint8Array): Promise<PdfJsDocument> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs.getDocument({
+    // pdf.js transfers the buffer to its worker, so it gets a copy.
+    data: data.slice(),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    // Text extraction does not need the standard font files pdf.js warns about.
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+}
+
+async function resolveOutlinePage(doc: PdfJsDocument, node: OutlineNode): Promise<number | null> {
+  try {
+    const dest = typeof node.dest === "string" ? await doc.getDestination(node.dest) : node.dest;
+    const ref = Array.isArray(dest) ? dest[0] : null;
+    if (!ref) {
+      return null;
+    }
+    const pageIndex = typeof ref === "number" ? ref : await doc.getPageIndex(ref);
+    return pageIndex + 1;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chapters from the PDF bookmarks. A single top-level entry (usually the book title)
+ * is unwrapped; when some entries look like chapter headings, the others (preface,
+ * contents, appendices) are left out.
+ */
+async function chaptersFromOutline(doc: PdfJsDocument): Promise<PdfChapter[]> {
+  let nodes = (await doc.getOutline()) ?? [];
+  if (nodes.length === 1 && nodes[0].items.length > 1) {
+    nodes = nodes[0].items as OutlineNode[];
+  }
+
+  const headings = nodes.map((node) => ({ node, heading: matchHeading(node.title) }));
+  const useHeadingsOnly = headings.some((entry) => entry.heading);
+  const starts: Array<Omit<PdfChapter, "endPage">> = [];
+
+  for (const { node, heading } of headings) {
+    if (useHeadingsOnly && !heading) {
+      continue;
+    }
+    const startPage = await resolveOutlinePage(doc, node);
+    if (startPage === null) {
+      continue;
+    }
+    starts.push({
+      number: heading?.number ?? starts.length + 1,
+      title: heading?.title || node.title.trim(),
+      startPage,
+    });
+  }
+
+  return withPageRanges(starts, doc.numPages);
+}
+
+/**
+ * Chapters from "Chapter 3 …"/"Unit IV …" lines near the top of a page. Running
+ * headers repeat the heading on every page, so only the first page of each number
+ * counts, and numbers must increase through the book. Pages listing several
+ * chapters are tables of contents and are skipped.
+ */
+function chaptersFromHeadings(pages: BookPage[]): PdfChapter[] {
+  const starts: Array<Omit<PdfChapter, "endPage">> = [];
+
+  for (const page of pages) {
+    const lines = page.text.split("\n").map((line) => line.trim()).filter(Boolean);
+    if (lines.filter((line) => matchHeading(line)).length > 1) {
+      continue;
+    }
+    for (let index = 0; index < Math.min(lines.length, HEADING_LINES_PER_PAGE); index += 1) {
+      const heading = matchHeading(lines[index]);
+      const previous = starts[starts.length - 1];
+      if (!heading || (previous && heading.number <= previous.number)) {
+        continue;
+      }
+      starts.push({
+        number: heading.number,
+        title: heading.title || lines[index + 1] || `Chapter ${heading.number}`,
+        startPage: page.page ?? 1,
+      });
+      break;
+    }
+  }
+
+  return withPageRanges(starts, pages.length);
+}
+
+function tooManyPagesError(pageCount: number, maxPages: number): Error {
+  const error = new Error(`PDF has ${pageCount} pages; at most ${maxPages} are supported.`);
+  Object.assign(error, { status: 413 });
+  return error;
+}
+
+async function readPageText(doc: PdfJsDocument, pageNumber: number): Promise<BookPage> {
+  const page = await doc.getPage(pageNumber);
+  const content = await page.getTextContent();
+  const text = content.items
+    .map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""))
+    .join("");
+  page.cleanup();
+  return { page: pageNumber, text };
+}
+
+/**
+ * Extracts each page's text and detects chapter boundaries, preferring the PDF
+ * outline over headings found in the text. Books over `maxPages` are rejected
+ * (status 413) before any text is extracted.
+ */
+export async function analyzePdf(
+  data: Uint8Array,
+  options: { maxPages?: number } = {},
+): Promise<PdfStructure> {
+  const doc = await openPdfJsDocument(data);
+
+  try {
+    if (options.maxPages && doc.numPages > options.maxPages) {
+      throw tooManyPagesError(doc.numPages, options.maxPages);
+    }
+
+    const pages: BookPage[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+      pages.push(await readPageText(doc, pageNumber));
+    }
+
+    const outlineChapters = await chaptersFromOutline(doc).catch(() => []);
+    if (outlineChapters.length > 0) {
+      return { pageCount: doc.numPages, pages, chapters: outlineChapters, chapterSource: "outline" };
+    }
+
+    const headingChapters = chaptersFromHeadings(pages);
+    return {
+      pageCount: doc.numPages,
+      pages,
+      chapters: headingChapters,
+      chapterSource: headingChapters.length > 0 ? "headings" : "none",
+    };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+interface PdfJsImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Waits for pdf.js to decode an image the operator list refers to. Images it cannot
+ * decode never resolve, hence the time limit.
+ */
+function resolveImage(
+  objects: { get(objId: string, callback: (data: unknown) => void): unknown },
+  objId: string,
+): Promise<PdfJsImage | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), IMAGE_DECODE_TIMEOUT_MS);
+    objects.get(objId, (data) => {
+      clearTimeout(timer);
+      resolve(data && typeof data === "object" ? (data as PdfJsImage) : null);
+    });
+  });
+}
+
+interface PlacedImage {
+  image: PdfJsImage;
+  /** Vertical extent on the page, in PDF units (y grows upwards). */
+  bottom: number;
+  top: number;
+}
+
+interface CaptionLine {
+  text: string;
+  y: number;
+}
+
+/** The page's "Fig. …" lines with their baseline height; text items on one baseline form a line. */
+function captionLines(items: Array<object>): CaptionLine[] {
+  const lines: CaptionLine[] = [];
+  let current: CaptionLine | null = null;
+  for (const item of items) {
+    if (!("str" in item) || !("transform" in item)) {
+      continue;
+    }
+    const y = (item.transform as number[])[5];
+    if (current && Math.abs(current.y - y) < 2) {
+      current.text += item.str as string;
+    } else {
+      current = { text: item.str as string, y };
+      lines.push(current);
+    }
+  }
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => FIGURE_CAPTION.test(line.text));
+}
+
+/** The closest unused caption within `CAPTION_MAX_DISTANCE` above or below the image. */
+function nearestCaption(placed: PlacedImage, captions: CaptionLine[], used: Set<number>): string | null {
+  let best: { index: number; distance: number } | null = null;
+  for (let index = 0; index < captions.length; index += 1) {
+    const caption = captions[index];
+    const distance = caption.y < placed.bottom
+      ? placed.bottom - caption.y
+      : Math.max(0, caption.y - placed.top);
+    if (!used.has(index) && distance <= CAPTION_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = { index, distance };
+    }
+  }
+  if (!best) {
+    return null;
+  }
+  used.add(best.index);
+  return captions[best.index].text;
+}
+
+/** Converts pdf.js image data (1-bit grey, RGB or RGBA) to RGBA pixels. */
+function toRgba(image: PdfJsImage): Uint8Array | null {
+  const { width, height, kind, data } = image;
+  if (!data) {
+    return null;
+  }
+
+  const rgba = new Uint8Array(width * height * 4).fill(255);
+  if (kind === 1) {
+    // GRAYSCALE_1BPP: rows padded to whole bytes; a set bit is white.
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        const offset = (y * width + x) * 4;
+        rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = bit ? 255 : 0;
+      }
+    }
+    return rgba;
+  }
+
+  const channels = kind === 2 ? 3 : kind === 3 ? 4 : 0;
+  if (!channels || data.length < width * height * channels) {
+    return null;
+  }
+  for (let pixel = 0; pixel < width * height; pixel += 1) {
+    rgba[pixel * 4] = data[pixel * channels];
+    rgba[pixel * 4 + 1] = data[pixel * channels + 1];
+    rgba[pixel * 4 + 2] = data[pixel * channels + 2];
+    if (channels === 4) {
+      rgba[pixel * 4 + 3] = data[pixel * channels + 3];
+    }
+  }
+  return rgba;
+}
+
+/** Box-filters RGBA pixels down so the longer side is at most `maxSize`. */
+function scaleDown(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  maxSize: number,
+): { rgba: Uint8Array; width: number; height: number } {
+  const scale = maxSize / Math.max(width, height);
+  if (scale >= 1) {
+    return { rgba, width, height };
+  }
+
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const scaled = new Uint8Array(targetWidth * targetHeight * 4);
+  for (let y = 0; y < targetHeight; y += 1) {
+    const top = Math.floor((y * height) / targetHeight);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * height) / targetHeight));
+    for (let x = 0; x < targetWidth; x += 1) {
+      const left = Math.floor((x * width) / targetWidth);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * width) / targetWidth));
+      const sums = [0, 0, 0, 0];
+      for (let sourceY = top; sourceY < bottom; sourceY += 1) {
+        for (let sourceX = left; sourceX < right; sourceX += 1) {
+          const offset = (sourceY * width + sourceX) * 4;
+          for (let channel = 0; channel < 4; channel += 1) {
+            sums[channel] += rgba[offset + channel];
+          }
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      for (let channel = 0; channel < 4; channel += 1) {
+        scaled[(y * targetWidth + x) * 4 + channel] = Math.round(sums[channel] / count);
+      }
+    }
+  }
+  return { rgba: scaled, width: targetWidth, height: targetHeight };
+}
+
+/**
+ * Extracts the raster images drawn on the given 1-based, inclusive page range as PNGs,
+ * with the page's "Fig. …" captions. Small images, thin strips and images repeated on
+ * several pages (logos, page decorations) are skipped, and at most `maxImages` are
+ * returned in page order. Vector drawings are not images and are not picked up.
+ */
+export async function extractPdfImages(
+  data: Uint8Array,
+  options: { startPage?: number; endPage?: number; maxImages: number; maxSize: number },
+): Promise<PdfImage[]> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const doc = await openPdfJsDocument(data);
+
+  try {
+    const startPage = Math.max(1, options.startPage ?? 1);
+    const endPage = Math.min(doc.numPages, options.endPage ?? doc.numPages);
+    // Encoded as they are found so large page images are not all held at once.
+    const found: Array<PdfImage & { hash: string }> = [];
+    const pagesByHash = new Map<string, Set<number>>();
+
+    for (let pageNumber = startPage; pageNumber <= endPage; pageNumber += 1) {
+      const page = await doc.getPage(pageNumber);
+      const captions = captionLines((await page.getTextContent()).items);
+      const operators = await page.getOperatorList();
+      const placed: PlacedImage[] = [];
+      const stack: number[][] = [];
+      let matrix = [1, 0, 0, 1, 0, 0];
+
+      // Follows the transformation matrix so each image's position can be matched to a caption.
+      for (let index = 0; index < operators.fnArray.length; index += 1) {
+        const fn = operators.fnArray[index];
+        const args = operators.argsArray[index] as unknown[];
+        if (fn === pdfjs.OPS.save) {
+          stack.push(matrix);
+        } else if (fn === pdfjs.OPS.restore) {
+          matrix = stack.pop() ?? matrix;
+        } else if (fn === pdfjs.OPS.transform) {
+          matrix = pdfjs.Util.transform(matrix, args as number[]);
+        } else if (fn === pdfjs.OPS.paintInlineImageXObject || fn === pdfjs.OPS.paintImageXObject) {
+          const image = fn === pdfjs.OPS.paintInlineImageXObject
+            ? (args[0] as PdfJsImage)
+            : typeof args[0] === "string"
+              ? await resolveImage(args[0].startsWith("g_") ? page.commonObjs : page.objs, args[0])
+              : null;
+          // The image fills the unit square of the current matrix.
+          const corners = [matrix[5], matrix[5] + matrix[1], matrix[5] + matrix[3], matrix[5] + matrix[1] + matrix[3]];
+          if (image) {
+            placed.push({ image, bottom: Math.min(...corners), top: Math.max(...corners) });
+          }
+        }
+      }
+
+      const figures = placed.filter(({ image }) => {
+        const shortSide = Math.min(image.width, image.height);
+        return image.data && shortSide >= MIN_IMAGE_SIDE && Math.max(image.width, image.height) / shortSide <= MAX_IMAGE_ASPECT;
+      });
+      const usedCaptions = new Set<number>();
+      figures.forEach((figure, index) => {
+        const { image } = figure;
+        const hash = createHash("sha1").update(image.data as Uint8Array).digest("hex");
+        const pages = pagesByHash.get(hash) ?? new Set<number>();
+        pages.add(pageNumber);
+        pagesByHash.set(hash, pages);
+
+        const rgba = pages.size === 1 && !found.some((entry) => entry.hash === hash) ? toRgba(image) : null;
+        if (!rgba) {
+          return;
+        }
+        const scaled = scaleDown(rgba, image.width, image.height, options.maxSize);
+        found.push({
+          page: pageNumber,
+          index: index + 1,
+          width: scaled.width,
+          height: scaled.height,
+          png: encodePng(scaled.width, scaled.height, scaled.rgba),
+          caption: nearestCaption(figure, captions, usedCaptions),
+          hash,
+        });
+      });
+      page.cleanup();
+    }
+
+    const images = found
+      .filter((entry) => (pagesByHash.get(entry.hash)?.size ?? 0) <= MAX_IMAGE_REPEATS)
+      .slice(0, options.maxImages)
+      .map((entry) => ({
+        page: entry.page,
+        index: entry.index,
+        width: entry.width,
+        height: entry.height,
+        png: entry.png,
+        caption: entry.caption,
+      }));
+    return images;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** Extracts the text of the given 1-based, inclusive page range (the whole book by default). */
+export async function extractPdfText(
+  data: Uint8Array,
+  options: { startPage?: number; endPage?: number } = {},
+): Promise<BookPage[]> {
+  const doc = await openPdfJsDocument(data);
+
+  try {
+    const startPage = Math.max(1, options.startPage ?? 1);
+    const endPage = Math.min(doc.numPages, options.endPage ?? doc.numPages);
+    const pages: BookPage[] = [];
+    for (let pageNumber = startPage; pageNumber <= endPage; pageNumber += 1) {
+      pages.push(await readPageText(doc, pageNumber));
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+export async function countPdfPages(data: Uint8Array): Promise<number> {
+  const doc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  return doc.getPageCount();
+}
+
+/**
+ * Copies the 1-based, inclusive page range into a new PDF. Books over `maxPages`
+ * are rejected with status 413.
+ */
+export async function extractPdfPages(
+  data: Uint8Array,
+  startPage: number,
+  endPage: number,
+  options: { maxPages?: number } = {},
+): Promise<Uint8Array> {
+  const source = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  const pageCount = source.getPageCount();
+  if (options.maxPages && pageCount > options.maxPages) {
+    throw tooManyPagesError(pageCount, options.maxPages);
+  }
+  if (startPage < 1 || endPage > pageCount || startPage > endPage) {
+    const error = new Error(`Pages ${startPage}–${endPage} are outside the book's ${pageCount} pages.`);
+    Object.assign(error, { status: 400 });
+    throw error;
+  }
+  const target = await PDFDocument.create();
+  const indices = Array.from({ length: endPage - startPage + 1 }, (_, offset) => startPage - 1 + offset);
+  const copied = await target.copyPages(source, indices);
+  copied.forEach((page) => target.addPage(page));
+  return target.save();
+}
@@ -0,0 +1,46 @@
+import { deflateSync } from "node:zlib";
+import { crc32 } from "./zip";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, checksum]);
+}
+
+/**
+ * Encodes 8-bit RGBA pixels (row by row, no padding) as a PNG. Rows are written
+ * unfiltered; deflate does the rest, which is plenty for extracted figures.
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  if (rgba.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} bytes of RGBA pixels, got ${rgba.length}.`);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: RGBA
+  // Bytes 10–12 (compression, filter, interlace) stay 0.
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let row = 0; row < height; row += 1) {
+    raw[row * (stride + 1)] = 0; // filter: none
+    raw.set(rgba.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+
+  return new Uint8Array(
+    Buffer.concat([
+      PNG_SIGNATURE,
+      chunk("IHDR", header),
+      chunk("IDAT", deflateSync(raw)),
+      chunk("IEND", Buffer.alloc(0)),
+    ]),
+  );
+}
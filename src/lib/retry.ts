@@ -0,0 +1,86 @@
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function getErrorStatus(error: unknown): number | null {
+  if (!error) {
+    return null;
+  }
+
+  const candidate = error as { status?: unknown; response?: { status?: unknown } };
+
+  if (typeof candidate.status === "number") {
+    return candidate.status;
+  }
+
+  if (candidate.response && typeof candidate.response.status === "number") {
+    return candidate.response.status;
+  }
+
+  return null;
+}
+
+/**
+ * Shared pause point for workers calling the same rate-limited API. When any worker
+ * hits a 429 it pauses the gate, and every worker waits for the gate to reopen before
+ * its next request instead of each backing off on its own schedule.
+ */
+export class BackoffGate {
+  private resumeAt = 0;
+
+  pause(delayMs: number) {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + delayMs);
+  }
+
+  async wait(): Promise<void> {
+    let remaining = this.resumeAt - Date.now();
+    while (remaining > 0) {
+      await sleep(remaining);
+      remaining = this.resumeAt - Date.now();
+    }
+  }
+}
+
+export interface RetryOptions {
+  label?: string;
+  log?: (...args: unknown[]) => void;
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  gate?: BackoffGate;
+}
+
+export async function retryWithBackoff<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { label, log, gate } = options;
+  const maxAttempts = options.maxAttempts ?? 5;
+  let delay = options.initialDelayMs ?? 2000;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    try {
+      await gate?.wait();
+      return await task();
+    } catch (error) {
+      const status = getErrorStatus(error);
+
+      if (status === 429 && attempt < maxAttempts) {
+        if (log) {
+          log(
+            `${label ?? "Retryable task"} hit 429. Waiting ${Math.round(delay / 1000)}s before retry ${
+              attempt + 1
+            }/${maxAttempts}.`,
+          );
+        }
+        if (gate) {
+          gate.pause(delay);
+        } else {
+          await sleep(delay);
+        }
+        delay *= 2;
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  throw new Error(`${label ?? "Retryable task"} exhausted all retry attempts.`);
+}
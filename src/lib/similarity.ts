@@ -0,0 +1,121 @@
+import type OpenAI from "openai";
+
+export interface QuestionText {
+  stem: string;
+  options: string[];
+}
+
+export interface SimilarityScorer {
+  readonly name: string;
+  /** Score at or above which two questions count as near-duplicates. */
+  readonly defaultThreshold: number;
+  /** Returns `scores[i][j]`, the similarity in [0, 1] of `candidates[i]` to `references[j]`. */
+  score(candidates: QuestionText[], references: QuestionText[]): Promise<number[][]>;
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "which", "with", "what", "who",
+]);
+
+/** Lower-cases and strips punctuation so texts compare by their words. */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+}
+
+export function tokenSet(text: string): Set<string> {
+  return new Set(normalizeText(text).split(" ").filter((token) => token && !STOPWORDS.has(token)));
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 && right.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const value of left) {
+    if (right.has(value)) {
+      shared += 1;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Word-overlap similarity. A matching option set raises the score of questions whose
+ * stems are only loosely reworded, but near-identical stems are duplicates on their own.
+ * Questions without options (true/false, numeric, …) compare by stem alone.
+ */
+export const lexicalSimilarity: SimilarityScorer = {
+  name: "lexical",
+  defaultThreshold: 0.8,
+  async score(candidates, references) {
+    const prepare = (question: QuestionText) => ({
+      stem: tokenSet(question.stem),
+      options: new Set(question.options.map(normalizeText).filter(Boolean)),
+    });
+    const left = candidates.map(prepare);
+    const right = references.map(prepare);
+
+    return left.map((candidate) =>
+      right.map((reference) => {
+        const stemScore = jaccard(candidate.stem, reference.stem);
+        const optionScore = candidate.options.size > 0 && reference.options.size > 0
+          ? jaccard(candidate.options, reference.options)
+          : stemScore;
+        return Math.max(stemScore, (stemScore + optionScore) / 2);
+      }),
+    );
+  },
+};
+
+function cosine(left: number[], right: number[]): number {
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index] * right[index];
+    leftNorm += left[index] * left[index];
+    rightNorm += right[index] * right[index];
+  }
+  return leftNorm === 0 || rightNorm === 0 ? 0 : dot / Math.sqrt(leftNorm * rightNorm);
+}
+
+// Well under the embeddings API's per-request input and token limits.
+const EMBEDDING_BATCH_SIZE = 256;
+
+/**
+ * Cosine similarity of OpenAI embeddings of each question's stem and options. Each
+ * distinct text is embedded once per call, in batches of `EMBEDDING_BATCH_SIZE`.
+ */
+export function createEmbeddingSimilarity(
+  openai: OpenAI,
+  options: { model?: string; onUsage?: (tokens: number, model: string) => void } = {},
+): SimilarityScorer {
+  const model = options.model ?? "text-embedding-3-small";
+
+  return {
+    name: `embedding:${model}`,
+    defaultThreshold: 0.92,
+    async score(candidates, references) {
+      const toText = (question: QuestionText) =>
+        `${question.stem.trim()}\nOptions: ${question.options.map((option) => option.trim()).join("; ")}`;
+      const texts = [...new Set([...candidates, ...references].map(toText))];
+      const vectors = new Map<string, number[]>();
+
+      for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const response = await openai.embeddings.create({ model, input: batch });
+        for (const entry of response.data) {
+          vectors.set(batch[entry.index], entry.embedding);
+        }
+        options.onUsage?.(response.usage?.total_tokens ?? 0, model);
+      }
+
+      const vectorFor = (question: QuestionText) => vectors.get(toText(question)) ?? [];
+      return candidates.map((candidate) =>
+        references.map((reference) => cosine(vectorFor(candidate), vectorFor(reference))),
+      );
+    },
+  };
+}
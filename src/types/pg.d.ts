@@ -18,5 +18,6 @@ declare module "pg" {
     constructor(config: PoolConfig);
     query<T = unknown>(text: string, values?: unknown[]): Promise<QueryResult<T>>;
     connect(): Promise<PoolClient>;
+    end(): Promise<void>;
   }
 }
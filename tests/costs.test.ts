@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+
+const usage = { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 };
+
+let database: TestDatabase;
+let costs: typeof import("../src/app/api/mcqs/costs");
+let db: typeof import("../src/lib/db");
+
+describe("cost ledger", () => {
+  before(async () => {
+    database = await startTestDatabase();
+    process.env.DATABASE_URL = database.url;
+    costs = await import("../src/app/api/mcqs/costs");
+    db = await import("../src/lib/db");
+  });
+
+  beforeEach(() => {
+    delete process.env.MCQ_COST_CURRENCY;
+    delete process.env.MCQ_COST_RATE;
+    delete process.env.MCQ_JOB_BUDGET;
+  });
+
+  after(async () => {
+    await db.getDbPool().end();
+    await database.stop();
+  });
+
+  test("totals convert from USD instead of adding amounts in different currencies", async () => {
+    // openai:gpt-4.1 input is 2 USD per million tokens.
+    costs.recordUnattributedCost("topics", "openai:gpt-4.1", usage);
+    process.env.MCQ_COST_CURRENCY = "INR";
+    process.env.MCQ_COST_RATE = "80";
+    costs.recordUnattributedCost("topics", "openai:gpt-4.1", usage);
+
+    assert.equal(await costs.getTodaySpend(), 320);
+    const rows = await costs.summarizeCosts({ groupBy: ["model"] });
+    assert.deepEqual(
+      rows.map((row) => ({ model: row.group.model, cost: row.cost, calls: row.calls })),
+      [{ model: "openai:gpt-4.1", cost: 320, calls: 2 }],
+    );
+
+    delete process.env.MCQ_COST_CURRENCY;
+    assert.equal(await costs.getTodaySpend(), 4);
+  });
+
+  test("calls in flight count against the job budget until released", async () => {
+    process.env.MCQ_JOB_BUDGET = "0.2";
+    const record = { id: "budget-job", payload: {} } as Parameters<typeof costs.reserveBudget>[0];
+
+    const first = await costs.reserveBudget(record, "generation", "openai:gpt-4.1");
+    const second = await costs.reserveBudget(record, "generation", "openai:gpt-4.1");
+    await assert.rejects(costs.reserveBudget(record, "generation", "openai:gpt-4.1"), { status: 402 });
+
+    first.release();
+    second.release();
+    (await costs.reserveBudget(record, "generation", "openai:gpt-4.1")).release();
+    await assert.rejects(costs.reserveBudget(record, "generation", "openai:unpriced"), { status: 402 });
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import {
+  DEFAULT_CSV_PROFILE,
+  deleteCsvProfile,
+  getCsvProfile,
+  isBuiltInCsvProfile,
+  listCsvProfiles,
+  parseCsvProfile,
+  saveCsvProfile,
+} from "../src/app/api/mcqs/csvProfiles";
+import { csvExporter } from "../src/app/api/mcqs/exporters/csv";
+import type { JobPayload, StoredMcqItem } from "../src/app/api/mcqs/jobStore";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+
+const payload: JobPayload = {
+  chapterNumber: 3,
+  chapterTitle: "Light",
+  topics: [{ topic: "Reflection", description: "" }],
+  vectorStoreId: "vs_test",
+  classLevel: 8,
+  subject: { id: 1, name: "Science" },
+  syllabus: { id: 1, name: "CBSE" },
+};
+
+const item: StoredMcqItem = {
+  stem: "Which ray is shown in the figure?",
+  options: ["Incident", "Reflected", "Normal", "Refracted"],
+  correct_index: 1,
+  explanation: "It leaves the mirror.",
+  bloom: "Remember",
+  difficulty: "Easy",
+  type: "diagram",
+  image_url: "/api/figures/books/abc/fig-1.png",
+  source_spans: [
+    { page: 12, text_snippet: "The normal is perpendicular to the mirror." },
+    { page: 13, text_snippet: "" },
+  ],
+  id: "5b0f3c4e-8d3a-4f7e-9a51-0c2d7e6b1a90",
+};
+
+function exportLines(csvProfile = DEFAULT_CSV_PROFILE): string[] {
+  const file = csvExporter.export({
+    jobId: "job-1",
+    payload,
+    topics: [{ topic: "Reflection", items: [item] }],
+    basename: "chapter_3",
+    csvProfile,
+  });
+  return String(file.body).replace(/^\ufeff/, "").split("\n");
+}
+
+describe("CSV profiles", () => {
+  test("the default profile keeps the original eight columns", () => {
+    assert.deepEqual(exportLines(), [
+      '"Topic","Question_text","Option A","Option B","Option C","Option D","Correct_Answer","Explanation"',
+      '"Reflection","Which ray is shown in the figure?","Incident","Reflected","Normal","Refracted","B","It leaves the mirror."',
+    ]);
+  });
+
+  test("the built-in figures profile adds the image URL", async () => {
+    const figures = await getCsvProfile(" Figures ");
+
+    assert.ok(figures);
+    assert.equal(isBuiltInCsvProfile("figures"), true);
+    assert.equal(isBuiltInCsvProfile("school"), false);
+    const [header, row] = exportLines(figures);
+    assert.match(header, /,"Explanation","Image_URL"$/);
+    assert.match(row, /,"\/api\/figures\/books\/abc\/fig-1\.png"$/);
+  });
+});
+
+describe("custom CSV profiles", () => {
+  let database: TestDatabase;
+  let db: typeof import("../src/lib/db");
+
+  before(async () => {
+    database = await startTestDatabase();
+    process.env.DATABASE_URL = database.url;
+    db = await import("../src/lib/db");
+  });
+
+  after(async () => {
+    await db.getDbPool().end();
+    await database.stop();
+  });
+
+  test("invalid profiles are rejected with the first problem", () => {
+    assert.match(parseCsvProfile({ name: "Bad Name!", columns: [] }).error ?? "", /^Profile name must be/);
+    assert.equal(parseCsvProfile({ name: "lms", columns: [] }).error, "Profile needs at least one column.");
+    assert.match(
+      parseCsvProfile({ name: "lms", columns: [{ field: "answer" }] }).error ?? "",
+      /^Column 1 has an unknown field/,
+    );
+    assert.equal(
+      parseCsvProfile({ name: "lms", columns: [{ field: "stem" }], delimiter: ":" }).error,
+      "Delimiter must be one of ',', ';', '|' or a tab.",
+    );
+  });
+
+  test("a saved profile picks the columns, delimiter, BOM and span format", async () => {
+    const { profile } = parseCsvProfile({
+      name: " LMS ",
+      columns: [
+        { field: "question_id", header: "ID" },
+        { field: "stem" },
+        { field: "correct_text", header: "Answer" },
+        { field: "source_spans", header: "Sources" },
+        { field: "source_pages", header: "Pages" },
+        { field: "class", header: "Class" },
+      ],
+      delimiter: ";",
+      includeBom: false,
+      spanFormat: "page_snippets",
+      spanSeparator: " / ",
+    });
+    assert.ok(profile);
+    await saveCsvProfile(profile);
+
+    const stored = await getCsvProfile("lms");
+    assert.ok(stored);
+    assert.deepEqual(
+      (await listCsvProfiles()).map((entry) => entry.name),
+      ["default", "figures", "lms"],
+    );
+
+    const file = csvExporter.export({
+      jobId: "job-1",
+      payload,
+      topics: [{ topic: "Reflection", items: [item] }],
+      basename: "chapter_3",
+      csvProfile: stored,
+    });
+    assert.equal(file.filename, "chapter_3_lms.csv");
+    assert.deepEqual(String(file.body).split("\n"), [
+      '"ID";"stem";"Answer";"Sources";"Pages";"Class"',
+      '"5b0f3c4e-8d3a-4f7e-9a51-0c2d7e6b1a90";"Which ray is shown in the figure?";"Reflected";' +
+        '"p. 12: ""The normal is perpendicular to the mirror."" / p. 13";"12 / 13";"Class 8"',
+    ]);
+
+    assert.equal(await deleteCsvProfile("LMS"), true);
+    assert.equal(await getCsvProfile("lms"), null);
+    assert.equal(await deleteCsvProfile("lms"), false);
+  });
+});
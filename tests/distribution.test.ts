@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  canMeetTargets,
+  checkTopicDistribution,
+  getDistributionTargets,
+  getMissingCategories,
+} from "../src/app/api/mcqs/distribution";
+import type { StoredMcqItem } from "../src/app/api/mcqs/jobStore";
+
+function question(bloom: string, difficulty: string, type: string): StoredMcqItem {
+  return {
+    stem: `${bloom} ${difficulty} ${type}`,
+    options: ["a", "b", "c", "d"],
+    correct_index: 0,
+    explanation: "Because.",
+    bloom,
+    difficulty,
+    type,
+  };
+}
+
+describe("topic distribution", () => {
+  const targets = getDistributionTargets();
+
+  test("a 3-question topic cannot meet the default mix and is not rebalanced", () => {
+    const items = [
+      question("Remember", "Easy", "recall"),
+      question("Understand", "Medium", "application"),
+      question("Apply", "Hard", "fill-blank"),
+    ];
+
+    assert.equal(canMeetTargets(items.length, targets), false);
+    // Evaluate/Create rounds to no question, so it is not reported missing.
+    const missing = getMissingCategories(checkTopicDistribution("Small", items, 0.15, targets));
+    assert.ok(missing.every((entry) => entry.label !== "Evaluate/Create"));
+  });
+
+  test("Bloom shares that round to no question are not required", () => {
+    const items = [question("Understand", "Easy", "recall"), question("Apply", "Medium", "application")];
+    const report = checkTopicDistribution("Tiny", items, 0.15, { ...targets, difficulty: [], type: [] });
+
+    assert.equal(report.skewed, false);
+    assert.deepEqual(getMissingCategories(report), []);
+  });
+
+  test("a full-size topic is checked against the shares", () => {
+    const items = Array.from({ length: 10 }, () => question("Remember", "Easy", "recall"));
+    const report = checkTopicDistribution("Skewed", items, 0.15, targets);
+
+    assert.equal(canMeetTargets(items.length, targets), true);
+    assert.equal(report.skewed, true);
+    assert.deepEqual(
+      getMissingCategories(report).filter((entry) => entry.dimension === "bloom"),
+      [
+        { dimension: "bloom", label: "Understand", needed: 3 },
+        { dimension: "bloom", label: "Apply", needed: 3 },
+        { dimension: "bloom", label: "Analyze", needed: 2 },
+      ],
+    );
+  });
+});
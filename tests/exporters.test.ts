@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { inflateRawSync } from "node:zlib";
+import { describe, test } from "node:test";
+import { getExporter, type ExportContext } from "../src/app/api/mcqs/exporters";
+import type { JobPayload, StoredMcqItem } from "../src/app/api/mcqs/jobStore";
+import { crc32 } from "../src/lib/zip";
+
+const payload: JobPayload = {
+  chapterNumber: 4,
+  chapterTitle: "Light: Reflection",
+  topics: [{ topic: "Mirrors", description: "" }],
+  vectorStoreId: "vs_test",
+  classLevel: 8,
+  subject: { id: 1, name: "Science" },
+  syllabus: { id: 1, name: "CBSE" },
+};
+
+const meta = { explanation: "See {the} mirror.", bloom: "Remember", difficulty: "Easy", type: "recall" };
+
+const single: StoredMcqItem = {
+  ...meta,
+  stem: "Which sign = equal? Use ~ or # : {x}",
+  options: ["a = b", "a ~ b", "C:\\path", "none"],
+  correct_index: 0,
+};
+const multiple: StoredMcqItem = {
+  ...meta,
+  format: "multiple",
+  stem: "Pick the plane mirrors",
+  options: ["Flat", "Concave", "Bathroom", "Dressing table"],
+  correct_indices: [0, 2, 3],
+};
+const match: StoredMcqItem = {
+  ...meta,
+  format: "match",
+  stem: "Match the mirror to its use",
+  pairs: [
+    { left: "Concave", right: "Torch" },
+    { left: "Convex", right: "Rear-view <car>" },
+  ],
+};
+const numeric: StoredMcqItem = {
+  ...meta,
+  format: "numeric",
+  stem: "Angle of reflection for 30° incidence",
+  answer: 30,
+  tolerance: 0.5,
+  unit: "°",
+};
+const figure: StoredMcqItem = {
+  ...meta,
+  type: "diagram",
+  stem: "Which ray is the normal?",
+  options: ["P", "Q", "R", "S"],
+  correct_index: 2,
+  image_url: "/api/figures/books/abc/fig-1.png",
+};
+
+const figureBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+function context(items: StoredMcqItem[]): ExportContext {
+  return {
+    jobId: "job-1",
+    payload,
+    topics: [{ topic: "Mirrors", items }],
+    basename: "Class_8_Science_Light_CBSE",
+    figures: new Map([[figure.image_url!, { bytes: figureBytes, contentType: "image/png" }]]),
+  };
+}
+
+function exportText(format: string, items: StoredMcqItem[]): string {
+  const exporter = getExporter(format);
+  assert.ok(exporter, format);
+  return String(exporter.export(context(items)).body);
+}
+
+/** Reads a ZIP through its central directory, checking each entry's CRC. */
+function readZip(bytes: Uint8Array): Map<string, Buffer> {
+  const buffer = Buffer.from(bytes);
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(end + 10);
+  const files = new Map<string, Buffer>();
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let index = 0; index < count; index += 1) {
+    assert.equal(buffer.readUInt32LE(offset), 0x02014b50);
+    const checksum = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize));
+    assert.equal(crc32(data), checksum, name);
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe("exporters", () => {
+  test("GIFT escapes its markup characters and weights multiple answers", () => {
+    const gift = exportText("gift", [single, multiple, numeric]);
+
+    assert.match(gift, /^\$CATEGORY: \$course\$\/Chapter 4 - Light\\: Reflection\/Mirrors\n/);
+    assert.ok(gift.includes("::Q1::Which sign \\= equal? Use \\~ or \\# \\: \\{x\\} {\n"));
+    assert.ok(gift.includes("  =a \\= b\n  ~a \\~ b\n  ~C\\:\\\\path\n  ~none\n"));
+    assert.ok(gift.includes("  ####See \\{the\\} mirror.\n}"));
+    assert.ok(
+      gift.includes("  ~%33.33333%Flat\n  ~%-100%Concave\n  ~%33.33333%Bathroom\n  ~%33.33333%Dressing table\n"),
+    );
+    assert.ok(gift.includes("::Q3::Angle of reflection for 30° incidence (in °) {\n  #30:0.5\n"));
+  });
+
+  test("QTI packages items, the manifest and stored figures in a ZIP", () => {
+    const exporter = getExporter("qti");
+    assert.ok(exporter);
+    const result = exporter.export(context([match, figure]));
+    assert.equal(result.filename, "Class_8_Science_Light_CBSE.qti.zip");
+
+    const files = readZip(result.body as Uint8Array);
+    assert.deepEqual(
+      [...files.keys()],
+      ["imsmanifest.xml", "assessment.xml", "items/item1.xml", "images/figure1.png", "items/item2.xml"],
+    );
+    assert.deepEqual(new Uint8Array(files.get("images/figure1.png")!), figureBytes);
+
+    const matchXml = files.get("items/item1.xml")!.toString("utf8");
+    assert.ok(matchXml.includes('cardinality="multiple" baseType="directedPair"'));
+    assert.ok(matchXml.includes("<value>left1 right1</value>\n      <value>left2 right2</value>"));
+    assert.ok(matchXml.includes('identifier="right2" matchMax="1">Rear-view &lt;car&gt;<'));
+
+    const figureXml = files.get("items/item2.xml")!.toString("utf8");
+    assert.ok(figureXml.includes('<img src="../images/figure1.png" alt="Figure"/>'));
+    assert.ok(figureXml.includes("<value>choiceC</value>"));
+
+    const manifest = files.get("imsmanifest.xml")!.toString("utf8");
+    assert.ok(manifest.includes('<file href="items/item2.xml"/>\n      <file href="images/figure1.png"/>'));
+    assert.ok(files.get("assessment.xml")!.toString("utf8").includes('identifier="test-job-1"'));
+  });
+
+  test("Moodle XML uses native question types, partial credit and embedded figures", () => {
+    const xml = exportText("moodle-xml", [multiple, match, numeric, figure]);
+
+    assert.equal(xml.match(/<question type="multichoice">/g)?.length, 2);
+    assert.equal(xml.match(/<answer fraction="33\.33333" format="html">/g)?.length, 3);
+    assert.equal(xml.match(/<answer fraction="-100" format="html">/g)?.length, 1);
+    assert.ok(xml.includes("<text>Convex</text>\n      <answer><text>Rear-view &lt;car&gt;</text></answer>"));
+    assert.ok(xml.includes("<tolerance>0.5</tolerance>"));
+    assert.ok(xml.includes("<unit_name>°</unit_name>"));
+    assert.ok(xml.includes("&lt;img src=&quot;@@PLUGINFILE@@/figure.png&quot; alt=&quot;Figure&quot;&gt;"));
+    assert.ok(
+      xml.includes(`<file name="figure.png" path="/" encoding="base64">${Buffer.from(figureBytes).toString("base64")}</file>`),
+    );
+  });
+
+  test("JSON keeps the job details and the topics as stored", () => {
+    const document = JSON.parse(exportText("json", [single, numeric]));
+
+    assert.deepEqual(document, {
+      jobId: "job-1",
+      classLevel: 8,
+      subject: payload.subject,
+      syllabus: payload.syllabus,
+      chapterNumber: 4,
+      chapterTitle: "Light: Reflection",
+      topics: [{ topic: "Mirrors", items: [single, numeric] }],
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type OpenAI from "openai";
+import { createVectorStoreTextSource } from "../src/lib/grounding";
+
+describe("vector store grounding", () => {
+  test("a failed download leaves citations unchecked without downloading again", async () => {
+    let listings = 0;
+    const openai = {
+      vectorStores: {
+        files: {
+          async *list() {
+            listings += 1;
+            yield { id: "file_1", status: "completed" };
+          },
+          async *content() {
+            throw new Error("download failed");
+          },
+        },
+      },
+    } as unknown as OpenAI;
+
+    const source = createVectorStoreTextSource(openai, "vs_test");
+    const checks = await Promise.all(
+      ["light travels in straight lines", "the angle of incidence", "a plane mirror"].map((snippet) =>
+        source.containsSnippet(snippet),
+      ),
+    );
+
+    assert.deepEqual(checks, [null, null, null]);
+    assert.equal(await source.containsSnippet("the normal"), null);
+    assert.equal(listings, 1);
+  });
+});
@@ -0,0 +1,249 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { NextRequest } from "next/server";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+
+type JobStatusBody = {
+  status: string;
+  error: string | null;
+  allowValidationRetry: boolean;
+  allowPersistenceRetry: boolean;
+  cost: { total: number } | null;
+};
+
+const JOB_TIMEOUT_MS = 60_000;
+
+let database: TestDatabase;
+let figureDir: string;
+let mcqs: typeof import("../src/app/api/mcqs/route");
+let status: typeof import("../src/app/api/mcqs/status/route");
+let retryValidation: typeof import("../src/app/api/mcqs/retry-validation/route");
+let retryPersist: typeof import("../src/app/api/mcqs/retry-persist/route");
+let llm: typeof import("../src/lib/llm");
+let db: typeof import("../src/lib/db");
+
+function jsonRequest(pathname: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${pathname}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readStatus(jobId: string): Promise<JobStatusBody> {
+  const response = await status.GET(new NextRequest(`http://localhost/api/mcqs/status?jobId=${jobId}`));
+  assert.equal(response.status, 200);
+  return (await response.json()) as JobStatusBody;
+}
+
+async function waitForJob(jobId: string): Promise<JobStatusBody> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const job = await readStatus(jobId);
+    if (job.status === "succeeded" || job.status === "failed") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`Job ${jobId} did not finish within ${JOB_TIMEOUT_MS} ms.`);
+}
+
+/** Each test uses its own subject, so earlier tests' stored questions do not count as duplicates. */
+async function startJob(chapterTitle: string, subjectId: number): Promise<string> {
+  const response = await mcqs.POST(
+    jsonRequest("/api/mcqs", {
+      chapterNumber: 10,
+      chapterTitle,
+      topics: [
+        { topic: "Reflection of Light", description: "Laws of reflection and plane mirrors." },
+        { topic: "Refraction of Light", description: "Bending of light between media." },
+      ],
+      vectorStoreId: "vs_mock_1",
+      classLevel: 8,
+      subject: { id: subjectId, name: `Science ${subjectId}` },
+      syllabus: { id: 1, name: "CBSE" },
+    }),
+  );
+  const body = (await response.json()) as { jobId?: string; error?: string };
+  assert.equal(response.status, 200, body.error);
+  assert.ok(body.jobId);
+  return body.jobId;
+}
+
+async function storedQuestionCount(chapterTitle: string): Promise<number> {
+  const rows = await database.query<{ count: number }>(
+    `SELECT COUNT(*)::integer AS count
+     FROM questions q JOIN topics t ON t.id = q.topic_id JOIN chapters c ON c.id = t.chapter_id
+     WHERE c.chapter_name = $1`,
+    [chapterTitle],
+  );
+  return rows[0]?.count ?? 0;
+}
+
+describe("MCQ job lifecycle on the mock provider", () => {
+  before(async () => {
+    database = await startTestDatabase();
+    figureDir = await mkdtemp(path.join(tmpdir(), "mcq-figures-"));
+    process.env.DATABASE_URL = database.url;
+    process.env.MCQ_LLM_MOCK = "on";
+    process.env.MCQ_FIGURE_DIR = figureDir;
+
+    // Stores and providers are picked from the environment when first used.
+    mcqs = await import("../src/app/api/mcqs/route");
+    status = await import("../src/app/api/mcqs/status/route");
+    retryValidation = await import("../src/app/api/mcqs/retry-validation/route");
+    retryPersist = await import("../src/app/api/mcqs/retry-persist/route");
+    llm = await import("../src/lib/llm");
+    db = await import("../src/lib/db");
+  });
+
+  beforeEach(() => {
+    delete process.env.MCQ_LLM_MOCK_FAULTS;
+    llm.resetMockLlmState();
+  });
+
+  after(async () => {
+    // Log lines are saved shortly after they are written; let the last saves land.
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await db.getDbPool().end();
+    await database.stop();
+    await rm(figureDir, { recursive: true, force: true });
+  });
+
+  test("generates, validates and persists a chapter", async () => {
+    const jobId = await startJob("Light: generate", 1);
+    const job = await waitForJob(jobId);
+
+    assert.equal(job.status, "succeeded", job.error ?? undefined);
+    assert.ok((await storedQuestionCount("Light: generate")) >= 20);
+
+    const rows = await database.query<{ status: string }>(`SELECT status FROM mcq_jobs WHERE id = $1`, [jobId]);
+    assert.equal(rows[0]?.status, "succeeded");
+  });
+
+  test("prices mock calls at 0 and keeps them out of the cost ledger", async () => {
+    const jobId = await startJob("Light: costs", 4);
+    const job = await waitForJob(jobId);
+
+    assert.equal(job.status, "succeeded", job.error ?? undefined);
+    assert.equal(job.cost?.total, 0);
+    const ledger = await database.query<{ exists: boolean }>(
+      `SELECT to_regclass('mcq_cost_entries') IS NOT NULL AS exists`,
+    );
+    if (ledger[0]?.exists) {
+      const rows = await database.query<{ count: number }>(
+        `SELECT COUNT(*)::integer AS count FROM mcq_cost_entries WHERE job_id = $1`,
+        [jobId],
+      );
+      assert.equal(rows[0]?.count, 0);
+    }
+  });
+
+  test("retries validation after the validator is overloaded", async () => {
+    process.env.MCQ_LLM_MOCK_FAULTS = "validation:529:10";
+    const jobId = await startJob("Light: validation retry", 2);
+    const failed = await waitForJob(jobId);
+
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.allowValidationRetry, true);
+    assert.equal(await storedQuestionCount("Light: validation retry"), 0);
+
+    delete process.env.MCQ_LLM_MOCK_FAULTS;
+    const response = await retryValidation.POST(jsonRequest("/api/mcqs/retry-validation", { jobId }));
+    const retried = (await response.json()) as JobStatusBody;
+
+    assert.equal(retried.status, "succeeded", retried.error ?? undefined);
+    assert.ok((await storedQuestionCount("Light: validation retry")) >= 20);
+  });
+
+  test("retries persistence after the database write fails", async () => {
+    await database.query(`ALTER TABLE questions RENAME TO questions_offline`);
+    let jobId = "";
+    try {
+      jobId = await startJob("Light: persistence retry", 3);
+      const failed = await waitForJob(jobId);
+
+      assert.equal(failed.status, "failed");
+      assert.equal(failed.allowPersistenceRetry, true);
+    } finally {
+      await database.query(`ALTER TABLE questions_offline RENAME TO questions`);
+    }
+
+    const response = await retryPersist.POST(jsonRequest("/api/mcqs/retry-persist", { jobId }));
+    const retried = (await response.json()) as JobStatusBody;
+
+    assert.equal(retried.status, "succeeded", retried.error ?? undefined);
+    assert.ok((await storedQuestionCount("Light: persistence retry")) >= 20);
+  });
+
+  test("keeps near-duplicates out of a distribution regeneration", async () => {
+    // Every generation call returns the same skewed set, so the regeneration can only
+    // offer copies of questions the topic already has.
+    const types = ["recall", "application", "assertion-reason", "fill-blank"];
+    const skewedSet = (prefix: string) =>
+      Array.from({ length: 12 }, (_, index) => ({
+        bloom: index === 0 ? "Analyze" : "Remember",
+        difficulty: ["Easy", "Medium", "Hard"][index % 3],
+        type: types[index % types.length],
+        stem: ["a", "b", "c", "d"].map((letter) => `${prefix}${index}${letter}`).join(" "),
+        options: ["w", "x", "y", "z"].map((letter) => `${prefix}${index}${letter}`),
+        correct_index: 0,
+        explanation: `${prefix}${index} explanation`,
+        source_spans: [{ page: 1, text_snippet: `${prefix}${index} passage` }],
+      }));
+    const fixtures = path.join(figureDir, "skewed.json");
+    await writeFile(
+      fixtures,
+      JSON.stringify({ mcqs: { "Reflection of Light": skewedSet("refl"), "Refraction of Light": skewedSet("refr") } }),
+    );
+    process.env.MCQ_LLM_MOCK_FIXTURES = fixtures;
+    process.env.MCQ_DISTRIBUTION_TOLERANCE = "0.05";
+
+    try {
+      const jobId = await startJob("Light: distribution", 5);
+      const job = await waitForJob(jobId);
+      assert.equal(job.status, "succeeded", job.error ?? undefined);
+    } finally {
+      delete process.env.MCQ_LLM_MOCK_FIXTURES;
+      delete process.env.MCQ_DISTRIBUTION_TOLERANCE;
+    }
+
+    const rows = await database.query<{ total: number; distinct_stems: number }>(
+      `SELECT COUNT(*)::integer AS total, COUNT(DISTINCT q.question_text)::integer AS distinct_stems
+       FROM questions q JOIN topics t ON t.id = q.topic_id JOIN chapters c ON c.id = t.chapter_id
+       WHERE c.chapter_name = $1`,
+      ["Light: distribution"],
+    );
+    assert.equal(rows[0]?.total, 24);
+    assert.equal(rows[0]?.distinct_stems, 24);
+  });
+
+  test("leaves fixture verdicts untouched between calls", async () => {
+    const fixtures = path.join(figureDir, "fixtures.json");
+    const verdict = { index: 0, verdict: "approve", reasons: [], replacement_mcq: null };
+    await writeFile(fixtures, JSON.stringify({ verdicts: { "Mock topic": [verdict] } }));
+    process.env.MCQ_LLM_MOCK_FIXTURES = fixtures;
+    process.env.MCQ_LLM_MOCK_FAULTS = "validation:reject";
+
+    try {
+      const validation = llm.getStageModel("validation");
+      const call = () =>
+        validation.provider.completeJson({
+          model: validation.model,
+          system: "",
+          prompt: "\nTopic: Mock topic\n- Index: 0\n",
+          schema: { name: "topic_verdicts", schema: {} },
+        });
+      const rejected = JSON.parse((await call()).text) as { verdicts: Array<{ verdict: string }> };
+      const approved = JSON.parse((await call()).text) as { verdicts: Array<{ verdict: string }> };
+
+      assert.equal(rejected.verdicts[0].verdict, "reject");
+      assert.equal(approved.verdicts[0].verdict, "approve");
+    } finally {
+      delete process.env.MCQ_LLM_MOCK_FIXTURES;
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import type { JobRecord } from "../src/app/api/mcqs/jobStore";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+
+let database: TestDatabase;
+let jobStore: typeof import("../src/app/api/mcqs/jobStore");
+let db: typeof import("../src/lib/db");
+
+function jobRecord(id: string): JobRecord {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  return {
+    id,
+    status: "processing",
+    payload: {
+      chapterNumber: 1,
+      chapterTitle: "Heartbeats",
+      topics: [],
+      vectorStoreId: "vs_test",
+      classLevel: 8,
+      subject: { id: 1, name: "Science" },
+      syllabus: { id: 1, name: "CBSE" },
+    },
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    logs: [],
+    summary: null,
+    openAiUsage: { ...usage },
+    anthropicUsage: { ...usage },
+  };
+}
+
+/** Writes a running job as another instance would, with a heartbeat `ageMs` old. */
+async function insertForeignJob(id: string, ageMs: number) {
+  await database.query(
+    `INSERT INTO mcq_jobs (id, status, resumable, record, created_at, updated_at, owner, heartbeat_at)
+     VALUES ($1, 'processing', FALSE, $2, NOW(), NOW(), 'other-instance', NOW() - $3 * INTERVAL '1 millisecond')`,
+    [id, JSON.stringify(jobRecord(id)), ageMs],
+  );
+}
+
+describe("Postgres job store", () => {
+  before(async () => {
+    database = await startTestDatabase();
+    process.env.DATABASE_URL = database.url;
+    jobStore = await import("../src/app/api/mcqs/jobStore");
+    db = await import("../src/lib/db");
+  });
+
+  after(async () => {
+    await db.getDbPool().end();
+    await database.stop();
+  });
+
+  test("only marks jobs whose owner stopped heartbeating as interrupted", async () => {
+    const store = jobStore.getJobStore();
+    const own = jobRecord(crypto.randomUUID());
+    await store.create(own);
+
+    const running = crypto.randomUUID();
+    const abandoned = crypto.randomUUID();
+    await insertForeignJob(running, 5_000);
+    await insertForeignJob(abandoned, 5 * 60_000);
+
+    assert.deepEqual(await store.markInterruptedJobs(), [abandoned]);
+    assert.equal((await store.get(running))?.status, "processing");
+    assert.equal((await store.get(own.id))?.status, "processing");
+    const marked = await store.get(abandoned);
+    assert.equal(marked?.status, "failed");
+    assert.equal(marked?.resumable, true);
+
+    own.status = "succeeded";
+    await store.save(own);
+  });
+});
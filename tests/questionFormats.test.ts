@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { StoredMcqItem } from "../src/app/api/mcqs/jobStore";
+import {
+  answerKey,
+  answerText,
+  parseAnswerFields,
+  parseAnswerKey,
+  toQuestionRow,
+} from "../src/app/api/mcqs/questionFormats";
+
+const base = { stem: "Question", explanation: "Because.", bloom: "Remember", difficulty: "Easy", type: "recall" };
+
+describe("answer keys", () => {
+  test("numeric answers survive a round trip", () => {
+    const cases: Array<{ answer: number; tolerance: number; unit: string }> = [
+      { answer: 9.8, tolerance: 0.1, unit: "m/s²" },
+      { answer: 1e-7, tolerance: 0, unit: "m" },
+      { answer: 6.02e23, tolerance: 1e21, unit: "" },
+      { answer: -273.15, tolerance: 0, unit: "°C" },
+      { answer: 1.6e-19, tolerance: 0, unit: "eV" },
+    ];
+
+    for (const fields of cases) {
+      const item: StoredMcqItem = { ...base, format: "numeric", ...fields };
+      assert.deepEqual(parseAnswerKey("numeric", answerKey(item)), fields, answerKey(item));
+    }
+  });
+
+  test("match pairs keep arrows and bars that are part of their text", () => {
+    const pairs = [
+      { left: "CH4 + 2O2 -> CO2 + 2H2O", right: "Combustion" },
+      { left: "A => B", right: "x | y" },
+      { left: "C:\\temp\\", right: "→ right" },
+    ];
+    const key = answerKey({ ...base, format: "match", pairs });
+
+    assert.deepEqual(parseAnswerKey("match", key), { pairs });
+    assert.deepEqual(parseAnswerKey("match", "Na -> Sodium | K → Potassium | Fe => Iron"), {
+      pairs: [
+        { left: "Na", right: "Sodium" },
+        { left: "K", right: "Potassium" },
+        { left: "Fe", right: "Iron" },
+      ],
+    });
+  });
+
+  test("short answers keep a bar that is part of an answer", () => {
+    const item: StoredMcqItem = {
+      ...base,
+      format: "short_answer",
+      answer: "|x|",
+      accepted_answers: ["absolute value of x", "abs(x)"],
+    };
+
+    assert.equal(answerKey(item), "\\|x\\| | absolute value of x | abs(x)");
+    assert.deepEqual(parseAnswerKey("short_answer", answerKey(item)), {
+      answer: "|x|",
+      accepted_answers: ["absolute value of x", "abs(x)"],
+    });
+  });
+});
+
+describe("answer fields", () => {
+  const options = ["a", "b", "c", "d"];
+
+  test("multiple-select answers need two or three distinct indices and are sorted", () => {
+    assert.deepEqual(parseAnswerFields("multiple", { options, correct_indices: [3, 1] }, "Q"), {
+      format: "multiple",
+      options,
+      correct_indices: [1, 3],
+    });
+    assert.match(String(parseAnswerFields("multiple", { options, correct_indices: [1] }, "Q")), /2 or 3 distinct/);
+    assert.match(String(parseAnswerFields("multiple", { options, correct_indices: [1, 1] }, "Q")), /2 or 3 distinct/);
+  });
+
+  test("match pairs are trimmed and may not repeat a side", () => {
+    const pairs = [
+      { left: " Na ", right: "Sodium" },
+      { left: "K", right: "Potassium" },
+      { left: "Fe", right: "Iron" },
+    ];
+    assert.deepEqual(parseAnswerFields("match", { pairs }, "Q"), {
+      format: "match",
+      pairs: pairs.map((pair) => ({ ...pair, left: pair.left.trim() })),
+    });
+    assert.match(
+      String(parseAnswerFields("match", { pairs: [...pairs.slice(0, 2), { left: "na", right: "Natrium" }] }, "Q")),
+      /repeats an item/,
+    );
+    assert.match(String(parseAnswerFields("match", { pairs: pairs.slice(0, 2) }, "Q")), /needs 3–6 pairs/);
+  });
+
+  test("numeric and short answers are checked and normalized", () => {
+    assert.deepEqual(parseAnswerFields("numeric", { answer: 9.8, unit: " m/s² " }, "Q"), {
+      format: "numeric",
+      answer: 9.8,
+      tolerance: 0,
+      unit: "m/s²",
+    });
+    assert.match(String(parseAnswerFields("numeric", { answer: 9.8, tolerance: -1 }, "Q")), /invalid tolerance/);
+    const accepted_answers = ["carbon dioxide", " ", "carbon dioxide"];
+    assert.deepEqual(parseAnswerFields("short_answer", { answer: " CO2 ", accepted_answers }, "Q"), {
+      format: "short_answer",
+      answer: "CO2",
+      accepted_answers: ["carbon dioxide"],
+    });
+  });
+
+  test("answer keys that cannot be read say why", () => {
+    assert.equal(parseAnswerKey("multiple", "A;E"), 'Correct answers "A;E" are not letters A–D.');
+    assert.equal(parseAnswerKey("true_false", "maybe"), 'Correct answer "maybe" is not True or False.');
+    assert.match(String(parseAnswerKey("match", "Na -> Sodium | K")), /must be written as/);
+    assert.equal(parseAnswerKey("numeric", "about 10"), 'Correct answer "about 10" does not start with a number.');
+    assert.deepEqual(parseAnswerKey("numeric", "10 +/- 0.5 cm"), { answer: 10, tolerance: 0.5, unit: "cm" });
+  });
+
+  test("the readable answer uses option texts and arrows", () => {
+    assert.equal(answerText({ ...base, format: "multiple", options, correct_indices: [0, 3] }), "a; d");
+    const pairs = [
+      { left: "Na", right: "Sodium" },
+      { left: "K", right: "Potassium" },
+    ];
+    assert.equal(answerText({ ...base, format: "match", pairs }), "Na → Sodium; K → Potassium");
+  });
+});
+
+describe("question rows", () => {
+  test("correct_answer is a letter or null, and the full answer is in answer_data", () => {
+    const options = ["a", "b", "c", "d"];
+    const rows = [
+      toQuestionRow({ ...base, options, correct_index: 2 }),
+      toQuestionRow({ ...base, format: "multiple", options, correct_indices: [0, 2] }),
+      toQuestionRow({ ...base, format: "true_false", answer: false }),
+      toQuestionRow({ ...base, format: "numeric", answer: 9.8, tolerance: 0.1, unit: "m/s²" }),
+      toQuestionRow({ ...base, format: "short_answer", answer: "photosynthesis", accepted_answers: [] }),
+    ];
+
+    assert.deepEqual(
+      rows.map((row) => row.correctAnswer),
+      ["C", null, "B", null, null],
+    );
+    assert.equal(rows[0].answerData, null);
+    assert.deepEqual(rows[1].answerData, { correct_indices: [0, 2] });
+    assert.deepEqual(rows[3].answerData, { answer: 9.8, tolerance: 0.1, unit: "m/s²" });
+  });
+});
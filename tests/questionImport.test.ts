@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DEFAULT_CSV_PROFILE, type CsvExportProfile } from "../src/app/api/mcqs/csvProfiles";
+import { csvExporter } from "../src/app/api/mcqs/exporters/csv";
+import type { JobPayload, StoredMcqItem } from "../src/app/api/mcqs/jobStore";
+import { detectQuestionBankFormat, parseQuestionBank } from "../src/app/api/mcqs/questionImport";
+
+const HEADER = "Topic,Question,Option_A,Option_B,Option_C,Option_D,Correct_Letter,Explanation";
+
+describe("question bank import", () => {
+  test("CSV errors point at the line of the file the row starts on", () => {
+    const csv = [
+      HEADER,
+      "Cells,What is the unit of life?,Cell,Atom,Organ,Tissue,A,Cells are the basic unit.",
+      "",
+      'Cells,"Which organelle',
+      'makes energy?",Nucleus,Mitochondria,Ribosome,Vacuole,B,"Mitochondria release',
+      'energy."',
+      "Cells,Which part controls the cell?,Nucleus,Wall,Membrane,Vacuole,E,The nucleus does.",
+      "",
+      ",Missing topic,a,b,c,d,A,",
+    ].join("\r\n");
+
+    const bank = parseQuestionBank(csv, "csv");
+
+    assert.equal(bank.rowCount, 4);
+    assert.deepEqual(
+      bank.topics.map((topic) => topic.items.map((item) => item.stem)),
+      [["What is the unit of life?", "Which organelle\r\nmakes energy?"]],
+    );
+    assert.deepEqual(
+      bank.errors.map(({ row, topic }) => ({ row, topic })),
+      [
+        { row: 7, topic: "Cells" },
+        { row: 9, topic: null },
+      ],
+    );
+    assert.match(bank.errors[0].message, /"E" is not a letter A–D/);
+  });
+
+  test("JSON topic buckets are flattened and numbered by position", () => {
+    const json = JSON.stringify([
+      {
+        topic: "Motion",
+        items: [
+          { stem: "Speed is?", options: ["a", "b", "c", "d"], correct_index: 1, explanation: "b" },
+          { stem: "Broken", options: ["a", "b", "c", "d"], explanation: "no answer" },
+        ],
+      },
+    ]);
+
+    const bank = parseQuestionBank(json, detectQuestionBankFormat(json));
+
+    assert.deepEqual(bank.topics.map((topic) => [topic.topic, topic.items.length]), [["Motion", 1]]);
+    assert.deepEqual(bank.errors.map(({ row, topic }) => ({ row, topic })), [{ row: 2, topic: "Motion" }]);
+  });
+
+  test("a CSV export with a format column imports back to the same questions", () => {
+    const meta = { explanation: "Because.", bloom: "Apply", difficulty: "Medium", type: "application" };
+    const items: StoredMcqItem[] = [
+      { ...meta, stem: "Pick one", options: ["a", "b", "c", "d"], correct_index: 3 },
+      { ...meta, format: "multiple", stem: "Pick two", options: ["a", "b", "c", "d"], correct_indices: [0, 2] },
+      { ...meta, format: "true_false", stem: "Water boils at 100 °C at sea level.", answer: true },
+      {
+        ...meta,
+        format: "match",
+        stem: "Match",
+        pairs: [
+          { left: "CH4 -> CO2", right: "Combustion" },
+          { left: "H2O", right: "Water | steam" },
+          { left: "NaCl", right: "Salt" },
+        ],
+      },
+      { ...meta, format: "numeric", stem: "g?", answer: 9.8, tolerance: 0.1, unit: "m/s²" },
+      {
+        ...meta,
+        format: "short_answer",
+        stem: "Gas we breathe out?",
+        answer: "CO2",
+        accepted_answers: ["carbon dioxide"],
+      },
+    ].map((item, index) => ({ ...item, id: `00000000-0000-4000-8000-00000000000${index}` }) as StoredMcqItem);
+
+    const profile: CsvExportProfile = {
+      ...DEFAULT_CSV_PROFILE,
+      name: "roundtrip",
+      delimiter: ";",
+      columns: [
+        ...DEFAULT_CSV_PROFILE.columns,
+        { field: "format", header: "Format" },
+        { field: "bloom", header: "Bloom" },
+        { field: "difficulty", header: "Difficulty" },
+        { field: "type", header: "Type" },
+        { field: "question_id", header: "Question ID" },
+      ],
+    };
+    const payload = { chapterNumber: 1, chapterTitle: "Matter" } as JobPayload;
+    const file = csvExporter.export({
+      jobId: "job-1",
+      payload,
+      topics: [{ topic: "Matter", items }],
+      basename: "matter",
+      csvProfile: profile,
+    });
+
+    const bank = parseQuestionBank(String(file.body), "csv");
+
+    assert.deepEqual(bank.errors, []);
+    // Unset optional fields come back as undefined keys, which JSON drops.
+    assert.deepEqual(JSON.parse(JSON.stringify(bank.topics)), [{ topic: "Matter", items }]);
+  });
+
+  test("question ids that are not UUIDs are replaced", () => {
+    const bank = parseQuestionBank(`${HEADER},ID\nCells,Q?,a,b,c,d,A,x,legacy-42`, "csv");
+
+    assert.match(bank.topics[0].items[0].id ?? "", /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/);
+  });
+
+  test("the import route rejects topic names that differ only in case", async () => {
+    const importRoute = await import("../src/app/api/mcqs/import/route");
+    const csv = [
+      HEADER,
+      "Cells,Q1?,a,b,c,d,A,x",
+      "cells,Q2?,a,b,c,d,B,y",
+    ].join("\n");
+
+    const response = await importRoute.POST(
+      new Request("http://localhost/api/mcqs/import", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          content: csv,
+          chapterNumber: 1,
+          chapterTitle: "Cells",
+          classLevel: 8,
+          subject: { id: 1, name: "Science" },
+          syllabus: { id: 1, name: "CBSE" },
+        }),
+      }),
+    );
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Topic "cells" is listed more than once.' });
+  });
+});
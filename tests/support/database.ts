@@ -0,0 +1,64 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+
+/**
+ * The tables the app expects to exist already (the `mcq_*` tables create themselves
+ * on first use), in the shape the persistence code writes.
+ */
+const BASE_SCHEMA = `
+  CREATE TABLE chapters (
+    id SERIAL PRIMARY KEY,
+    subject_id INTEGER NOT NULL,
+    class TEXT NOT NULL,
+    chapter_name TEXT NOT NULL,
+    syllabus TEXT,
+    datecreated TIMESTAMPTZ
+  );
+  CREATE TABLE topics (
+    id SERIAL PRIMARY KEY,
+    subject_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    class TEXT NOT NULL,
+    chapter_id INTEGER REFERENCES chapters (id),
+    UNIQUE (subject_id, name, class)
+  );
+  CREATE TABLE questions (
+    id SERIAL PRIMARY KEY,
+    topic_id INTEGER NOT NULL REFERENCES topics (id),
+    class TEXT NOT NULL,
+    question_text TEXT NOT NULL,
+    option_a TEXT,
+    option_b TEXT,
+    option_c TEXT,
+    option_d TEXT,
+    correct_answer TEXT,
+    explanation TEXT,
+    image_url TEXT
+  );
+`;
+
+export interface TestDatabase {
+  /** Connection string for `DATABASE_URL`. */
+  url: string;
+  query<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  stop(): Promise<void>;
+}
+
+/** An in-process Postgres (PGlite) served on a local port, so `pg` connects to it unchanged. */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const db = await PGlite.create();
+  await db.exec(BASE_SCHEMA);
+  const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 20 });
+  await server.start();
+
+  return {
+    url: `postgresql://postgres@${server.getServerConn()}/postgres?sslmode=disable`,
+    async query<T>(sql: string, params: unknown[] = []) {
+      return (await db.query<T>(sql, params)).rows;
+    },
+    async stop() {
+      await server.stop();
+      await db.close();
+    },
+  };
+}
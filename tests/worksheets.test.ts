@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { PDFDocument } from "pdf-lib";
+import type { JobPayload, StoredMcqItem, StoredTopicMcqs } from "../src/app/api/mcqs/jobStore";
+import { buildWorksheet, renderWorksheetHtml, renderWorksheetPdf } from "../src/app/api/mcqs/worksheets";
+
+const payload: JobPayload = {
+  chapterNumber: 2,
+  chapterTitle: "Acids & Bases",
+  topics: [],
+  vectorStoreId: "vs_test",
+  classLevel: 7,
+  subject: { id: 1, name: "Science" },
+  syllabus: { id: 1, name: "CBSE" },
+};
+
+function mcq(stem: string, difficulty: string, correct_index = 0): StoredMcqItem {
+  return {
+    stem,
+    options: ["Red", "Blue", "Green", "Yellow"],
+    correct_index,
+    explanation: `Because of ${stem}.`,
+    bloom: "Remember",
+    difficulty,
+    type: "recall",
+  };
+}
+
+const match: StoredMcqItem = {
+  stem: "Match the indicator to its colour in acid",
+  format: "match",
+  pairs: [
+    { left: "Litmus", right: "Red" },
+    { left: "Turmeric", right: "Orange <none>" },
+    { left: "China rose", right: "Magenta" },
+  ],
+  explanation: "Indicators change colour.",
+  bloom: "Remember",
+  difficulty: "Medium",
+  type: "recall",
+};
+
+const topics: StoredTopicMcqs[] = [
+  { topic: "Indicators", items: [mcq("Litmus in acid turns?", "Easy"), match, mcq("Hard one", "Hard", 3)] },
+  { topic: "Neutralisation", items: [mcq("Acid + base gives?", "Medium", 2), mcq("Sting relief?", "Easy", 1)] },
+];
+
+describe("worksheets", () => {
+  test("topic order keeps sections and numbers only the selected difficulties", () => {
+    const worksheet = buildWorksheet(payload, topics, { order: "topic", difficulties: ["easy", "Medium"], seed: "x" });
+
+    assert.equal(worksheet.title, "Chapter 2: Acids & Bases");
+    assert.equal(worksheet.questionCount, 4);
+    assert.deepEqual(
+      worksheet.sections.map((section) => [section.title, section.questions.map((question) => question.number)]),
+      [
+        ["Indicators", [1, 2]],
+        ["Neutralisation", [3, 4]],
+      ],
+    );
+  });
+
+  test("a shuffled order is the same for the same seed", () => {
+    const order = (seed: string) =>
+      buildWorksheet(payload, topics, { order: "shuffled", difficulties: [], seed })
+        .sections.flatMap((section) => section.questions.map((question) => question.item.stem));
+
+    assert.deepEqual(order("class-7a"), order("class-7a"));
+    assert.deepEqual([...order("class-7a")].sort(), topics.flatMap((topic) => topic.items.map((item) => item.stem)).sort());
+    assert.notDeepEqual(order("class-7a"), order("class-7b"));
+  });
+
+  test("HTML prints match answers in a fixed order and keys them by letter", () => {
+    const worksheet = buildWorksheet(payload, [topics[0]], { order: "topic", difficulties: [], seed: "x" });
+    const paper = renderWorksheetHtml(worksheet, "paper");
+    const both = renderWorksheetHtml(worksheet, "both");
+
+    assert.ok(paper.includes("<title>Chapter 2: Acids &amp; Bases</title>"));
+    assert.ok(
+      paper.includes(
+        '<ol class="prompts"><li>Litmus</li><li>Turmeric</li><li>China rose</li></ol>' +
+          '<ol class="options"><li>Magenta</li><li>Orange &lt;none&gt;</li><li>Red</li></ol>',
+      ),
+    );
+    assert.ok(!paper.includes('<section class="answer-key">'));
+    assert.ok(both.includes("<tr><td>2</td><td>1–C, 2–B, 3–A</td>"));
+    assert.ok(both.includes("<tr><td>3</td><td>D</td>"));
+  });
+
+  test("the PDF puts the answer key on its own page", async () => {
+    const worksheet = buildWorksheet(payload, topics, { order: "topic", difficulties: [], seed: "x" });
+    const paper = await PDFDocument.load(await renderWorksheetPdf(worksheet, "paper"));
+    const both = await PDFDocument.load(await renderWorksheetPdf(worksheet, "both"));
+
+    assert.equal(paper.getTitle(), "Chapter 2: Acids & Bases");
+    assert.equal(both.getPageCount(), paper.getPageCount() + 1);
+  });
+});